@@ -33,6 +33,26 @@ const agentSettingsSchema = z.discriminatedUnion("agent", [
   nonPiAgentSettingsSchema,
 ]);
 
+const reviewerSettingsSchema = z.union([agentSettingsSchema, z.array(agentSettingsSchema).min(1)]);
+
+const agentOverrideSchema = z
+  .object({
+    agent: z.enum([...NON_PI_AGENTS, "pi"]).optional(),
+    provider: z.string().min(1).nullable().optional(),
+    model: z.string().nullable().optional(),
+    reasoning: reasoningSchema.nullable().optional(),
+  })
+  .strict();
+
+const reviewProfileSchema = z
+  .object({
+    reviewer: z.union([agentOverrideSchema, z.array(agentSettingsSchema).min(1)]).optional(),
+    promptFile: z.string().min(1).optional(),
+    maxIterations: z.int().positive().optional(),
+    customInstructions: z.string().min(1).optional(),
+  })
+  .strict();
+
 const defaultReviewSchema = z.discriminatedUnion("type", [
   z.object({ type: z.literal("uncommitted") }).strict(),
   z.object({ type: z.literal("base"), branch: z.string().trim().min(1) }).strict(),
@@ -56,17 +76,58 @@ const notificationsSchema = z
   })
   .strict();
 
+const reviewSchema = z
+  .object({
+    dedupeThreshold: z.number().min(0).max(1).optional(),
+    minConfidence: z.number().min(0).max(1).optional(),
+    minConfidenceByPriority: z
+      .object({
+        P0: z.number().min(0).max(1).optional(),
+        P1: z.number().min(0).max(1).optional(),
+        P2: z.number().min(0).max(1).optional(),
+        P3: z.number().min(0).max(1).optional(),
+      })
+      .strict()
+      .optional(),
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+    shardThreshold: z.int().positive().optional(),
+    maxShards: z.int().positive().optional(),
+    fixConcurrency: z.int().positive().optional(),
+  })
+  .strict();
+
+const verifySchema = z
+  .object({
+    commands: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const budgetSchema = z
+  .object({
+    maxCostUsd: z.number().positive().optional(),
+    maxTokens: z.int().positive().optional(),
+    maxWallTimeMs: z.int().positive().optional(),
+  })
+  .strict();
+
 const configSchema = z
   .object({
     $schema: z.literal(CONFIG_SCHEMA_URI),
     version: z.literal(CONFIG_VERSION),
-    reviewer: agentSettingsSchema,
+    reviewer: reviewerSettingsSchema,
     fixer: agentSettingsSchema,
     maxIterations: z.int().positive(),
     iterationTimeout: z.int().positive(),
     retry: retrySchema.optional(),
     defaultReview: defaultReviewSchema,
     notifications: notificationsSchema.optional(),
+    review: reviewSchema.optional(),
+    verify: verifySchema.optional(),
+    budget: budgetSchema.optional(),
+    profiles: z
+      .record(z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_-]*$/), reviewProfileSchema)
+      .optional(),
   })
   .strict();
 
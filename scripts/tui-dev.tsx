@@ -84,6 +84,7 @@ const mockFindings: Finding[] = [
     body: "The variable tempData is declared but never used.",
     confidence_score: 0.95,
     priority: 0,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/Users/dev/project/src/utils/helpers.ts",
       line_range: { start: 42, end: 42 },
@@ -94,6 +95,7 @@ const mockFindings: Finding[] = [
     body: "The fetchData function does not handle rejection cases.",
     confidence_score: 0.88,
     priority: 1,
+    category: "reliability",
     code_location: {
       absolute_file_path: "/Users/dev/project/src/api/client.ts",
       line_range: { start: 78, end: 85 },
@@ -104,6 +106,7 @@ const mockFindings: Finding[] = [
     body: "user.profile may be null when accessed.",
     confidence_score: 0.82,
     priority: 1,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/Users/dev/project/src/components/UserCard.tsx",
       line_range: { start: 23, end: 25 },
@@ -114,6 +117,7 @@ const mockFindings: Finding[] = [
     body: "Debug logging should be removed before deployment.",
     confidence_score: 0.99,
     priority: 2,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/Users/dev/project/src/services/auth.ts",
       line_range: { start: 156, end: 156 },
@@ -124,6 +128,7 @@ const mockFindings: Finding[] = [
     body: "Nested property access could be simplified.",
     confidence_score: 0.75,
     priority: 3,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/Users/dev/project/src/lib/parser.ts",
       line_range: { start: 89, end: 92 },
@@ -261,6 +266,14 @@ const mockLastSessionStats: SessionStats = {
   totalFixes: 5,
   totalSkipped: 1,
   priorityCounts: { P0: 1, P1: 2, P2: 1, P3: 1 },
+  categoryCounts: {
+    correctness: 0,
+    security: 0,
+    performance: 0,
+    reliability: 0,
+    maintainability: 0,
+    tests: 0,
+  },
   iterations: 2,
   totalDuration: 180000,
   entries: [],
@@ -280,6 +293,14 @@ const mockProjectStats: ProjectStats = {
   totalFixes: 23,
   totalSkipped: 4,
   priorityCounts: { P0: 5, P1: 10, P2: 6, P3: 2 },
+  categoryCounts: {
+    correctness: 0,
+    security: 0,
+    performance: 0,
+    reliability: 0,
+    maintainability: 0,
+    tests: 0,
+  },
   sessionCount: 8,
   averageIterations: 2.5,
   fixRate: 0.85,
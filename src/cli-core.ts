@@ -1,5 +1,27 @@
 import { type CommandDef, formatCommandHelp, formatMainHelp } from "./lib/cli-parser";
 
+const BUDGET_OPTIONS: CommandDef["options"] = [
+  {
+    name: "max-cost",
+    type: "number",
+    placeholder: "USD",
+    description: "Session budget for reported agent cost in USD (overrides budget.maxCostUsd)",
+  },
+  {
+    name: "max-tokens",
+    type: "number",
+    placeholder: "N",
+    description:
+      "Session budget for agent input, output, and cache tokens (overrides budget.maxTokens)",
+  },
+  {
+    name: "max-wall-time",
+    type: "number",
+    placeholder: "MS",
+    description: "Session budget for wall time in milliseconds (overrides budget.maxWallTimeMs)",
+  },
+];
+
 const RUN_REVIEW_OPTIONS: CommandDef["options"] = [
   { name: "max", alias: "m", type: "number", description: "Max iterations" },
   {
@@ -19,6 +41,32 @@ const RUN_REVIEW_OPTIONS: CommandDef["options"] = [
     placeholder: "P0,P1",
     description: "Priority filter for --auto using comma-separated values",
   },
+  {
+    name: "path",
+    type: "string",
+    placeholder: "GLOB",
+    repeatable: true,
+    description: "Limit the review to files matching the glob (repeatable)",
+  },
+  {
+    name: "exclude",
+    type: "string",
+    placeholder: "GLOB",
+    repeatable: true,
+    description: "Skip files matching the glob during review (repeatable)",
+  },
+  {
+    name: "profile",
+    type: "string",
+    placeholder: "NAME",
+    description: "Apply a named review profile from config",
+  },
+  {
+    name: "each-commit",
+    type: "boolean",
+    description: "Review every commit of --base or --range separately",
+  },
+  ...BUDGET_OPTIONS,
 ];
 
 const FIX_SELECTION_OPTIONS: CommandDef["options"] = [
@@ -45,6 +93,42 @@ const FIX_SELECTION_OPTIONS: CommandDef["options"] = [
     placeholder: "F001",
     description: "Select findings by ID (repeatable)",
   },
+  {
+    name: "where",
+    type: "string",
+    placeholder: "EXPR",
+    description:
+      "Select findings matching an expression over priority, path, confidence, title, state, and category",
+  },
+  {
+    name: "min-agreement",
+    type: "number",
+    placeholder: "N",
+    description: "Only select findings reported by at least N ensemble reviewers",
+  },
+  {
+    name: "category",
+    type: "string",
+    placeholder: "CATEGORY",
+    description: "Only select findings in these categories (comma-separated values)",
+  },
+  {
+    name: "verify",
+    type: "boolean",
+    description: "Review the fixer's diff afterwards and record any regressions it introduces",
+  },
+  {
+    name: "verify-rounds",
+    type: "number",
+    placeholder: "N",
+    description: "Verify the fixer's diff and send regressions back to the fixer up to N times",
+  },
+  {
+    name: "parallel",
+    type: "boolean",
+    description: "Fix each file's findings with its own fixer in a separate worktree",
+  },
+  ...BUDGET_OPTIONS,
 ];
 
 export const COMMANDS: CommandDef[] = [
@@ -132,6 +216,24 @@ export const COMMANDS: CommandDef[] = [
         placeholder: "SHA",
         description: "Review the changes introduced by a commit",
       },
+      {
+        name: "range",
+        type: "string",
+        placeholder: "A..B",
+        description: "Review the changes in a commit range",
+      },
+      {
+        name: "patch",
+        type: "string",
+        placeholder: "FILE",
+        description: "Review a patch file without applying it to the working tree",
+      },
+      {
+        name: "stash",
+        type: "string",
+        placeholder: "REF",
+        description: "Review a stash entry without applying it to the working tree",
+      },
       {
         name: "sound",
         type: "boolean",
@@ -152,7 +254,14 @@ export const COMMANDS: CommandDef[] = [
     examples: [
       "rr run",
       "rr run --base main",
+      "rr run --range main~3..main",
+      "rr run --base main --each-commit",
+      "rr run --patch changes.diff",
+      "rr run --stash stash@{0}",
       "rr run --auto --priority P0,P1",
+      "rr run --path 'src/lib/**' --exclude '**/*.snap'",
+      "rr run --profile security",
+      "rr run --max-cost 5 --max-wall-time 1800000",
       'rr run --base main "focus on security"',
       "rr fix --session session-123 --priority P0,P1",
     ],
@@ -165,6 +274,12 @@ export const COMMANDS: CommandDef[] = [
       "rr fix --session session-123 --all",
       "rr fix --session session-123 --priority P0,P1",
       "rr fix --session session-123 --id F001 --id F003",
+      "rr fix --session session-123 --min-agreement 2",
+      "rr fix --session session-123 --category security",
+      "rr fix --session session-123 --all --verify-rounds 2",
+      "rr fix --session session-123 --all --parallel",
+      "rr fix --session session-123 --all --max-cost 2",
+      "rr fix --session session-123 --where 'priority<=P1 && path~\"src/auth/**\"'",
     ],
   },
   {
@@ -177,8 +292,68 @@ export const COMMANDS: CommandDef[] = [
         type: "string",
         description: "Apply a specific pending handoff in the current project",
       },
+      {
+        name: "as-branch",
+        type: "string",
+        description: "Commit the handoff onto a new branch instead of the working tree",
+      },
+      {
+        name: "commit",
+        type: "boolean",
+        description: "Commit the handoff on top of HEAD instead of the working tree",
+      },
+      {
+        name: "select",
+        type: "boolean",
+        description: "Choose which hunks of the handoff to apply",
+      },
+      {
+        name: "rebase",
+        type: "boolean",
+        description:
+          "Replay the handoff onto the current working tree as a new handoff, resolving conflicts with the fixer",
+      },
+      {
+        name: "revert",
+        type: "string",
+        placeholder: "HANDOFF",
+        description: "Back a previously applied handoff out of the working tree",
+      },
+    ],
+    examples: [
+      "rr apply",
+      "rr apply --session session-123",
+      "rr apply --session session-123 --as-branch rr/fix-session-123",
+      "rr apply --commit",
+      "rr apply --select",
+      "rr apply --rebase --session session-123",
+      "rr apply --revert session-123",
+    ],
+  },
+  {
+    name: "handoff",
+    description: "Inspect a pending review handoff",
+    positional: [
+      { name: "subcommand", description: "show = print the handoff diffstat, diff, and findings" },
+    ],
+    options: [
+      {
+        name: "session",
+        alias: "s",
+        type: "string",
+        description: "Show a specific pending handoff in the current project",
+      },
+      {
+        name: "json",
+        type: "boolean",
+        description: "Print the handoff, per-file stats, and patch as JSON",
+      },
+    ],
+    examples: [
+      "rr handoff show",
+      "rr handoff show --session session-123",
+      "rr handoff show --json",
     ],
-    examples: ["rr apply", "rr apply --session session-123"],
   },
   {
     name: "list",
@@ -221,10 +396,159 @@ export const COMMANDS: CommandDef[] = [
       {
         name: "global",
         type: "boolean",
-        description: "Show all sessions across all projects (requires --json)",
+        description: "Show all sessions across all projects (requires --json or --format sarif)",
       },
+      {
+        name: "format",
+        type: "string",
+        placeholder: "text|json|sarif",
+        description: "Output format (sarif exports persisted findings as SARIF 2.1.0)",
+      },
+    ],
+    examples: [
+      "rr log",
+      "rr log -n 5",
+      "rr log --json",
+      "rr log --json --global",
+      "rr log --format sarif > findings.sarif",
+    ],
+  },
+  {
+    name: "suppress",
+    description: "Suppress a persisted finding in future reviews of this repository",
+    options: [
+      {
+        name: "session",
+        alias: "s",
+        type: "string",
+        description: "Session ID that reported the finding",
+        required: true,
+      },
+      {
+        name: "id",
+        type: "string",
+        placeholder: "FINDING_ID",
+        description: "Finding ID to suppress",
+        required: true,
+      },
+      {
+        name: "reason",
+        type: "string",
+        placeholder: "TEXT",
+        description: "Why the finding should be suppressed",
+        required: true,
+      },
+    ],
+    examples: ['rr suppress --session session-123 --id F003 --reason "intentional fallback"'],
+  },
+  {
+    name: "triage",
+    description: "Record a triage decision for a persisted finding",
+    positional: [{ name: "finding", description: "Finding ID to triage", required: true }],
+    options: [
+      {
+        name: "session",
+        alias: "s",
+        type: "string",
+        description: "Session ID that reported the finding",
+        required: true,
+      },
+      {
+        name: "open",
+        type: "boolean",
+        description: "Reopen the finding so bulk fix selectors pick it again",
+      },
+      {
+        name: "accepted",
+        type: "string",
+        placeholder: "REASON",
+        description: "Accept the finding as-is",
+      },
+      {
+        name: "wont-fix",
+        type: "string",
+        placeholder: "REASON",
+        description: "Mark the finding as valid but not worth fixing",
+      },
+      {
+        name: "false-positive",
+        type: "string",
+        placeholder: "REASON",
+        description: "Mark the finding as a false positive",
+      },
+      {
+        name: "duplicate-of",
+        type: "string",
+        placeholder: "FINDING_ID",
+        description: "Mark the finding as a duplicate of another finding in the session",
+      },
+      {
+        name: "reason",
+        type: "string",
+        placeholder: "TEXT",
+        description: "Optional reason for --open or --duplicate-of",
+      },
+    ],
+    examples: [
+      'rr triage --session session-123 F003 --false-positive "config is validated upstream"',
+      "rr triage --session session-123 F004 --duplicate-of F001",
+      "rr triage --session session-123 F003 --open",
+    ],
+  },
+  {
+    name: "suggest",
+    description: "Apply a reviewer suggestion block from a persisted finding without a fixer",
+    positional: [
+      { name: "subcommand", description: "apply = apply the finding's suggestion block" },
+    ],
+    options: [
+      {
+        name: "session",
+        alias: "s",
+        type: "string",
+        description: "Session ID that reported the finding",
+        required: true,
+      },
+      {
+        name: "id",
+        type: "string",
+        placeholder: "FINDING_ID",
+        description: "Finding whose suggestion block should be applied",
+        required: true,
+      },
+    ],
+    examples: ["rr suggest apply --session session-123 --id F004"],
+  },
+  {
+    name: "export",
+    description: "Export persisted findings from a review session",
+    options: [
+      {
+        name: "session",
+        alias: "s",
+        type: "string",
+        description: "Session ID whose persisted findings should be exported",
+      },
+      {
+        name: "format",
+        type: "string",
+        placeholder: "sarif|json",
+        description: "Export format",
+        default: "sarif",
+      },
+      {
+        name: "output",
+        alias: "o",
+        type: "string",
+        placeholder: "FILE",
+        description: "Write the export to a file instead of stdout",
+      },
+    ],
+    examples: [
+      "rr export --session session-123 --format sarif",
+      "rr export --session session-123 --format sarif --output rr.sarif",
+      "rr export --session session-123 --format json",
     ],
-    examples: ["rr log", "rr log -n 5", "rr log --json", "rr log --json --global"],
   },
   {
     name: "prune",
@@ -6,7 +6,9 @@ import { CONSOLE_LOG, PROCESS_EXIT } from "./cli-io";
 import { runApply } from "./commands/apply";
 import { runConfig } from "./commands/config";
 import { runDoctor } from "./commands/doctor";
+import { runExport } from "./commands/export";
 import { runFix, runFixForeground } from "./commands/fix";
+import { runHandoff } from "./commands/handoff";
 import { runInit } from "./commands/init";
 import { runList } from "./commands/list";
 import { runLog } from "./commands/log";
@@ -14,6 +16,9 @@ import { runPrune } from "./commands/prune";
 import { runForeground, startReview } from "./commands/run";
 import { runStatus } from "./commands/status";
 import { runStop } from "./commands/stop";
+import { runSuggest } from "./commands/suggest";
+import { runSuppress } from "./commands/suppress";
+import { runTriage } from "./commands/triage";
 import { runUpdate } from "./commands/update";
 import { CliError, type CommandDef, parseCommand } from "./lib/cli-parser";
 
@@ -41,10 +46,15 @@ export interface CliDeps {
   runFix: typeof runFix;
   runFixForeground: typeof runFixForeground;
   runApply: typeof runApply;
+  runHandoff: typeof runHandoff;
   runForeground: typeof runForeground;
   runStatus: typeof runStatus;
   runStop: typeof runStop;
   runLog: typeof runLog;
+  runExport: typeof runExport;
+  runSuppress: typeof runSuppress;
+  runTriage: typeof runTriage;
+  runSuggest: typeof runSuggest;
   runPrune: typeof runPrune;
   runDoctor: typeof runDoctor;
   runList: typeof runList;
@@ -74,10 +84,15 @@ const DEFAULT_CLI_DEPS: CliDeps = {
   runFix,
   runFixForeground,
   runApply,
+  runHandoff,
   runForeground,
   runStatus,
   runStop,
   runLog,
+  runExport,
+  runSuppress,
+  runTriage,
+  runSuggest,
   runPrune,
   runDoctor,
   runList,
@@ -186,6 +201,10 @@ export async function runCli(
         await cliDeps.runApply(commandArgs);
         break;
 
+      case "handoff":
+        await cliDeps.runHandoff(commandArgs);
+        break;
+
       case "_run-foreground":
         await cliDeps.runForeground(commandArgs);
         break;
@@ -202,6 +221,22 @@ export async function runCli(
         await cliDeps.runLog(commandArgs);
         break;
 
+      case "export":
+        await cliDeps.runExport(commandArgs);
+        break;
+
+      case "suppress":
+        await cliDeps.runSuppress(commandArgs);
+        break;
+
+      case "triage":
+        await cliDeps.runTriage(commandArgs);
+        break;
+
+      case "suggest":
+        await cliDeps.runSuggest(commandArgs);
+        break;
+
       case "prune":
         await cliDeps.runPrune(commandArgs);
         break;
@@ -1,4 +1,7 @@
-import { resolvePendingHandoffSelection } from "@/commands/handoff-selection";
+import {
+  resolveAppliedHandoffSelection,
+  resolvePendingHandoffSelection,
+} from "@/commands/handoff-selection";
 import {
   createInteractiveCommandDeps,
   createPromptDeps,
@@ -6,12 +9,37 @@ import {
   type PromptDeps,
 } from "@/commands/interactive-deps";
 import { parseCommand } from "@/lib/cli-parser";
-import { applyPendingHandoff, listProjectPendingHandoffs } from "@/lib/handoff";
+import { CONFIG_DIR, loadEffectiveConfig } from "@/lib/config";
+import {
+  applyPendingHandoff,
+  applyPendingHandoffSelection,
+  commitPendingHandoff,
+  listProjectAppliedHandoffs,
+  listProjectPendingHandoffs,
+  type PendingHandoffArtifact,
+  rebasePendingHandoff,
+  revertAppliedHandoff,
+} from "@/lib/handoff";
+import {
+  buildHandoffPatch,
+  findChangeFindings,
+  type HandoffPatchChange,
+  listHandoffPatchChanges,
+  parseHandoffPatch,
+} from "@/lib/handoff-patch";
 import { appendLog } from "@/lib/logger";
+import { getResolvedFindings, loadFindingsArtifact } from "@/lib/review-workflow/findings/artifact";
+import type { FindingsArtifact, StoredFinding } from "@/lib/review-workflow/findings/types";
+import { resolveHandoffConflicts } from "@/lib/review-workflow/remediation/resolve-handoff-conflicts";
 import type { LogEntry } from "@/lib/types";
 
 interface ApplyOptions {
   session?: string;
+  "as-branch"?: string;
+  commit?: boolean;
+  select?: boolean;
+  rebase?: boolean;
+  revert?: string;
 }
 
 type ApplyDeps = InteractiveCommandDeps &
@@ -19,6 +47,15 @@ type ApplyDeps = InteractiveCommandDeps &
     cwd: () => string;
     listProjectPendingHandoffs: typeof listProjectPendingHandoffs;
     applyPendingHandoff: typeof applyPendingHandoff;
+    applyPendingHandoffSelection: typeof applyPendingHandoffSelection;
+    readHandoffPatch: (patchPath: string) => Promise<string>;
+    commitPendingHandoff: typeof commitPendingHandoff;
+    loadFindingsArtifact: typeof loadFindingsArtifact;
+    rebasePendingHandoff: typeof rebasePendingHandoff;
+    resolveHandoffConflicts: typeof resolveHandoffConflicts;
+    loadConfig: typeof loadEffectiveConfig;
+    listProjectAppliedHandoffs: typeof listProjectAppliedHandoffs;
+    revertAppliedHandoff: typeof revertAppliedHandoff;
     appendLog: (logPath: string, entry: LogEntry) => Promise<void>;
   };
 
@@ -28,10 +65,42 @@ const DEFAULT_APPLY_DEPS: ApplyDeps = {
   cwd: () => process.cwd(),
   listProjectPendingHandoffs,
   applyPendingHandoff,
+  applyPendingHandoffSelection,
+  readHandoffPatch: (patchPath) => Bun.file(patchPath).text(),
+  commitPendingHandoff,
+  loadFindingsArtifact,
+  rebasePendingHandoff,
+  resolveHandoffConflicts,
+  loadConfig: loadEffectiveConfig,
+  listProjectAppliedHandoffs,
+  revertAppliedHandoff,
   appendLog,
 };
 
 const NO_PENDING_HANDOFFS_MESSAGE = "No pending review handoffs for current working directory.";
+const MAX_CHANGE_PREVIEW_LINES = 40;
+
+/** Commit message for `--commit`/`--as-branch`, listing the findings the session resolved. */
+function formatHandoffCommitMessage(
+  handoff: Pick<PendingHandoffArtifact, "sessionId">,
+  findingsArtifact: FindingsArtifact | null
+): string {
+  const resolvedFindings = findingsArtifact ? getResolvedFindings(findingsArtifact) : [];
+  const sessionLine = `Review session: ${handoff.sessionId}`;
+
+  if (resolvedFindings.length === 0) {
+    return `rr: apply review fixes\n\n${sessionLine}\n`;
+  }
+
+  return [
+    `rr: fix review findings ${resolvedFindings.map((finding) => finding.id).join(", ")}`,
+    "",
+    ...resolvedFindings.map((finding) => `- ${finding.id} [${finding.priority}] ${finding.title}`),
+    "",
+    sessionLine,
+    "",
+  ].join("\n");
+}
 
 export async function runApply(args: string[], deps: Partial<ApplyDeps> = {}): Promise<void> {
   const applyDeps = { ...DEFAULT_APPLY_DEPS, ...deps };
@@ -52,7 +121,47 @@ export async function runApply(args: string[], deps: Partial<ApplyDeps> = {}): P
     return;
   }
 
+  const branch = parsed["as-branch"]?.trim();
+  if (parsed["as-branch"] !== undefined && !branch) {
+    applyDeps.logError("Branch name cannot be empty.");
+    applyDeps.exit(1);
+    return;
+  }
+  if (branch && parsed.commit) {
+    applyDeps.logError("Use either --as-branch or --commit, not both.");
+    applyDeps.exit(1);
+    return;
+  }
+  if (parsed.select && (branch || parsed.commit)) {
+    applyDeps.logError("--select cannot be combined with --as-branch or --commit.");
+    applyDeps.exit(1);
+    return;
+  }
+  if (
+    parsed.revert !== undefined &&
+    (parsed.session !== undefined || branch || parsed.commit || parsed.select || parsed.rebase)
+  ) {
+    applyDeps.logError("--revert cannot be combined with other rr apply options.");
+    applyDeps.exit(1);
+    return;
+  }
+  if (parsed.rebase && (branch || parsed.commit || parsed.select)) {
+    applyDeps.logError("--rebase cannot be combined with --as-branch, --commit, or --select.");
+    applyDeps.exit(1);
+    return;
+  }
+  if (parsed.select && !applyDeps.isTTY()) {
+    applyDeps.logError("rr apply --select needs an interactive terminal.");
+    applyDeps.exit(1);
+    return;
+  }
+
   const projectPath = applyDeps.cwd();
+  if (parsed.revert !== undefined) {
+    await revertHandoff(applyDeps, projectPath, parsed.revert);
+    return;
+  }
+
   const handoffs = await applyDeps.listProjectPendingHandoffs(undefined, projectPath);
   if (handoffs.length === 0) {
     applyDeps.logInfo(NO_PENDING_HANDOFFS_MESSAGE);
@@ -62,7 +171,7 @@ export async function runApply(args: string[], deps: Partial<ApplyDeps> = {}): P
   const selection = await resolvePendingHandoffSelection({
     handoffs,
     selector: parsed.session,
-    action: "apply",
+    action: parsed.rebase ? "rebase" : "apply",
     isTTY: applyDeps.isTTY(),
     select: applyDeps.select,
     isCancel: applyDeps.isCancel,
@@ -76,8 +185,23 @@ export async function runApply(args: string[], deps: Partial<ApplyDeps> = {}): P
     return;
   }
 
+  if (parsed.rebase) {
+    applyDeps.logStep(`Rebasing handoff: ${selection.handoff.handoffId}`);
+    await rebaseHandoff(applyDeps, projectPath, selection.handoff);
+    return;
+  }
+
   applyDeps.logStep(`Applying handoff: ${selection.handoff.handoffId}`);
 
+  if (branch || parsed.commit) {
+    await commitHandoff(applyDeps, projectPath, selection.handoff, branch);
+    return;
+  }
+
+  if (parsed.select && !(await applySelectedChanges(applyDeps, projectPath, selection.handoff))) {
+    return;
+  }
+
   try {
     const artifact = await applyDeps.applyPendingHandoff(
       undefined,
@@ -99,4 +223,251 @@ export async function runApply(args: string[], deps: Partial<ApplyDeps> = {}): P
   }
 }
 
+function formatChangePreview(change: HandoffPatchChange, position: string): string {
+  const hunk = change.hunkIndex === undefined ? undefined : change.file.hunks[change.hunkIndex];
+  if (!hunk) {
+    return `${change.file.path} (${position}, whole file)`;
+  }
+
+  const lines = [hunk.header, ...hunk.lines];
+  const preview = lines.slice(0, MAX_CHANGE_PREVIEW_LINES);
+  if (lines.length > preview.length) {
+    preview.push(`... ${lines.length - preview.length} more lines`);
+  }
+  return [`${change.file.path} (${position})`, ...preview].join("\n");
+}
+
+function formatChangeFindings(findings: StoredFinding[]): string {
+  return findings.length > 0
+    ? `Related findings: ${findings.map((finding) => `${finding.id} ${finding.title}`).join("; ")}`
+    : "No related findings";
+}
+
+/**
+ * Walks the handoff patch hunk by hunk and applies only the kept ones. Returns true when every
+ * change was kept, leaving the caller to apply the whole handoff.
+ */
+async function applySelectedChanges(
+  applyDeps: ApplyDeps,
+  projectPath: string,
+  handoff: PendingHandoffArtifact
+): Promise<boolean> {
+  let changes: HandoffPatchChange[];
+  let findings: StoredFinding[];
+  try {
+    changes = listHandoffPatchChanges(
+      parseHandoffPatch(await applyDeps.readHandoffPatch(handoff.patchPath))
+    );
+    const findingsArtifact = await applyDeps
+      .loadFindingsArtifact(CONFIG_DIR, handoff.projectPath, handoff.sessionId)
+      .catch(() => null);
+    const fixedIds = new Set(findingsArtifact?.fixResults?.map((result) => result.findingId));
+    findings = (findingsArtifact?.findings ?? []).filter(
+      (finding) => fixedIds.size === 0 || fixedIds.has(finding.id)
+    );
+  } catch (error) {
+    applyDeps.logError(`${error}`);
+    applyDeps.exit(1);
+    return false;
+  }
+
+  const kept: HandoffPatchChange[] = [];
+  for (const [index, change] of changes.entries()) {
+    applyDeps.logMessage(formatChangePreview(change, `${index + 1}/${changes.length}`));
+    const choice = await applyDeps.select({
+      message: formatChangeFindings(findChangeFindings(change, findings)),
+      options: [
+        { value: "keep", label: "Keep", hint: "apply this change" },
+        { value: "drop", label: "Drop", hint: "leave this change out" },
+      ],
+    });
+    if (applyDeps.isCancel(choice)) {
+      applyDeps.logInfo("Selection cancelled; the handoff is still pending.");
+      return false;
+    }
+    if (choice === "keep") {
+      kept.push(change);
+    }
+  }
+
+  if (kept.length === changes.length) {
+    return true;
+  }
+  if (kept.length === 0) {
+    applyDeps.logInfo("No changes kept; the handoff is still pending.");
+    return false;
+  }
+
+  try {
+    const artifact = await applyDeps.applyPendingHandoffSelection(
+      undefined,
+      projectPath,
+      handoff.handoffId,
+      buildHandoffPatch(kept)
+    );
+    await applyDeps.appendLog(artifact.logPath, {
+      type: "handoff",
+      timestamp: Date.now(),
+      handoffId: artifact.handoffId,
+      handoffStatus: "applied-partial",
+      commitSha: artifact.commitSha,
+    });
+    applyDeps.logSuccess(`Applied ${kept.length} of ${changes.length} handoff changes.`);
+  } catch (error) {
+    applyDeps.logError(`${error}`);
+    applyDeps.exit(1);
+  }
+  return false;
+}
+
+async function commitHandoff(
+  applyDeps: ApplyDeps,
+  projectPath: string,
+  handoff: PendingHandoffArtifact,
+  branch: string | undefined
+): Promise<void> {
+  try {
+    const findingsArtifact = await applyDeps
+      .loadFindingsArtifact(CONFIG_DIR, handoff.projectPath, handoff.sessionId)
+      .catch(() => null);
+    const committed = await applyDeps.commitPendingHandoff(
+      undefined,
+      projectPath,
+      handoff.handoffId,
+      {
+        message: formatHandoffCommitMessage(handoff, findingsArtifact),
+        branch,
+      }
+    );
+    await applyDeps.appendLog(committed.artifact.logPath, {
+      type: "handoff",
+      timestamp: Date.now(),
+      handoffId: committed.artifact.handoffId,
+      handoffStatus: branch ? "applied-branch" : "applied-commit",
+      commitSha: committed.commitSha,
+      ...(branch ? { branch } : {}),
+    });
+    applyDeps.logSuccess(
+      branch
+        ? `Review handoff committed to branch ${branch} (${committed.commitSha.slice(0, 7)}).`
+        : `Review handoff committed as ${committed.commitSha.slice(0, 7)}.`
+    );
+  } catch (error) {
+    applyDeps.logError(`${error}`);
+    applyDeps.exit(1);
+  }
+}
+
+/**
+ * Replays the handoff onto the current working tree as a fresh pending handoff, letting the fixer
+ * resolve any conflicts. The result is left pending so it can be reviewed before it is applied.
+ */
+async function rebaseHandoff(
+  applyDeps: ApplyDeps,
+  projectPath: string,
+  handoff: PendingHandoffArtifact
+): Promise<void> {
+  try {
+    const findingsArtifact = await applyDeps
+      .loadFindingsArtifact(CONFIG_DIR, handoff.projectPath, handoff.sessionId)
+      .catch(() => null);
+    const rebased = await applyDeps.rebasePendingHandoff(
+      undefined,
+      projectPath,
+      handoff.handoffId,
+      async (conflicts) => {
+        applyDeps.logStep(`Resolving conflicts with the fixer: ${conflicts.paths.join(", ")}`);
+        const config = await applyDeps.loadConfig(projectPath);
+        if (!config) {
+          throw new Error("Failed to load configuration");
+        }
+        await applyDeps.resolveHandoffConflicts({
+          config,
+          worktree: conflicts.worktree,
+          conflictedPaths: conflicts.paths,
+          findings: findingsArtifact ? getResolvedFindings(findingsArtifact) : [],
+        });
+      }
+    );
+
+    await applyDeps.appendLog(rebased.previous.logPath, {
+      type: "handoff",
+      timestamp: Date.now(),
+      handoffId: rebased.previous.handoffId,
+      handoffStatus: "rebased",
+      commitSha: rebased.previous.commitSha,
+    });
+    if (!rebased.handoff) {
+      applyDeps.logSuccess(
+        "The working tree already contains every change in this handoff; it was removed."
+      );
+      return;
+    }
+
+    await applyDeps.appendLog(rebased.previous.logPath, {
+      type: "handoff",
+      timestamp: rebased.handoff.handoffUpdatedAt,
+      handoffId: rebased.handoff.handoffId,
+      handoffStatus: rebased.handoff.handoffStatus,
+      commitSha: rebased.handoff.commitSha,
+    });
+    applyDeps.logSuccess(
+      rebased.conflictedPaths.length > 0
+        ? `Review handoff rebased as ${rebased.handoff.handoffId}; the fixer resolved conflicts in ${rebased.conflictedPaths.join(", ")}.`
+        : `Review handoff rebased as ${rebased.handoff.handoffId}.`
+    );
+    applyDeps.logInfo(
+      `Preview: rr handoff show --session ${rebased.handoff.handoffId}\nApply: rr apply --session ${rebased.handoff.handoffId}`
+    );
+  } catch (error) {
+    applyDeps.logError(`${error}`);
+    applyDeps.exit(1);
+  }
+}
+
+async function revertHandoff(
+  applyDeps: ApplyDeps,
+  projectPath: string,
+  selector: string
+): Promise<void> {
+  const handoffs = await applyDeps.listProjectAppliedHandoffs(undefined, projectPath);
+  if (handoffs.length === 0) {
+    applyDeps.logInfo("No applied review handoffs to revert for current working directory.");
+    return;
+  }
+
+  const selection = resolveAppliedHandoffSelection({ handoffs, selector });
+  if (!selection.handoff) {
+    applyDeps.logError(selection.error ?? `No applied review handoff matches "${selector}".`);
+    applyDeps.exit(1);
+    return;
+  }
+
+  applyDeps.logStep(`Reverting handoff: ${selection.handoff.handoffId}`);
+  try {
+    const reverted = await applyDeps.revertAppliedHandoff(
+      undefined,
+      projectPath,
+      selection.handoff.handoffId
+    );
+    await applyDeps.appendLog(reverted.artifact.logPath, {
+      type: "handoff",
+      timestamp: Date.now(),
+      handoffId: reverted.artifact.handoffId,
+      handoffStatus: "reverted",
+      commitSha: reverted.artifact.commitSha,
+    });
+    if (reverted.conflictedPaths.length > 0) {
+      applyDeps.logInfo(
+        `Review handoff reverted with conflicts in ${reverted.conflictedPaths.join(", ")}. Resolve the conflict markers in those files.`
+      );
+      return;
+    }
+    applyDeps.logSuccess("Review handoff reverted.");
+  } catch (error) {
+    applyDeps.logError(`${error}`);
+    applyDeps.exit(1);
+  }
+}
+
 export type { ApplyDeps };
@@ -1,3 +1,4 @@
+import { dirname } from "node:path";
 import type { ConfigCommandDeps } from "@/commands/config";
 import {
   getConfigValue,
@@ -166,9 +167,13 @@ export async function runShow(args: string[], deps: ConfigCommandDeps): Promise<
       return;
     }
 
+    const reviewGuidelines = await deps.loadReviewGuidelinesOverrides(deps.cwd(), {
+      configDir: dirname(deps.configPath),
+    });
     deps.note(
       formatConfigLayersDisplay(layers.effective, layers.globalConfig, layers.localConfig, {
         showMetadata: parsed.verbose,
+        reviewGuidelines,
       }),
       "Configuration"
     );
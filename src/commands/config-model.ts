@@ -7,8 +7,10 @@ import {
   DEFAULT_RETRY_CONFIG,
   isAgentType,
   isReasoningLevel,
+  type Priority,
   type ReasoningLevel,
   type RetryOverrideConfig,
+  type ReviewerEnsemble,
 } from "@/lib/types";
 
 type ConfigRole = "reviewer" | "fixer";
@@ -32,9 +34,19 @@ const CONFIG_KEYS = [
   "retry.baseDelayMs",
   "retry.maxDelayMs",
   "notifications.sound.enabled",
+  "review.dedupeThreshold",
+  "review.minConfidence",
+  "review.minConfidenceByPriority.P0",
+  "review.minConfidenceByPriority.P1",
+  "review.minConfidenceByPriority.P2",
+  "review.minConfidenceByPriority.P3",
+  "review.shardThreshold",
+  "review.maxShards",
+  "review.fixConcurrency",
 ] as const;
 
 type ConfigKey = (typeof CONFIG_KEYS)[number];
+type ConfidenceFloorConfigKey = `review.minConfidenceByPriority.${Priority}`;
 type ConfigValue = string | number | boolean | null;
 
 type ParsedRoleConfigUpdate =
@@ -71,7 +83,13 @@ type ParsedScalarConfigUpdate =
   | { key: "retry.maxRetries"; value: number }
   | { key: "retry.baseDelayMs"; value: number }
   | { key: "retry.maxDelayMs"; value: number }
-  | { key: "notifications.sound.enabled"; value: boolean };
+  | { key: "notifications.sound.enabled"; value: boolean }
+  | { key: "review.dedupeThreshold"; value: number }
+  | { key: "review.minConfidence"; value: number }
+  | { key: ConfidenceFloorConfigKey; value: number }
+  | { key: "review.shardThreshold"; value: number }
+  | { key: "review.maxShards"; value: number }
+  | { key: "review.fixConcurrency"; value: number };
 
 type ParsedConfigUpdate = ParsedRoleConfigUpdate | ParsedScalarConfigUpdate;
 
@@ -79,8 +97,19 @@ function isRoleWithSettings(role: ConfigRole, config: Config): boolean {
   return role in config;
 }
 
+function assertSingleReviewer<T>(role: ConfigRole, settings: T | ReviewerEnsemble): T {
+  if (Array.isArray(settings)) {
+    throw new Error(
+      `"${role}" is configured as a list of ${settings.length} agents. Edit the list in the config file directly.`
+    );
+  }
+
+  return settings;
+}
+
 function readRoleSettings(role: ConfigRole, config: Config): AgentSettings | undefined {
-  return config[role];
+  const settings = config[role];
+  return settings === undefined ? undefined : assertSingleReviewer(role, settings);
 }
 
 function writeRoleSettings(role: ConfigRole, config: Config, settings: AgentSettings): void {
@@ -129,6 +158,39 @@ function parseBoundedIntegerUpdate(
   return { key, value: parsed } as ParsedScalarConfigUpdate;
 }
 
+function parseUnitIntervalUpdate(
+  key: ParsedScalarConfigUpdate["key"],
+  rawValue: string
+): ParsedScalarConfigUpdate {
+  const normalized = requireNonNullRawValue(key, rawValue).trim();
+  const parsed = Number(normalized);
+  if (normalized === "" || !Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw new Error(`Value for "${key}" must be a number between 0 and 1.`);
+  }
+  return { key, value: parsed } as ParsedScalarConfigUpdate;
+}
+
+function getConfidenceFloorPriority(key: ConfidenceFloorConfigKey): Priority {
+  return key.slice("review.minConfidenceByPriority.".length) as Priority;
+}
+
+function withConfidenceFloor<T extends Config | ConfigOverride>(
+  config: T,
+  key: ConfidenceFloorConfigKey,
+  value: number
+): T {
+  return {
+    ...config,
+    review: {
+      ...config.review,
+      minConfidenceByPriority: {
+        ...config.review?.minConfidenceByPriority,
+        [getConfidenceFloorPriority(key)]: value,
+      },
+    },
+  };
+}
+
 function requireNumberConfigValue(key: ConfigKey, value: ConfigValue, requirement: string): number {
   if (typeof value === "number") {
     return value;
@@ -278,6 +340,19 @@ export function parseConfigUpdate(key: ConfigKey, rawValue: string): ParsedConfi
         throw new Error(`Value for "${key}" must be "true" or "false".`);
       }
       return { key, value: rawValue === "true" };
+
+    case "review.dedupeThreshold":
+    case "review.minConfidence":
+    case "review.minConfidenceByPriority.P0":
+    case "review.minConfidenceByPriority.P1":
+    case "review.minConfidenceByPriority.P2":
+    case "review.minConfidenceByPriority.P3":
+      return parseUnitIntervalUpdate(key, rawValue);
+
+    case "review.shardThreshold":
+    case "review.maxShards":
+    case "review.fixConcurrency":
+      return parseBoundedIntegerUpdate(key, rawValue, 1);
   }
 }
 
@@ -286,19 +361,20 @@ export function parseConfigValue(key: ConfigKey, rawValue: string): ConfigValue
 }
 
 export function getConfigValue(config: Config | ConfigOverride, key: ConfigKey): unknown {
+  const reviewer = Array.isArray(config.reviewer) ? config.reviewer[0] : config.reviewer;
   switch (key) {
     case "reviewer.agent":
-      return config.reviewer?.agent;
+      return reviewer?.agent;
     case "reviewer.model":
-      return config.reviewer?.model;
+      return reviewer?.model;
     case "reviewer.provider":
-      return config.reviewer && "provider" in config.reviewer
-        ? config.reviewer.provider
-        : config.reviewer?.agent === "pi"
-          ? config.reviewer.provider
+      return reviewer && "provider" in reviewer
+        ? reviewer.provider
+        : reviewer?.agent === "pi"
+          ? reviewer.provider
           : undefined;
     case "reviewer.reasoning":
-      return config.reviewer?.reasoning;
+      return reviewer?.reasoning;
     case "fixer.agent":
       return config.fixer?.agent;
     case "fixer.model":
@@ -327,6 +403,21 @@ export function getConfigValue(config: Config | ConfigOverride, key: ConfigKey):
       return config.retry?.maxDelayMs;
     case "notifications.sound.enabled":
       return config.notifications?.sound?.enabled;
+    case "review.dedupeThreshold":
+      return config.review?.dedupeThreshold;
+    case "review.minConfidence":
+      return config.review?.minConfidence;
+    case "review.minConfidenceByPriority.P0":
+    case "review.minConfidenceByPriority.P1":
+    case "review.minConfidenceByPriority.P2":
+    case "review.minConfidenceByPriority.P3":
+      return config.review?.minConfidenceByPriority?.[getConfidenceFloorPriority(key)];
+    case "review.shardThreshold":
+      return config.review?.shardThreshold;
+    case "review.maxShards":
+      return config.review?.maxShards;
+    case "review.fixConcurrency":
+      return config.review?.fixConcurrency;
   }
 }
 
@@ -564,6 +655,44 @@ export function setConfigValue(config: Config, key: ConfigKey, value: ConfigValu
         },
       };
       return next;
+    case "review.dedupeThreshold":
+      if (typeof value !== "number") {
+        throw new Error(`Value for "${key}" must be a number between 0 and 1.`);
+      }
+      next.review = { ...next.review, dedupeThreshold: value };
+      return next;
+    case "review.minConfidence":
+      if (typeof value !== "number") {
+        throw new Error(`Value for "${key}" must be a number between 0 and 1.`);
+      }
+      next.review = { ...next.review, minConfidence: value };
+      return next;
+    case "review.minConfidenceByPriority.P0":
+    case "review.minConfidenceByPriority.P1":
+    case "review.minConfidenceByPriority.P2":
+    case "review.minConfidenceByPriority.P3":
+      if (typeof value !== "number") {
+        throw new Error(`Value for "${key}" must be a number between 0 and 1.`);
+      }
+      return withConfidenceFloor(next, key, value);
+    case "review.shardThreshold":
+      if (typeof value !== "number") {
+        throw new Error(`Value for "${key}" must be an integer greater than 0.`);
+      }
+      next.review = { ...next.review, shardThreshold: value };
+      return next;
+    case "review.maxShards":
+      if (typeof value !== "number") {
+        throw new Error(`Value for "${key}" must be an integer greater than 0.`);
+      }
+      next.review = { ...next.review, maxShards: value };
+      return next;
+    case "review.fixConcurrency":
+      if (typeof value !== "number") {
+        throw new Error(`Value for "${key}" must be an integer greater than 0.`);
+      }
+      next.review = { ...next.review, fixConcurrency: value };
+      return next;
     default:
       return next;
   }
@@ -573,7 +702,8 @@ function readOverrideRoleSettings(
   role: ConfigRole,
   config: ConfigOverride
 ): AgentOverrideSettings | undefined {
-  return config[role];
+  const settings = config[role];
+  return settings === undefined ? undefined : assertSingleReviewer(role, settings);
 }
 
 function writeOverrideRoleSettings(
@@ -705,6 +835,26 @@ export function setConfigOverrideValue(
         },
       };
       return next;
+    case "review.dedupeThreshold":
+      next.review = { ...next.review, dedupeThreshold: update.value };
+      return next;
+    case "review.minConfidence":
+      next.review = { ...next.review, minConfidence: update.value };
+      return next;
+    case "review.minConfidenceByPriority.P0":
+    case "review.minConfidenceByPriority.P1":
+    case "review.minConfidenceByPriority.P2":
+    case "review.minConfidenceByPriority.P3":
+      return withConfidenceFloor(next, update.key, update.value);
+    case "review.shardThreshold":
+      next.review = { ...next.review, shardThreshold: update.value };
+      return next;
+    case "review.maxShards":
+      next.review = { ...next.review, maxShards: update.value };
+      return next;
+    case "review.fixConcurrency":
+      next.review = { ...next.review, fixConcurrency: update.value };
+      return next;
   }
 }
 
@@ -725,23 +875,25 @@ export function validateConfigInvariants(config: Config): string[] {
 
   const roles: readonly ConfigRole[] = ["reviewer", "fixer"];
   for (const role of roles) {
-    const settings = readRoleSettings(role, config);
-    if (!settings) {
+    const configured = config[role];
+    if (!configured) {
       continue;
     }
 
-    if (settings.agent === "pi") {
-      if (!settings.provider?.trim()) {
-        errors.push(`${role}.provider is required when ${role}.agent is "pi".`);
-      }
-      if (!settings.model?.trim()) {
-        errors.push(`${role}.model is required when ${role}.agent is "pi".`);
+    for (const settings of Array.isArray(configured) ? configured : [configured]) {
+      if (settings.agent === "pi") {
+        if (!settings.provider?.trim()) {
+          errors.push(`${role}.provider is required when ${role}.agent is "pi".`);
+        }
+        if (!settings.model?.trim()) {
+          errors.push(`${role}.model is required when ${role}.agent is "pi".`);
+        }
+        continue;
       }
-      continue;
-    }
 
-    if ("provider" in settings) {
-      errors.push(`${role}.provider must be absent when ${role}.agent is not "pi".`);
+      if ("provider" in settings) {
+        errors.push(`${role}.provider must be absent when ${role}.agent is not "pi".`);
+      }
     }
   }
 
@@ -761,5 +913,32 @@ export function validateConfigInvariants(config: Config): string[] {
     errors.push("notifications.sound.enabled must be a boolean.");
   }
 
+  const dedupeThreshold = config.review?.dedupeThreshold;
+  if (dedupeThreshold !== undefined && !(dedupeThreshold >= 0 && dedupeThreshold <= 1)) {
+    errors.push("review.dedupeThreshold must be a number between 0 and 1.");
+  }
+
+  const confidenceFloors: Array<[string, number | undefined]> = [
+    ["review.minConfidence", config.review?.minConfidence],
+    ...Object.entries(config.review?.minConfidenceByPriority ?? {}).map(
+      ([priority, floor]): [string, number | undefined] => [
+        `review.minConfidenceByPriority.${priority}`,
+        floor,
+      ]
+    ),
+  ];
+  for (const [key, floor] of confidenceFloors) {
+    if (floor !== undefined && !(floor >= 0 && floor <= 1)) {
+      errors.push(`${key} must be a number between 0 and 1.`);
+    }
+  }
+
+  for (const key of ["shardThreshold", "maxShards", "fixConcurrency"] as const) {
+    const count = config.review?.[key];
+    if (count !== undefined && !(Number.isInteger(count) && count > 0)) {
+      errors.push(`review.${key} must be an integer greater than 0.`);
+    }
+  }
+
   return errors;
 }
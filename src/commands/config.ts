@@ -15,6 +15,7 @@ import {
   saveConfig,
   saveConfigOverride,
 } from "@/lib/config";
+import { loadReviewGuidelinesOverrides } from "@/lib/review-workflow/review/guidelines";
 
 export {
   getConfigValue,
@@ -58,6 +59,7 @@ export type ConfigCommandDeps = {
   saveConfig: typeof saveConfig;
   saveConfigOverride: typeof saveConfigOverride;
   buildConfigOverride: typeof buildConfigOverride;
+  loadReviewGuidelinesOverrides: typeof loadReviewGuidelinesOverrides;
   spawn: ConfigCommandSpawner;
   env: Record<string, string | undefined>;
   note(message: string, title: string): void;
@@ -89,6 +91,7 @@ const DEFAULT_CONFIG_COMMAND_DEPS: ConfigCommandDeps = {
   saveConfig,
   saveConfigOverride,
   buildConfigOverride,
+  loadReviewGuidelinesOverrides,
   spawn: Bun.spawn as unknown as ConfigCommandSpawner,
   env: process.env as Record<string, string | undefined>,
   note: p.note,
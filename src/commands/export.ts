@@ -0,0 +1,117 @@
+import { resolve } from "node:path";
+import * as p from "@clack/prompts";
+import { getCommandDef, getVersion } from "@/cli";
+import { CliError, parseCommand } from "@/lib/cli-parser";
+import { CONFIG_DIR } from "@/lib/config";
+import { loadFindingsArtifactBySessionId } from "@/lib/review-workflow/findings/artifact";
+import { buildSarifLog } from "@/lib/review-workflow/findings/sarif";
+
+type ExportFormat = "sarif" | "json";
+
+const EXPORT_FORMATS: readonly ExportFormat[] = ["sarif", "json"];
+
+interface ExportOptions {
+  session?: string;
+  format?: string;
+  output?: string;
+}
+
+export interface ExportCommandDeps {
+  getCommandDef: typeof getCommandDef;
+  getVersion: typeof getVersion;
+  loadFindingsArtifactBySessionId: typeof loadFindingsArtifactBySessionId;
+  cwd: () => string;
+  writeFile: (path: string, content: string) => Promise<void>;
+  print: (message: string) => void;
+  logSuccess: (message: string) => void;
+  logError: (message: string) => void;
+  exit: (code: number) => void;
+}
+
+const DEFAULT_EXPORT_DEPS: ExportCommandDeps = {
+  getCommandDef,
+  getVersion,
+  loadFindingsArtifactBySessionId,
+  cwd: () => process.cwd(),
+  writeFile: async (path, content) => {
+    await Bun.write(path, content, { createPath: true });
+  },
+  print: (message) => console.log(message),
+  logSuccess: (message) => p.log.success(message),
+  logError: (message) => p.log.error(message),
+  exit: (code) => process.exit(code),
+};
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function parseExportFormat(value: string | undefined): ExportFormat {
+  const format = value?.trim().toLowerCase() || "sarif";
+  if (!isExportFormat(format)) {
+    throw new Error(
+      `Unsupported export format "${value}". Use one of: ${EXPORT_FORMATS.join(", ")}`
+    );
+  }
+
+  return format;
+}
+
+export async function runExport(
+  args: string[],
+  deps: Partial<ExportCommandDeps> = {}
+): Promise<void> {
+  const exportDeps = { ...DEFAULT_EXPORT_DEPS, ...deps };
+  const commandDef = exportDeps.getCommandDef("export");
+  if (!commandDef) {
+    exportDeps.logError("Internal error: export command definition not found");
+    exportDeps.exit(1);
+    return;
+  }
+
+  let sessionId: string;
+  let format: ExportFormat;
+  let outputPath: string | undefined;
+  try {
+    const { values } = parseCommand<ExportOptions>(commandDef, args);
+    sessionId = values.session?.trim() ?? "";
+    if (!sessionId) {
+      throw new CliError("export", "missing_required", "session");
+    }
+    format = parseExportFormat(values.format);
+    outputPath = values.output?.trim() || undefined;
+  } catch (error) {
+    exportDeps.logError(`${error}`);
+    exportDeps.exit(1);
+    return;
+  }
+
+  let content: string;
+  try {
+    const artifact = await exportDeps.loadFindingsArtifactBySessionId(CONFIG_DIR, sessionId);
+    if (!artifact) {
+      exportDeps.logError(`Findings artifact not found for session ${sessionId}`);
+      exportDeps.exit(1);
+      return;
+    }
+
+    const payload =
+      format === "sarif"
+        ? buildSarifLog([artifact], { toolVersion: exportDeps.getVersion() })
+        : artifact;
+    content = JSON.stringify(payload, null, 2);
+  } catch (error) {
+    exportDeps.logError(`${error instanceof Error ? error.message : error}`);
+    exportDeps.exit(1);
+    return;
+  }
+
+  if (!outputPath) {
+    exportDeps.print(content);
+    return;
+  }
+
+  const resolvedOutputPath = resolve(exportDeps.cwd(), outputPath);
+  await exportDeps.writeFile(resolvedOutputPath, `${content}\n`);
+  exportDeps.logSuccess(`Exported session ${sessionId} as ${format}: ${resolvedOutputPath}`);
+}
@@ -1,4 +1,6 @@
 import * as p from "@clack/prompts";
+import { type BudgetFlagValues, buildBudgetArgs, parseBudgetFlags } from "@/lib/budget";
+import { formatCategoryList, parseCategoryList } from "@/lib/category-list";
 import { CliError } from "@/lib/cli-parser";
 import { CONFIG_DIR, loadEffectiveConfig } from "@/lib/config";
 import { getTmuxInstallHint } from "@/lib/diagnostics/tmux-install";
@@ -11,7 +13,12 @@ import {
   parsePriorityList,
 } from "@/lib/priority-list";
 import { loadFindingsArtifactBySessionId } from "@/lib/review-workflow/findings/artifact";
-import type { FindingId, FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import type {
+  FindingId,
+  FindingsArtifact,
+  FixConflict,
+} from "@/lib/review-workflow/findings/types";
+import { parseWhereExpression } from "@/lib/review-workflow/findings/where";
 import {
   promptForFixSelection,
   runFixSession,
@@ -26,7 +33,7 @@ import {
   updateSessionState,
 } from "@/lib/session-state";
 import { createSession, generateSessionName, isTmuxInstalled } from "@/lib/tmux";
-import type { Priority } from "@/lib/types";
+import type { BudgetConfig, FindingCategory, Priority } from "@/lib/types";
 
 type IntervalHandle = ReturnType<typeof setInterval>;
 
@@ -36,7 +43,16 @@ export interface ParsedFixCommandOptions {
     all?: boolean;
     priorities?: Priority[];
     ids?: FindingId[];
+    where?: string;
+    minAgreement?: number;
+    categories?: FindingCategory[];
   };
+  /** Fix passes allowed for verification regressions; `0` verifies without re-fixing. */
+  verifyRounds?: number;
+  /** Run one fixer per file in separate worktrees and combine their changes. */
+  parallel?: boolean;
+  /** Limits from `--max-cost`, `--max-tokens`, and `--max-wall-time` over `config.budget`. */
+  budget?: BudgetConfig;
 }
 
 export interface FixCommandDeps {
@@ -110,6 +126,8 @@ const DEFAULT_FIX_COMMAND_DEPS: FixCommandDeps = {
   exit: (code: number) => process.exit(code),
 };
 
+const BUDGET_FLAGS = ["max-cost", "max-tokens", "max-wall-time"] as const;
+
 function readOptionValue(args: string[], index: number, optionName: string): [string, number] {
   const value = args[index + 1];
   if (!value || value.startsWith("-")) {
@@ -130,11 +148,9 @@ function shellEscape(str: string): string {
   return `'${str.replace(/'/g, "'\\''")}'`;
 }
 
-function buildSelectorArgs(selector: ParsedFixCommandOptions["selector"]): string[] {
-  if (!selector) {
-    return [];
-  }
-
+function buildSelectorModeArgs(
+  selector: NonNullable<ParsedFixCommandOptions["selector"]>
+): string[] {
   if (selector.all) {
     return ["--all"];
   }
@@ -147,9 +163,66 @@ function buildSelectorArgs(selector: ParsedFixCommandOptions["selector"]): strin
     return selector.ids.flatMap((findingId) => ["--id", findingId]);
   }
 
+  if (selector.where !== undefined) {
+    return ["--where", shellEscape(selector.where)];
+  }
+
   return [];
 }
 
+function buildSelectorArgs(selector: ParsedFixCommandOptions["selector"]): string[] {
+  if (!selector) {
+    return [];
+  }
+
+  return [
+    ...buildSelectorModeArgs(selector),
+    ...(selector.minAgreement !== undefined
+      ? ["--min-agreement", String(selector.minAgreement)]
+      : []),
+    ...(selector.categories && selector.categories.length > 0
+      ? ["--category", formatCategoryList(selector.categories)]
+      : []),
+  ];
+}
+
+function parseWhere(value: string): string {
+  // Parse once up front so syntax errors surface before a background session starts.
+  return parseWhereExpression(value).source;
+}
+
+function parseMinAgreement(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid --min-agreement value: ${value}. Use a whole number of at least 1.`);
+  }
+  return parsed;
+}
+
+function parseVerifyRounds(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid --verify-rounds value: ${value}. Use a whole number of at least 1.`);
+  }
+  return parsed;
+}
+
+function formatFixConflictWarning(conflict: FixConflict): string {
+  const collidedWith =
+    conflict.conflictingFindingIds.length > 0
+      ? ` with ${conflict.conflictingFindingIds.join(", ")}`
+      : "";
+  return `Parallel fix for ${conflict.findingIds.join(", ")} conflicted${collidedWith} in ${conflict.files.join(", ")} and was not applied.`;
+}
+
+function buildVerifyArgs(verifyRounds: number | undefined): string[] {
+  if (verifyRounds === undefined) {
+    return [];
+  }
+
+  return verifyRounds > 0 ? ["--verify-rounds", String(verifyRounds)] : ["--verify"];
+}
+
 async function resolveLauncherSelector(
   parsed: ParsedFixCommandOptions,
   artifact: FindingsArtifact,
@@ -167,7 +240,7 @@ async function resolveLauncherSelector(
     return {
       kind: "error",
       message:
-        "No selector was provided. Re-run with one of --all, --priority, or --id, or use an interactive terminal.",
+        "No selector was provided. Re-run with one of --all, --priority, --id, or --where, or use an interactive terminal.",
     };
   }
 
@@ -230,6 +303,13 @@ export function parseFixCommandOptions(args: string[]): ParsedFixCommandOptions
   const priorities: Priority[] = [];
   const ids: FindingId[] = [];
   let priorityFlagSeen = false;
+  let minAgreement: number | undefined;
+  let categories: FindingCategory[] | undefined;
+  let where: string | undefined;
+  let verify = false;
+  let verifyRounds: number | undefined;
+  let parallel = false;
+  const budgetFlags: BudgetFlagValues = {};
 
   for (let index = 0; index < args.length; index += 1) {
     const arg = args[index];
@@ -294,7 +374,91 @@ export function parseFixCommandOptions(args: string[]): ParsedFixCommandOptions
       continue;
     }
 
-    throw new CliError("fix", "unknown_option", arg, ["--session", "--all", "--priority", "--id"]);
+    if (arg === "--where") {
+      const [value, nextIndex] = readOptionValue(args, index, "where");
+      where = parseWhere(value);
+      index = nextIndex;
+      continue;
+    }
+
+    if (arg.startsWith("--where=")) {
+      where = parseWhere(arg.slice("--where=".length));
+      continue;
+    }
+
+    if (arg === "--min-agreement") {
+      const [value, nextIndex] = readOptionValue(args, index, "min-agreement");
+      minAgreement = parseMinAgreement(value);
+      index = nextIndex;
+      continue;
+    }
+
+    if (arg.startsWith("--min-agreement=")) {
+      minAgreement = parseMinAgreement(arg.slice("--min-agreement=".length));
+      continue;
+    }
+
+    if (arg === "--category") {
+      const [value, nextIndex] = readOptionValue(args, index, "category");
+      categories = parseCategoryList(value);
+      index = nextIndex;
+      continue;
+    }
+
+    if (arg.startsWith("--category=")) {
+      categories = parseCategoryList(arg.slice("--category=".length));
+      continue;
+    }
+
+    if (arg === "--verify") {
+      verify = true;
+      continue;
+    }
+
+    if (arg === "--verify-rounds") {
+      const [value, nextIndex] = readOptionValue(args, index, "verify-rounds");
+      verifyRounds = parseVerifyRounds(value);
+      index = nextIndex;
+      continue;
+    }
+
+    if (arg.startsWith("--verify-rounds=")) {
+      verifyRounds = parseVerifyRounds(arg.slice("--verify-rounds=".length));
+      continue;
+    }
+
+    if (arg === "--parallel") {
+      parallel = true;
+      continue;
+    }
+
+    const budgetFlag = BUDGET_FLAGS.find(
+      (flag) => arg === `--${flag}` || arg.startsWith(`--${flag}=`)
+    );
+    if (budgetFlag) {
+      if (arg === `--${budgetFlag}`) {
+        const [value, nextIndex] = readOptionValue(args, index, budgetFlag);
+        budgetFlags[budgetFlag] = Number(value);
+        index = nextIndex;
+      } else {
+        budgetFlags[budgetFlag] = Number(arg.slice(`--${budgetFlag}=`.length));
+      }
+      continue;
+    }
+
+    throw new CliError("fix", "unknown_option", arg, [
+      "--session",
+      "--all",
+      "--priority",
+      "--id",
+      "--where",
+      "--min-agreement",
+      "--category",
+      "--verify",
+      "--verify-rounds",
+      "--parallel",
+      ...BUDGET_FLAGS.map((flag) => `--${flag}`),
+    ]);
   }
 
   if (!sessionId) {
@@ -302,25 +466,47 @@ export function parseFixCommandOptions(args: string[]): ParsedFixCommandOptions
   }
 
   const selectorModeCount =
-    (all ? 1 : 0) + (priorities.length > 0 ? 1 : 0) + (ids.length > 0 ? 1 : 0);
+    (all ? 1 : 0) +
+    (priorities.length > 0 ? 1 : 0) +
+    (ids.length > 0 ? 1 : 0) +
+    (where !== undefined ? 1 : 0);
   if (selectorModeCount > 1) {
     throw new Error(
-      "Selector modes are mutually exclusive. Use only one of --all, --priority, or --id."
+      "Selector modes are mutually exclusive. Use only one of --all, --priority, --id, or --where."
     );
   }
 
+  if (minAgreement !== undefined && ids.length > 0) {
+    throw new Error("--min-agreement cannot be combined with --id.");
+  }
+
+  if (categories !== undefined && ids.length > 0) {
+    throw new Error("--category cannot be combined with --id.");
+  }
+
   const selector =
-    all || priorities.length > 0 || ids.length > 0
+    all ||
+    priorities.length > 0 ||
+    ids.length > 0 ||
+    where !== undefined ||
+    minAgreement !== undefined ||
+    categories !== undefined
       ? {
           all: all || undefined,
           priorities: priorities.length > 0 ? unique(priorities) : undefined,
           ids: ids.length > 0 ? unique(ids) : undefined,
+          where,
+          minAgreement,
+          categories,
         }
       : undefined;
 
   return {
     sessionId,
     selector,
+    verifyRounds: verifyRounds ?? (verify ? 0 : undefined),
+    parallel: parallel || undefined,
+    budget: parseBudgetFlags(budgetFlags),
   };
 }
 
@@ -438,6 +624,9 @@ async function runPreparedFix({
     "--session",
     sessionId,
     ...buildSelectorArgs(resolvedSelector.selector),
+    ...buildVerifyArgs(parsed.verifyRounds),
+    ...(parsed.parallel ? ["--parallel"] : []),
+    ...buildBudgetArgs(parsed.budget),
   ];
   const command = `${envParts.join(" ")} ${commandDeps.execPath} ${CLI_PATH} ${commandArgs.join(" ")}`;
 
@@ -467,6 +656,9 @@ async function runPreparedFixForeground({
   if (!config) {
     return;
   }
+  if (parsed.budget) {
+    config.budget = { ...config.budget, ...parsed.budget };
+  }
 
   const sessionId = parsed.sessionId;
   let sessionState = await commandDeps.readSessionState(undefined, projectPath, sessionId);
@@ -522,6 +714,8 @@ async function runPreparedFixForeground({
     result = await commandDeps.runFixSession(config, {
       sessionId,
       selector: parsed.selector,
+      verifyRounds: parsed.verifyRounds,
+      parallel: parsed.parallel,
       isTTY: false,
       onProgress: async (updates) => {
         await pushFixSessionStateUpdate(commandDeps, projectPath, sessionId, updates);
@@ -538,6 +732,22 @@ async function runPreparedFixForeground({
       commandDeps.logWarn(result.reason);
     }
 
+    if (result.regressionFindings && result.regressionFindings.length > 0) {
+      commandDeps.logWarn(
+        `Verification found regressions in the fixer's diff: ${result.regressionFindings.map((finding) => finding.id).join(", ")}`
+      );
+    }
+
+    for (const conflict of result.fixConflicts ?? []) {
+      commandDeps.logWarn(formatFixConflictWarning(conflict));
+    }
+
+    for (const failure of result.preExistingVerifyFailures ?? []) {
+      commandDeps.logWarn(
+        `\`${failure.command}\` already failed before the fixer ran (exit code ${failure.exitCode}), so it did not gate the fix.`
+      );
+    }
+
     const handoffNote = formatHandoffNote({
       handoffStatus: result.handoffStatus,
       commitSha: result.commitSha,
@@ -1,7 +1,7 @@
 import * as p from "@clack/prompts";
-import type { PendingHandoffArtifact } from "@/lib/handoff";
+import type { AppliedHandoffArtifact, PendingHandoffArtifact } from "@/lib/handoff";
 
-type HandoffAction = "apply" | "discard";
+type HandoffAction = "apply" | "discard" | "rebase" | "show";
 type HandoffSelect = (input: {
   message: string;
   options: Array<{ value: string; label: string; hint: string }>;
@@ -29,7 +29,8 @@ interface HandoffSelectionResult<T extends SelectableHandoff> {
 
 function findHandoffBySelector<T extends SelectableHandoff>(
   handoffs: T[],
-  selector: string
+  selector: string,
+  kind: "pending" | "applied" = "pending"
 ): HandoffSelectionResult<T> {
   const normalizedSelector = selector.trim();
   if (normalizedSelector.length === 0) {
@@ -87,7 +88,7 @@ function findHandoffBySelector<T extends SelectableHandoff>(
 
   return {
     handoff: null,
-    error: `No pending review handoff matches "${normalizedSelector}" in the current project.`,
+    error: `No ${kind} review handoff matches "${normalizedSelector}" in the current project.`,
   };
 }
 
@@ -97,6 +98,10 @@ function buildPromptMessage(action: HandoffAction): string {
       return "Choose a review handoff to apply";
     case "discard":
       return "Choose a review handoff to discard";
+    case "rebase":
+      return "Choose a review handoff to rebase";
+    case "show":
+      return "Choose a review handoff to show";
   }
 }
 
@@ -153,3 +158,10 @@ export async function resolvePendingHandoffSelection(
       "Multiple pending review handoffs exist for this project. Re-run with --session <id|name>.",
   });
 }
+
+export function resolveAppliedHandoffSelection(options: {
+  handoffs: AppliedHandoffArtifact[];
+  selector: string;
+}): HandoffSelectionResult<AppliedHandoffArtifact> {
+  return findHandoffBySelector(options.handoffs, options.selector, "applied");
+}
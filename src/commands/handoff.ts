@@ -0,0 +1,209 @@
+import { resolvePendingHandoffSelection } from "@/commands/handoff-selection";
+import {
+  createInteractiveCommandDeps,
+  createPromptDeps,
+  type InteractiveCommandDeps,
+  type PromptDeps,
+} from "@/commands/interactive-deps";
+import { parseCommand } from "@/lib/cli-parser";
+import { CONFIG_DIR } from "@/lib/config";
+import { listProjectPendingHandoffs, type PendingHandoffArtifact } from "@/lib/handoff";
+import {
+  type HandoffPatchFileStat,
+  parseHandoffPatch,
+  summarizeHandoffPatch,
+} from "@/lib/handoff-patch";
+import { getResolvedFindings, loadFindingsArtifact } from "@/lib/review-workflow/findings/artifact";
+import type { FindingId } from "@/lib/review-workflow/findings/types";
+import { theme } from "@/terminal/theme";
+
+interface HandoffCommandValues {
+  session?: string;
+  json?: boolean;
+}
+
+type HandoffDeps = InteractiveCommandDeps &
+  PromptDeps & {
+    cwd: () => string;
+    listProjectPendingHandoffs: typeof listProjectPendingHandoffs;
+    loadFindingsArtifact: typeof loadFindingsArtifact;
+    readHandoffPatch: (patchPath: string) => Promise<string>;
+    print: (text: string) => void;
+  };
+
+const DEFAULT_HANDOFF_DEPS: HandoffDeps = {
+  ...createInteractiveCommandDeps(),
+  ...createPromptDeps(),
+  cwd: () => process.cwd(),
+  listProjectPendingHandoffs,
+  loadFindingsArtifact,
+  readHandoffPatch: (patchPath) => Bun.file(patchPath).text(),
+  print: (text) => console.log(text),
+};
+
+const NO_PENDING_HANDOFFS_MESSAGE = "No pending review handoffs for current working directory.";
+const MAX_DIFFSTAT_BAR_WIDTH = 40;
+
+interface HandoffShowJson {
+  handoffId: string;
+  sessionId: string;
+  commitSha: string;
+  state: PendingHandoffArtifact["state"];
+  patchPath: string;
+  resolvedFindingIds: FindingId[];
+  files: HandoffPatchFileStat[];
+  totals: { files: number; additions: number; deletions: number };
+  patch: string;
+}
+
+function pluralize(count: number, singular: string, plural: string): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+function formatDiffstat(
+  stats: HandoffPatchFileStat[],
+  totals: HandoffShowJson["totals"]
+): string[] {
+  const pathWidth = Math.max(...stats.map((stat) => stat.path.length), 0);
+  const maxChanges = Math.max(...stats.map((stat) => stat.additions + stat.deletions), 0);
+  const scale = maxChanges > MAX_DIFFSTAT_BAR_WIDTH ? MAX_DIFFSTAT_BAR_WIDTH / maxChanges : 1;
+  const countWidth = String(maxChanges).length;
+
+  const lines = stats.map((stat) => {
+    const path = ` ${stat.path.padEnd(pathWidth)} | `;
+    if (stat.binary) {
+      return `${path}${"Bin".padStart(countWidth)}`;
+    }
+    const additions = "+".repeat(Math.ceil(stat.additions * scale));
+    const deletions = "-".repeat(Math.ceil(stat.deletions * scale));
+    return `${path}${String(stat.additions + stat.deletions).padStart(countWidth)} ${theme.success(additions)}${theme.error(deletions)}`;
+  });
+  lines.push(
+    ` ${pluralize(totals.files, "file changed", "files changed")}, ${pluralize(totals.additions, "insertion(+)", "insertions(+)")}, ${pluralize(totals.deletions, "deletion(-)", "deletions(-)")}`
+  );
+  return lines;
+}
+
+function colorizeDiffLine(line: string): string {
+  if (line.startsWith("diff --git ")) {
+    return theme.heading(line);
+  }
+  if (line.startsWith("+++ ") || line.startsWith("--- ") || line.startsWith("index ")) {
+    return theme.muted(line);
+  }
+  if (line.startsWith("@@")) {
+    return theme.info(line);
+  }
+  if (line.startsWith("+")) {
+    return theme.success(line);
+  }
+  if (line.startsWith("-")) {
+    return theme.error(line);
+  }
+  return line;
+}
+
+function formatHandoffShow(report: HandoffShowJson): string {
+  const resolved =
+    report.resolvedFindingIds.length > 0 ? report.resolvedFindingIds.join(", ") : "none recorded";
+  const diff = report.patch.endsWith("\n") ? report.patch.slice(0, -1) : report.patch;
+
+  return [
+    `Handoff: ${report.handoffId}`,
+    `Session: ${report.sessionId}`,
+    `Commit: ${report.commitSha}`,
+    `State: ${report.state}`,
+    `Resolved findings: ${resolved}`,
+    "",
+    ...formatDiffstat(report.files, report.totals),
+    "",
+    ...diff.split("\n").map(colorizeDiffLine),
+  ].join("\n");
+}
+
+export async function runHandoff(args: string[], deps: Partial<HandoffDeps> = {}): Promise<void> {
+  const handoffDeps = { ...DEFAULT_HANDOFF_DEPS, ...deps };
+  const commandDef = handoffDeps.getCommandDef("handoff");
+  if (!commandDef) {
+    handoffDeps.logError("Internal error: handoff command definition not found");
+    handoffDeps.exit(1);
+    return;
+  }
+
+  let values: HandoffCommandValues;
+  try {
+    const parsed = parseCommand<HandoffCommandValues>(commandDef, args);
+    const [subcommand, ...extra] = parsed.positional;
+    if (subcommand !== "show") {
+      throw new Error(
+        subcommand
+          ? `Unknown handoff subcommand "${subcommand}". Use: show.`
+          : "Missing handoff subcommand. Use: rr handoff show [--session <id>]."
+      );
+    }
+    if (extra.length > 0) {
+      throw new Error(`Unexpected argument "${extra[0]}"`);
+    }
+    values = parsed.values;
+  } catch (error) {
+    handoffDeps.logError(`${error}`);
+    handoffDeps.exit(1);
+    return;
+  }
+
+  const projectPath = handoffDeps.cwd();
+  const handoffs = await handoffDeps.listProjectPendingHandoffs(undefined, projectPath);
+  if (handoffs.length === 0) {
+    handoffDeps.logInfo(NO_PENDING_HANDOFFS_MESSAGE);
+    return;
+  }
+
+  const selection = await resolvePendingHandoffSelection({
+    handoffs,
+    selector: values.session,
+    action: "show",
+    isTTY: handoffDeps.isTTY(),
+    select: handoffDeps.select,
+    isCancel: handoffDeps.isCancel,
+  });
+  if (!selection.handoff) {
+    if (selection.error) {
+      handoffDeps.logError(selection.error);
+      handoffDeps.exit(1);
+    }
+    return;
+  }
+
+  const handoff = selection.handoff;
+  try {
+    const patch = await handoffDeps.readHandoffPatch(handoff.patchPath);
+    const findingsArtifact = await handoffDeps
+      .loadFindingsArtifact(CONFIG_DIR, handoff.projectPath, handoff.sessionId)
+      .catch(() => null);
+    const files = summarizeHandoffPatch(parseHandoffPatch(patch));
+    const report: HandoffShowJson = {
+      handoffId: handoff.handoffId,
+      sessionId: handoff.sessionId,
+      commitSha: handoff.commitSha,
+      state: handoff.state,
+      patchPath: handoff.patchPath,
+      resolvedFindingIds: findingsArtifact
+        ? getResolvedFindings(findingsArtifact).map((finding) => finding.id)
+        : [],
+      files,
+      totals: {
+        files: files.length,
+        additions: files.reduce((sum, file) => sum + file.additions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      },
+      patch,
+    };
+
+    handoffDeps.print(values.json ? JSON.stringify(report, null, 2) : formatHandoffShow(report));
+  } catch (error) {
+    handoffDeps.logError(`${error}`);
+    handoffDeps.exit(1);
+  }
+}
+
+export type { HandoffDeps };
@@ -1,8 +1,8 @@
 import * as p from "@clack/prompts";
-import { getCommandDef } from "@/cli";
+import { getCommandDef, getVersion } from "@/cli";
 import { parseCommand } from "@/lib/cli-parser";
 import { CONFIG_DIR } from "@/lib/config";
-import { formatDuration } from "@/lib/format";
+import { formatAgentUsage, formatDuration } from "@/lib/format";
 import {
   computeSessionStats,
   getProjectName,
@@ -10,23 +10,66 @@ import {
   listLogSessions,
   listProjectLogSessions,
 } from "@/lib/logger";
-import { type ActiveSession, listAllActiveSessions } from "@/lib/session-state";
+import { loadFindingsArtifact } from "@/lib/review-workflow/findings/artifact";
+import {
+  buildSarifLog,
+  type SarifLog,
+  type SarifRunSource,
+} from "@/lib/review-workflow/findings/sarif";
+import { formatFindingTriage, isOpenFinding } from "@/lib/review-workflow/findings/triage";
 import type {
-  AgentSettings,
-  DerivedRunStatus,
-  FixEntry,
-  HandoffStatus,
-  IterationEntry,
-  Priority,
-  SessionStats,
-  SkippedEntry,
-  SystemEntry,
+  FilteredFinding,
+  FindingId,
+  FindingsArtifact,
+  FindingTriage,
+} from "@/lib/review-workflow/findings/types";
+import { type ActiveSession, listAllActiveSessions } from "@/lib/session-state";
+import {
+  type AgentSettings,
+  type AgentUsage,
+  type DerivedRunStatus,
+  type FindingCategory,
+  type FixEntry,
+  type HandoffStatus,
+  type IterationEntry,
+  type Priority,
+  type SessionStats,
+  type SkippedEntry,
+  type SystemEntry,
+  VALID_FINDING_CATEGORIES,
 } from "@/lib/types";
 
 interface LogsOptions {
   json: boolean;
   last: number;
   global: boolean;
+  format?: string;
+}
+
+type LogOutputFormat = "text" | "json" | "sarif";
+
+const LOG_OUTPUT_FORMATS: readonly LogOutputFormat[] = ["text", "json", "sarif"];
+
+function isLogOutputFormat(value: string): value is LogOutputFormat {
+  return (LOG_OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+function resolveLogOutputFormat(options: Pick<LogsOptions, "json" | "format">): LogOutputFormat {
+  const requested = options.format?.trim().toLowerCase();
+  if (requested !== undefined && !isLogOutputFormat(requested)) {
+    throw new Error(
+      `Unsupported log format "${options.format}". Use one of: ${LOG_OUTPUT_FORMATS.join(", ")}`
+    );
+  }
+
+  if (options.json) {
+    if (requested !== undefined && requested !== "json") {
+      throw new Error(`--json cannot be combined with --format ${requested}`);
+    }
+    return "json";
+  }
+
+  return requested ?? "text";
 }
 
 // Session state uses "default" when branch is unavailable, but logs store undefined.
@@ -82,12 +125,17 @@ function isUnknownEmptySession(session: SessionStats): boolean {
   return session.status === "unknown" && session.iterations === 0;
 }
 
-function printNoProjectSessions(projectName: string, json: boolean): void {
-  if (json) {
+function printNoProjectSessions(projectName: string, format: LogOutputFormat): void {
+  if (format === "json") {
     console.log(JSON.stringify({ project: projectName, sessions: [] }, null, 2));
     return;
   }
 
+  if (format === "sarif") {
+    console.log(JSON.stringify(buildSarifLog([], { toolVersion: getVersion() }), null, 2));
+    return;
+  }
+
   p.log.info("No review sessions found for current working directory.");
   p.log.message('Start a review with "rr run" first.');
 }
@@ -104,6 +152,10 @@ export function formatPriorityCounts(counts: Record<Priority, number>): string {
   return `P0: ${counts.P0}  P1: ${counts.P1}  P2: ${counts.P2}  P3: ${counts.P3}`;
 }
 
+export function formatCategoryCounts(counts: Record<FindingCategory, number>): string {
+  return VALID_FINDING_CATEGORIES.map((category) => `${category}: ${counts[category]}`).join("  ");
+}
+
 export { formatDuration } from "@/lib/format";
 
 function extractSystemEntry(session: SessionStats): SystemEntry | undefined {
@@ -115,6 +167,10 @@ function extractSystemEntry(session: SessionStats): SystemEntry | undefined {
   return undefined;
 }
 
+export interface FindingTriageJson extends FindingTriage {
+  findingId: FindingId;
+}
+
 export interface SessionJson {
   sessionId?: string;
   project: string;
@@ -126,6 +182,7 @@ export interface SessionJson {
   timestamp: number;
   iterations: number;
   duration?: number;
+  usage?: AgentUsage;
   reviewer?: AgentSettings;
   fixer?: AgentSettings;
   handoffStatus?: HandoffStatus;
@@ -135,6 +192,7 @@ export interface SessionJson {
     totalFixes: number;
     totalSkipped: number;
     priorityCounts: Record<Priority, number>;
+    categoryCounts: Record<FindingCategory, number>;
     totalFindings?: number;
     totalSelectedFindings?: number;
     totalResolvedSelectedFindings?: number;
@@ -142,6 +200,8 @@ export interface SessionJson {
   };
   fixes: FixEntry[];
   skipped: SkippedEntry[];
+  filtered?: FilteredFinding[];
+  triage?: FindingTriageJson[];
 }
 
 export interface ProjectSessionsJson {
@@ -157,9 +217,11 @@ export function buildSessionJson(
   projectName: string,
   session: SessionStats,
   fixes: FixEntry[],
-  skipped: SkippedEntry[]
+  skipped: SkippedEntry[],
+  triage?: FindingTriageJson[]
 ): SessionJson {
   const systemEntry = extractSystemEntry(session);
+  const filtered = extractFilteredFindings(session);
 
   return {
     sessionId: session.sessionId,
@@ -172,6 +234,7 @@ export function buildSessionJson(
     timestamp: session.timestamp,
     iterations: session.iterations,
     duration: session.totalDuration,
+    usage: session.usage,
     reviewer: systemEntry?.reviewer,
     fixer: systemEntry?.fixer,
     handoffStatus: session.handoffStatus,
@@ -181,6 +244,7 @@ export function buildSessionJson(
       totalFixes: session.totalFixes,
       totalSkipped: session.totalSkipped,
       priorityCounts: session.priorityCounts,
+      categoryCounts: session.categoryCounts,
       totalFindings: session.totalFindings,
       totalSelectedFindings: session.totalSelectedFindings,
       totalResolvedSelectedFindings: session.totalResolvedSelectedFindings,
@@ -188,16 +252,25 @@ export function buildSessionJson(
     },
     fixes,
     skipped,
+    ...(filtered.length > 0 ? { filtered } : {}),
+    ...(triage && triage.length > 0 ? { triage } : {}),
   };
 }
 
 export function buildProjectSessionsJson(
   projectName: string,
-  sessions: SessionStats[]
+  sessions: SessionStats[],
+  triageBySessionId: Map<string, FindingTriageJson[]> = new Map()
 ): ProjectSessionsJson {
   const sessionJsons = sessions.map((session) => {
     const { fixes, skipped } = extractFixesAndSkipped(session);
-    return buildSessionJson(projectName, session, fixes, skipped);
+    return buildSessionJson(
+      projectName,
+      session,
+      fixes,
+      skipped,
+      getSessionTriage(session, triageBySessionId)
+    );
   });
 
   return {
@@ -206,14 +279,23 @@ export function buildProjectSessionsJson(
   };
 }
 
-export function buildGlobalSessionsJson(sessions: SessionStats[]): GlobalSessionsJson {
+export function buildGlobalSessionsJson(
+  sessions: SessionStats[],
+  triageBySessionId: Map<string, FindingTriageJson[]> = new Map()
+): GlobalSessionsJson {
   const sessionJsons = sessions.map((session) => {
     const systemEntry = extractSystemEntry(session);
     const projectName = systemEntry?.projectPath
       ? getProjectName(systemEntry.projectPath)
       : "unknown";
     const { fixes, skipped } = extractFixesAndSkipped(session);
-    return buildSessionJson(projectName, session, fixes, skipped);
+    return buildSessionJson(
+      projectName,
+      session,
+      fixes,
+      skipped,
+      getSessionTriage(session, triageBySessionId)
+    );
   });
 
   return {
@@ -221,6 +303,84 @@ export function buildGlobalSessionsJson(sessions: SessionStats[]): GlobalSession
   };
 }
 
+function getSessionId(session: SessionStats): string | undefined {
+  return session.sessionId ?? extractSystemEntry(session)?.sessionId;
+}
+
+function getSessionTriage(
+  session: SessionStats,
+  triageBySessionId: Map<string, FindingTriageJson[]>
+): FindingTriageJson[] | undefined {
+  const sessionId = getSessionId(session);
+  return sessionId ? triageBySessionId.get(sessionId) : undefined;
+}
+
+async function loadSessionFindingsArtifact(
+  session: SessionStats,
+  storageRoot: string
+): Promise<{ sessionId: string; projectPath: string; artifact: FindingsArtifact | null } | null> {
+  const sessionId = getSessionId(session);
+  const projectPath = extractSystemEntry(session)?.projectPath;
+  if (!sessionId || !projectPath) {
+    return null;
+  }
+
+  const artifact = await loadFindingsArtifact(storageRoot, projectPath, sessionId).catch(
+    () => null
+  );
+  return { sessionId, projectPath, artifact };
+}
+
+/**
+ * Build one SARIF run per session from its persisted findings artifact.
+ * Sessions that never persisted findings (clean or legacy runs) export an empty run.
+ */
+async function buildSessionsSarifLog(
+  sessions: SessionStats[],
+  storageRoot: string = CONFIG_DIR
+): Promise<SarifLog> {
+  const sources: SarifRunSource[] = [];
+  for (const session of sessions) {
+    const loaded = await loadSessionFindingsArtifact(session, storageRoot);
+    if (!loaded) {
+      continue;
+    }
+
+    sources.push(
+      loaded.artifact ?? {
+        sessionId: loaded.sessionId,
+        projectPath: loaded.projectPath,
+        findings: [],
+      }
+    );
+  }
+
+  return buildSarifLog(sources, { toolVersion: getVersion() });
+}
+
+export function collectFindingTriage(artifact: FindingsArtifact): FindingTriageJson[] {
+  return artifact.findings.flatMap((finding) =>
+    finding.triage && !isOpenFinding(finding) ? [{ findingId: finding.id, ...finding.triage }] : []
+  );
+}
+
+/**
+ * Triage decisions live in the findings artifact rather than the session log.
+ */
+async function loadSessionsTriage(
+  sessions: SessionStats[],
+  storageRoot: string = CONFIG_DIR
+): Promise<Map<string, FindingTriageJson[]>> {
+  const triageBySessionId = new Map<string, FindingTriageJson[]>();
+  for (const session of sessions) {
+    const loaded = await loadSessionFindingsArtifact(session, storageRoot);
+    if (loaded?.artifact) {
+      triageBySessionId.set(loaded.sessionId, collectFindingTriage(loaded.artifact));
+    }
+  }
+  return triageBySessionId;
+}
+
 function extractFixesAndSkipped(session: SessionStats): {
   fixes: FixEntry[];
   skipped: SkippedEntry[];
@@ -241,6 +401,12 @@ function extractFixesAndSkipped(session: SessionStats): {
   return { fixes, skipped };
 }
 
+function extractFilteredFindings(session: SessionStats): FilteredFinding[] {
+  return session.entries.flatMap((entry) =>
+    entry.type === "review_iteration" ? (entry.filteredFindings ?? []) : []
+  );
+}
+
 function formatStatusWithIcon(status: DerivedRunStatus): string {
   return status;
 }
@@ -275,6 +441,7 @@ function renderTerminalSession(
   session: SessionStats,
   fixes: FixEntry[],
   skipped: SkippedEntry[],
+  triage: FindingTriageJson[],
   index?: number,
   total?: number
 ): void {
@@ -302,6 +469,9 @@ function renderTerminalSession(
   if (session.totalDuration !== undefined) {
     p.log.info(`Duration: ${formatDuration(session.totalDuration)}`);
   }
+  if (session.usage) {
+    p.log.info(`Usage:    ${formatAgentUsage(session.usage)}`);
+  }
 
   if (systemEntry) {
     p.log.info(`Reviewer: ${formatAgent(systemEntry.reviewer)}`);
@@ -312,6 +482,7 @@ function renderTerminalSession(
   if (hasBatchFirstSummary(session)) {
     p.log.step(`Review: ${session.iterations} iterations · ${session.totalFindings ?? 0} findings`);
     p.log.message(formatPriorityCounts(session.priorityCounts));
+    p.log.message(formatCategoryCounts(session.categoryCounts));
 
     if (session.totalSelectedFindings !== undefined) {
       p.log.message(`Selection: ${session.totalSelectedFindings} selected`);
@@ -371,6 +542,27 @@ function renderTerminalSession(
     }
   }
 
+  const filtered = extractFilteredFindings(session);
+  if (filtered.length > 0) {
+    p.log.message("");
+    p.log.step(`Filtered below confidence floor (${filtered.length})`);
+
+    for (const finding of filtered) {
+      p.log.message(
+        `${finding.priority}  ${finding.title} ${finding.filePath}:${finding.startLine} · confidence ${finding.confidenceScore} < ${finding.minConfidence}`
+      );
+    }
+  }
+
+  if (triage.length > 0) {
+    p.log.message("");
+    p.log.step(`Triage (${triage.length})`);
+
+    for (const decision of triage) {
+      p.log.message(`${decision.findingId}  ${formatFindingTriage(decision)}`);
+    }
+  }
+
   p.outro("");
 }
 
@@ -382,16 +574,18 @@ export async function runLog(args: string[]): Promise<void> {
   }
 
   let options: LogsOptions;
+  let format: LogOutputFormat;
   try {
     const result = parseCommand<LogsOptions>(logDef, args);
     options = result.values;
+    format = resolveLogOutputFormat(options);
   } catch (error) {
     p.log.error(`${error}`);
     process.exit(1);
   }
 
-  if (options.global && !options.json) {
-    p.log.error("--global requires --json");
+  if (options.global && format === "text") {
+    p.log.error("--global requires --json or --format sarif");
     process.exit(1);
   }
 
@@ -400,19 +594,19 @@ export async function runLog(args: string[]): Promise<void> {
     process.exit(1);
   }
 
-  if (options.json && options.global) {
+  if (options.global) {
     const allLogSessions = await listLogSessions(CONFIG_DIR);
-
-    if (allLogSessions.length === 0) {
-      console.log(JSON.stringify({ sessions: [] }, null, 2));
-      return;
-    }
-
     const sessionStats = await Promise.all(allLogSessions.map(computeSessionStats));
     const activeSessions = await listAllActiveSessions(CONFIG_DIR);
     markSessionStatsRunning(sessionStats, activeSessions);
     const filtered = sessionStats.filter((session) => !isUnknownEmptySession(session));
-    const jsonOutput = buildGlobalSessionsJson(filtered);
+
+    if (format === "sarif") {
+      console.log(JSON.stringify(await buildSessionsSarifLog(filtered), null, 2));
+      return;
+    }
+
+    const jsonOutput = buildGlobalSessionsJson(filtered, await loadSessionsTriage(filtered));
     console.log(JSON.stringify(jsonOutput, null, 2));
     return;
   }
@@ -422,7 +616,7 @@ export async function runLog(args: string[]): Promise<void> {
   const projectSessions = await listProjectLogSessions(CONFIG_DIR, currentProjectPath);
 
   if (projectSessions.length === 0) {
-    printNoProjectSessions(projectName, options.json);
+    printNoProjectSessions(projectName, format);
     return;
   }
 
@@ -456,12 +650,18 @@ export async function runLog(args: string[]): Promise<void> {
   }
 
   if (sessionStats.length === 0) {
-    printNoProjectSessions(projectName, options.json);
+    printNoProjectSessions(projectName, format);
     return;
   }
 
-  if (options.json) {
-    const jsonOutput = buildProjectSessionsJson(projectName, sessionStats);
+  if (format === "sarif") {
+    console.log(JSON.stringify(await buildSessionsSarifLog(sessionStats), null, 2));
+    return;
+  }
+
+  const triageBySessionId = await loadSessionsTriage(sessionStats);
+  if (format === "json") {
+    const jsonOutput = buildProjectSessionsJson(projectName, sessionStats, triageBySessionId);
     console.log(JSON.stringify(jsonOutput, null, 2));
     return;
   }
@@ -472,6 +672,14 @@ export async function runLog(args: string[]): Promise<void> {
     if (!session) continue;
 
     const { fixes, skipped } = extractFixesAndSkipped(session);
-    renderTerminalSession(projectName, session, fixes, skipped, i + 1, total);
+    renderTerminalSession(
+      projectName,
+      session,
+      fixes,
+      skipped,
+      getSessionTriage(session, triageBySessionId) ?? [],
+      i + 1,
+      total
+    );
   }
 }
@@ -1,13 +1,16 @@
+import { resolve } from "node:path";
 import * as p from "@clack/prompts";
 import { getCommandDef } from "@/cli";
 import { getAgentDisplayInfo } from "@/lib/agents/display";
+import { type BudgetFlagValues, buildBudgetArgs, parseBudgetFlags } from "@/lib/budget";
 import { parseCommand } from "@/lib/cli-parser";
-import { loadEffectiveConfig } from "@/lib/config";
+import { applyReviewProfile, loadEffectiveConfig, resolveProfilePromptPath } from "@/lib/config";
 import { collectIssueItems, runDiagnostics } from "@/lib/diagnostics";
 import { getTmuxInstallHint } from "@/lib/diagnostics/tmux-install";
 import type { DiagnosticItem, DiagnosticsReport } from "@/lib/diagnostics/types";
 import { type CycleResult, runReviewCycle } from "@/lib/engine";
 import { formatReviewType } from "@/lib/format";
+import { resolveCommitRange, resolveStashEntry } from "@/lib/git";
 import { formatHandoffNote } from "@/lib/handoff-note";
 import { createLogSession, getGitBranch } from "@/lib/logger";
 import { playCompletionSound, resolveSoundEnabled, type SoundOverride } from "@/lib/notify/sound";
@@ -17,6 +20,10 @@ import {
   getRepeatedPriorityFlagError,
   parsePriorityList,
 } from "@/lib/priority-list";
+import {
+  getReviewPathScope,
+  resolveReviewPathScope,
+} from "@/lib/review-workflow/findings/path-scope";
 import { runFixSession } from "@/lib/review-workflow/remediation/run-fix-session";
 import type { FixSessionResult } from "@/lib/review-workflow/remediation/types";
 import { mapSessionStatusToFinalStatus } from "@/lib/review-workflow/session-status";
@@ -30,18 +37,33 @@ import {
   updateSessionState,
 } from "@/lib/session-state";
 import { createSession, generateSessionName, isInsideTmux, isTmuxInstalled } from "@/lib/tmux";
-import type { AgentType, Config, Priority, ReviewOptions } from "@/lib/types";
+import {
+  type AgentSettings,
+  type AgentType,
+  type BudgetConfig,
+  type Config,
+  getReviewerSettingsList,
+  type Priority,
+  type ReviewOptions,
+} from "@/lib/types";
 
 type IntervalHandle = ReturnType<typeof setInterval>;
 
-export interface RunOptions {
+export interface RunOptions extends BudgetFlagValues {
   max?: number;
   force?: boolean;
   auto?: boolean;
   priority?: string;
+  path?: string[];
+  exclude?: string[];
+  profile?: string;
+  "each-commit"?: boolean;
   base?: string;
   uncommitted?: boolean;
   commit?: string;
+  range?: string;
+  patch?: string;
+  stash?: string;
   sound?: boolean;
   "no-sound"?: boolean;
 }
@@ -98,17 +120,66 @@ export function resolveRunSoundOverride(options: RunOptions): SoundOverride | un
 }
 
 export function formatRunAgentsNote(config: Config, reviewOptions: ReviewOptions): string {
-  const reviewer = getAgentDisplayInfo(config.reviewer);
+  const reviewers = getReviewerSettingsList(config.reviewer).map(getAgentDisplayInfo);
   const fixer = getAgentDisplayInfo(config.fixer);
-  const lines = [
-    `Reviewer:   ${reviewer.agentName} (${reviewer.modelName}, reasoning: ${reviewer.reasoning})`,
-    `Fixer:      ${fixer.agentName} (${fixer.modelName}, reasoning: ${fixer.reasoning}) (used by rr fix)`,
-  ];
+  const reviewerLabel = reviewers.length > 1 ? "Reviewers:" : "Reviewer:";
+  const lines = reviewers.map(
+    (reviewer, index) =>
+      `${(index === 0 ? reviewerLabel : "").padEnd(12)}${reviewer.agentName} (${reviewer.modelName}, reasoning: ${reviewer.reasoning})`
+  );
+  lines.push(
+    `Fixer:      ${fixer.agentName} (${fixer.modelName}, reasoning: ${fixer.reasoning}) (used by rr fix)`
+  );
 
   lines.push(`Review:     ${formatReviewType(reviewOptions)}`);
+  if (reviewOptions.profile) {
+    lines.push(`Profile:    ${reviewOptions.profile}`);
+  }
+  const pathScope = getReviewPathScope(reviewOptions);
+  if (pathScope) {
+    const globs = [...pathScope.include, ...pathScope.exclude.map((glob) => `!${glob}`)];
+    lines.push(`Paths:      ${globs.join(", ")}`);
+  }
   return lines.join("\n");
 }
 
+export interface RunProfileSettings {
+  config: Config;
+  customInstructions?: string;
+  promptFile?: string;
+}
+
+/**
+ * Applies a named profile: its reviewer and iteration settings overlay `config`, and its
+ * custom instructions run ahead of any given on the command line.
+ */
+export async function resolveRunProfile(
+  config: Config,
+  profileName: string,
+  projectPath: string,
+  customInstructions?: string
+): Promise<RunProfileSettings> {
+  const profiledConfig = applyReviewProfile(config, profileName);
+  const profile = config.profiles?.[profileName];
+  const instructions = [profile?.customInstructions?.trim(), customInstructions].filter(
+    (value): value is string => Boolean(value)
+  );
+
+  let promptFile: string | undefined;
+  if (profile?.promptFile) {
+    promptFile = await resolveProfilePromptPath(projectPath, profile.promptFile);
+    if (!(await Bun.file(promptFile).exists())) {
+      throw new Error(`Profile "${profileName}" prompt file not found: ${promptFile}`);
+    }
+  }
+
+  return {
+    config: profiledConfig,
+    customInstructions: instructions.length > 0 ? instructions.join("\n\n") : undefined,
+    promptFile,
+  };
+}
+
 function hasAutoFixPriorityMatches(result: CycleResult, priorities: Priority[]): boolean {
   return (
     result.artifact?.findings.some((finding) => priorities.includes(finding.priority)) ?? false
@@ -152,8 +223,8 @@ export function getDynamicProbeAgents(config: Config | null): AgentType[] {
   }
 
   const probeAgents = new Set<AgentType>();
-  const settings: (Config["reviewer"] | Config["fixer"] | undefined)[] = [
-    config.reviewer,
+  const settings: (AgentSettings | undefined)[] = [
+    ...(Array.isArray(config.reviewer) ? config.reviewer : [config.reviewer]),
     config.fixer,
   ];
 
@@ -167,6 +238,19 @@ export function getDynamicProbeAgents(config: Config | null): AgentType[] {
   return probeAgents.size > 0 ? [...probeAgents] : [];
 }
 
+function getProfileProbeConfig(config: Config | null, profile: string | undefined): Config | null {
+  if (!config || !profile) {
+    return config;
+  }
+
+  try {
+    return applyReviewProfile(config, profile);
+  } catch {
+    // Unknown profiles are reported once the effective config is resolved.
+    return config;
+  }
+}
+
 export interface RunRuntime {
   prompt: {
     log: {
@@ -186,6 +270,8 @@ export interface RunRuntime {
   loadConfig: typeof loadEffectiveConfig;
   runDiagnostics: typeof runDiagnostics;
   collectIssueItems: typeof collectIssueItems;
+  resolveCommitRange: typeof resolveCommitRange;
+  resolveStashEntry: typeof resolveStashEntry;
   getTmuxInstallHint: typeof getTmuxInstallHint;
   runReviewCycle: typeof runReviewCycle;
   runFixSession: typeof runFixSession;
@@ -287,6 +373,8 @@ export function createRunRuntime(overrides: RunRuntimeOverrides = {}): RunRuntim
     loadConfig: loadEffectiveConfig,
     runDiagnostics,
     collectIssueItems,
+    resolveCommitRange,
+    resolveStashEntry,
     getTmuxInstallHint,
     runReviewCycle,
     runFixSession,
@@ -377,7 +465,15 @@ async function runInBackground(
   commitSha?: string,
   customInstructions?: string,
   force?: boolean,
-  soundOverride?: SoundOverride
+  soundOverride?: SoundOverride,
+  includePaths: string[] = [],
+  excludePaths: string[] = [],
+  profile?: string,
+  range?: string,
+  eachCommit?: boolean,
+  patchFile?: string,
+  stash?: string,
+  budget?: BudgetConfig
 ): Promise<void> {
   // Check tmux is installed
   if (!runtime.tmux.isTmuxInstalled()) {
@@ -414,6 +510,15 @@ async function runInBackground(
   if (commitSha) {
     envParts.push(`RR_COMMIT_SHA=${shellEscape(commitSha)}`);
   }
+  if (range) {
+    envParts.push(`RR_RANGE=${shellEscape(range)}`);
+  }
+  if (patchFile) {
+    envParts.push(`RR_PATCH_FILE=${shellEscape(patchFile)}`);
+  }
+  if (stash) {
+    envParts.push(`RR_STASH=${shellEscape(stash)}`);
+  }
   if (customInstructions) {
     envParts.push(`RR_CUSTOM_PROMPT=${shellEscape(customInstructions)}`);
   }
@@ -434,6 +539,19 @@ async function runInBackground(
   if (priorities && priorities.length > 0) {
     commandArgs.push("--priority", formatPriorityList(priorities));
   }
+  for (const glob of includePaths) {
+    commandArgs.push("--path", shellEscape(glob));
+  }
+  for (const glob of excludePaths) {
+    commandArgs.push("--exclude", shellEscape(glob));
+  }
+  if (profile) {
+    commandArgs.push("--profile", shellEscape(profile));
+  }
+  if (eachCommit) {
+    commandArgs.push("--each-commit");
+  }
+  commandArgs.push(...buildBudgetArgs(budget));
 
   const envVars = envParts.join(" ");
   const command = `${envVars} ${runtime.process.execPath} ${CLI_PATH} ${commandArgs.join(" ")}`;
@@ -441,7 +559,17 @@ async function runInBackground(
   try {
     await runtime.tmux.createSession(sessionName, command);
     runtime.prompt.log.success(`Review started in background session: ${sessionName}`);
-    const reviewOptions: ReviewOptions = { baseBranch, commitSha, customInstructions };
+    const reviewOptions: ReviewOptions = {
+      baseBranch,
+      commitSha,
+      range,
+      eachCommit,
+      patchFile,
+      stash,
+      customInstructions,
+      ...resolveReviewPathScope(config.review, { include: includePaths, exclude: excludePaths }),
+      profile,
+    };
     runtime.prompt.note(formatRunAgentsNote(config, reviewOptions), "Agents");
     runtime.prompt.note(
       "rr         - Open Interactive Mode\n" +
@@ -463,7 +591,7 @@ export async function runForeground(
   overrides: RunRuntimeOverrides = {}
 ): Promise<void> {
   const { runtime, projectPath } = createRunCommandContext(overrides);
-  const config = await runtime.loadConfig(projectPath);
+  let config = await runtime.loadConfig(projectPath);
   if (!config) {
     runtime.prompt.log.error("Failed to load config");
     runtime.process.exit(1);
@@ -472,12 +600,22 @@ export async function runForeground(
 
   const baseBranch = runtime.process.env.RR_BASE_BRANCH || undefined;
   const commitSha = runtime.process.env.RR_COMMIT_SHA || undefined;
-  const customInstructions = runtime.process.env.RR_CUSTOM_PROMPT || undefined;
+  const range = runtime.process.env.RR_RANGE || undefined;
+  const patchFile = runtime.process.env.RR_PATCH_FILE || undefined;
+  const stash = runtime.process.env.RR_STASH || undefined;
+  let customInstructions = runtime.process.env.RR_CUSTOM_PROMPT || undefined;
   const expectedSessionId = runtime.process.env.RR_SESSION_ID || undefined;
   const soundOverride = parseSoundOverride(runtime.process.env.RR_SOUND_OVERRIDE);
   let forceMaxIterations = false;
+  let eachCommit = false;
   let autoFixRequested = false;
   let autoFixPriorities: Priority[] | undefined;
+  let includePaths: string[] | undefined;
+  let excludePaths: string[] | undefined;
+  let maxIterations: number | undefined;
+  let budget: BudgetConfig | undefined;
+  let profileName: string | undefined;
+  let promptFile: string | undefined;
   let completionState: "success" | "warning" | "error" = "error";
   const soundEnabled = runtime.sound.resolveSoundEnabled(config, soundOverride);
   let cycleResult: CycleResult | undefined;
@@ -490,23 +628,56 @@ export async function runForeground(
       if (hasRepeatedPriorityFlag(args)) {
         throw new Error(getRepeatedPriorityFlagError());
       }
-      const { values } = runtime.parseCommand<{
-        max?: number;
-        force?: boolean;
-        auto?: boolean;
-        priority?: string;
-      }>(foregroundDef, args);
-      if (values.max !== undefined) {
-        config.maxIterations = values.max;
-      }
+      const { values } = runtime.parseCommand<
+        BudgetFlagValues & {
+          max?: number;
+          force?: boolean;
+          auto?: boolean;
+          priority?: string;
+          path?: string[];
+          exclude?: string[];
+          profile?: string;
+          "each-commit"?: boolean;
+        }
+      >(foregroundDef, args);
+      maxIterations = values.max;
+      profileName = values.profile;
       forceMaxIterations = values.force === true;
+      eachCommit = values["each-commit"] === true;
       autoFixRequested = values.auto === true;
       autoFixPriorities = values.priority ? parsePriorityList(values.priority) : undefined;
+      includePaths = values.path;
+      excludePaths = values.exclude;
+      budget = parseBudgetFlags(values);
     } catch {
       // Ignore parse errors for internal command
     }
   }
 
+  if (profileName) {
+    try {
+      const profileSettings = await resolveRunProfile(
+        config,
+        profileName,
+        projectPath,
+        customInstructions
+      );
+      config = profileSettings.config;
+      customInstructions = profileSettings.customInstructions;
+      promptFile = profileSettings.promptFile;
+    } catch (error) {
+      runtime.prompt.log.error(`${error instanceof Error ? error.message : error}`);
+      runtime.process.exit(1);
+      return;
+    }
+  }
+  if (maxIterations !== undefined) {
+    config.maxIterations = maxIterations;
+  }
+  if (budget) {
+    config.budget = { ...config.budget, ...budget };
+  }
+
   const branch = await runtime.getGitBranch(projectPath);
   let sessionState = sessionId
     ? await runtime.sessionState.readSessionState(undefined, projectPath, sessionId)
@@ -565,8 +736,15 @@ export async function runForeground(
       {
         baseBranch,
         commitSha,
+        range,
+        eachCommit: eachCommit || undefined,
+        patchFile,
+        stash,
         customInstructions,
         forceMaxIterations,
+        ...resolveReviewPathScope(config.review, { include: includePaths, exclude: excludePaths }),
+        profile: profileName,
+        promptFile,
       },
       {
         projectPath,
@@ -756,6 +934,14 @@ export async function startReview(
     runtime.process.exit(1);
     return;
   }
+  let budget: BudgetConfig | undefined;
+  try {
+    budget = parseBudgetFlags(options);
+  } catch (error) {
+    runtime.prompt.log.error(`${error instanceof Error ? error.message : error}`);
+    runtime.process.exit(1);
+    return;
+  }
   let soundOverride: SoundOverride | undefined;
   try {
     soundOverride = resolveRunSoundOverride(options);
@@ -774,6 +960,15 @@ export async function startReview(
     }
   }
 
+  if (options.profile !== undefined) {
+    options.profile = options.profile.trim();
+    if (options.profile.length === 0) {
+      runtime.prompt.log.error("--profile cannot be empty");
+      runtime.process.exit(1);
+      return;
+    }
+  }
+
   const loadedConfig = await runtime.loadConfig(projectPath);
 
   let priorities: Priority[] | undefined;
@@ -793,17 +988,33 @@ export async function startReview(
     return;
   }
 
-  if (options.commit !== undefined) {
-    options.commit = options.commit.trim();
-    if (options.commit.length === 0) {
-      runtime.prompt.log.error("--commit cannot be empty");
+  for (const flag of ["path", "exclude"] as const) {
+    const globs = options[flag]?.map((glob) => glob.trim());
+    if (globs?.some((glob) => glob.length === 0)) {
+      runtime.prompt.log.error(`--${flag} cannot be empty`);
+      runtime.process.exit(1);
+      return;
+    }
+    options[flag] = globs;
+  }
+
+  for (const flag of ["commit", "range", "patch", "stash"] as const) {
+    const value = options[flag]?.trim();
+    if (value !== undefined && value.length === 0) {
+      runtime.prompt.log.error(`--${flag} cannot be empty`);
       runtime.process.exit(1);
       return;
     }
+    options[flag] = value;
   }
 
   const hasExplicitMode =
-    options.base !== undefined || options.uncommitted === true || options.commit !== undefined;
+    options.base !== undefined ||
+    options.uncommitted === true ||
+    options.commit !== undefined ||
+    options.range !== undefined ||
+    options.patch !== undefined ||
+    options.stash !== undefined;
   if (!hasExplicitMode) {
     if (loadedConfig?.defaultReview) {
       if (loadedConfig.defaultReview.type === "base") {
@@ -811,7 +1022,7 @@ export async function startReview(
       }
     } else if (customInstructions !== undefined) {
       runtime.prompt.log.error(
-        "Custom review instructions require --base, --commit, or --uncommitted when no defaultReview is configured"
+        "Custom review instructions require --base, --commit, --range, --patch, --stash, or --uncommitted when no defaultReview is configured"
       );
       runtime.process.exit(1);
       return;
@@ -846,6 +1057,31 @@ export async function startReview(
     return;
   }
 
+  const reviewModeFlags: Array<[flag: string, selected: boolean]> = [
+    ["--base", options.base !== undefined],
+    ["--commit", options.commit !== undefined],
+    ["--uncommitted", options.uncommitted === true],
+    ["--range", options.range !== undefined],
+    ["--patch", options.patch !== undefined],
+    ["--stash", options.stash !== undefined],
+  ];
+  for (const [flag, selected] of reviewModeFlags.slice(3)) {
+    const conflictingFlag = reviewModeFlags.find(
+      ([otherFlag, otherSelected]) => otherSelected && otherFlag !== flag
+    )?.[0];
+    if (selected && conflictingFlag) {
+      runtime.prompt.log.error(`Cannot use ${flag} and ${conflictingFlag} together`);
+      runtime.process.exit(1);
+      return;
+    }
+  }
+
+  if (options["each-commit"] && options.base === undefined && options.range === undefined) {
+    runtime.prompt.log.error("--each-commit requires --base or --range");
+    runtime.process.exit(1);
+    return;
+  }
+
   const preflightSpinner = runtime.prompt.spinner();
   preflightSpinner.start("Running preflight checks...");
   let diagnostics: DiagnosticsReport;
@@ -854,9 +1090,12 @@ export async function startReview(
       projectPath,
       baseBranch: options.base,
       commitSha: options.commit,
+      range: options.range,
+      patchFile: options.patch,
+      stash: options.stash,
       customInstructions,
       capabilityReviewOptions: {
-        probeAgents: getDynamicProbeAgents(loadedConfig),
+        probeAgents: getDynamicProbeAgents(getProfileProbeConfig(loadedConfig, options.profile)),
       },
     });
   } finally {
@@ -876,13 +1115,56 @@ export async function startReview(
     logPreflightItems(runtime, warnings, "Preflight warnings:", "warn");
   }
 
-  const config = diagnostics.config ?? (await runtime.loadConfig(projectPath));
+  let config = diagnostics.config ?? (await runtime.loadConfig(projectPath));
   if (!config) {
     runtime.prompt.log.error("Failed to load configuration");
     runtime.process.exit(1);
     return;
   }
 
+  let range: string | undefined;
+  if (options.range !== undefined) {
+    try {
+      const commitRange = runtime.resolveCommitRange(projectPath, options.range);
+      range = `${commitRange.from}..${commitRange.to}`;
+    } catch (error) {
+      runtime.prompt.log.error(`${error instanceof Error ? error.message : error}`);
+      runtime.process.exit(1);
+      return;
+    }
+  }
+
+  let patchFile: string | undefined;
+  if (options.patch !== undefined) {
+    patchFile = resolve(runtime.process.cwd(), options.patch);
+    if (!(await Bun.file(patchFile).exists())) {
+      runtime.prompt.log.error(`Patch file not found: ${patchFile}`);
+      runtime.process.exit(1);
+      return;
+    }
+  }
+
+  let stash: string | undefined;
+  if (options.stash !== undefined) {
+    try {
+      stash = runtime.resolveStashEntry(projectPath, options.stash);
+    } catch (error) {
+      runtime.prompt.log.error(`${error instanceof Error ? error.message : error}`);
+      runtime.process.exit(1);
+      return;
+    }
+  }
+
+  if (options.profile !== undefined) {
+    try {
+      config = (await resolveRunProfile(config, options.profile, projectPath)).config;
+    } catch (error) {
+      runtime.prompt.log.error(`${error instanceof Error ? error.message : error}`);
+      runtime.process.exit(1);
+      return;
+    }
+  }
+
   // Check if inside tmux - warn about nesting
   if (runtime.tmux.isInsideTmux()) {
     runtime.prompt.log.warn("Running inside tmux session. Review will start in a nested session.");
@@ -899,6 +1181,14 @@ export async function startReview(
     options.commit,
     customInstructions,
     options.force,
-    soundOverride
+    soundOverride,
+    options.path,
+    options.exclude,
+    options.profile,
+    range,
+    options["each-commit"],
+    patchFile,
+    stash,
+    budget
   );
 }
@@ -0,0 +1,213 @@
+import { isAbsolute, join, normalize } from "node:path";
+import * as p from "@clack/prompts";
+import { getCommandDef } from "@/cli";
+import { parseCommand } from "@/lib/cli-parser";
+import { CONFIG_DIR } from "@/lib/config";
+import {
+  createSessionWorktreeAt,
+  discardSessionWorktree,
+  type GitSessionWorktree,
+} from "@/lib/git";
+import { createOrAutoApplyHandoff } from "@/lib/handoff";
+import { appendLog } from "@/lib/logging";
+import {
+  appendFixResults,
+  loadFindingsArtifactBySessionId,
+  validateArtifactBaseline,
+} from "@/lib/review-workflow/findings/artifact";
+import {
+  applySuggestionToContent,
+  resolveFindingSuggestion,
+} from "@/lib/review-workflow/findings/suggestions";
+import type { FindingId } from "@/lib/review-workflow/findings/types";
+
+interface SuggestCommandValues {
+  session?: string;
+  id?: string;
+}
+
+interface SuggestApplyOptions {
+  session: string;
+  findingId: FindingId;
+}
+
+export interface SuggestCommandDeps {
+  getCommandDef: typeof getCommandDef;
+  loadFindingsArtifactBySessionId: typeof loadFindingsArtifactBySessionId;
+  validateArtifactBaseline: typeof validateArtifactBaseline;
+  createSessionWorktreeAt: typeof createSessionWorktreeAt;
+  discardSessionWorktree: typeof discardSessionWorktree;
+  createOrAutoApplyHandoff: typeof createOrAutoApplyHandoff;
+  appendFixResults: typeof appendFixResults;
+  appendLog: typeof appendLog;
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  logInfo: (message: string) => void;
+  logSuccess: (message: string) => void;
+  logError: (message: string) => void;
+  exit: (code: number) => void;
+}
+
+const DEFAULT_SUGGEST_DEPS: SuggestCommandDeps = {
+  getCommandDef,
+  loadFindingsArtifactBySessionId,
+  validateArtifactBaseline,
+  createSessionWorktreeAt,
+  discardSessionWorktree,
+  createOrAutoApplyHandoff,
+  appendFixResults,
+  appendLog,
+  readFile: async (path) => await Bun.file(path).text(),
+  writeFile: async (path, content) => {
+    await Bun.write(path, content);
+  },
+  logInfo: (message) => p.log.info(message),
+  logSuccess: (message) => p.log.success(message),
+  logError: (message) => p.log.error(message),
+  exit: (code) => process.exit(code),
+};
+
+export function parseSuggestApplyOptions(
+  commandDef: NonNullable<ReturnType<typeof getCommandDef>>,
+  args: string[]
+): SuggestApplyOptions {
+  const { values, positional } = parseCommand<SuggestCommandValues>(commandDef, args);
+  const [subcommand, ...extra] = positional;
+  if (subcommand !== "apply") {
+    throw new Error(
+      subcommand
+        ? `Unknown suggest subcommand "${subcommand}". Use: apply.`
+        : "Missing suggest subcommand. Use: rr suggest apply --session <id> --id <finding>."
+    );
+  }
+
+  if (extra.length > 0) {
+    throw new Error(`Unexpected argument "${extra[0]}"`);
+  }
+
+  const session = values.session?.trim() ?? "";
+  if (!session) {
+    throw new Error("--session must not be empty");
+  }
+
+  const findingId = values.id?.trim().toUpperCase() ?? "";
+  if (!/^F\d+$/u.test(findingId)) {
+    throw new Error(`Invalid finding ID "${values.id}". Use IDs like F001.`);
+  }
+
+  return { session, findingId: findingId as FindingId };
+}
+
+function resolveWorktreeFilePath(worktree: GitSessionWorktree, filePath: string): string {
+  const normalized = normalize(filePath);
+  if (isAbsolute(normalized) || normalized === ".." || normalized.startsWith("../")) {
+    throw new Error(`Suggestion target ${filePath} is outside the project`);
+  }
+
+  return join(worktree.agentProjectPath, normalized);
+}
+
+export async function runSuggest(
+  args: string[],
+  deps: Partial<SuggestCommandDeps> = {}
+): Promise<void> {
+  const suggestDeps = { ...DEFAULT_SUGGEST_DEPS, ...deps };
+  const commandDef = suggestDeps.getCommandDef("suggest");
+  if (!commandDef) {
+    suggestDeps.logError("Internal error: suggest command definition not found");
+    suggestDeps.exit(1);
+    return;
+  }
+
+  let options: SuggestApplyOptions;
+  try {
+    options = parseSuggestApplyOptions(commandDef, args);
+  } catch (error) {
+    suggestDeps.logError(`${error}`);
+    suggestDeps.exit(1);
+    return;
+  }
+
+  let worktree: GitSessionWorktree | undefined;
+  try {
+    const artifact = await suggestDeps.loadFindingsArtifactBySessionId(CONFIG_DIR, options.session);
+    if (!artifact) {
+      suggestDeps.logError(`Findings artifact not found for session ${options.session}`);
+      suggestDeps.exit(1);
+      return;
+    }
+
+    const finding = artifact.findings.find((candidate) => candidate.id === options.findingId);
+    if (!finding) {
+      suggestDeps.logError(`Finding ${options.findingId} not found in session ${options.session}`);
+      suggestDeps.exit(1);
+      return;
+    }
+
+    const suggestion = resolveFindingSuggestion(finding);
+    const { baselineCommitSha } = await suggestDeps.validateArtifactBaseline(artifact);
+
+    // Finding line ranges refer to the reviewed baseline, so the suggestion is applied there
+    // and handed off like a fixer result instead of being written into the live checkout.
+    worktree = suggestDeps.createSessionWorktreeAt(
+      artifact.projectPath,
+      `${artifact.sessionId}-suggest-${finding.id}`,
+      baselineCommitSha
+    );
+    worktree.baselineCommitSha = artifact.baselineCommitSha;
+    worktree.baselineRef = artifact.baselineRef;
+    worktree.sourceBaselineCommitSha = artifact.sourceBaselineCommitSha;
+    worktree.sourceBaselineRef = artifact.sourceBaselineRef;
+    worktree.sourceBaselineFingerprint = artifact.sourceBaselineFingerprint;
+
+    const targetPath = resolveWorktreeFilePath(worktree, suggestion.filePath);
+    const content = await suggestDeps.readFile(targetPath);
+    await suggestDeps.writeFile(targetPath, applySuggestionToContent(content, suggestion));
+
+    const handoff = await suggestDeps.createOrAutoApplyHandoff(undefined, {
+      sessionId: artifact.sessionId,
+      projectPath: artifact.projectPath,
+      logPath: artifact.logPath,
+      worktree,
+    });
+    if (!handoff) {
+      suggestDeps.logInfo(`Suggestion for ${finding.id} matches the baseline; nothing to apply.`);
+      return;
+    }
+
+    await suggestDeps.appendLog(artifact.logPath, {
+      type: "handoff",
+      timestamp: handoff.handoffUpdatedAt,
+      handoffId: handoff.handoffId,
+      handoffStatus: handoff.handoffStatus,
+      commitSha: handoff.commitSha,
+    });
+    await suggestDeps.appendFixResults(CONFIG_DIR, artifact.projectPath, artifact.sessionId, [
+      {
+        findingId: finding.id,
+        status: "resolved",
+        summary: `Applied reviewer suggestion to ${suggestion.filePath}:${suggestion.startLine}-${suggestion.endLine}`,
+      },
+    ]);
+
+    if (handoff.handoffStatus === "applied-auto") {
+      suggestDeps.logSuccess(`Applied suggestion for ${finding.id} (${finding.title}).`);
+      return;
+    }
+
+    suggestDeps.logInfo(
+      `Suggestion for ${finding.id} is pending because the working tree changed since the review. Apply: rr apply --session ${handoff.handoffId}`
+    );
+  } catch (error) {
+    suggestDeps.logError(`${error instanceof Error ? error.message : error}`);
+    suggestDeps.exit(1);
+  } finally {
+    if (worktree) {
+      try {
+        suggestDeps.discardSessionWorktree(worktree);
+      } catch {
+        // Best-effort cleanup; the handoff ref keeps the suggestion commit reachable.
+      }
+    }
+  }
+}
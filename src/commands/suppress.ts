@@ -0,0 +1,133 @@
+import * as p from "@clack/prompts";
+import { getCommandDef } from "@/cli";
+import { parseCommand } from "@/lib/cli-parser";
+import { CONFIG_DIR } from "@/lib/config";
+import { loadFindingsArtifactBySessionId } from "@/lib/review-workflow/findings/artifact";
+import {
+  buildSuppressionMatchers,
+  findMatchingSuppression,
+  loadFindingSuppressions,
+  resolveSuppressionsPath,
+  saveFindingSuppressions,
+} from "@/lib/review-workflow/findings/suppressions";
+import type { FindingSuppression } from "@/lib/review-workflow/findings/types";
+
+interface SuppressOptions {
+  session: string;
+  id: string;
+  reason: string;
+}
+
+export interface SuppressCommandDeps {
+  getCommandDef: typeof getCommandDef;
+  loadFindingsArtifactBySessionId: typeof loadFindingsArtifactBySessionId;
+  resolveSuppressionsPath: typeof resolveSuppressionsPath;
+  loadFindingSuppressions: typeof loadFindingSuppressions;
+  saveFindingSuppressions: typeof saveFindingSuppressions;
+  now: () => Date;
+  logInfo: (message: string) => void;
+  logSuccess: (message: string) => void;
+  logError: (message: string) => void;
+  exit: (code: number) => void;
+}
+
+const DEFAULT_SUPPRESS_DEPS: SuppressCommandDeps = {
+  getCommandDef,
+  loadFindingsArtifactBySessionId,
+  resolveSuppressionsPath,
+  loadFindingSuppressions,
+  saveFindingSuppressions,
+  now: () => new Date(),
+  logInfo: (message) => p.log.info(message),
+  logSuccess: (message) => p.log.success(message),
+  logError: (message) => p.log.error(message),
+  exit: (code) => process.exit(code),
+};
+
+function parseSuppressOptions(
+  commandDef: NonNullable<ReturnType<typeof getCommandDef>>,
+  args: string[]
+): SuppressOptions {
+  const { values } = parseCommand<Partial<SuppressOptions>>(commandDef, args);
+  const session = values.session?.trim() ?? "";
+  const id = values.id?.trim().toUpperCase() ?? "";
+  const reason = values.reason?.trim() ?? "";
+
+  if (!session) {
+    throw new Error("--session must not be empty");
+  }
+
+  if (!/^F\d+$/u.test(id)) {
+    throw new Error(`Invalid finding ID "${values.id}". Use IDs like F001.`);
+  }
+
+  if (!reason) {
+    throw new Error("--reason must not be empty");
+  }
+
+  return { session, id, reason };
+}
+
+export async function runSuppress(
+  args: string[],
+  deps: Partial<SuppressCommandDeps> = {}
+): Promise<void> {
+  const suppressDeps = { ...DEFAULT_SUPPRESS_DEPS, ...deps };
+  const commandDef = suppressDeps.getCommandDef("suppress");
+  if (!commandDef) {
+    suppressDeps.logError("Internal error: suppress command definition not found");
+    suppressDeps.exit(1);
+    return;
+  }
+
+  let options: SuppressOptions;
+  try {
+    options = parseSuppressOptions(commandDef, args);
+  } catch (error) {
+    suppressDeps.logError(`${error}`);
+    suppressDeps.exit(1);
+    return;
+  }
+
+  try {
+    const artifact = await suppressDeps.loadFindingsArtifactBySessionId(
+      CONFIG_DIR,
+      options.session
+    );
+    if (!artifact) {
+      suppressDeps.logError(`Findings artifact not found for session ${options.session}`);
+      suppressDeps.exit(1);
+      return;
+    }
+
+    const finding = artifact.findings.find((candidate) => candidate.id === options.id);
+    if (!finding) {
+      suppressDeps.logError(`Finding ${options.id} not found in session ${options.session}`);
+      suppressDeps.exit(1);
+      return;
+    }
+
+    const suppressionsPath = await suppressDeps.resolveSuppressionsPath(artifact.projectPath);
+    const suppressions = await suppressDeps.loadFindingSuppressions(suppressionsPath);
+    const existing = findMatchingSuppression(finding, suppressions);
+    if (existing) {
+      suppressDeps.logInfo(
+        `${finding.id} is already suppressed in ${suppressionsPath}: ${existing.reason}`
+      );
+      return;
+    }
+
+    const suppression: FindingSuppression = {
+      ...buildSuppressionMatchers(finding),
+      reason: options.reason,
+      sessionId: artifact.sessionId,
+      findingId: finding.id,
+      createdAt: suppressDeps.now().toISOString(),
+    };
+    await suppressDeps.saveFindingSuppressions(suppressionsPath, [...suppressions, suppression]);
+    suppressDeps.logSuccess(`Suppressed ${finding.id} (${finding.title}) in ${suppressionsPath}`);
+  } catch (error) {
+    suppressDeps.logError(`${error instanceof Error ? error.message : error}`);
+    suppressDeps.exit(1);
+  }
+}
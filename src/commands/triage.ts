@@ -0,0 +1,168 @@
+import * as p from "@clack/prompts";
+import { getCommandDef } from "@/cli";
+import { parseCommand } from "@/lib/cli-parser";
+import { CONFIG_DIR } from "@/lib/config";
+import {
+  loadFindingsArtifactBySessionId,
+  updateFindingTriage,
+} from "@/lib/review-workflow/findings/artifact";
+import { formatFindingTriage } from "@/lib/review-workflow/findings/triage";
+import type {
+  FindingId,
+  FindingTriage,
+  FindingTriageState,
+} from "@/lib/review-workflow/findings/types";
+
+interface TriageCommandValues {
+  session?: string;
+  open?: boolean;
+  accepted?: string;
+  "wont-fix"?: string;
+  "false-positive"?: string;
+  "duplicate-of"?: string;
+  reason?: string;
+}
+
+interface TriageOptions {
+  session: string;
+  findingId: FindingId;
+  state: FindingTriageState;
+  reason?: string;
+  duplicateOf?: FindingId;
+}
+
+export interface TriageCommandDeps {
+  getCommandDef: typeof getCommandDef;
+  loadFindingsArtifactBySessionId: typeof loadFindingsArtifactBySessionId;
+  updateFindingTriage: typeof updateFindingTriage;
+  now: () => Date;
+  logSuccess: (message: string) => void;
+  logError: (message: string) => void;
+  exit: (code: number) => void;
+}
+
+const DEFAULT_TRIAGE_DEPS: TriageCommandDeps = {
+  getCommandDef,
+  loadFindingsArtifactBySessionId,
+  updateFindingTriage,
+  now: () => new Date(),
+  logSuccess: (message) => p.log.success(message),
+  logError: (message) => p.log.error(message),
+  exit: (code) => process.exit(code),
+};
+
+const REASON_STATES = ["accepted", "wont-fix", "false-positive"] as const;
+
+function parseFindingId(value: string | undefined): FindingId {
+  const findingId = value?.trim().toUpperCase() ?? "";
+  if (!/^F\d+$/u.test(findingId)) {
+    throw new Error(`Invalid finding ID "${value}". Use IDs like F001.`);
+  }
+  return findingId as FindingId;
+}
+
+function parseReason(flag: string, value: string): string {
+  const reason = value.trim();
+  if (!reason) {
+    throw new Error(`--${flag} reason must not be empty`);
+  }
+  return reason;
+}
+
+export function parseTriageOptions(
+  commandDef: NonNullable<ReturnType<typeof getCommandDef>>,
+  args: string[]
+): TriageOptions {
+  const { values, positional } = parseCommand<TriageCommandValues>(commandDef, args);
+  const session = values.session?.trim() ?? "";
+  if (!session) {
+    throw new Error("--session must not be empty");
+  }
+
+  const findingId = parseFindingId(positional[0]);
+  const requestedStates = [
+    ...(values.open ? ["open" as const] : []),
+    ...REASON_STATES.filter((state) => values[state] !== undefined),
+    ...(values["duplicate-of"] !== undefined ? ["duplicate-of" as const] : []),
+  ];
+  if (requestedStates.length !== 1) {
+    throw new Error(
+      "Choose exactly one of --open, --accepted, --wont-fix, --false-positive, or --duplicate-of."
+    );
+  }
+
+  const [state] = requestedStates as [FindingTriageState];
+  const reason = values.reason?.trim() || undefined;
+
+  if (state === "open" || state === "duplicate-of") {
+    const duplicateOf =
+      state === "duplicate-of" ? parseFindingId(values["duplicate-of"]) : undefined;
+    if (duplicateOf === findingId) {
+      throw new Error(`${findingId} cannot be a duplicate of itself`);
+    }
+    return { session, findingId, state, reason, duplicateOf };
+  }
+
+  if (values.reason !== undefined) {
+    throw new Error(`--reason cannot be combined with --${state}; pass the reason to --${state}.`);
+  }
+
+  return { session, findingId, state, reason: parseReason(state, values[state] ?? "") };
+}
+
+export async function runTriage(
+  args: string[],
+  deps: Partial<TriageCommandDeps> = {}
+): Promise<void> {
+  const triageDeps = { ...DEFAULT_TRIAGE_DEPS, ...deps };
+  const commandDef = triageDeps.getCommandDef("triage");
+  if (!commandDef) {
+    triageDeps.logError("Internal error: triage command definition not found");
+    triageDeps.exit(1);
+    return;
+  }
+
+  let options: TriageOptions;
+  try {
+    options = parseTriageOptions(commandDef, args);
+  } catch (error) {
+    triageDeps.logError(`${error}`);
+    triageDeps.exit(1);
+    return;
+  }
+
+  try {
+    const artifact = await triageDeps.loadFindingsArtifactBySessionId(CONFIG_DIR, options.session);
+    if (!artifact) {
+      triageDeps.logError(`Findings artifact not found for session ${options.session}`);
+      triageDeps.exit(1);
+      return;
+    }
+
+    for (const findingId of [options.findingId, options.duplicateOf]) {
+      if (findingId && !artifact.findings.some((finding) => finding.id === findingId)) {
+        triageDeps.logError(`Finding ${findingId} not found in session ${options.session}`);
+        triageDeps.exit(1);
+        return;
+      }
+    }
+
+    const triage: FindingTriage = {
+      state: options.state,
+      ...(options.reason !== undefined ? { reason: options.reason } : {}),
+      ...(options.duplicateOf !== undefined ? { duplicateOf: options.duplicateOf } : {}),
+      updatedAt: triageDeps.now().toISOString(),
+    };
+    await triageDeps.updateFindingTriage(
+      CONFIG_DIR,
+      artifact.projectPath,
+      artifact.sessionId,
+      options.findingId,
+      triage
+    );
+    triageDeps.logSuccess(`Triaged ${options.findingId} as ${formatFindingTriage(triage)}`);
+  } catch (error) {
+    triageDeps.logError(`${error instanceof Error ? error.message : error}`);
+    triageDeps.exit(1);
+  }
+}
@@ -2,8 +2,13 @@
  * Claude agent configuration and stream handling
  */
 
-import type { AgentConfig, AgentRole, ReviewOptions } from "@/lib/types";
-import { createLineFormatter, extractLastParsedValue, parseJsonlEvent } from "./core";
+import type { AgentConfig, AgentRole, AgentUsage, ReviewOptions } from "@/lib/types";
+import {
+  createLineFormatter,
+  extractLastParsedValue,
+  parseJsonlEvent,
+  sumParsedUsage,
+} from "./core";
 import type {
   AssistantContentBlock,
   AssistantEvent,
@@ -133,6 +138,22 @@ export function extractClaudeResult(output: string): string | null {
   );
 }
 
+export function extractClaudeUsage(output: string): AgentUsage | null {
+  return sumParsedUsage(output, parseClaudeStreamEvent, (event) => {
+    if (event.type !== "result" || (!event.usage && event.total_cost_usd === undefined)) {
+      return null;
+    }
+
+    return {
+      inputTokens: event.usage?.input_tokens ?? 0,
+      outputTokens: event.usage?.output_tokens ?? 0,
+      cacheReadTokens: event.usage?.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: event.usage?.cache_creation_input_tokens ?? 0,
+      ...(event.total_cost_usd === undefined ? {} : { costUsd: event.total_cost_usd }),
+    };
+  });
+}
+
 export const formatClaudeLine = createLineFormatter(
   parseClaudeStreamEvent,
   formatClaudeEventForDisplay
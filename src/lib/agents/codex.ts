@@ -8,10 +8,11 @@ import { REVIEW_SUMMARY_END_TOKEN, REVIEW_SUMMARY_START_TOKEN } from "@/lib/prom
 import {
   type AgentConfig,
   type AgentRole,
+  type AgentUsage,
   isReasoningLevel,
   type ReviewOptions,
 } from "@/lib/types";
-import { createLineFormatter, defaultBuildEnv, parseJsonlEvent } from "./core";
+import { createLineFormatter, defaultBuildEnv, parseJsonlEvent, sumParsedUsage } from "./core";
 import { getReasoningOptions } from "./models";
 import type {
   CodexAgentMessageItem,
@@ -350,6 +351,23 @@ export async function extractCodexResult(output: string): Promise<string | null>
   return lastResult;
 }
 
+export function extractCodexUsage(output: string): AgentUsage | null {
+  return sumParsedUsage(output, parseCodexStreamEvent, (event) => {
+    if (event.type !== "turn.completed" || !event.usage) {
+      return null;
+    }
+
+    // Codex counts cached tokens in `input_tokens`.
+    const cached = event.usage.cached_input_tokens ?? 0;
+    return {
+      inputTokens: Math.max((event.usage.input_tokens ?? 0) - cached, 0),
+      outputTokens: event.usage.output_tokens ?? 0,
+      cacheReadTokens: cached,
+      cacheWriteTokens: 0,
+    };
+  });
+}
+
 export const formatCodexLine = createLineFormatter(
   parseCodexStreamEvent,
   formatCodexEventForDisplay
@@ -1,3 +1,5 @@
+import type { AgentUsage } from "@/lib/types";
+
 export type StreamFormatter = (line: string) => string | null;
 
 export function parseJsonlEvent<T>(line: string, requiresObjectPrefix?: boolean): T | null {
@@ -62,6 +64,40 @@ export function extractLastParsedValue<T>(
   }, null);
 }
 
+export function addAgentUsage(
+  total: AgentUsage | undefined,
+  usage: AgentUsage | undefined
+): AgentUsage | undefined {
+  if (!total || !usage) {
+    return total ?? usage;
+  }
+
+  const costUsd =
+    total.costUsd === undefined && usage.costUsd === undefined
+      ? undefined
+      : (total.costUsd ?? 0) + (usage.costUsd ?? 0);
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheReadTokens: total.cacheReadTokens + usage.cacheReadTokens,
+    cacheWriteTokens: total.cacheWriteTokens + usage.cacheWriteTokens,
+    ...(costUsd === undefined ? {} : { costUsd }),
+  };
+}
+
+/** Sums the usage every parsed event reports; null when no event reports any. */
+export function sumParsedUsage<T>(
+  output: string,
+  parser: (line: string) => T | null,
+  selectUsage: (event: T) => AgentUsage | null
+): AgentUsage | null {
+  const total = output.split("\n").reduce<AgentUsage | undefined>((sum, line) => {
+    const event = parser(line);
+    return addAgentUsage(sum, (event ? selectUsage(event) : null) ?? undefined);
+  }, undefined);
+  return total ?? null;
+}
+
 export function stripSystemReminders(text: unknown): string {
   const normalized = typeof text === "string" ? text : String(text ?? "");
   return normalized.replace(/<system-reminder>[\s\S]*?<\/system-reminder>\s*/g, "").trim();
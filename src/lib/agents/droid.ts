@@ -5,6 +5,7 @@
 import {
   type AgentConfig,
   type AgentRole,
+  type AgentUsage,
   isReasoningLevel,
   type ReviewOptions,
 } from "@/lib/types";
@@ -14,6 +15,7 @@ import {
   extractLastParsedValue,
   parseJsonlEvent,
   stripSystemReminders,
+  sumParsedUsage,
 } from "./core";
 import { getReasoningOptions } from "./models";
 import type {
@@ -115,6 +117,21 @@ export function extractDroidResult(output: string): string | null {
   );
 }
 
+export function extractDroidUsage(output: string): AgentUsage | null {
+  return sumParsedUsage(output, parseDroidStreamEvent, (event) => {
+    if (event.type !== "completion" || !event.usage) {
+      return null;
+    }
+
+    return {
+      inputTokens: event.usage.input_tokens ?? 0,
+      outputTokens: (event.usage.output_tokens ?? 0) + (event.usage.thinking_tokens ?? 0),
+      cacheReadTokens: event.usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: event.usage.cache_creation_input_tokens ?? 0,
+    };
+  });
+}
+
 export const formatDroidLine = createLineFormatter(
   parseDroidStreamEvent,
   formatDroidEventForDisplay
@@ -2,12 +2,13 @@
  * Gemini agent configuration and stream handling
  */
 
-import type { AgentConfig, AgentRole, ReviewOptions } from "@/lib/types";
+import type { AgentConfig, AgentRole, AgentUsage, ReviewOptions } from "@/lib/types";
 import {
   createLineFormatter,
   defaultBuildEnv,
   parseJsonlEvent,
   stripSystemReminders,
+  sumParsedUsage,
 } from "./core";
 import type {
   GeminiMessageEvent,
@@ -114,6 +115,23 @@ export function extractGeminiResult(output: string): string | null {
   return concatenatedContent;
 }
 
+export function extractGeminiUsage(output: string): AgentUsage | null {
+  return sumParsedUsage(output, parseGeminiStreamEvent, (event) => {
+    if (event.type !== "result" || !event.stats) {
+      return null;
+    }
+
+    // `input_tokens` counts cached tokens; `input` leaves them out.
+    const cached = event.stats.cached ?? 0;
+    return {
+      inputTokens: event.stats.input ?? Math.max((event.stats.input_tokens ?? 0) - cached, 0),
+      outputTokens: event.stats.output_tokens ?? 0,
+      cacheReadTokens: cached,
+      cacheWriteTokens: 0,
+    };
+  });
+}
+
 export const formatGeminiLine = createLineFormatter(
   parseGeminiStreamEvent,
   formatGeminiEventForDisplay
@@ -1,3 +1,3 @@
-export { isAgentAvailable } from "./core";
+export { addAgentUsage, isAgentAvailable } from "./core";
 export { AGENTS } from "./registry";
 export { runAgent } from "./runner";
@@ -5,11 +5,12 @@
 import {
   type AgentConfig,
   type AgentRole,
+  type AgentUsage,
   isReasoningLevel,
   type ReviewOptions,
 } from "@/lib/types";
-import { defaultBuildEnv, parseJsonlEvent } from "./core";
-import type { PiContentBlock, PiMessage, PiStreamEvent } from "./types";
+import { defaultBuildEnv, parseJsonlEvent, sumParsedUsage } from "./core";
+import type { PiAssistantMessage, PiContentBlock, PiMessage, PiStreamEvent } from "./types";
 
 export const piConfig: AgentConfig = {
   command: "pi",
@@ -321,4 +322,26 @@ export function extractPiResult(output: string): string | null {
   return lastResult || null;
 }
 
+/** Each assistant message reports its own usage once, in its `message_end` event. */
+export function extractPiUsage(output: string): AgentUsage | null {
+  return sumParsedUsage(output, parsePiStreamEvent, (event) => {
+    if (event.type !== "message_end" || event.message.role !== "assistant") {
+      return null;
+    }
+
+    const usage = (event.message as PiAssistantMessage).usage;
+    if (!usage) {
+      return null;
+    }
+
+    return {
+      inputTokens: usage.input ?? 0,
+      outputTokens: usage.output ?? 0,
+      cacheReadTokens: usage.cacheRead ?? 0,
+      cacheWriteTokens: usage.cacheWrite ?? 0,
+      ...(usage.cost?.total === undefined ? {} : { costUsd: usage.cost.total }),
+    };
+  });
+}
+
 export const formatPiLine = createPiLineFormatter();
@@ -1,17 +1,18 @@
-import type { AgentConfig, AgentType } from "@/lib/types";
+import type { AgentConfig, AgentType, AgentUsage } from "@/lib/types";
 
-import { claudeConfig, extractClaudeResult, formatClaudeLine } from "./claude";
-import { codexConfig, extractCodexResult, formatCodexLine } from "./codex";
-import { droidConfig, extractDroidResult, formatDroidLine } from "./droid";
-import { extractGeminiResult, formatGeminiLine, geminiConfig } from "./gemini";
+import { claudeConfig, extractClaudeResult, extractClaudeUsage, formatClaudeLine } from "./claude";
+import { codexConfig, extractCodexResult, extractCodexUsage, formatCodexLine } from "./codex";
+import { droidConfig, extractDroidResult, extractDroidUsage, formatDroidLine } from "./droid";
+import { extractGeminiResult, extractGeminiUsage, formatGeminiLine, geminiConfig } from "./gemini";
 import { opencodeConfig } from "./opencode";
-import { extractPiResult, formatPiLine, piConfig } from "./pi";
+import { extractPiResult, extractPiUsage, formatPiLine, piConfig } from "./pi";
 
 interface AgentModule {
   config: AgentConfig;
   usesJsonl: boolean;
   formatLine?: (line: string) => string | null;
   extractResult: (output: string) => string | null | Promise<string | null>;
+  extractUsage?: (output: string) => AgentUsage | null;
 }
 
 export const AGENTS: Record<AgentType, AgentModule> = {
@@ -20,24 +21,28 @@ export const AGENTS: Record<AgentType, AgentModule> = {
     usesJsonl: true,
     formatLine: formatClaudeLine,
     extractResult: extractClaudeResult,
+    extractUsage: extractClaudeUsage,
   },
   codex: {
     config: codexConfig,
     usesJsonl: true,
     formatLine: formatCodexLine,
     extractResult: extractCodexResult,
+    extractUsage: extractCodexUsage,
   },
   droid: {
     config: droidConfig,
     usesJsonl: true,
     formatLine: formatDroidLine,
     extractResult: extractDroidResult,
+    extractUsage: extractDroidUsage,
   },
   gemini: {
     config: geminiConfig,
     usesJsonl: true,
     formatLine: formatGeminiLine,
     extractResult: extractGeminiResult,
+    extractUsage: extractGeminiUsage,
   },
   opencode: {
     config: opencodeConfig,
@@ -49,5 +54,6 @@ export const AGENTS: Record<AgentType, AgentModule> = {
     usesJsonl: true,
     formatLine: formatPiLine,
     extractResult: extractPiResult,
+    extractUsage: extractPiUsage,
   },
 };
@@ -1,4 +1,11 @@
-import type { AgentRole, AgentSettings, Config, IterationResult, ReviewOptions } from "@/lib/types";
+import {
+  type AgentRole,
+  type AgentSettings,
+  type Config,
+  getPrimaryReviewerSettings,
+  type IterationResult,
+  type ReviewOptions,
+} from "@/lib/types";
 import { streamAndCapture } from "./core";
 import { AGENTS } from "./registry";
 
@@ -7,7 +14,7 @@ export function resolveAgentSettings(role: AgentRole, config: Config): AgentSett
     return config.fixer;
   }
 
-  return config.reviewer;
+  return getPrimaryReviewerSettings(config.reviewer);
 }
 
 export async function runAgent(
@@ -34,6 +41,7 @@ export async function runAgent(
   const env = agentModule.config.buildEnv(agentSettings.reasoning);
 
   let output = "";
+  let stdoutText = "";
   let exitCode = 1;
   let timedOut = false;
 
@@ -57,6 +65,7 @@ export async function runAgent(
       streamAndCapture(proc.stderr, process.stderr),
     ]);
 
+    stdoutText = stdout;
     output = stdout + (stderr ? `\n[stderr]\n${stderr}` : "");
 
     exitCode = await proc.exited;
@@ -72,11 +81,13 @@ export async function runAgent(
   }
 
   const duration = Date.now() - startTime;
+  const usage = agentModule.extractUsage?.(stdoutText);
 
   return {
     success: exitCode === 0,
     output,
     exitCode,
     duration,
+    ...(usage ? { usage } : {}),
   };
 }
@@ -83,6 +83,12 @@ export interface ResultEvent {
   duration_ms: number;
   num_turns: number;
   total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+  };
 }
 
 export type DroidStreamEvent =
@@ -319,7 +325,7 @@ export interface PiMessage {
   timestamp?: number;
 }
 
-interface PiAssistantMessage extends PiMessage {
+export interface PiAssistantMessage extends PiMessage {
   role: "assistant";
   api?: string;
   provider?: string;
@@ -0,0 +1,161 @@
+import { addAgentUsage } from "@/lib/agents/core";
+import { formatDuration } from "@/lib/format";
+import type { AgentUsage, BudgetConfig, BudgetLimit, LogEntry } from "@/lib/types";
+
+/** What a session has used so far, measured against its `BudgetConfig`. */
+export interface BudgetSpend {
+  usage?: AgentUsage;
+  wallTimeMs: number;
+}
+
+export interface AgentRunSummary {
+  /**
+   * Reviewer agents (several per ensemble or sharded iteration), fix passes, and verification
+   * reviews recorded in the session log.
+   */
+  runs: number;
+  /** Wall time is the sum of the recorded run durations, so idle time between commands is free. */
+  spend: BudgetSpend;
+}
+
+export function getTotalTokens(usage: AgentUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+function findBudgetLimit(
+  budget: BudgetConfig | undefined,
+  spend: BudgetSpend,
+  isOver: (spent: number, limit: number) => boolean
+): BudgetLimit | undefined {
+  const costUsd = spend.usage?.costUsd;
+  if (budget?.maxCostUsd !== undefined && costUsd !== undefined) {
+    if (isOver(costUsd, budget.maxCostUsd)) {
+      return "cost";
+    }
+  }
+  if (budget?.maxTokens !== undefined && spend.usage) {
+    if (isOver(getTotalTokens(spend.usage), budget.maxTokens)) {
+      return "tokens";
+    }
+  }
+  if (budget?.maxWallTimeMs !== undefined && isOver(spend.wallTimeMs, budget.maxWallTimeMs)) {
+    return "wall-time";
+  }
+  return undefined;
+}
+
+/** The first limit the spend has reached. Cost is only enforced when agents report it. */
+export function findExhaustedBudget(
+  budget: BudgetConfig | undefined,
+  spend: BudgetSpend
+): BudgetLimit | undefined {
+  return findBudgetLimit(budget, spend, (spent, limit) => spent >= limit);
+}
+
+/** The first limit the spend goes past; spending exactly the limit still fits. */
+export function findExceededBudget(
+  budget: BudgetConfig | undefined,
+  spend: BudgetSpend
+): BudgetLimit | undefined {
+  return findBudgetLimit(budget, spend, (spent, limit) => spent > limit);
+}
+
+export function summarizeAgentRuns(entries: LogEntry[]): AgentRunSummary {
+  let runs = 0;
+  let usage: AgentUsage | undefined;
+  let wallTimeMs = 0;
+  for (const entry of entries) {
+    if (
+      entry.type === "review_iteration" ||
+      entry.type === "batch_fix" ||
+      entry.type === "verification_review"
+    ) {
+      runs += entry.type === "review_iteration" ? (entry.reviewerRuns ?? 1) : 1;
+      usage = addAgentUsage(usage, entry.usage);
+      wallTimeMs += entry.duration ?? 0;
+    }
+  }
+
+  return { runs, spend: { ...(usage ? { usage } : {}), wallTimeMs } };
+}
+
+function scaleAgentUsage(usage: AgentUsage, factor: number): AgentUsage {
+  return {
+    inputTokens: Math.round(usage.inputTokens * factor),
+    outputTokens: Math.round(usage.outputTokens * factor),
+    cacheReadTokens: Math.round(usage.cacheReadTokens * factor),
+    cacheWriteTokens: Math.round(usage.cacheWriteTokens * factor),
+    ...(usage.costUsd !== undefined ? { costUsd: usage.costUsd * factor } : {}),
+  };
+}
+
+/**
+ * Total spend after `plannedRuns` more agent runs, assuming each one costs what the recorded
+ * runs cost on average. With nothing recorded yet there is nothing to project from.
+ */
+export function projectBudgetSpend(summary: AgentRunSummary, plannedRuns: number): BudgetSpend {
+  if (summary.runs === 0) {
+    return summary.spend;
+  }
+
+  const factor = (summary.runs + plannedRuns) / summary.runs;
+  return {
+    ...(summary.spend.usage ? { usage: scaleAgentUsage(summary.spend.usage, factor) } : {}),
+    wallTimeMs: Math.round(summary.spend.wallTimeMs * factor),
+  };
+}
+
+export function formatBudgetLimit(budget: BudgetConfig, limit: BudgetLimit): string {
+  switch (limit) {
+    case "cost":
+      return `cost budget of $${(budget.maxCostUsd ?? 0).toFixed(2)}`;
+    case "tokens":
+      return `token budget of ${(budget.maxTokens ?? 0).toLocaleString("en-US")}`;
+    case "wall-time":
+      return `wall-time budget of ${formatDuration(budget.maxWallTimeMs ?? 0)}`;
+  }
+}
+
+export interface BudgetFlagValues {
+  "max-cost"?: number;
+  "max-tokens"?: number;
+  "max-wall-time"?: number;
+}
+
+/** Validates the `rr run` and `rr fix` budget flags into limits that override `config.budget`. */
+export function parseBudgetFlags(values: BudgetFlagValues): BudgetConfig | undefined {
+  const budget: BudgetConfig = {};
+  const maxCostUsd = values["max-cost"];
+  if (maxCostUsd !== undefined) {
+    if (!Number.isFinite(maxCostUsd) || maxCostUsd <= 0) {
+      throw new Error("--max-cost must be a positive number");
+    }
+    budget.maxCostUsd = maxCostUsd;
+  }
+
+  for (const [flag, key] of [
+    ["max-tokens", "maxTokens"],
+    ["max-wall-time", "maxWallTimeMs"],
+  ] as const) {
+    const limit = values[flag];
+    if (limit === undefined) {
+      continue;
+    }
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error(`--${flag} must be a positive whole number`);
+    }
+    budget[key] = limit;
+  }
+
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}
+
+export function buildBudgetArgs(budget: BudgetConfig | undefined): string[] {
+  return [
+    ...(budget?.maxCostUsd !== undefined ? ["--max-cost", String(budget.maxCostUsd)] : []),
+    ...(budget?.maxTokens !== undefined ? ["--max-tokens", String(budget.maxTokens)] : []),
+    ...(budget?.maxWallTimeMs !== undefined
+      ? ["--max-wall-time", String(budget.maxWallTimeMs)]
+      : []),
+  ];
+}
@@ -0,0 +1,31 @@
+import { type FindingCategory, VALID_FINDING_CATEGORIES } from "@/lib/types/domain";
+
+export function parseCategoryList(value: string): FindingCategory[] {
+  const normalized = value.trim();
+  if (normalized.length === 0) {
+    throw new Error("Category list cannot be empty");
+  }
+
+  const categories = new Set<FindingCategory>();
+  for (const entry of normalized.split(",")) {
+    const token = entry.trim();
+    if (token.length === 0) {
+      throw new Error("Category list cannot contain empty values");
+    }
+
+    const category = token.toLowerCase();
+    if (!VALID_FINDING_CATEGORIES.includes(category as FindingCategory)) {
+      throw new Error(
+        `Invalid category: ${token}. Use one of: ${VALID_FINDING_CATEGORIES.join(", ")}.`
+      );
+    }
+
+    categories.add(category as FindingCategory);
+  }
+
+  return VALID_FINDING_CATEGORIES.filter((category) => categories.has(category));
+}
+
+export function formatCategoryList(categories: FindingCategory[]): string {
+  return VALID_FINDING_CATEGORIES.filter((category) => categories.includes(category)).join(",");
+}
@@ -85,6 +85,8 @@ export interface OptionDef {
   default?: boolean | string | number;
   required?: boolean;
   placeholder?: string;
+  /** Collect every occurrence into an array instead of keeping the last value. */
+  repeatable?: boolean;
 }
 
 export interface PositionalDef {
@@ -175,7 +177,13 @@ function assignOptionValue(
   }
 
   const { value, nextIndex } = consumeOptionValue(opt, argv, currentIndex, inlineValue);
-  values[opt.name] = parseValue(opt, value);
+  const parsed = parseValue(opt, value);
+  if (opt.repeatable) {
+    const previous = values[opt.name];
+    values[opt.name] = Array.isArray(previous) ? [...previous, parsed] : [parsed];
+  } else {
+    values[opt.name] = parsed;
+  }
   return nextIndex;
 }
 
@@ -5,7 +5,21 @@ import type {
   LoadedConfigDiagnostics,
   LoadedConfigOverrideDiagnostics,
 } from "@/lib/config";
-import type { AgentOverrideSettings, AgentSettings, Config, ConfigOverride } from "@/lib/types";
+import {
+  getActiveReviewGuidelinesOverrides,
+  type ReviewGuidelinesOverride,
+} from "@/lib/review-workflow/review/guidelines";
+import type {
+  AgentOverrideSettings,
+  AgentSettings,
+  BudgetConfig,
+  Config,
+  ConfigOverride,
+  ReviewConfig,
+  ReviewerSettings,
+  ReviewProfile,
+  VerifyConfig,
+} from "@/lib/types";
 
 type DisplayConfig = Config | ConfigOverride;
 
@@ -40,6 +54,7 @@ type ReadableConfigSection = ReadableFullConfigSection | ReadableOverrideConfigS
 
 interface FormatConfigLayersOptions {
   showMetadata?: boolean;
+  reviewGuidelines?: ReviewGuidelinesOverride[];
 }
 
 interface DisplayEntry {
@@ -67,6 +82,12 @@ function formatRoleSummary(settings: AgentSettings): string {
   return `${name} (${model}, ${reasoning})`;
 }
 
+function formatReviewerEntry(settings: ReviewerSettings): DisplayEntry {
+  return Array.isArray(settings)
+    ? { label: "Reviewers", value: settings.map(formatRoleSummary).join(" + ") }
+    : { label: "Reviewer", value: formatRoleSummary(settings) };
+}
+
 function formatOverrideRoleSummary(settings: AgentOverrideSettings): string {
   if (settings.agent) {
     const summarySettings: AgentSettings =
@@ -118,7 +139,7 @@ function formatFeatureState(value: boolean): string {
   return value ? "enabled" : "disabled";
 }
 
-function formatIterationTimeout(value: number): string {
+function formatMilliseconds(value: number): string {
   const formatted = value.toLocaleString("en-US");
   const hour = 60 * 60 * 1000;
   const minute = 60 * 1000;
@@ -145,6 +166,85 @@ function formatDefaultReview(defaultReview: Config["defaultReview"]): string {
     : "uncommitted changes";
 }
 
+function formatReviewEntries(review: ReviewConfig | undefined): DisplayEntry[] {
+  const entries: DisplayEntry[] = [];
+  if (review?.dedupeThreshold !== undefined) {
+    entries.push({ label: "Dedupe threshold", value: String(review.dedupeThreshold) });
+  }
+  if (review?.minConfidence !== undefined) {
+    entries.push({ label: "Min confidence", value: String(review.minConfidence) });
+  }
+  const floors = Object.entries(review?.minConfidenceByPriority ?? {});
+  if (floors.length > 0) {
+    entries.push({
+      label: "Min confidence by priority",
+      value: floors.map(([priority, floor]) => `${priority} ${floor}`).join(", "),
+    });
+  }
+  if (review?.include?.length) {
+    entries.push({ label: "Include paths", value: review.include.join(", ") });
+  }
+  if (review?.exclude?.length) {
+    entries.push({ label: "Exclude paths", value: review.exclude.join(", ") });
+  }
+  if (review?.shardThreshold !== undefined) {
+    entries.push({ label: "Shard threshold", value: `${review.shardThreshold} lines` });
+  }
+  if (review?.maxShards !== undefined) {
+    entries.push({ label: "Max shards", value: String(review.maxShards) });
+  }
+  if (review?.fixConcurrency !== undefined) {
+    entries.push({ label: "Fix concurrency", value: String(review.fixConcurrency) });
+  }
+  return entries;
+}
+
+function formatVerifyEntries(verify: VerifyConfig | undefined): DisplayEntry[] {
+  return verify?.commands?.length ? [{ label: "Commands", value: verify.commands.join(", ") }] : [];
+}
+
+function formatBudgetEntries(budget: BudgetConfig | undefined): DisplayEntry[] {
+  const entries: DisplayEntry[] = [];
+  if (budget?.maxCostUsd !== undefined) {
+    entries.push({ label: "Max cost", value: `$${budget.maxCostUsd.toFixed(2)}` });
+  }
+  if (budget?.maxTokens !== undefined) {
+    entries.push({ label: "Max tokens", value: budget.maxTokens.toLocaleString("en-US") });
+  }
+  if (budget?.maxWallTimeMs !== undefined) {
+    entries.push({ label: "Max wall time", value: formatMilliseconds(budget.maxWallTimeMs) });
+  }
+  return entries;
+}
+
+function formatProfileSummary(profile: ReviewProfile): string {
+  const parts: string[] = [];
+  if (profile.reviewer) {
+    parts.push(
+      Array.isArray(profile.reviewer)
+        ? profile.reviewer.map(formatRoleSummary).join(" + ")
+        : formatOverrideRoleSummary(profile.reviewer)
+    );
+  }
+  if (profile.maxIterations !== undefined) {
+    parts.push(`max ${profile.maxIterations} iterations`);
+  }
+  if (profile.promptFile) {
+    parts.push(`prompt ${profile.promptFile}`);
+  }
+  if (profile.customInstructions) {
+    parts.push("custom instructions");
+  }
+  return parts.length > 0 ? parts.join(", ") : "no overrides";
+}
+
+function formatProfileEntries(profiles: Record<string, ReviewProfile> | undefined): DisplayEntry[] {
+  return Object.entries(profiles ?? {}).map(([name, profile]) => ({
+    label: name,
+    value: formatProfileSummary(profile),
+  }));
+}
+
 function pushSection(lines: string[], title: string, entries: DisplayEntry[]): void {
   if (entries.length === 0) {
     return;
@@ -166,13 +266,13 @@ function formatReadableConfigBody(configSection: ReadableConfigSection): string[
 
   if (mode === "full") {
     pushSection(lines, "Agents", [
-      { label: "Reviewer", value: formatRoleSummary(config.reviewer) },
+      formatReviewerEntry(config.reviewer),
       { label: "Fixer", value: formatRoleSummary(config.fixer) },
     ]);
 
     pushSection(lines, "Limits", [
       { label: "Max iterations", value: String(config.maxIterations) },
-      { label: "Iteration timeout", value: formatIterationTimeout(config.iterationTimeout) },
+      { label: "Iteration timeout", value: formatMilliseconds(config.iterationTimeout) },
     ]);
 
     pushSection(lines, "Default review", [
@@ -191,6 +291,11 @@ function formatReadableConfigBody(configSection: ReadableConfigSection): string[
       { label: "Sound", value: formatFeatureState(config.notifications.sound.enabled) },
     ]);
 
+    pushSection(lines, "Review", formatReviewEntries(config.review));
+    pushSection(lines, "Verification", formatVerifyEntries(config.verify));
+    pushSection(lines, "Budget", formatBudgetEntries(config.budget));
+    pushSection(lines, "Profiles", formatProfileEntries(config.profiles));
+
     if (showMetadata) {
       pushSection(lines, "Metadata", [
         { label: "Schema", value: config.$schema },
@@ -203,7 +308,11 @@ function formatReadableConfigBody(configSection: ReadableConfigSection): string[
 
   const agentEntries: DisplayEntry[] = [];
   if (config.reviewer) {
-    agentEntries.push({ label: "Reviewer", value: formatOverrideRoleSummary(config.reviewer) });
+    agentEntries.push(
+      Array.isArray(config.reviewer)
+        ? formatReviewerEntry(config.reviewer)
+        : { label: "Reviewer", value: formatOverrideRoleSummary(config.reviewer) }
+    );
   }
   if (config.fixer) {
     agentEntries.push({ label: "Fixer", value: formatOverrideRoleSummary(config.fixer) });
@@ -223,7 +332,7 @@ function formatReadableConfigBody(configSection: ReadableConfigSection): string[
   if (config.iterationTimeout !== undefined) {
     limitEntries.push({
       label: "Iteration timeout",
-      value: formatIterationTimeout(config.iterationTimeout),
+      value: formatMilliseconds(config.iterationTimeout),
     });
   }
   pushSection(lines, "Limits", limitEntries);
@@ -254,6 +363,11 @@ function formatReadableConfigBody(configSection: ReadableConfigSection): string[
     ]);
   }
 
+  pushSection(lines, "Review", formatReviewEntries(config.review));
+  pushSection(lines, "Verification", formatVerifyEntries(config.verify));
+  pushSection(lines, "Budget", formatBudgetEntries(config.budget));
+  pushSection(lines, "Profiles", formatProfileEntries(config.profiles));
+
   if (showMetadata) {
     const metadataEntries: DisplayEntry[] = [];
     if (config.$schema) {
@@ -333,6 +447,22 @@ export function formatReadableConfigSection(section: ReadableConfigSection): str
   return [...lines, ...bodyLines].join("\n");
 }
 
+function formatReviewPromptSection(overrides: ReviewGuidelinesOverride[]): string {
+  const activeOverrides = getActiveReviewGuidelinesOverrides(overrides);
+  const replacesDefault = overrides.some((override) => override.mode === "replace");
+  const lines: string[] = [];
+  pushSection(lines, "Review prompt", [
+    { label: "Built-in guidelines", value: replacesDefault ? "replaced" : "active" },
+    ...overrides.map((override) => ({
+      label: override.scope === "global" ? "Global review.md" : "Repo review.md",
+      value: `${formatDisplayPath(override.path)} (${
+        activeOverrides.includes(override) ? override.mode : "replaced"
+      })`,
+    })),
+  ]);
+  return lines.join("\n");
+}
+
 function formatEffectiveSource(source: EffectiveConfigDiagnostics["source"]): string {
   switch (source) {
     case "merged":
@@ -391,6 +521,10 @@ export function formatConfigLayersDisplay(
     );
   }
 
+  if (options.reviewGuidelines) {
+    sections.push(formatReviewPromptSection(options.reviewGuidelines));
+  }
+
   return sections.join("\n\n");
 }
 
@@ -1,23 +1,32 @@
 import { mkdir } from "node:fs/promises";
 import { homedir } from "node:os";
-import { join } from "node:path";
+import { isAbsolute, join, resolve } from "node:path";
 import { resolveRepositoryRootAsync } from "./git";
 import {
   type AgentOverrideSettings,
   type AgentSettings,
+  type BudgetConfig,
   CONFIG_SCHEMA_URI,
   CONFIG_VERSION,
   type Config,
   type ConfigOverride,
   DEFAULT_NOTIFICATIONS_CONFIG,
   type DefaultReview,
+  getPrimaryReviewerSettings,
   isAgentType,
   isReasoningLevel,
   type NotificationsConfig,
   type NotificationsOverrideConfig,
+  type PriorityConfidenceFloors,
   type RetryConfig,
   type RetryOverrideConfig,
+  type ReviewConfig,
+  type ReviewerEnsemble,
+  type ReviewerSettings,
+  type ReviewProfile,
+  type VerifyConfig,
 } from "./types";
+import { type Priority, VALID_PRIORITIES } from "./types/domain";
 
 export const CONFIG_DIR = join(homedir(), ".config", "ralph-review");
 export const CONFIG_PATH = join(CONFIG_DIR, "config.json");
@@ -32,6 +41,10 @@ const OVERRIDE_TOP_LEVEL_KEYS = [
   "defaultReview",
   "retry",
   "notifications",
+  "review",
+  "verify",
+  "budget",
+  "profiles",
   "maxIterations",
   "iterationTimeout",
 ] as const;
@@ -138,6 +151,24 @@ export async function resolveRepoConfigPath(
   };
 }
 
+/**
+ * Profile prompt files resolve from the repository root so they can live next to the
+ * repo-local config. Non-git paths use the project path.
+ */
+export async function resolveProfilePromptPath(
+  projectPath: string,
+  promptFile: string,
+  options: ResolveConfigOptions = {}
+): Promise<string> {
+  if (isAbsolute(promptFile)) {
+    return promptFile;
+  }
+
+  const resolveRepositoryRoot = options.repositoryRootResolver ?? resolveRepositoryRootAsync;
+  const repoRoot = await resolveRepositoryRoot(projectPath);
+  return resolve(repoRoot ?? projectPath, promptFile);
+}
+
 export async function ensureConfigDir(dir: string = CONFIG_DIR): Promise<void> {
   await mkdir(dir, { recursive: true });
 }
@@ -227,6 +258,197 @@ function parseNotificationsConfigWithDiagnostics(
   };
 }
 
+const REVIEW_CONFIG_KEYS = [
+  "dedupeThreshold",
+  "minConfidence",
+  "minConfidenceByPriority",
+  "include",
+  "exclude",
+  "shardThreshold",
+  "maxShards",
+  "fixConcurrency",
+] as const;
+
+function isUnitInterval(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+function parseReviewConfigWithDiagnostics(
+  value: unknown,
+  errors: string[]
+): ReviewConfig | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    errors.push("review must be an object.");
+    return undefined;
+  }
+
+  const review: ReviewConfig = {};
+  let hasError = false;
+  for (const key of Object.keys(value)) {
+    if (!REVIEW_CONFIG_KEYS.includes(key as (typeof REVIEW_CONFIG_KEYS)[number])) {
+      errors.push(`review.${key} is not supported.`);
+      hasError = true;
+    }
+  }
+
+  for (const key of ["dedupeThreshold", "minConfidence"] as const) {
+    if (!hasOwnKey(value, key)) {
+      continue;
+    }
+    const threshold = value[key];
+    if (!isUnitInterval(threshold)) {
+      errors.push(`review.${key} must be a number between 0 and 1.`);
+      hasError = true;
+    } else {
+      review[key] = threshold;
+    }
+  }
+
+  if (hasOwnKey(value, "minConfidenceByPriority")) {
+    const floors = value.minConfidenceByPriority;
+    if (!isRecord(floors)) {
+      errors.push("review.minConfidenceByPriority must be an object.");
+      hasError = true;
+    } else {
+      const minConfidenceByPriority: PriorityConfidenceFloors = {};
+      for (const [priority, floor] of Object.entries(floors)) {
+        if (!VALID_PRIORITIES.includes(priority as Priority)) {
+          errors.push(`review.minConfidenceByPriority.${priority} is not supported.`);
+          hasError = true;
+        } else if (!isUnitInterval(floor)) {
+          errors.push(
+            `review.minConfidenceByPriority.${priority} must be a number between 0 and 1.`
+          );
+          hasError = true;
+        } else {
+          minConfidenceByPriority[priority as Priority] = floor;
+        }
+      }
+      review.minConfidenceByPriority = minConfidenceByPriority;
+    }
+  }
+
+  for (const key of ["include", "exclude"] as const) {
+    if (!hasOwnKey(value, key)) {
+      continue;
+    }
+    const globs = value[key];
+    if (
+      !Array.isArray(globs) ||
+      !globs.every((glob) => typeof glob === "string" && glob.trim().length > 0)
+    ) {
+      errors.push(`review.${key} must be an array of non-empty glob strings.`);
+      hasError = true;
+    } else {
+      review[key] = globs;
+    }
+  }
+
+  for (const key of ["shardThreshold", "maxShards", "fixConcurrency"] as const) {
+    if (!hasOwnKey(value, key)) {
+      continue;
+    }
+    const count = value[key];
+    if (typeof count !== "number" || !Number.isInteger(count) || count <= 0) {
+      errors.push(`review.${key} must be an integer greater than 0.`);
+      hasError = true;
+    } else {
+      review[key] = count;
+    }
+  }
+
+  return hasError ? undefined : review;
+}
+
+function parseVerifyConfigWithDiagnostics(
+  value: unknown,
+  errors: string[]
+): VerifyConfig | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    errors.push("verify must be an object.");
+    return undefined;
+  }
+
+  const verify: VerifyConfig = {};
+  let hasError = false;
+  for (const key of Object.keys(value)) {
+    if (key !== "commands") {
+      errors.push(`verify.${key} is not supported.`);
+      hasError = true;
+    }
+  }
+
+  if (hasOwnKey(value, "commands")) {
+    const commands = value.commands;
+    if (
+      !Array.isArray(commands) ||
+      !commands.every((command) => typeof command === "string" && command.trim().length > 0)
+    ) {
+      errors.push("verify.commands must be an array of non-empty command strings.");
+      hasError = true;
+    } else {
+      verify.commands = commands;
+    }
+  }
+
+  return hasError ? undefined : verify;
+}
+
+const BUDGET_CONFIG_KEYS = ["maxCostUsd", "maxTokens", "maxWallTimeMs"] as const;
+
+function parseBudgetConfigWithDiagnostics(
+  value: unknown,
+  errors: string[]
+): BudgetConfig | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    errors.push("budget must be an object.");
+    return undefined;
+  }
+
+  const budget: BudgetConfig = {};
+  let hasError = false;
+  for (const key of Object.keys(value)) {
+    if (!BUDGET_CONFIG_KEYS.includes(key as (typeof BUDGET_CONFIG_KEYS)[number])) {
+      errors.push(`budget.${key} is not supported.`);
+      hasError = true;
+    }
+  }
+
+  if (hasOwnKey(value, "maxCostUsd")) {
+    const maxCostUsd = value.maxCostUsd;
+    if (typeof maxCostUsd !== "number" || !Number.isFinite(maxCostUsd) || maxCostUsd <= 0) {
+      errors.push("budget.maxCostUsd must be a number greater than 0.");
+      hasError = true;
+    } else {
+      budget.maxCostUsd = maxCostUsd;
+    }
+  }
+
+  for (const key of ["maxTokens", "maxWallTimeMs"] as const) {
+    if (!hasOwnKey(value, key)) {
+      continue;
+    }
+    const limit = value[key];
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0) {
+      errors.push(`budget.${key} must be an integer greater than 0.`);
+      hasError = true;
+    } else {
+      budget[key] = limit;
+    }
+  }
+
+  return hasError ? undefined : budget;
+}
+
 function formatOverrideTopLevelChoices(): string {
   return OVERRIDE_TOP_LEVEL_KEYS.join(", ");
 }
@@ -361,7 +583,7 @@ function parseDefaultReviewWithDiagnostics(value: unknown, errors: string[]): De
 
 function parseAgentSettingsWithDiagnostics(
   value: unknown,
-  path: "reviewer" | "fixer",
+  path: string,
   errors: string[]
 ): AgentSettings | null {
   if (!isRecord(value)) {
@@ -430,9 +652,38 @@ function parseAgentSettingsWithDiagnostics(
   };
 }
 
+function parseReviewerEnsembleWithDiagnostics(
+  value: unknown[],
+  errors: string[],
+  path = "reviewer"
+): ReviewerEnsemble | null {
+  const [first, ...rest] = value.map((entry, index) =>
+    parseAgentSettingsWithDiagnostics(entry, `${path}[${index}]`, errors)
+  );
+  if (first === undefined) {
+    errors.push(`${path} must list at least one agent.`);
+    return null;
+  }
+
+  if (!first || rest.some((entry) => !entry)) {
+    return null;
+  }
+
+  return [first, ...(rest as AgentSettings[])];
+}
+
+function parseReviewerSettingsWithDiagnostics(
+  value: unknown,
+  errors: string[]
+): ReviewerSettings | null {
+  return Array.isArray(value)
+    ? parseReviewerEnsembleWithDiagnostics(value, errors)
+    : parseAgentSettingsWithDiagnostics(value, "reviewer", errors);
+}
+
 function parseAgentOverrideWithDiagnostics(
   value: unknown,
-  path: "reviewer" | "fixer",
+  path: string,
   errors: string[]
 ): AgentOverrideSettings | null {
   if (!isRecord(value)) {
@@ -489,6 +740,97 @@ function parseAgentOverrideWithDiagnostics(
   return hasError ? null : override;
 }
 
+const PROFILE_KEYS = ["reviewer", "promptFile", "maxIterations", "customInstructions"] as const;
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/u;
+
+function parseReviewProfileWithDiagnostics(
+  value: unknown,
+  path: string,
+  errors: string[]
+): ReviewProfile | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object.`);
+    return null;
+  }
+
+  const profile: ReviewProfile = {};
+  let hasError = false;
+  for (const key of Object.keys(value)) {
+    if (!PROFILE_KEYS.includes(key as (typeof PROFILE_KEYS)[number])) {
+      errors.push(`${path}.${key} is not supported.`);
+      hasError = true;
+    }
+  }
+
+  if (value.reviewer !== undefined) {
+    const reviewer = Array.isArray(value.reviewer)
+      ? parseReviewerEnsembleWithDiagnostics(value.reviewer, errors, `${path}.reviewer`)
+      : parseAgentOverrideWithDiagnostics(value.reviewer, `${path}.reviewer`, errors);
+    if (reviewer) {
+      profile.reviewer = reviewer;
+    } else {
+      hasError = true;
+    }
+  }
+
+  if (value.maxIterations !== undefined) {
+    if (!Number.isInteger(value.maxIterations) || (value.maxIterations as number) <= 0) {
+      errors.push(`${path}.maxIterations must be a positive integer.`);
+      hasError = true;
+    } else {
+      profile.maxIterations = value.maxIterations as number;
+    }
+  }
+
+  for (const key of ["promptFile", "customInstructions"] as const) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    const text = value[key];
+    if (typeof text !== "string" || text.trim().length === 0) {
+      errors.push(`${path}.${key} must be a non-empty string.`);
+      hasError = true;
+    } else {
+      profile[key] = text;
+    }
+  }
+
+  return hasError ? null : profile;
+}
+
+function parseReviewProfilesWithDiagnostics(
+  value: unknown,
+  errors: string[]
+): Record<string, ReviewProfile> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value) || Array.isArray(value)) {
+    errors.push("profiles must be an object.");
+    return undefined;
+  }
+
+  const profiles: Record<string, ReviewProfile> = {};
+  let hasError = false;
+  for (const [name, entry] of Object.entries(value)) {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      errors.push(
+        `profiles.${name} is not a valid profile name. Use letters, digits, "-", and "_".`
+      );
+      hasError = true;
+      continue;
+    }
+    const profile = parseReviewProfileWithDiagnostics(entry, `profiles.${name}`, errors);
+    if (profile) {
+      profiles[name] = profile;
+    } else {
+      hasError = true;
+    }
+  }
+
+  return hasError ? undefined : profiles;
+}
+
 function uniqueErrors(errors: string[]): string[] {
   return [...new Set(errors)];
 }
@@ -505,15 +847,19 @@ export function parseConfigWithDiagnostics(value: unknown): ConfigParseDiagnosti
   for (const key of Object.keys(value)) {
     if (key === "code-simplifier" || key === "run") {
       errors.push(
-        `${key} is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout.`
+        `${key} is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout.`
       );
     }
   }
-  const reviewer = parseAgentSettingsWithDiagnostics(value.reviewer, "reviewer", errors);
+  const reviewer = parseReviewerSettingsWithDiagnostics(value.reviewer, errors);
   const fixer = parseAgentSettingsWithDiagnostics(value.fixer, "fixer", errors);
   const defaultReview = parseDefaultReviewWithDiagnostics(value.defaultReview, errors);
   const retry = parseRetryConfigWithDiagnostics(value.retry, errors);
   const notifications = parseNotificationsConfigWithDiagnostics(value.notifications, errors);
+  const review = parseReviewConfigWithDiagnostics(value.review, errors);
+  const verify = parseVerifyConfigWithDiagnostics(value.verify, errors);
+  const budget = parseBudgetConfigWithDiagnostics(value.budget, errors);
+  const profiles = parseReviewProfilesWithDiagnostics(value.profiles, errors);
   const maxIterations = typeof value.maxIterations === "number" ? value.maxIterations : undefined;
   const iterationTimeout =
     typeof value.iterationTimeout === "number" ? value.iterationTimeout : undefined;
@@ -533,7 +879,11 @@ export function parseConfigWithDiagnostics(value: unknown): ConfigParseDiagnosti
     iterationTimeout === undefined ||
     errors.length > 0 ||
     (value.retry !== undefined && !retry) ||
-    (value.notifications !== undefined && !notifications)
+    (value.notifications !== undefined && !notifications) ||
+    (value.review !== undefined && !review) ||
+    (value.verify !== undefined && !verify) ||
+    (value.budget !== undefined && !budget) ||
+    (value.profiles !== undefined && !profiles)
   ) {
     return {
       config: null,
@@ -552,6 +902,10 @@ export function parseConfigWithDiagnostics(value: unknown): ConfigParseDiagnosti
       notifications: notifications ?? {
         sound: { enabled: DEFAULT_NOTIFICATIONS_CONFIG.sound.enabled },
       },
+      ...(review && !isObjectEmpty(review as Record<string, unknown>) ? { review } : {}),
+      ...(verify && !isObjectEmpty(verify as Record<string, unknown>) ? { verify } : {}),
+      ...(budget && !isObjectEmpty(budget as Record<string, unknown>) ? { budget } : {}),
+      ...(profiles && !isObjectEmpty(profiles) ? { profiles } : {}),
     }),
     errors: [],
   };
@@ -585,7 +939,9 @@ export function parseConfigOverrideWithDiagnostics(value: unknown): ConfigOverri
   const reviewer =
     value.reviewer === undefined
       ? undefined
-      : parseAgentOverrideWithDiagnostics(value.reviewer, "reviewer", errors);
+      : Array.isArray(value.reviewer)
+        ? parseReviewerEnsembleWithDiagnostics(value.reviewer, errors)
+        : parseAgentOverrideWithDiagnostics(value.reviewer, "reviewer", errors);
   const fixer =
     value.fixer === undefined
       ? undefined
@@ -604,6 +960,10 @@ export function parseConfigOverrideWithDiagnostics(value: unknown): ConfigOverri
     value.notifications,
     errors
   );
+  const review = parseReviewConfigWithDiagnostics(value.review, errors);
+  const verify = parseVerifyConfigWithDiagnostics(value.verify, errors);
+  const budget = parseBudgetConfigWithDiagnostics(value.budget, errors);
+  const profiles = parseReviewProfilesWithDiagnostics(value.profiles, errors);
 
   let maxIterations: number | undefined;
   if (hasOwnKey(value, "maxIterations")) {
@@ -629,7 +989,11 @@ export function parseConfigOverrideWithDiagnostics(value: unknown): ConfigOverri
     (value.fixer !== undefined && !fixer) ||
     (value.defaultReview !== undefined && !defaultReview) ||
     (hasRetryOverride && value.retry !== null && !retry) ||
-    (value.notifications !== undefined && !notifications)
+    (value.notifications !== undefined && !notifications) ||
+    (value.review !== undefined && !review) ||
+    (value.verify !== undefined && !verify) ||
+    (value.budget !== undefined && !budget) ||
+    (value.profiles !== undefined && !profiles)
   ) {
     return {
       config: null,
@@ -648,6 +1012,10 @@ export function parseConfigOverrideWithDiagnostics(value: unknown): ConfigOverri
         ...(hasRetryOverride ? { retry } : {}),
         ...(defaultReview ? { defaultReview } : {}),
         ...(notifications ? { notifications } : {}),
+        ...(review ? { review } : {}),
+        ...(verify ? { verify } : {}),
+        ...(budget ? { budget } : {}),
+        ...(profiles ? { profiles } : {}),
       },
       includeMetadata
     ),
@@ -780,6 +1148,20 @@ function mergeNotificationsSection(
   return { sound };
 }
 
+function mergeReviewSection(
+  base: ReviewConfig | undefined,
+  override: ReviewConfig | undefined
+): Record<string, unknown> | undefined {
+  const merged: Record<string, unknown> = { ...base, ...override };
+  if (base?.minConfidenceByPriority || override?.minConfidenceByPriority) {
+    merged.minConfidenceByPriority = {
+      ...base?.minConfidenceByPriority,
+      ...override?.minConfidenceByPriority,
+    };
+  }
+  return isObjectEmpty(merged) ? undefined : merged;
+}
+
 function mergeAgentSection(
   base: AgentSettings | undefined,
   override: AgentOverrideSettings
@@ -834,8 +1216,14 @@ function mergeConfigWithOverride(
     ? (structuredClone(base) as unknown as Record<string, unknown>)
     : {};
 
-  if (override.reviewer !== undefined) {
-    const reviewer = mergeAgentSection(base?.reviewer, override.reviewer);
+  if (Array.isArray(override.reviewer)) {
+    candidate.reviewer = structuredClone(override.reviewer);
+  } else if (override.reviewer !== undefined) {
+    // A single-agent override replaces an inherited ensemble, starting from its first reviewer.
+    const reviewer = mergeAgentSection(
+      base ? getPrimaryReviewerSettings(base.reviewer) : undefined,
+      override.reviewer
+    );
     if (reviewer) {
       candidate.reviewer = reviewer;
     } else {
@@ -874,6 +1262,35 @@ function mergeConfigWithOverride(
     delete candidate.notifications;
   }
 
+  const review = mergeReviewSection(base?.review, override.review);
+  if (review) {
+    candidate.review = review;
+  } else {
+    delete candidate.review;
+  }
+
+  if (override.verify !== undefined) {
+    const verify = { ...base?.verify, ...structuredClone(override.verify) };
+    if (isObjectEmpty(verify)) {
+      delete candidate.verify;
+    } else {
+      candidate.verify = verify;
+    }
+  }
+
+  if (override.budget !== undefined) {
+    const budget = { ...base?.budget, ...structuredClone(override.budget) };
+    if (isObjectEmpty(budget)) {
+      delete candidate.budget;
+    } else {
+      candidate.budget = budget;
+    }
+  }
+
+  if (override.profiles !== undefined) {
+    candidate.profiles = { ...base?.profiles, ...structuredClone(override.profiles) };
+  }
+
   return parseConfigWithDiagnostics(candidate);
 }
 
@@ -922,9 +1339,18 @@ export function buildConfigOverride(base: Config | null, config: Config): Config
 
   const override: ConfigOverride = {};
 
-  const reviewerOverride = buildAgentOverride(base.reviewer, config.reviewer);
-  if (reviewerOverride) {
-    override.reviewer = reviewerOverride;
+  if (Array.isArray(config.reviewer)) {
+    if (!areConfigValuesEqual(base.reviewer, config.reviewer)) {
+      override.reviewer = structuredClone(config.reviewer);
+    }
+  } else {
+    const reviewerOverride = buildAgentOverride(
+      getPrimaryReviewerSettings(base.reviewer),
+      config.reviewer
+    );
+    if (reviewerOverride || Array.isArray(base.reviewer)) {
+      override.reviewer = reviewerOverride ?? {};
+    }
   }
   const fixerOverride = buildAgentOverride(base.fixer, config.fixer);
   if (fixerOverride) {
@@ -966,9 +1392,105 @@ export function buildConfigOverride(base: Config | null, config: Config): Config
     };
   }
 
+  const reviewOverride: ReviewConfig = {};
+  if (
+    config.review?.dedupeThreshold !== undefined &&
+    base.review?.dedupeThreshold !== config.review.dedupeThreshold
+  ) {
+    reviewOverride.dedupeThreshold = config.review.dedupeThreshold;
+  }
+  if (
+    config.review?.minConfidence !== undefined &&
+    base.review?.minConfidence !== config.review.minConfidence
+  ) {
+    reviewOverride.minConfidence = config.review.minConfidence;
+  }
+  const minConfidenceByPriorityOverride: PriorityConfidenceFloors = {};
+  for (const priority of VALID_PRIORITIES) {
+    const floor = config.review?.minConfidenceByPriority?.[priority];
+    if (floor !== undefined && base.review?.minConfidenceByPriority?.[priority] !== floor) {
+      minConfidenceByPriorityOverride[priority] = floor;
+    }
+  }
+  if (!isObjectEmpty(minConfidenceByPriorityOverride as Record<string, unknown>)) {
+    reviewOverride.minConfidenceByPriority = minConfidenceByPriorityOverride;
+  }
+  for (const key of ["shardThreshold", "maxShards", "fixConcurrency"] as const) {
+    const count = config.review?.[key];
+    if (count !== undefined && base.review?.[key] !== count) {
+      reviewOverride[key] = count;
+    }
+  }
+  for (const key of ["include", "exclude"] as const) {
+    const globs = config.review?.[key];
+    if (globs !== undefined && !areConfigValuesEqual(base.review?.[key], globs)) {
+      reviewOverride[key] = globs;
+    }
+  }
+  if (!isObjectEmpty(reviewOverride as Record<string, unknown>)) {
+    override.review = reviewOverride;
+  }
+
+  if (
+    config.verify?.commands !== undefined &&
+    !areConfigValuesEqual(base.verify?.commands, config.verify.commands)
+  ) {
+    override.verify = { commands: [...config.verify.commands] };
+  }
+
+  const budgetOverride: BudgetConfig = {};
+  for (const key of BUDGET_CONFIG_KEYS) {
+    const limit = config.budget?.[key];
+    if (limit !== undefined && base.budget?.[key] !== limit) {
+      budgetOverride[key] = limit;
+    }
+  }
+  if (!isObjectEmpty(budgetOverride as Record<string, unknown>)) {
+    override.budget = budgetOverride;
+  }
+
+  const profilesOverride: Record<string, ReviewProfile> = {};
+  for (const [name, profile] of Object.entries(config.profiles ?? {})) {
+    if (!areConfigValuesEqual(base.profiles?.[name], profile)) {
+      profilesOverride[name] = structuredClone(profile);
+    }
+  }
+  if (!isObjectEmpty(profilesOverride)) {
+    override.profiles = profilesOverride;
+  }
+
   return override;
 }
 
+export function getReviewProfileNames(config: Config): string[] {
+  return Object.keys(config.profiles ?? {}).sort((left, right) => left.localeCompare(right));
+}
+
+/**
+ * Overlays a named profile's reviewer and iteration settings onto `config` with the same
+ * merge rules as a repo-local override. Prompt settings are left for the caller to apply.
+ */
+export function applyReviewProfile(config: Config, name: string): Config {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const available = getReviewProfileNames(config);
+    throw new Error(
+      available.length > 0
+        ? `Unknown profile "${name}". Available profiles: ${available.join(", ")}.`
+        : `Unknown profile "${name}". No profiles are configured.`
+    );
+  }
+
+  const merged = mergeConfigWithOverride(config, {
+    ...(profile.reviewer !== undefined ? { reviewer: profile.reviewer } : {}),
+    ...(profile.maxIterations !== undefined ? { maxIterations: profile.maxIterations } : {}),
+  });
+  if (!merged.config) {
+    throw new Error(`Profile "${name}" produces an invalid config: ${merged.errors.join(" ")}`);
+  }
+  return merged.config;
+}
+
 function prefixPathErrors(prefix: string, errors: string[]): string[] {
   return errors.map((error) => `${prefix}: ${error}`);
 }
@@ -1,4 +1,5 @@
 import { configExists, loadConfig, loadEffectiveConfigWithDiagnostics } from "@/lib/config";
+import { parseCommitRange } from "@/lib/git";
 import { isTmuxInstalled } from "@/lib/tmux";
 import { type AgentSettings, type Config, isAgentType } from "@/lib/types";
 import { type CapabilityReviewOptions, reviewAgentCapabilities } from "./capabilities";
@@ -31,6 +32,9 @@ export interface RunDiagnosticsOptions {
   projectPath?: string;
   baseBranch?: string;
   commitSha?: string;
+  range?: string;
+  patchFile?: string;
+  stash?: string;
   customInstructions?: string;
   capabilitiesByAgent?: AgentCapabilitiesMap;
   capabilityReviewOptions?: CapabilityReviewOptions;
@@ -347,117 +351,119 @@ export async function runDiagnostics(
   if (config) {
     for (const role of ROLE_ORDER) {
       const roleSeverity = getRoleSeverity(context, role);
-      const settings = config[role];
-      if (!settings) {
+      const configured = config[role];
+      if (!configured) {
         continue;
       }
 
       const roleLabel = getRoleLabel(role);
-      if (!isAgentType(settings.agent)) {
-        const id = `config-${role}-agent-invalid`;
-        items.push({
-          id,
-          category: "config",
-          title: `${roleLabel} agent`,
-          severity: roleSeverity,
-          summary: `Configured ${roleLabel.toLowerCase()} agent is invalid.`,
-          remediation: [runStep("rr init"), thenStep("rr doctor --fix")],
-          fixable: isFixable(id),
-        });
-        continue;
-      }
-
-      const capability = capabilitiesByAgent[settings.agent];
-      if (!capability.installed) {
-        const id = `config-${role}-agent-missing`;
-        items.push({
-          id,
-          category: "config",
-          title: `${roleLabel} agent binary`,
-          severity: roleSeverity,
-          summary: `${roleLabel} agent '${settings.agent}' is configured but not installed.`,
-          remediation: [
-            runStep(`install '${capability.command}'`),
-            runStep("rr init (to choose a different agent)"),
-            thenStep("rr doctor --fix"),
-          ],
-          fixable: isFixable(id),
-        });
-      }
-
-      if (settings.agent === "pi" && (!settings.provider?.trim() || !settings.model?.trim())) {
-        const id = `config-${role}-pi-invalid`;
-        items.push({
-          id,
-          category: "config",
-          title: `${roleLabel} Pi settings`,
-          severity: roleSeverity,
-          summary: "Pi agent requires both provider and model.",
-          remediation: [runStep("rr init"), thenStep("rr doctor --fix")],
-          fixable: isFixable(id),
-        });
-      }
+      for (const settings of Array.isArray(configured) ? configured : [configured]) {
+        if (!isAgentType(settings.agent)) {
+          const id = `config-${role}-agent-invalid`;
+          items.push({
+            id,
+            category: "config",
+            title: `${roleLabel} agent`,
+            severity: roleSeverity,
+            summary: `Configured ${roleLabel.toLowerCase()} agent is invalid.`,
+            remediation: [runStep("rr init"), thenStep("rr doctor --fix")],
+            fixable: isFixable(id),
+          });
+          continue;
+        }
 
-      if (capability.modelCatalogSource === "dynamic" && settings.model) {
-        const found = capability.models.some((entry) => modelMatches(settings, entry));
-        if (!found) {
-          const configuredModel =
-            settings.agent === "pi" ? `${settings.provider}/${settings.model}` : settings.model;
-          const id = `config-${role}-model-missing`;
+        const capability = capabilitiesByAgent[settings.agent];
+        if (!capability.installed) {
+          const id = `config-${role}-agent-missing`;
           items.push({
             id,
             category: "config",
-            title: `${roleLabel} model availability`,
+            title: `${roleLabel} agent binary`,
             severity: roleSeverity,
-            summary: `Configured model '${configuredModel}' was not found in live review.`,
-            details: `Discovered models: ${summarizeAvailableModels(settings, capabilitiesByAgent)}`,
+            summary: `${roleLabel} agent '${settings.agent}' is configured but not installed.`,
             remediation: [
-              runStep("rr init"),
-              runStep(`rr config set ${role}.model <model>`),
+              runStep(`install '${capability.command}'`),
+              runStep("rr init (to choose a different agent)"),
               thenStep("rr doctor --fix"),
             ],
             fixable: isFixable(id),
           });
-        } else {
+        }
+
+        if (settings.agent === "pi" && (!settings.provider?.trim() || !settings.model?.trim())) {
+          const id = `config-${role}-pi-invalid`;
           items.push({
-            id: `config-${role}-model-found`,
+            id,
             category: "config",
-            title: `${roleLabel} model availability`,
-            severity: "ok",
-            summary: "Configured model is available in live review.",
-            remediation: [],
+            title: `${roleLabel} Pi settings`,
+            severity: roleSeverity,
+            summary: "Pi agent requires both provider and model.",
+            remediation: [runStep("rr init"), thenStep("rr doctor --fix")],
+            fixable: isFixable(id),
+          });
+        }
+
+        if (capability.modelCatalogSource === "dynamic" && settings.model) {
+          const found = capability.models.some((entry) => modelMatches(settings, entry));
+          if (!found) {
+            const configuredModel =
+              settings.agent === "pi" ? `${settings.provider}/${settings.model}` : settings.model;
+            const id = `config-${role}-model-missing`;
+            items.push({
+              id,
+              category: "config",
+              title: `${roleLabel} model availability`,
+              severity: roleSeverity,
+              summary: `Configured model '${configuredModel}' was not found in live review.`,
+              details: `Discovered models: ${summarizeAvailableModels(settings, capabilitiesByAgent)}`,
+              remediation: [
+                runStep("rr init"),
+                runStep(`rr config set ${role}.model <model>`),
+                thenStep("rr doctor --fix"),
+              ],
+              fixable: isFixable(id),
+            });
+          } else {
+            items.push({
+              id: `config-${role}-model-found`,
+              category: "config",
+              title: `${roleLabel} model availability`,
+              severity: "ok",
+              summary: "Configured model is available in live review.",
+              remediation: [],
+            });
+          }
+        } else if (
+          capability.installed &&
+          capability.modelCatalogSource === "none" &&
+          settings.model &&
+          capability.probeWarnings.length > 0 &&
+          (settings.agent === "droid" || settings.agent === "opencode" || settings.agent === "pi")
+        ) {
+          const configuredModel =
+            settings.agent === "pi" ? `${settings.provider}/${settings.model}` : settings.model;
+          const probeCommand =
+            settings.agent === "droid"
+              ? "droid exec --help"
+              : settings.agent === "opencode"
+                ? "opencode models"
+                : "pi --list-models";
+          const id = `config-${role}-model-unverified`;
+          items.push({
+            id,
+            category: "config",
+            title: `${roleLabel} model verification`,
+            severity: roleSeverity,
+            summary: `Configured model '${configuredModel}' could not be verified because live model review failed.`,
+            details: capability.probeWarnings.join("\n"),
+            remediation: [
+              runStep(probeCommand),
+              thenStep("rr doctor"),
+              runStep("rr init (if model review keeps failing)"),
+            ],
+            fixable: isFixable(id),
           });
         }
-      } else if (
-        capability.installed &&
-        capability.modelCatalogSource === "none" &&
-        settings.model &&
-        capability.probeWarnings.length > 0 &&
-        (settings.agent === "droid" || settings.agent === "opencode" || settings.agent === "pi")
-      ) {
-        const configuredModel =
-          settings.agent === "pi" ? `${settings.provider}/${settings.model}` : settings.model;
-        const probeCommand =
-          settings.agent === "droid"
-            ? "droid exec --help"
-            : settings.agent === "opencode"
-              ? "opencode models"
-              : "pi --list-models";
-        const id = `config-${role}-model-unverified`;
-        items.push({
-          id,
-          category: "config",
-          title: `${roleLabel} model verification`,
-          severity: roleSeverity,
-          summary: `Configured model '${configuredModel}' could not be verified because live model review failed.`,
-          details: capability.probeWarnings.join("\n"),
-          remediation: [
-            runStep(probeCommand),
-            thenStep("rr doctor"),
-            runStep("rr init (if model review keeps failing)"),
-          ],
-          fixable: isFixable(id),
-        });
       }
     }
   }
@@ -570,7 +576,56 @@ export async function runDiagnostics(
         }
       }
 
-      if (!options.baseBranch && !options.commitSha && insideGitRepo && !gitRepoError) {
+      if (insideGitRepo && !gitRepoError && options.range) {
+        const commitRange = parseCommitRange(options.range);
+        let rangeRefsExist = false;
+        let rangeRefError: string | null = null;
+        try {
+          rangeRefsExist =
+            commitRange !== undefined &&
+            (await resolveGitRefExists(projectPath, commitRange.from)) &&
+            (await resolveGitRefExists(projectPath, commitRange.to));
+        } catch (error) {
+          rangeRefError = `${error}`;
+        }
+
+        if (rangeRefError) {
+          items.push({
+            id: "git-range-ref",
+            category: "git",
+            title: "Commit range",
+            severity: "error",
+            summary: `Unable to validate commit range '${options.range}'.`,
+            details: rangeRefError,
+            remediation: [runStep("git log --oneline -n 20"), thenStep("rr run --range A..B")],
+          });
+        } else {
+          items.push({
+            id: "git-range-ref",
+            category: "git",
+            title: "Commit range",
+            severity: rangeRefsExist ? "ok" : "error",
+            summary: rangeRefsExist
+              ? `Commit range '${options.range}' exists.`
+              : commitRange
+                ? `Commit range '${options.range}' was not found.`
+                : `Commit range '${options.range}' is not in A..B form.`,
+            remediation: rangeRefsExist
+              ? []
+              : [runStep("git log --oneline -n 20"), thenStep("rr run --range A..B")],
+          });
+        }
+      }
+
+      if (
+        !options.baseBranch &&
+        !options.commitSha &&
+        !options.range &&
+        !options.patchFile &&
+        !options.stash &&
+        insideGitRepo &&
+        !gitRepoError
+      ) {
         let hasChanges = false;
         let hasChangesError: string | null = null;
         try {
@@ -1,4 +1,5 @@
-import type { ReviewOptions } from "@/lib/types";
+import { basename } from "node:path";
+import type { AgentUsage, ReviewOptions } from "@/lib/types";
 
 export function formatDuration(ms: number | null | undefined): string {
   if (ms === undefined || ms === null) return "—";
@@ -17,32 +18,75 @@ export function formatDuration(ms: number | null | undefined): string {
   return `${seconds}s`;
 }
 
+function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+export function formatAgentUsage(usage: AgentUsage): string {
+  const parts = [
+    `${formatTokenCount(usage.inputTokens)} in`,
+    `${formatTokenCount(usage.outputTokens)} out`,
+  ];
+  if (usage.cacheReadTokens > 0 || usage.cacheWriteTokens > 0) {
+    parts.push(`${formatTokenCount(usage.cacheReadTokens + usage.cacheWriteTokens)} cached`);
+  }
+  if (usage.costUsd !== undefined) {
+    parts.push(`$${usage.costUsd.toFixed(2)}`);
+  }
+  return parts.join(" · ");
+}
+
 function formatCustomReviewType(customInstructions: string): string {
   const instruction = customInstructions.slice(0, 40);
   return customInstructions.length > 40 ? `custom (${instruction}...)` : `custom (${instruction})`;
 }
 
-export function formatReviewType(reviewOptions: ReviewOptions | undefined): string {
-  if (!reviewOptions) return "uncommitted changes";
+function formatShortCommitRange(range: string): string {
+  return range
+    .split("..")
+    .map((sha) => sha.slice(0, 7))
+    .join("..");
+}
 
+function formatReviewTarget(reviewOptions: ReviewOptions): string {
   if (reviewOptions.commitSha) {
-    const shortSha = reviewOptions.commitSha.slice(0, 7);
-    if (reviewOptions.customInstructions) {
-      return `commit (${shortSha}) + ${formatCustomReviewType(reviewOptions.customInstructions)}`;
-    }
-    return `commit (${shortSha})`;
+    return `commit (${reviewOptions.commitSha.slice(0, 7)})`;
+  }
+
+  if (reviewOptions.range) {
+    return `range (${formatShortCommitRange(reviewOptions.range)})`;
   }
 
   if (reviewOptions.baseBranch) {
-    if (reviewOptions.customInstructions) {
-      return `base (${reviewOptions.baseBranch}) + ${formatCustomReviewType(reviewOptions.customInstructions)}`;
-    }
     return `base (${reviewOptions.baseBranch})`;
   }
 
-  if (reviewOptions.customInstructions) {
-    return `uncommitted changes + ${formatCustomReviewType(reviewOptions.customInstructions)}`;
+  if (reviewOptions.patchFile) {
+    return `patch (${basename(reviewOptions.patchFile)})`;
+  }
+
+  if (reviewOptions.stash) {
+    return `stash (${reviewOptions.stash.slice(0, 7)})`;
   }
 
   return "uncommitted changes";
 }
+
+export function formatReviewType(reviewOptions: ReviewOptions | undefined): string {
+  if (!reviewOptions) return "uncommitted changes";
+
+  const target = reviewOptions.eachCommit
+    ? `${formatReviewTarget(reviewOptions)} per commit`
+    : formatReviewTarget(reviewOptions);
+  if (reviewOptions.customInstructions) {
+    return `${target} + ${formatCustomReviewType(reviewOptions.customInstructions)}`;
+  }
+
+  return target;
+}
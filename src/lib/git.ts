@@ -178,6 +178,141 @@ export function mergeBaseWithHead(repoPath: string, branch: string): string | un
   return runGitForStdout(repoRoot, ["merge-base", head, preferredRef]);
 }
 
+export interface ChangedFileStat {
+  path: string;
+  changedLines: number;
+}
+
+/**
+ * Lists files changed between `fromCommit` and HEAD with their added plus deleted line
+ * counts, relative to `repoPath`. Binary files count as a single changed line.
+ *
+ * Returns an empty list when the diff cannot be computed.
+ */
+export function listChangedFileStats(repoPath: string, fromCommit: string): ChangedFileStat[] {
+  const output = runGitForStdout(repoPath, [
+    "diff",
+    "--numstat",
+    "--no-renames",
+    "--relative",
+    "-z",
+    fromCommit,
+    "HEAD",
+  ]);
+  if (!output) {
+    return [];
+  }
+
+  return output
+    .split("\0")
+    .filter((record) => record.length > 0)
+    .flatMap((record) => {
+      const [added, deleted, ...pathParts] = record.split("\t");
+      const path = pathParts.join("\t");
+      if (!path) {
+        return [];
+      }
+      const changedLines = (Number(added) || 0) + (Number(deleted) || 0);
+      return [{ path, changedLines: Math.max(changedLines, 1) }];
+    });
+}
+
+export interface CommitRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Splits an `A..B` range into its endpoints. Symmetric `A...B` ranges and missing
+ * endpoints are rejected.
+ */
+export function parseCommitRange(range: string): CommitRange | undefined {
+  const parts = range.trim().split("..");
+  if (parts.length !== 2) {
+    return undefined;
+  }
+
+  const [from, to] = parts.map((part) => part.trim());
+  if (!from || !to || to.startsWith(".")) {
+    return undefined;
+  }
+
+  return { from, to };
+}
+
+/**
+ * Resolves both endpoints of an `A..B` range to commit SHAs so the reviewed range stays
+ * fixed even when refs move or are relative to a session worktree's HEAD.
+ */
+export function resolveCommitRange(repoPath: string, range: string): CommitRange {
+  const parsed = parseCommitRange(range);
+  if (!parsed) {
+    throw new Error(`Invalid commit range '${range}'. Expected A..B.`);
+  }
+
+  const resolveEndpoint = (ref: string): string => {
+    const sha = runGitForStdout(repoPath, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    if (!sha) {
+      throw new Error(`Commit '${ref}' in range '${range}' was not found.`);
+    }
+    return sha;
+  };
+
+  return { from: resolveEndpoint(parsed.from), to: resolveEndpoint(parsed.to) };
+}
+
+/**
+ * Resolves a stash entry such as `stash@{0}` to its commit SHA so later pushes to the stash
+ * stack do not change which entry is reviewed.
+ */
+export function resolveStashEntry(repoPath: string, stashRef: string): string {
+  const sha = runGitForStdout(repoPath, [
+    "rev-parse",
+    "--verify",
+    "--quiet",
+    `${stashRef}^{commit}`,
+  ]);
+  if (!sha) {
+    throw new Error(`Stash entry '${stashRef}' was not found.`);
+  }
+
+  if (!runGitForStdout(repoPath, ["rev-parse", "--verify", "--quiet", `${sha}^2`])) {
+    throw new Error(`'${stashRef}' is not a stash entry.`);
+  }
+  return sha;
+}
+
+export interface RangeCommit {
+  sha: string;
+  subject: string;
+}
+
+/**
+ * Lists the non-merge commits reachable from `to` but not `from`, oldest first.
+ *
+ * Returns an empty list when the range cannot be read.
+ */
+export function listRangeCommits(repoPath: string, from: string, to: string): RangeCommit[] {
+  const output = runGitForStdout(repoPath, [
+    "log",
+    "--reverse",
+    "--no-merges",
+    "--format=%H%x1f%s",
+    `${from}..${to}`,
+  ]);
+  if (!output) {
+    return [];
+  }
+
+  return output
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [sha = "", ...subjectParts] = line.split("\x1f");
+      return { sha, subject: subjectParts.join("\x1f") };
+    });
+}
+
 const CHECKPOINT_REF_PREFIX = "refs/ralph-review/checkpoints";
 const CHECKPOINT_SNAPSHOT_DIR = "ralph-review/checkpoints";
 const CHECKPOINT_SNAPSHOT_ARCHIVE = "worktree.tar";
@@ -646,6 +781,76 @@ export function createSessionWorktree(
   return worktree;
 }
 
+export type SessionSnapshotSource =
+  | { kind: "patch"; patchPath: string }
+  | { kind: "stash"; stashRef: string };
+
+/**
+ * Creates a session worktree whose baseline is a patch file or stash entry applied onto a
+ * commit, leaving the source working tree untouched. Patches apply onto HEAD; stashes apply
+ * onto the commit they were created from so they replay without conflicts.
+ */
+export function createSessionWorktreeFromSource(
+  sourceProjectPath: string,
+  worktreeId: string,
+  source: SessionSnapshotSource,
+  storageRoot: string = CONFIG_DIR
+): GitSessionWorktree {
+  const label = source.kind === "patch" ? `patch ${source.patchPath}` : `stash ${source.stashRef}`;
+  const startPoint = assertGitOk(
+    sourceProjectPath,
+    ["rev-parse", "--verify", source.kind === "patch" ? "HEAD" : `${source.stashRef}^1`],
+    `Failed to resolve the commit to apply ${label} onto`
+  );
+  const worktree = createSessionWorktreeAt(sourceProjectPath, worktreeId, startPoint, storageRoot);
+
+  try {
+    if (source.kind === "patch") {
+      assertGitOk(
+        worktree.worktreeProjectPath,
+        ["apply", "--whitespace=nowarn", source.patchPath],
+        `Failed to apply ${label}`
+      );
+    } else {
+      assertGitOk(
+        worktree.worktreeProjectPath,
+        ["stash", "apply", source.stashRef],
+        `Failed to apply ${label}`
+      );
+    }
+
+    const baseline = createBaselineCommit(worktree.worktreeProjectPath, worktreeId, {
+      refKind: "source",
+    });
+    const baselineRef = buildSessionBaselineRef(worktreeId);
+    assertGitOk(
+      sourceProjectPath,
+      ["update-ref", baselineRef, baseline.commitSha],
+      `Failed to write session ref ${baselineRef}`
+    );
+    assertGitOk(
+      worktree.worktreeProjectPath,
+      ["reset", "--hard", baseline.commitSha],
+      `Failed to check out the ${label} snapshot`
+    );
+
+    worktree.baselineCommitSha = baseline.commitSha;
+    worktree.baselineRef = baselineRef;
+    worktree.sourceBaselineCommitSha = baseline.commitSha;
+    worktree.sourceBaselineRef = baseline.ref;
+    worktree.sourceBaselineFingerprint = baseline.fingerprint;
+    return worktree;
+  } catch (error) {
+    try {
+      discardSessionWorktree(worktree);
+      deleteSessionRefs(sourceProjectPath, worktreeId);
+    } catch (cleanupError) {
+      throw new Error(`${error} Cleanup also failed: ${cleanupError}`);
+    }
+    throw error;
+  }
+}
+
 export function hasCleanWorktreeState(repoPath: string): boolean {
   const result = runGit(repoPath, ["status", "--porcelain"]);
   if (result.exitCode !== 0) {
@@ -668,6 +873,15 @@ export function hasUnmergedPaths(repoPath: string): boolean {
   return result.stdout.length > 0;
 }
 
+export function listUnmergedPaths(repoPath: string): string[] {
+  const output = assertGitOk(
+    repoPath,
+    ["diff", "--name-only", "--diff-filter=U"],
+    "Failed to list conflicted paths"
+  );
+  return output ? output.split("\n") : [];
+}
+
 export function applyBinaryPatch(repoPath: string, patchPath: string): void {
   const applyArgs = ["apply"];
   applyArgs.push("--check", "--binary", patchPath);
@@ -677,6 +891,65 @@ export function applyBinaryPatch(repoPath: string, patchPath: string): void {
   assertGitOk(repoPath, writeArgs, "Failed to apply handoff patch");
 }
 
+/**
+ * Applies a patch in reverse. With `threeWay`, a patch that no longer applies cleanly falls back to
+ * a three-way merge through a temporary index seeded from the working tree, so uncommitted edits
+ * are kept and the real index is untouched. Returns the paths left with conflict markers.
+ */
+export function reverseApplyBinaryPatch(
+  repoPath: string,
+  patchPath: string,
+  options: { threeWay: boolean }
+): string[] {
+  const context = "Failed to revert handoff patch";
+  if (
+    !options.threeWay ||
+    runGit(repoPath, ["apply", "-R", "--check", "--binary", patchPath]).exitCode === 0
+  ) {
+    assertGitOk(repoPath, ["apply", "-R", "--binary", patchPath], context);
+    return [];
+  }
+
+  const repoRoot = assertGitOk(repoPath, ["rev-parse", "--show-toplevel"], context);
+  const tempIndexPath = createTemporaryIndexPath("revert");
+
+  try {
+    seedTemporaryIndex(repoRoot, tempIndexPath, context);
+    const env = {
+      GIT_INDEX_FILE: tempIndexPath,
+    };
+    assertGitOkWithEnv(repoRoot, ["add", "-A", "--", "."], env, context);
+
+    const result = Bun.spawnSync(["git", "apply", "-R", "--3way", "--binary", patchPath], {
+      cwd: repoRoot,
+      env: {
+        ...process.env,
+        ...env,
+      },
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    if (result.exitCode === 0) {
+      return [];
+    }
+
+    const conflictedPaths = assertGitOkWithEnv(
+      repoRoot,
+      ["diff", "--name-only", "--diff-filter=U"],
+      env,
+      context
+    );
+    if (conflictedPaths) {
+      return conflictedPaths.split("\n");
+    }
+
+    const details = result.stderr.toString().trim() || result.stdout.toString().trim();
+    throw new Error(`${context} with merge: ${details || "unknown git error"}`);
+  } finally {
+    runCommand(repoRoot, ["rm", "-f", tempIndexPath]);
+  }
+}
+
 export function applyBinaryPatchWithThreeWay(
   repoPath: string,
   patchPath: string
@@ -695,6 +968,63 @@ export function applyBinaryPatchWithThreeWay(
   throw new Error(`Failed to apply handoff patch with merge: ${details}`);
 }
 
+export interface AppliedWorktreeChanges {
+  status: "applied" | "conflicted" | "empty";
+  files: string[];
+}
+
+/**
+ * Applies the working-tree changes of `sourceRepoPath` since `fromCommitSha`, including
+ * untracked files, onto the working tree of `targetRepoPath`. Both paths must be worktrees of
+ * the same repository. Changes that do not apply cleanly leave the target untouched.
+ */
+export function applyWorktreeChanges(
+  sourceRepoPath: string,
+  targetRepoPath: string,
+  fromCommitSha: string
+): AppliedWorktreeChanges {
+  const context = "Failed to combine worktree changes";
+  const treeSha = createWorktreeStateTree(sourceRepoPath, context);
+  const files = assertGitOk(
+    sourceRepoPath,
+    ["diff", "--name-only", "--no-renames", fromCommitSha, treeSha],
+    context
+  )
+    .split("\n")
+    .filter((path) => path.length > 0);
+  if (files.length === 0) {
+    return { status: "empty", files };
+  }
+
+  const diff = Bun.spawnSync(["git", "diff", "--binary", "--no-renames", fromCommitSha, treeSha], {
+    cwd: sourceRepoPath,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  if (diff.exitCode !== 0) {
+    throw new Error(`${context}: ${diff.stderr.toString().trim() || "git diff failed"}`);
+  }
+
+  const targetRoot = assertGitOk(targetRepoPath, ["rev-parse", "--show-toplevel"], context);
+  const applyPatch = (args: string[]) =>
+    Bun.spawnSync(["git", "apply", ...args, "--binary", "-"], {
+      cwd: targetRoot,
+      stdin: diff.stdout,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+  if (applyPatch(["--check"]).exitCode !== 0) {
+    return { status: "conflicted", files };
+  }
+
+  const applied = applyPatch([]);
+  if (applied.exitCode !== 0) {
+    throw new Error(`${context}: ${applied.stderr.toString().trim() || "git apply failed"}`);
+  }
+
+  return { status: "applied", files };
+}
+
 export function unstageWorktreeChanges(repoPath: string): void {
   if (hasInitialCommit(repoPath)) {
     assertGitOk(repoPath, ["reset"], "Failed to unstage applied handoff");
@@ -917,6 +1247,100 @@ export function createHandoffRef(repoPath: string, ref: string, commitSha: strin
   assertGitOk(repoPath, ["update-ref", ref, commitSha], `Failed to write handoff ref ${ref}`);
 }
 
+/**
+ * Commits a handoff patch on top of HEAD through a temporary index, leaving the working tree and
+ * the real index untouched. The commit uses the repository's own author identity. When the patch
+ * no longer applies to HEAD and `fallbackCommitSha` is given, that commit's tree is committed on
+ * its own parent instead.
+ */
+export function createHandoffCommit(
+  repoPath: string,
+  patchPath: string,
+  message: string,
+  options: { fallbackCommitSha?: string } = {}
+): string {
+  const context = "Failed to commit handoff patch";
+  const repoRoot = assertGitOk(repoPath, ["rev-parse", "--show-toplevel"], context);
+  const head = resolveHead(repoRoot);
+  if (!head) {
+    throw new Error(`${context}: the repository has no commits yet.`);
+  }
+
+  const tempIndexPath = createTemporaryIndexPath("handoff");
+  try {
+    const env = {
+      GIT_INDEX_FILE: tempIndexPath,
+    };
+    assertGitOkWithEnv(repoRoot, ["read-tree", head], env, context);
+    const applied = Bun.spawnSync(["git", "apply", "--cached", "--binary", patchPath], {
+      cwd: repoRoot,
+      env: { ...process.env, ...env },
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    if (applied.exitCode !== 0 && options.fallbackCommitSha) {
+      const fallback = options.fallbackCommitSha;
+      return assertGitOk(
+        repoRoot,
+        ["commit-tree", `${fallback}^{tree}`, "-p", `${fallback}^`, "-m", message],
+        context
+      );
+    }
+    if (applied.exitCode !== 0) {
+      throw new Error(
+        `Handoff patch does not apply to HEAD: ${applied.stderr.toString().trim() || "git apply failed"}`
+      );
+    }
+
+    const treeSha = assertGitOkWithEnv(repoRoot, ["write-tree"], env, context);
+    return assertGitOk(repoRoot, ["commit-tree", treeSha, "-p", head, "-m", message], context);
+  } finally {
+    runCommand(repoRoot, ["rm", "-f", tempIndexPath]);
+  }
+}
+
+export function assertBranchAvailable(repoPath: string, branch: string): void {
+  if (runGit(repoPath, ["check-ref-format", "--branch", branch]).exitCode !== 0) {
+    throw new Error(`"${branch}" is not a valid branch name.`);
+  }
+  if (
+    runGit(repoPath, ["show-ref", "--verify", "--quiet", `refs/heads/${branch}`]).exitCode === 0
+  ) {
+    throw new Error(`Branch "${branch}" already exists.`);
+  }
+}
+
+export function createBranchAt(repoPath: string, branch: string, commitSha: string): void {
+  assertBranchAvailable(repoPath, branch);
+  assertGitOk(repoPath, ["branch", branch, commitSha], `Failed to create branch ${branch}`);
+}
+
+/** The commit HEAD points at; a clean working tree is fully described by it. */
+export function resolveHeadCommit(repoPath: string): string {
+  return assertGitOk(repoPath, ["rev-parse", "--verify", "HEAD"], "Failed to resolve HEAD");
+}
+
+/**
+ * Resets the index and tracked files to `commitSha`. `git apply --3way` has no abort of its own,
+ * so this is how a conflicted apply onto a clean working tree is undone.
+ */
+export function resetWorktreeToCommit(repoPath: string, commitSha: string): void {
+  assertGitOk(
+    repoPath,
+    ["reset", "--hard", "--quiet", commitSha],
+    `Failed to restore the working tree to ${commitSha}`
+  );
+}
+
+/** Moves HEAD forward to `commitSha`, refusing to overwrite local changes to the files it touches. */
+export function fastForwardHead(repoPath: string, commitSha: string): void {
+  assertGitOk(
+    repoPath,
+    ["merge", "--ff-only", "--quiet", commitSha],
+    `Failed to fast-forward to ${commitSha}`
+  );
+}
+
 function resolveRetainedCommitMessage(worktree: GitSessionWorktree): string {
   return `rr: apply reviewed patch for ${worktree.retainedBranch}`;
 }
@@ -30,6 +30,7 @@ export function formatHandoffNote(options: HandoffNoteOptions): string | null {
       "Reviewed fixes hit conflicts during apply.",
       commitLine,
       "Resolve or abort the Git conflict. Ralph will reconcile the handoff automatically on a later command.",
+      "To have the fixer replay the handoff onto your changes instead, run rr apply --rebase; it undoes the conflicted apply first.",
     ]
       .filter(Boolean)
       .join("\n");
@@ -0,0 +1,163 @@
+import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+
+export interface HandoffPatchHunk {
+  header: string;
+  lines: string[];
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface HandoffPatchFile {
+  path: string;
+  /** Everything before the first hunk: the `diff --git` line, mode lines, and `---`/`+++`. */
+  headerLines: string[];
+  /** Empty for binary, mode-only, and other changes that can only be taken as a whole file. */
+  hunks: HandoffPatchHunk[];
+}
+
+export interface HandoffPatchFileStat {
+  path: string;
+  additions: number;
+  deletions: number;
+  /** Binary changes have no line counts. */
+  binary: boolean;
+}
+
+/** One keep-or-drop choice: a hunk, or a whole file when the file has no text hunks. */
+export interface HandoffPatchChange {
+  file: HandoffPatchFile;
+  hunkIndex?: number;
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/u;
+
+function unquotePath(path: string): string {
+  return path.startsWith('"') && path.endsWith('"') ? path.slice(1, -1) : path;
+}
+
+function resolveFilePath(headerLines: string[]): string {
+  for (const prefix of ["+++ b/", "--- a/"]) {
+    const line = headerLines.find((candidate) => candidate.startsWith(prefix));
+    if (line) {
+      return unquotePath(line.slice(prefix.length));
+    }
+  }
+
+  // Handoff patches are built with --no-renames, so both sides of `diff --git a/P b/P` match.
+  const paths = headerLines[0]?.slice("diff --git ".length) ?? "";
+  return unquotePath(paths.slice(2, 2 + (paths.length - 5) / 2));
+}
+
+function parseFileSection(lines: string[]): HandoffPatchFile {
+  const firstHunk = lines.findIndex((line) => HUNK_HEADER_PATTERN.test(line));
+  const headerLines = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+  const hunks: HandoffPatchHunk[] = [];
+
+  if (firstHunk !== -1) {
+    for (const line of lines.slice(firstHunk)) {
+      const match = HUNK_HEADER_PATTERN.exec(line);
+      if (match) {
+        hunks.push({
+          header: line,
+          lines: [],
+          oldStart: Number(match[1]),
+          oldLines: match[2] === undefined ? 1 : Number(match[2]),
+          newStart: Number(match[3]),
+          newLines: match[4] === undefined ? 1 : Number(match[4]),
+        });
+        continue;
+      }
+      hunks.at(-1)?.lines.push(line);
+    }
+  }
+
+  return { path: resolveFilePath(headerLines), headerLines, hunks };
+}
+
+/** Splits a `git diff --binary` patch into files and hunks. */
+export function parseHandoffPatch(patch: string): HandoffPatchFile[] {
+  const files: HandoffPatchFile[] = [];
+  let section: string[] | undefined;
+
+  const lines = patch.endsWith("\n") ? patch.slice(0, -1).split("\n") : patch.split("\n");
+  for (const line of lines) {
+    if (line.startsWith("diff --git ")) {
+      if (section) {
+        files.push(parseFileSection(section));
+      }
+      section = [line];
+      continue;
+    }
+    section?.push(line);
+  }
+  if (section) {
+    files.push(parseFileSection(section));
+  }
+
+  return files;
+}
+
+export function listHandoffPatchChanges(files: readonly HandoffPatchFile[]): HandoffPatchChange[] {
+  return files.flatMap((file) =>
+    file.hunks.length === 0
+      ? [{ file }]
+      : file.hunks.map((_hunk, hunkIndex) => ({ file, hunkIndex }))
+  );
+}
+
+export function summarizeHandoffPatch(files: readonly HandoffPatchFile[]): HandoffPatchFileStat[] {
+  return files.map((file) => {
+    const lines = file.hunks.flatMap((hunk) => hunk.lines);
+    return {
+      path: file.path,
+      additions: lines.filter((line) => line.startsWith("+")).length,
+      deletions: lines.filter((line) => line.startsWith("-")).length,
+      binary: file.headerLines.some(
+        (line) => line === "GIT binary patch" || line.startsWith("Binary files ")
+      ),
+    };
+  });
+}
+
+/**
+ * Rebuilds a patch from the kept changes. Hunks keep their original line numbers; `git apply`
+ * finds each one by its context when earlier hunks in the file were dropped.
+ */
+export function buildHandoffPatch(kept: readonly HandoffPatchChange[]): string {
+  const lines: string[] = [];
+  const keptFiles = [...new Set(kept.map((change) => change.file))];
+
+  for (const file of keptFiles) {
+    lines.push(...file.headerLines);
+    for (const [hunkIndex, hunk] of file.hunks.entries()) {
+      if (kept.some((change) => change.file === file && change.hunkIndex === hunkIndex)) {
+        lines.push(hunk.header, ...hunk.lines);
+      }
+    }
+  }
+
+  return lines.length === 0 ? "" : `${lines.join("\n")}\n`;
+}
+
+/**
+ * Findings a change most likely addresses: those whose baseline lines overlap the hunk, or every
+ * finding in the file when none overlap or the change has no hunks.
+ */
+export function findChangeFindings(
+  change: HandoffPatchChange,
+  findings: readonly StoredFinding[]
+): StoredFinding[] {
+  const fileFindings = findings.filter((finding) => finding.filePath === change.file.path);
+  const hunk = change.hunkIndex === undefined ? undefined : change.file.hunks[change.hunkIndex];
+  if (!hunk) {
+    return fileFindings;
+  }
+
+  const hunkEnd = hunk.oldStart + Math.max(hunk.oldLines, 1) - 1;
+  const overlapping = fileFindings.filter(
+    (finding) => finding.startLine <= hunkEnd && finding.endLine >= hunk.oldStart
+  );
+  return overlapping.length > 0 ? overlapping : fileFindings;
+}
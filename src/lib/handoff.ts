@@ -4,21 +4,31 @@ import type { GitSessionWorktree } from "@/lib/git";
 import {
   applyBinaryPatch,
   applyBinaryPatchWithThreeWay,
+  assertBranchAvailable,
   buildHandoffRef,
   computeWorkingTreeFingerprint,
   createBaselineToFinalPatch,
+  createBranchAt,
   createCheckpoint,
+  createHandoffCommit,
   createHandoffRef,
+  createSessionWorktree,
   deleteSessionRefs,
   discardCheckpoint,
+  discardSessionWorktree,
+  fastForwardHead,
   finalizeSessionWorktree,
   hasCleanWorktreeState,
   hasUnmergedPaths,
+  listUnmergedPaths,
+  resetWorktreeToCommit,
+  resolveHeadCommit,
+  reverseApplyBinaryPatch,
   rollbackToCheckpoint,
   unstageWorktreeChanges,
 } from "@/lib/git";
 import { appendLog, getProjectStorageDir } from "@/lib/logger";
-import type { HandoffStatus, PendingHandoffArtifact } from "@/lib/types";
+import type { AppliedHandoffArtifact, HandoffStatus, PendingHandoffArtifact } from "@/lib/types";
 
 type HandoffApplyMode = "auto" | "manual";
 
@@ -31,6 +41,38 @@ interface CreateOrAutoApplyOptions {
   autoApply?: boolean;
 }
 
+export interface CommitHandoffOptions {
+  message: string;
+  /** Create this branch at the commit instead of moving HEAD onto it. */
+  branch?: string;
+}
+
+export interface CommittedHandoff {
+  artifact: PendingHandoffArtifact;
+  commitSha: string;
+  branch?: string;
+}
+
+export interface HandoffConflicts {
+  /** Scratch worktree holding the replayed handoff, with conflict markers in `paths`. */
+  worktree: GitSessionWorktree;
+  /** Repository-relative paths that still have conflicts. */
+  paths: string[];
+}
+
+export interface RebasedHandoff {
+  previous: PendingHandoffArtifact;
+  /** Null when the working tree already contains every change in the handoff. */
+  handoff: SessionHandoffResult | null;
+  conflictedPaths: string[];
+}
+
+export interface RevertedHandoff {
+  artifact: AppliedHandoffArtifact;
+  /** Paths left with conflict markers where later edits overlapped the handoff. */
+  conflictedPaths: string[];
+}
+
 export interface SessionHandoffResult {
   handoffId: string;
   handoffStatus: Extract<HandoffStatus, "applied-auto" | "pending-apply">;
@@ -43,13 +85,15 @@ class PendingHandoffApplyConflictError extends Error {
 
   constructor(artifact: PendingHandoffArtifact) {
     super(
-      `Review handoff "${artifact.handoffId}" has conflicts during apply. Resolve or abort the Git conflict, then rerun any rr command to reconcile the handoff automatically.`
+      `Review handoff "${artifact.handoffId}" has conflicts during apply. Resolve or abort the Git conflict, then rerun any rr command to reconcile the handoff automatically. To have the fixer replay it onto your changes instead, run rr apply --rebase --session ${artifact.handoffId}; it undoes the conflicted apply first.`
     );
     this.name = "PendingHandoffApplyConflictError";
     this.artifact = artifact;
   }
 }
 
+const CONFLICT_MARKER_PATTERN = /^(?:<{7}|={7}|>{7})(?: |$)/mu;
+
 const SNAPSHOT_MISMATCH_ERROR_MESSAGE =
   "Current repository state no longer matches the saved review baseline.";
 
@@ -85,6 +129,66 @@ function getPendingHandoffPatchPath(
   return join(getProjectHandoffsDir(storageRoot, projectPath), `${handoffId}.patch`);
 }
 
+function getAppliedHandoffsDir(storageRoot: string = CONFIG_DIR, projectPath: string): string {
+  return join(getProjectHandoffsDir(storageRoot, projectPath), "applied");
+}
+
+function getAppliedHandoffMetadataPath(
+  storageRoot: string = CONFIG_DIR,
+  projectPath: string,
+  handoffId: string
+): string {
+  return join(getAppliedHandoffsDir(storageRoot, projectPath), `${handoffId}.json`);
+}
+
+function normalizeAppliedHandoff(raw: unknown): AppliedHandoffArtifact | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  const {
+    handoffId,
+    sessionId,
+    projectPath,
+    sourceRepoPath,
+    logPath,
+    patchPath,
+    appliedFingerprint,
+    commitSha,
+    appliedAt,
+    committedSha,
+    branch,
+  } = candidate;
+  if (
+    typeof handoffId !== "string" ||
+    typeof sessionId !== "string" ||
+    typeof projectPath !== "string" ||
+    typeof sourceRepoPath !== "string" ||
+    typeof logPath !== "string" ||
+    typeof patchPath !== "string" ||
+    typeof appliedFingerprint !== "string" ||
+    typeof commitSha !== "string" ||
+    typeof appliedAt !== "number"
+  ) {
+    return null;
+  }
+
+  return {
+    handoffId,
+    sessionId,
+    projectPath,
+    sourceRepoPath,
+    logPath,
+    patchPath,
+    appliedFingerprint,
+    commitSha,
+    appliedAt,
+    ...(typeof committedSha === "string" ? { committedSha } : {}),
+    ...(typeof branch === "string" ? { branch } : {}),
+  };
+}
+
 function normalizePendingHandoff(raw: unknown): PendingHandoffArtifact | null {
   if (!raw || typeof raw !== "object") {
     return null;
@@ -106,6 +210,8 @@ function normalizePendingHandoff(raw: unknown): PendingHandoffArtifact | null {
     updatedAt,
     applyStartedAt,
     applyStartFingerprint,
+    applyStartCommitSha,
+    appliedPatchPath,
   } = candidate;
   if (
     typeof handoffId !== "string" ||
@@ -147,6 +253,8 @@ function normalizePendingHandoff(raw: unknown): PendingHandoffArtifact | null {
     applyStartedAt: typeof applyStartedAt === "number" ? applyStartedAt : undefined,
     applyStartFingerprint:
       typeof applyStartFingerprint === "string" ? applyStartFingerprint : undefined,
+    applyStartCommitSha: typeof applyStartCommitSha === "string" ? applyStartCommitSha : undefined,
+    appliedPatchPath: typeof appliedPatchPath === "string" ? appliedPatchPath : undefined,
   };
 }
 
@@ -229,6 +337,54 @@ async function deletePendingHandoffFiles(
   await Bun.file(artifact.patchPath)
     .delete()
     .catch(() => {});
+  await deleteAppliedPatchFile(artifact);
+}
+
+async function deleteAppliedPatchFile(artifact: PendingHandoffArtifact): Promise<void> {
+  if (artifact.appliedPatchPath) {
+    await Bun.file(artifact.appliedPatchPath)
+      .delete()
+      .catch(() => {});
+  }
+}
+
+/**
+ * Keeps the applied patch and the resulting working-tree fingerprint so `rr apply --revert` can
+ * back the handoff out later. The apply has already happened, so a failure here is not fatal.
+ */
+async function recordAppliedHandoff(
+  storageRoot: string,
+  artifact: PendingHandoffArtifact,
+  patchPath: string,
+  committed: Pick<AppliedHandoffArtifact, "committedSha" | "branch"> = {}
+): Promise<void> {
+  try {
+    const appliedPatchPath = join(
+      getAppliedHandoffsDir(storageRoot, artifact.projectPath),
+      `${artifact.handoffId}.patch`
+    );
+    await Bun.write(appliedPatchPath, Bun.file(patchPath), { createPath: true });
+
+    const applied: AppliedHandoffArtifact = {
+      handoffId: artifact.handoffId,
+      sessionId: artifact.sessionId,
+      projectPath: artifact.projectPath,
+      sourceRepoPath: artifact.sourceRepoPath,
+      logPath: artifact.logPath,
+      patchPath: appliedPatchPath,
+      appliedFingerprint: computeWorkingTreeFingerprint(artifact.sourceRepoPath),
+      commitSha: artifact.commitSha,
+      appliedAt: Date.now(),
+      ...committed,
+    };
+    await Bun.write(
+      getAppliedHandoffMetadataPath(storageRoot, artifact.projectPath, artifact.handoffId),
+      JSON.stringify(applied, null, 2),
+      { createPath: true }
+    );
+  } catch {
+    // Best-effort; the handoff is applied either way, it just cannot be reverted by rr.
+  }
 }
 
 function deleteHandoffRefs(artifact: Pick<PendingHandoffArtifact, "sourceRepoPath" | "handoffId">) {
@@ -252,6 +408,35 @@ function restorePendingApplyArtifact(artifact: PendingHandoffArtifact): PendingH
   };
 }
 
+async function restorePendingApply(
+  storageRoot: string,
+  artifact: PendingHandoffArtifact
+): Promise<PendingHandoffArtifact> {
+  const restored = restorePendingApplyArtifact(artifact);
+  await writePendingHandoff(storageRoot, restored);
+  await deleteAppliedPatchFile(artifact);
+  await appendHandoffStatusLog(restored, "pending-apply");
+  return restored;
+}
+
+/**
+ * Undoes an open apply conflict by resetting the working tree to where it stood when the apply
+ * started, discarding the conflicted files and any edits made to them since.
+ */
+async function abortConflictedApply(
+  storageRoot: string,
+  artifact: PendingHandoffArtifact
+): Promise<PendingHandoffArtifact> {
+  if (!artifact.applyStartCommitSha) {
+    throw new Error(
+      `Review handoff "${artifact.handoffId}" is waiting for Git conflicts to be resolved or aborted.`
+    );
+  }
+
+  resetWorktreeToCommit(artifact.sourceRepoPath, artifact.applyStartCommitSha);
+  return await restorePendingApply(storageRoot, artifact);
+}
+
 async function reconcilePendingHandoffArtifact(
   storageRoot: string,
   artifact: PendingHandoffArtifact
@@ -266,22 +451,29 @@ async function reconcilePendingHandoffArtifact(
 
   const currentFingerprint = computeWorkingTreeFingerprint(artifact.sourceRepoPath);
   if (currentFingerprint === artifact.applyStartFingerprint) {
-    const restored = restorePendingApplyArtifact(artifact);
-    await writePendingHandoff(storageRoot, restored);
-    await appendHandoffStatusLog(restored, "pending-apply");
-    return restored;
+    return await restorePendingApply(storageRoot, artifact);
   }
 
+  // A conflicted `rr apply --select` only landed its selected changes, not the whole handoff.
+  await recordAppliedHandoff(
+    storageRoot,
+    artifact,
+    artifact.appliedPatchPath ?? artifact.patchPath
+  );
   deleteHandoffRefs(artifact);
   await deletePendingHandoffFiles(storageRoot, artifact);
-  await appendHandoffStatusLog(artifact, "applied-manual");
+  await appendHandoffStatusLog(
+    artifact,
+    artifact.appliedPatchPath ? "applied-partial" : "applied-manual"
+  );
   return null;
 }
 
 async function applyPendingHandoffWithDivergedRepo(
   storageRoot: string,
   artifact: PendingHandoffArtifact,
-  currentFingerprint: string
+  currentFingerprint: string,
+  patchPath: string
 ): Promise<PendingHandoffArtifact> {
   if (
     !hasCleanWorktreeState(artifact.sourceRepoPath) ||
@@ -292,16 +484,19 @@ async function applyPendingHandoffWithDivergedRepo(
     );
   }
 
+  const applyStartCommitSha = resolveHeadCommit(artifact.sourceRepoPath);
   const checkpoint = createCheckpoint(artifact.sourceRepoPath, `apply-${artifact.handoffId}`);
 
   try {
-    const applyResult = applyBinaryPatchWithThreeWay(artifact.sourceRepoPath, artifact.patchPath);
+    const applyResult = applyBinaryPatchWithThreeWay(artifact.sourceRepoPath, patchPath);
     if (applyResult === "conflicted") {
       const applyConflicted: PendingHandoffArtifact = {
         ...artifact,
         state: "apply-conflicted",
         applyStartedAt: Date.now(),
         applyStartFingerprint: currentFingerprint,
+        applyStartCommitSha,
+        ...(patchPath === artifact.patchPath ? {} : { appliedPatchPath: patchPath }),
         updatedAt: Date.now(),
       };
       await writePendingHandoff(storageRoot, applyConflicted);
@@ -311,6 +506,7 @@ async function applyPendingHandoffWithDivergedRepo(
     }
 
     unstageWorktreeChanges(artifact.sourceRepoPath);
+    await recordAppliedHandoff(storageRoot, artifact, patchPath);
     deleteHandoffRefs(artifact);
     await deletePendingHandoffFiles(storageRoot, artifact);
     discardCheckpoint(artifact.sourceRepoPath, checkpoint);
@@ -328,7 +524,8 @@ async function applyPendingHandoffWithDivergedRepo(
 async function applyPendingHandoffArtifact(
   storageRoot: string,
   artifact: PendingHandoffArtifact,
-  applyMode: HandoffApplyMode
+  applyMode: HandoffApplyMode,
+  patchPath: string = artifact.patchPath
 ): Promise<PendingHandoffArtifact> {
   if (artifact.state === "apply-conflicted") {
     throw new Error(
@@ -338,14 +535,20 @@ async function applyPendingHandoffArtifact(
 
   const currentFingerprint = computeWorkingTreeFingerprint(artifact.sourceRepoPath);
   if (currentFingerprint === artifact.sourceBaselineFingerprint) {
-    applyBinaryPatch(artifact.sourceRepoPath, artifact.patchPath);
+    applyBinaryPatch(artifact.sourceRepoPath, patchPath);
+    await recordAppliedHandoff(storageRoot, artifact, patchPath);
     deleteHandoffRefs(artifact);
     await deletePendingHandoffFiles(storageRoot, artifact);
     return artifact;
   }
 
   if (applyMode === "manual") {
-    return await applyPendingHandoffWithDivergedRepo(storageRoot, artifact, currentFingerprint);
+    return await applyPendingHandoffWithDivergedRepo(
+      storageRoot,
+      artifact,
+      currentFingerprint,
+      patchPath
+    );
   }
 
   throw new Error(SNAPSHOT_MISMATCH_ERROR_MESSAGE);
@@ -386,6 +589,21 @@ export async function listProjectPendingHandoffs(
   );
 }
 
+export async function listProjectAppliedHandoffs(
+  storageRoot: string = CONFIG_DIR,
+  projectPath: string
+): Promise<AppliedHandoffArtifact[]> {
+  return await listArtifacts(
+    getAppliedHandoffsDir(storageRoot, projectPath),
+    (handoffId) =>
+      readArtifactFile(
+        getAppliedHandoffMetadataPath(storageRoot, projectPath, handoffId),
+        normalizeAppliedHandoff
+      ),
+    (left, right) => right.appliedAt - left.appliedAt
+  );
+}
+
 async function requirePendingHandoff(
   storageRoot: string,
   projectPath: string,
@@ -411,6 +629,198 @@ export async function applyPendingHandoff(
   );
 }
 
+/**
+ * Applies only `selectedPatch`, a subset of the handoff patch, the same way `rr apply` applies the
+ * whole patch. The handoff is consumed either way; the dropped changes are not kept. When the apply
+ * conflicts, the selected patch is kept on the handoff until the conflict is resolved or aborted.
+ */
+export async function applyPendingHandoffSelection(
+  storageRoot: string = CONFIG_DIR,
+  projectPath: string,
+  handoffId: string,
+  selectedPatch: string
+): Promise<PendingHandoffArtifact> {
+  const artifact = await requirePendingHandoff(storageRoot, projectPath, handoffId);
+  const selectedPatchPath = artifact.patchPath.replace(/\.patch$/u, ".selected.patch");
+  await Bun.write(selectedPatchPath, selectedPatch, { createPath: true });
+
+  let conflicted = false;
+  try {
+    return await applyPendingHandoffArtifact(storageRoot, artifact, "manual", selectedPatchPath);
+  } catch (error) {
+    conflicted = error instanceof PendingHandoffApplyConflictError;
+    throw error;
+  } finally {
+    if (!conflicted) {
+      await Bun.file(selectedPatchPath)
+        .delete()
+        .catch(() => {});
+    }
+  }
+}
+
+/**
+ * Turns a pending handoff into a commit on top of HEAD instead of working-tree changes. With
+ * `branch`, the commit only lands on that new branch; otherwise HEAD is fast-forwarded onto it.
+ * A branch falls back to the hidden handoff commit's snapshot when HEAD has moved so far that the
+ * patch no longer applies.
+ */
+export async function commitPendingHandoff(
+  storageRoot: string = CONFIG_DIR,
+  projectPath: string,
+  handoffId: string,
+  options: CommitHandoffOptions
+): Promise<CommittedHandoff> {
+  const artifact = await requirePendingHandoff(storageRoot, projectPath, handoffId);
+
+  if (artifact.state === "apply-conflicted") {
+    throw new Error(
+      `Review handoff "${artifact.handoffId}" is waiting for Git conflicts to be resolved or aborted.`
+    );
+  }
+
+  if (options.branch) {
+    assertBranchAvailable(artifact.sourceRepoPath, options.branch);
+  }
+
+  const commitSha = createHandoffCommit(
+    artifact.sourceRepoPath,
+    artifact.patchPath,
+    options.message,
+    options.branch ? { fallbackCommitSha: artifact.commitSha } : {}
+  );
+  if (options.branch) {
+    createBranchAt(artifact.sourceRepoPath, options.branch, commitSha);
+  } else {
+    fastForwardHead(artifact.sourceRepoPath, commitSha);
+  }
+
+  await recordAppliedHandoff(storageRoot, artifact, artifact.patchPath, {
+    committedSha: commitSha,
+    ...(options.branch ? { branch: options.branch } : {}),
+  });
+  deleteHandoffRefs(artifact);
+  await deletePendingHandoffFiles(storageRoot, artifact);
+  return { artifact, commitSha, branch: options.branch };
+}
+
+async function findConflictMarkerPaths(repoPath: string, paths: string[]): Promise<string[]> {
+  const marked: string[] = [];
+  for (const path of paths) {
+    const file = Bun.file(join(repoPath, path));
+    if ((await file.exists()) && CONFLICT_MARKER_PATTERN.test(await file.text())) {
+      marked.push(path);
+    }
+  }
+  return marked;
+}
+
+/**
+ * Replays a pending handoff onto the current HEAD plus working tree in a scratch worktree and
+ * stores the result as a fresh pending handoff in place of the old one. A handoff stuck in an
+ * apply conflict has that apply undone first. Conflicts left by the replay go to
+ * `resolveConflicts`, which must remove every conflict marker in the scratch worktree; the old
+ * handoff is kept when it does not.
+ */
+export async function rebasePendingHandoff(
+  storageRoot: string = CONFIG_DIR,
+  projectPath: string,
+  handoffId: string,
+  resolveConflicts: (conflicts: HandoffConflicts) => Promise<void>
+): Promise<RebasedHandoff> {
+  let artifact = await requirePendingHandoff(storageRoot, projectPath, handoffId);
+  if (artifact.state === "apply-conflicted") {
+    artifact = await abortConflictedApply(storageRoot, artifact);
+  }
+
+  const rebasedHandoffId = createHandoffId(artifact.sessionId);
+  const worktree = createSessionWorktree(artifact.projectPath, rebasedHandoffId, storageRoot);
+  let handoff: SessionHandoffResult | null = null;
+
+  try {
+    let conflictedPaths: string[] = [];
+    if (
+      applyBinaryPatchWithThreeWay(worktree.worktreeProjectPath, artifact.patchPath) ===
+      "conflicted"
+    ) {
+      conflictedPaths = listUnmergedPaths(worktree.worktreeProjectPath);
+      await resolveConflicts({ worktree, paths: conflictedPaths });
+
+      const unresolved = await findConflictMarkerPaths(
+        worktree.worktreeProjectPath,
+        conflictedPaths
+      );
+      if (unresolved.length > 0) {
+        throw new Error(
+          `Conflicts remain in ${unresolved.join(", ")} after the fixer ran; review handoff "${artifact.handoffId}" is unchanged.`
+        );
+      }
+    }
+
+    handoff = await createOrAutoApplyHandoff(storageRoot, {
+      sessionId: artifact.sessionId,
+      projectPath: artifact.projectPath,
+      logPath: artifact.logPath,
+      worktree,
+      handoffId: rebasedHandoffId,
+      autoApply: false,
+    });
+
+    deleteHandoffRefs(artifact);
+    await deletePendingHandoffFiles(storageRoot, artifact);
+    return { previous: artifact, handoff, conflictedPaths };
+  } finally {
+    try {
+      discardSessionWorktree(worktree);
+      if (!handoff) {
+        deleteSessionRefs(artifact.sourceRepoPath, rebasedHandoffId);
+      }
+    } catch {
+      // Best-effort cleanup; the rebased handoff ref keeps its commit reachable.
+    }
+  }
+}
+
+/**
+ * Backs an applied handoff out of the working tree. When the tree changed after the apply, the
+ * reverse patch falls back to a three-way merge so later edits are kept; overlapping edits are
+ * left as conflict markers in the returned paths.
+ */
+export async function revertAppliedHandoff(
+  storageRoot: string = CONFIG_DIR,
+  projectPath: string,
+  handoffId: string
+): Promise<RevertedHandoff> {
+  const metadataPath = getAppliedHandoffMetadataPath(storageRoot, projectPath, handoffId);
+  const artifact = await readArtifactFile(metadataPath, normalizeAppliedHandoff);
+  if (!artifact) {
+    throw new Error(`Applied review handoff "${handoffId}" was not found.`);
+  }
+
+  if (artifact.committedSha) {
+    const shortSha = artifact.committedSha.slice(0, 7);
+    throw new Error(
+      artifact.branch
+        ? `Review handoff "${handoffId}" was committed to branch ${artifact.branch} as ${shortSha}, not applied to the working tree. Delete the branch with git branch -D ${artifact.branch} instead.`
+        : `Review handoff "${handoffId}" was committed as ${shortSha}, not applied to the working tree. Undo it with git revert ${shortSha} instead.`
+    );
+  }
+
+  const unchangedSinceApply =
+    computeWorkingTreeFingerprint(artifact.sourceRepoPath) === artifact.appliedFingerprint;
+  const conflictedPaths = reverseApplyBinaryPatch(artifact.sourceRepoPath, artifact.patchPath, {
+    threeWay: !unchangedSinceApply,
+  });
+
+  await Bun.file(metadataPath)
+    .delete()
+    .catch(() => {});
+  await Bun.file(artifact.patchPath)
+    .delete()
+    .catch(() => {});
+  return { artifact, conflictedPaths };
+}
+
 export async function discardPendingHandoff(
   storageRoot: string = CONFIG_DIR,
   projectPath: string,
@@ -505,4 +915,4 @@ export async function createOrAutoApplyHandoff(
   };
 }
 
-export type { PendingHandoffArtifact };
+export type { AppliedHandoffArtifact, PendingHandoffArtifact };
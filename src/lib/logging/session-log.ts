@@ -1,17 +1,24 @@
 import { rename } from "node:fs/promises";
 import { basename, dirname, join } from "node:path";
+import { addAgentUsage } from "@/lib/agents/core";
 import { getAgentDisplayName, getModelDisplayName } from "@/lib/agents/models";
 import { CONFIG_DIR } from "@/lib/config";
-import type {
-  DerivedRunStatus,
-  IterationEntry,
-  LogEntry,
-  Priority,
-  ProjectStats,
-  SessionStats,
-  SessionSummary,
-  SystemEntry,
+import {
+  type AgentUsage,
+  DEFAULT_FINDING_CATEGORY,
+  type DerivedRunStatus,
+  type FindingCategory,
+  type IterationEntry,
+  isFindingCategory,
+  type LogEntry,
+  type Priority,
+  type ProjectStats,
+  type SessionStats,
+  type SessionSummary,
+  type SystemEntry,
+  VALID_FINDING_CATEGORIES,
 } from "@/lib/types";
+import type { ReviewIterationEntry } from "@/lib/types/log";
 
 const LOG_FILE_EXTENSION = ".jsonl";
 const SUMMARY_FILE_SUFFIX = ".summary.json";
@@ -316,6 +323,41 @@ function countFindingPriorityCounts(
   return counts;
 }
 
+function emptyCategoryCounts(): Record<FindingCategory, number> {
+  return {
+    correctness: 0,
+    security: 0,
+    performance: 0,
+    reliability: 0,
+    maintainability: 0,
+    tests: 0,
+  };
+}
+
+function aggregateCategoryCounts(
+  target: Record<FindingCategory, number>,
+  source: Record<FindingCategory, number>
+): void {
+  for (const category of VALID_FINDING_CATEGORIES) {
+    target[category] += source[category];
+  }
+}
+
+function countFindingCategoryCounts(
+  findings: Array<{
+    category?: unknown;
+  }>
+): Record<FindingCategory, number> {
+  const counts = emptyCategoryCounts();
+
+  for (const finding of findings) {
+    // Findings logged before categories existed count as correctness findings.
+    counts[isFindingCategory(finding.category) ? finding.category : DEFAULT_FINDING_CATEGORY] += 1;
+  }
+
+  return counts;
+}
+
 function computeIterationMetrics(entries: LogEntry[]): IterationMetrics {
   const iterations = entries.filter((entry): entry is IterationEntry => entry.type === "iteration");
   const lastIteration = iterations.at(-1);
@@ -351,6 +393,18 @@ function computeIterationMetrics(entries: LogEntry[]): IterationMetrics {
   };
 }
 
+function sumEntryUsage(entries: LogEntry[]): AgentUsage | undefined {
+  return entries.reduce<AgentUsage | undefined>(
+    (total, entry) =>
+      entry.type === "review_iteration" ||
+      entry.type === "batch_fix" ||
+      entry.type === "verification_review"
+        ? addAgentUsage(total, entry.usage)
+        : total,
+    undefined
+  );
+}
+
 function deriveRunStatusFromEntries(
   entries: LogEntry[],
   metrics: IterationMetrics
@@ -370,7 +424,8 @@ function deriveRunStatusFromEntries(
 
   if (
     latestLifecycleEntry.type === "review_iteration" ||
-    latestLifecycleEntry.type === "batch_fix"
+    latestLifecycleEntry.type === "batch_fix" ||
+    latestLifecycleEntry.type === "verification_review"
   ) {
     if (latestLifecycleEntry.error) {
       return latestLifecycleEntry.error.message.toLowerCase().includes("interrupt")
@@ -380,7 +435,11 @@ function deriveRunStatusFromEntries(
     return "running";
   }
 
-  if (latestLifecycleEntry.type === "finding_selection") {
+  if (
+    latestLifecycleEntry.type === "finding_selection" ||
+    latestLifecycleEntry.type === "fix_conflict" ||
+    latestLifecycleEntry.type === "fix_verify"
+  ) {
     return "running";
   }
 
@@ -410,6 +469,7 @@ function createEmptySessionSummary(logPath: string): SessionSummary {
     totalFixes: 0,
     totalSkipped: 0,
     priorityCounts: emptyPriorityCounts(),
+    categoryCounts: emptyCategoryCounts(),
     updatedAt: Date.now(),
   };
 }
@@ -492,10 +552,13 @@ function applyEntryToSummary(
     next.reason = undefined;
     next.totalFindings = (summary.totalFindings ?? 0) + entry.findings.length;
     aggregatePriorityCounts(next.priorityCounts, countFindingPriorityCounts(entry.findings));
+    next.categoryCounts = { ...emptyCategoryCounts(), ...summary.categoryCounts };
+    aggregateCategoryCounts(next.categoryCounts, countFindingCategoryCounts(entry.findings));
 
     if (entry.duration !== undefined) {
       next.totalDuration = (summary.totalDuration ?? 0) + entry.duration;
     }
+    next.usage = addAgentUsage(summary.usage, entry.usage);
 
     return next;
   }
@@ -526,14 +589,62 @@ function applyEntryToSummary(
     next.phase = "batch-fix";
     next.endedAt = undefined;
     next.reason = failed ? entry.error?.message : undefined;
-    next.totalResolvedSelectedFindings = resolvedFindings;
-    next.totalUnresolvedSelectedFindings = unresolvedFindings;
-    next.totalFixes = resolvedFindings;
-    next.totalSkipped = skippedFindings + unresolvedFindings;
+    // Parallel fixers and fix passes for verification regressions add to the totals of the
+    // pass they follow.
+    const previous =
+      summary.phase === "verify" || summary.phase === "batch-fix"
+        ? summary
+        : {
+            totalResolvedSelectedFindings: 0,
+            totalUnresolvedSelectedFindings: 0,
+            totalFixes: 0,
+            totalSkipped: 0,
+          };
+    next.totalResolvedSelectedFindings =
+      (previous.totalResolvedSelectedFindings ?? 0) + resolvedFindings;
+    next.totalUnresolvedSelectedFindings =
+      (previous.totalUnresolvedSelectedFindings ?? 0) + unresolvedFindings;
+    next.totalFixes = previous.totalFixes + resolvedFindings;
+    next.totalSkipped = previous.totalSkipped + skippedFindings + unresolvedFindings;
+
+    if (entry.duration !== undefined) {
+      next.totalDuration = (summary.totalDuration ?? 0) + entry.duration;
+    }
+    next.usage = addAgentUsage(summary.usage, entry.usage);
+
+    return next;
+  }
+
+  if (entry.type === "fix_conflict" || entry.type === "fix_verify") {
+    // Parallel fixes downgraded after combining were counted as resolved by their batch_fix entries.
+    const droppedFixes = entry.fixResults.length;
+    next.totalResolvedSelectedFindings =
+      (summary.totalResolvedSelectedFindings ?? 0) - droppedFixes;
+    next.totalUnresolvedSelectedFindings =
+      (summary.totalUnresolvedSelectedFindings ?? 0) + droppedFixes;
+    next.totalFixes = summary.totalFixes - droppedFixes;
+    next.totalSkipped = summary.totalSkipped + droppedFixes;
+    return next;
+  }
+
+  if (entry.type === "verification_review") {
+    const failed = entry.error !== undefined;
+    const interrupted = entry.error?.message.toLowerCase().includes("interrupt") === true;
+
+    next.status = interrupted ? "interrupted" : failed ? "failed" : "running";
+    next.sessionStatus = interrupted ? "interrupted" : failed ? "failed" : "running";
+    next.phase = "verify";
+    next.endedAt = undefined;
+    next.reason = failed ? entry.error?.message : undefined;
+    next.totalFindings = (summary.totalFindings ?? 0) + entry.findings.length;
+    aggregatePriorityCounts(next.priorityCounts, countFindingPriorityCounts(entry.findings));
+    next.categoryCounts = { ...emptyCategoryCounts(), ...summary.categoryCounts };
+    aggregateCategoryCounts(next.categoryCounts, countFindingCategoryCounts(entry.findings));
 
     if (entry.duration !== undefined) {
       next.totalDuration = (summary.totalDuration ?? 0) + entry.duration;
     }
+    next.usage = addAgentUsage(summary.usage, entry.usage);
 
     return next;
   }
@@ -963,8 +1074,16 @@ export async function computeSessionStats(session: LogSession): Promise<SessionS
     totalFixes: summary?.totalFixes ?? metrics.totalFixes,
     totalSkipped: summary?.totalSkipped ?? metrics.totalSkipped,
     priorityCounts: summary?.priorityCounts ?? metrics.priorityCounts,
+    categoryCounts:
+      summary?.categoryCounts ??
+      countFindingCategoryCounts(
+        entries
+          .filter((entry): entry is ReviewIterationEntry => entry.type === "review_iteration")
+          .flatMap((entry) => entry.findings)
+      ),
     iterations: summary?.iterations ?? metrics.iterations.length,
     totalDuration: summary?.totalDuration ?? metrics.totalDuration,
+    usage: summary ? summary.usage : sumEntryUsage(entries),
     totalFindings: summary?.totalFindings,
     totalSelectedFindings: summary?.totalSelectedFindings,
     totalResolvedSelectedFindings: summary?.totalResolvedSelectedFindings,
@@ -1005,12 +1124,14 @@ export async function computeProjectStats(
   let totalSkipped = 0;
   let totalIterations = 0;
   const priorityCounts = emptyPriorityCounts();
+  const categoryCounts = emptyCategoryCounts();
 
   for (const stats of sessionStats) {
     totalFixes += stats.totalFixes;
     totalSkipped += stats.totalSkipped;
     totalIterations += stats.iterations;
     aggregatePriorityCounts(priorityCounts, stats.priorityCounts);
+    aggregateCategoryCounts(categoryCounts, stats.categoryCounts);
   }
 
   const averageIterations = sessionStats.length > 0 ? totalIterations / sessionStats.length : 0;
@@ -1022,6 +1143,7 @@ export async function computeProjectStats(
     totalFixes,
     totalSkipped,
     priorityCounts,
+    categoryCounts,
     sessionCount: sessions.length,
     averageIterations,
     fixRate,
@@ -1,11 +1,15 @@
 import { join } from "node:path";
 import type { RetainedSessionWorktree } from "@/lib/git";
 import { getProjectStorageDir } from "@/lib/logging";
+import { isFindingTriageState } from "@/lib/review-workflow/findings/triage";
 import type {
   FindingFixResult,
   FindingId,
   FindingsArtifact,
+  FindingTriage,
+  StoredFinding,
 } from "@/lib/review-workflow/findings/types";
+import { DEFAULT_FINDING_CATEGORY, isFindingCategory } from "@/lib/types";
 
 const FINDINGS_ARTIFACT_VERSION = 1;
 const INVALID_SCHEMA_RETRY_MESSAGE = "Findings artifact has invalid schema — re-run rr run";
@@ -39,6 +43,40 @@ function isMissingPathError(error: unknown): error is NodeJS.ErrnoException {
   return typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
 }
 
+function isFindingAliasArray(value: unknown): boolean {
+  if (value === undefined) {
+    return true;
+  }
+
+  if (!Array.isArray(value)) {
+    return false;
+  }
+
+  return value.every(
+    (entry) =>
+      isRecord(entry) &&
+      typeof entry.fingerprint === "string" &&
+      typeof entry.title === "string" &&
+      typeof entry.startLine === "number" &&
+      typeof entry.endLine === "number" &&
+      (entry.similarity === undefined || typeof entry.similarity === "number")
+  );
+}
+
+function isFindingTriage(value: unknown): boolean {
+  if (value === undefined) {
+    return true;
+  }
+
+  return (
+    isRecord(value) &&
+    isFindingTriageState(value.state) &&
+    (value.reason === undefined || typeof value.reason === "string") &&
+    (value.duplicateOf === undefined || isFindingId(value.duplicateOf)) &&
+    typeof value.updatedAt === "string"
+  );
+}
+
 function isStoredFindingArray(value: unknown): boolean {
   if (!Array.isArray(value)) {
     return false;
@@ -55,10 +93,19 @@ function isStoredFindingArray(value: unknown): boolean {
       typeof entry.title === "string" &&
       typeof entry.body === "string" &&
       typeof entry.priority === "string" &&
+      (entry.category === undefined || isFindingCategory(entry.category)) &&
       typeof entry.confidenceScore === "number" &&
       typeof entry.filePath === "string" &&
       typeof entry.startLine === "number" &&
-      typeof entry.endLine === "number"
+      typeof entry.endLine === "number" &&
+      isFindingAliasArray(entry.aliases) &&
+      (entry.reportedBy === undefined ||
+        (Array.isArray(entry.reportedBy) &&
+          entry.reportedBy.every((reviewer) => typeof reviewer === "string"))) &&
+      (entry.agreement === undefined || typeof entry.agreement === "number") &&
+      (entry.commitSha === undefined || typeof entry.commitSha === "string") &&
+      (entry.regressionRound === undefined || typeof entry.regressionRound === "number") &&
+      isFindingTriage(entry.triage)
     );
   });
 }
@@ -182,6 +229,13 @@ function isFindingsArtifact(value: unknown): value is FindingsArtifact {
   return true;
 }
 
+// Artifacts written before findings carried a category still load as correctness findings.
+function normalizeStoredFindingCategory(finding: StoredFinding): StoredFinding {
+  return finding.category === undefined
+    ? { ...finding, category: DEFAULT_FINDING_CATEGORY }
+    : finding;
+}
+
 async function readFindingsArtifactFile(artifactPath: string): Promise<FindingsArtifact | null> {
   const file = Bun.file(artifactPath);
 
@@ -200,7 +254,17 @@ async function readFindingsArtifactFile(artifactPath: string): Promise<FindingsA
     throw new Error(INVALID_SCHEMA_RETRY_MESSAGE);
   }
 
-  return parsed;
+  return { ...parsed, findings: parsed.findings.map(normalizeStoredFindingCategory) };
+}
+
+/** Findings the session's fix runs reported as resolved, in inventory order. */
+export function getResolvedFindings(artifact: FindingsArtifact): StoredFinding[] {
+  const resolvedIds = new Set(
+    (artifact.fixResults ?? [])
+      .filter((result) => result.status === "resolved")
+      .map((result) => result.findingId)
+  );
+  return artifact.findings.filter((finding) => resolvedIds.has(finding.id));
 }
 
 export function getFindingsArtifactPath(
@@ -318,6 +382,39 @@ export async function appendFixResults(
   });
 }
 
+export async function appendRegressionFindings(
+  storageRoot: string,
+  projectPath: string,
+  sessionId: string,
+  regressionFindings: StoredFinding[]
+): Promise<FindingsArtifact> {
+  const artifact = await loadRequiredArtifact(storageRoot, projectPath, sessionId);
+  return await saveFindingsArtifact(storageRoot, {
+    ...artifact,
+    findings: [...artifact.findings, ...regressionFindings],
+  });
+}
+
+export async function updateFindingTriage(
+  storageRoot: string,
+  projectPath: string,
+  sessionId: string,
+  findingId: FindingId,
+  triage: FindingTriage
+): Promise<FindingsArtifact> {
+  const artifact = await loadRequiredArtifact(storageRoot, projectPath, sessionId);
+  if (!artifact.findings.some((finding) => finding.id === findingId)) {
+    throw new Error(`Finding ${findingId} not found in session ${sessionId}`);
+  }
+
+  return await saveFindingsArtifact(storageRoot, {
+    ...artifact,
+    findings: artifact.findings.map((finding) =>
+      finding.id === findingId ? { ...finding, triage } : finding
+    ),
+  });
+}
+
 export async function updateRetainedWorktree(
   storageRoot: string,
   projectPath: string,
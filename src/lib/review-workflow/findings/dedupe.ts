@@ -1,16 +1,29 @@
 import type { FindingFingerprint, StoredFinding } from "@/lib/review-workflow/findings/types";
-import type { Finding, Priority } from "@/lib/types";
+import type { Finding, FindingCategory, Priority } from "@/lib/types";
 
 interface NormalizeFindingOptions {
   pathRoots: string[];
 }
 
+export const DEFAULT_DEDUPE_THRESHOLD = 0.6;
+
+// Reviewers often re-anchor the same issue a few lines away between iterations.
+const NEARBY_LINE_TOLERANCE = 5;
+const TITLE_SIMILARITY_WEIGHT = 0.6;
+const BODY_SIMILARITY_WEIGHT = 0.4;
+
+export interface SimilarFindingMatch {
+  finding: StoredFinding;
+  similarity: number;
+}
+
 export interface StoredFindingSeed {
   fingerprint: FindingFingerprint;
   locationKey: string;
   title: string;
   body: string;
   priority: Priority;
+  category: FindingCategory;
   confidenceScore: number;
   filePath: string;
   startLine: number;
@@ -65,6 +78,17 @@ function normalizeText(value: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
 
+/**
+ * Bodies keep their line structure so fenced blocks such as reviewer suggestions
+ * survive persistence; only line endings and trailing whitespace are normalized.
+ */
+function normalizeBody(value: string): string {
+  return value
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+$/gm, "")
+    .trim();
+}
+
 function normalizeTextForFingerprint(value: string): string {
   return normalizeText(value).toLowerCase();
 }
@@ -181,8 +205,9 @@ export function createStoredFindingSeed(
     }),
     locationKey: `${filePath}:${lineRange.startLine}:${lineRange.endLine}`,
     title: normalizeText(finding.title),
-    body: normalizeText(finding.body),
+    body: normalizeBody(finding.body),
     priority: normalizePriority(finding.priority),
+    category: finding.category,
     confidenceScore: normalizeConfidenceScore(finding.confidence_score),
     filePath,
     startLine: lineRange.startLine,
@@ -219,3 +244,70 @@ export function findDuplicateByFallback(
 
   return null;
 }
+
+function tokenize(value: string): Set<string> {
+  const tokens = normalizeTextForFingerprint(value)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1);
+  return new Set(tokens);
+}
+
+function jaccardSimilarity(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 && right.size === 0) {
+    return 1;
+  }
+
+  let intersection = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      intersection += 1;
+    }
+  }
+
+  const union = left.size + right.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+function areLineRangesNearby(
+  left: Pick<StoredFinding, "startLine" | "endLine">,
+  right: Pick<StoredFinding, "startLine" | "endLine">
+): boolean {
+  return (
+    left.startLine <= right.endLine + NEARBY_LINE_TOLERANCE &&
+    right.startLine <= left.endLine + NEARBY_LINE_TOLERANCE
+  );
+}
+
+export function scoreFindingSimilarity(
+  storedFinding: Pick<StoredFinding, "title" | "body">,
+  seed: Pick<StoredFindingSeed, "title" | "body">
+): number {
+  const titleSimilarity = jaccardSimilarity(tokenize(storedFinding.title), tokenize(seed.title));
+  const bodySimilarity = jaccardSimilarity(tokenize(storedFinding.body), tokenize(seed.body));
+  return TITLE_SIMILARITY_WEIGHT * titleSimilarity + BODY_SIMILARITY_WEIGHT * bodySimilarity;
+}
+
+/**
+ * Backstop for the exact matchers: same file, overlapping or nearby lines, and
+ * title/body token similarity at or above `threshold`. Returns the closest match.
+ */
+export function findDuplicateBySimilarity(
+  existingFindings: StoredFinding[],
+  seed: StoredFindingSeed,
+  threshold: number = DEFAULT_DEDUPE_THRESHOLD
+): SimilarFindingMatch | null {
+  let bestMatch: SimilarFindingMatch | null = null;
+
+  for (const finding of existingFindings) {
+    if (finding.filePath !== seed.filePath || !areLineRangesNearby(finding, seed)) {
+      continue;
+    }
+
+    const similarity = scoreFindingSimilarity(finding, seed);
+    if (similarity >= threshold && (!bestMatch || similarity > bestMatch.similarity)) {
+      bestMatch = { finding, similarity };
+    }
+  }
+
+  return bestMatch;
+}
@@ -1,18 +1,47 @@
 import {
   createStoredFindingSeed,
   findDuplicateByFallback,
+  findDuplicateBySimilarity,
   type StoredFindingSeed,
 } from "@/lib/review-workflow/findings/dedupe";
-import type { FindingId, StoredFinding } from "@/lib/review-workflow/findings/types";
-import type { Finding } from "@/lib/types";
+import {
+  isPathInReviewScope,
+  type ReviewPathScope,
+} from "@/lib/review-workflow/findings/path-scope";
+import { findMatchingSuppression } from "@/lib/review-workflow/findings/suppressions";
+import type {
+  FilteredFinding,
+  FindingAlias,
+  FindingId,
+  FindingReviewerReport,
+  FindingSuppression,
+  MergedFindingAlias,
+  StoredFinding,
+  SuppressedFinding,
+} from "@/lib/review-workflow/findings/types";
+import type { Finding, Priority, PriorityConfidenceFloors } from "@/lib/types";
 
 interface MergeFindingsIntoInventoryOptions {
   pathRoots: string[];
+  /** Findings in files outside this scope are dropped before suppression and dedupe. */
+  pathScope?: ReviewPathScope;
+  suppressions?: FindingSuppression[];
+  dedupeThreshold?: number;
+  minConfidence?: number;
+  minConfidenceByPriority?: PriorityConfidenceFloors;
+  /** Ensemble reviewer label for each raw finding, index-aligned with `rawFindings`. */
+  findingReviewers?: string[];
+  /** Commit each raw finding was reported against, index-aligned with `rawFindings`. */
+  findingCommits?: string[];
 }
 
 export interface MergeFindingsIntoInventoryResult {
   findings: StoredFinding[];
   newFindings: StoredFinding[];
+  suppressedFindings: SuppressedFinding[];
+  filteredFindings: FilteredFinding[];
+  mergedAliases: MergedFindingAlias[];
+  reviewerReports: FindingReviewerReport[];
 }
 
 function parseFindingIdNumber(findingId: FindingId): number {
@@ -29,6 +58,17 @@ function parseFindingIdNumber(findingId: FindingId): number {
   return value;
 }
 
+/**
+ * A per-priority floor replaces the global one, so `P3: 0.8` can tighten or loosen
+ * `minConfidence` for that priority alone.
+ */
+function getConfidenceFloor(
+  priority: Priority,
+  options: MergeFindingsIntoInventoryOptions
+): number | undefined {
+  return options.minConfidenceByPriority?.[priority] ?? options.minConfidence;
+}
+
 function createFindingId(sequence: number): FindingId {
   const normalizedSequence = Math.max(1, Math.trunc(sequence));
   return `F${String(normalizedSequence).padStart(3, "0")}`;
@@ -44,7 +84,12 @@ function nextFindingSequence(existingFindings: StoredFinding[]): number {
   return highest + 1;
 }
 
-function createStoredFinding(id: FindingId, seed: StoredFindingSeed): StoredFinding {
+function createStoredFinding(
+  id: FindingId,
+  seed: StoredFindingSeed,
+  reviewer: string | undefined,
+  commitSha: string | undefined
+): StoredFinding {
   return {
     id,
     fingerprint: seed.fingerprint,
@@ -52,13 +97,44 @@ function createStoredFinding(id: FindingId, seed: StoredFindingSeed): StoredFind
     title: seed.title,
     body: seed.body,
     priority: seed.priority,
+    category: seed.category,
     confidenceScore: seed.confidenceScore,
     filePath: seed.filePath,
     startLine: seed.startLine,
     endLine: seed.endLine,
+    ...(reviewer !== undefined ? { reportedBy: [reviewer], agreement: 1 } : {}),
+    ...(commitSha !== undefined ? { commitSha } : {}),
+  };
+}
+
+function createFindingAlias(seed: StoredFindingSeed, similarity?: number): FindingAlias {
+  return {
+    fingerprint: seed.fingerprint,
+    title: seed.title,
+    startLine: seed.startLine,
+    endLine: seed.endLine,
+    ...(similarity !== undefined ? { similarity: Math.round(similarity * 1000) / 1000 } : {}),
   };
 }
 
+export function appendFindingAlias(finding: StoredFinding, alias: FindingAlias): StoredFinding {
+  const aliases = finding.aliases ?? [];
+  if (aliases.some((existing) => existing.fingerprint === alias.fingerprint)) {
+    return finding;
+  }
+
+  return { ...finding, aliases: [...aliases, alias] };
+}
+
+export function appendFindingReviewer(finding: StoredFinding, reviewer: string): StoredFinding {
+  const reportedBy = finding.reportedBy ?? [];
+  if (reportedBy.includes(reviewer)) {
+    return finding;
+  }
+
+  return { ...finding, reportedBy: [...reportedBy, reviewer], agreement: reportedBy.length + 1 };
+}
+
 export function mergeFindingsIntoInventory(
   existingFindings: StoredFinding[],
   rawFindings: Finding[],
@@ -66,41 +142,133 @@ export function mergeFindingsIntoInventory(
 ): MergeFindingsIntoInventoryResult {
   const findings = [...existingFindings];
   const newFindings: StoredFinding[] = [];
-  const findingByFingerprint = new Map<string, StoredFinding>();
+  const suppressedFindings: SuppressedFinding[] = [];
+  const filteredFindings: FilteredFinding[] = [];
+  const mergedAliases: MergedFindingAlias[] = [];
+  const reviewerReports: FindingReviewerReport[] = [];
+  const suppressions = options.suppressions ?? [];
+  const findingIdByFingerprint = new Map<string, FindingId>();
 
   for (const finding of findings) {
-    findingByFingerprint.set(finding.fingerprint, finding);
+    findingIdByFingerprint.set(finding.fingerprint, finding.id);
+    for (const alias of finding.aliases ?? []) {
+      findingIdByFingerprint.set(alias.fingerprint, finding.id);
+    }
   }
 
+  const replaceFinding = (merged: StoredFinding) => {
+    findings[findings.findIndex((finding) => finding.id === merged.id)] = merged;
+    const newIndex = newFindings.findIndex((finding) => finding.id === merged.id);
+    if (newIndex >= 0) {
+      newFindings[newIndex] = merged;
+    }
+  };
+
+  const findById = (findingId: FindingId) => findings.find((finding) => finding.id === findingId);
+
+  const mergeDuplicate = (
+    survivor: StoredFinding,
+    alias: FindingAlias | undefined,
+    reviewer: string | undefined
+  ) => {
+    let merged = survivor;
+    if (alias) {
+      merged = appendFindingAlias(merged, alias);
+      findingIdByFingerprint.set(alias.fingerprint, survivor.id);
+      mergedAliases.push({ findingId: survivor.id, alias });
+    }
+
+    if (reviewer !== undefined) {
+      const corroborated = appendFindingReviewer(merged, reviewer);
+      const isNewFinding = newFindings.some((finding) => finding.id === survivor.id);
+      if (corroborated !== merged && !isNewFinding) {
+        reviewerReports.push({ findingId: survivor.id, reviewer });
+      }
+      merged = corroborated;
+    }
+
+    replaceFinding(merged);
+  };
+
   let sequence = nextFindingSequence(findings);
 
-  for (const rawFinding of rawFindings) {
+  for (const [index, rawFinding] of rawFindings.entries()) {
+    const reviewer = options.findingReviewers?.[index];
     const seed = createStoredFindingSeed(rawFinding, {
       pathRoots: options.pathRoots,
     });
 
-    const directDuplicate = findingByFingerprint.get(seed.fingerprint);
-    if (directDuplicate) {
+    if (options.pathScope && !isPathInReviewScope(seed.filePath, options.pathScope)) {
+      continue;
+    }
+
+    const suppression = findMatchingSuppression(seed, suppressions);
+    if (suppression) {
+      suppressedFindings.push({
+        fingerprint: seed.fingerprint,
+        title: seed.title,
+        priority: seed.priority,
+        filePath: seed.filePath,
+        startLine: seed.startLine,
+        endLine: seed.endLine,
+        reason: suppression.reason,
+      });
+      continue;
+    }
+
+    const minConfidence = getConfidenceFloor(seed.priority, options);
+    if (minConfidence !== undefined && seed.confidenceScore < minConfidence) {
+      filteredFindings.push({
+        fingerprint: seed.fingerprint,
+        title: seed.title,
+        priority: seed.priority,
+        filePath: seed.filePath,
+        startLine: seed.startLine,
+        endLine: seed.endLine,
+        confidenceScore: seed.confidenceScore,
+        minConfidence,
+      });
+      continue;
+    }
+
+    const knownFindingId = findingIdByFingerprint.get(seed.fingerprint);
+    const knownFinding = knownFindingId ? findById(knownFindingId) : undefined;
+    if (knownFinding) {
+      mergeDuplicate(knownFinding, undefined, reviewer);
       continue;
     }
 
     const fallbackDuplicate = findDuplicateByFallback(findings, seed);
     if (fallbackDuplicate) {
-      findingByFingerprint.set(seed.fingerprint, fallbackDuplicate);
+      mergeDuplicate(fallbackDuplicate, createFindingAlias(seed), reviewer);
+      continue;
+    }
+
+    const similarDuplicate = findDuplicateBySimilarity(findings, seed, options.dedupeThreshold);
+    if (similarDuplicate) {
+      mergeDuplicate(
+        similarDuplicate.finding,
+        createFindingAlias(seed, similarDuplicate.similarity),
+        reviewer
+      );
       continue;
     }
 
     const id = createFindingId(sequence);
     sequence += 1;
 
-    const storedFinding = createStoredFinding(id, seed);
+    const storedFinding = createStoredFinding(id, seed, reviewer, options.findingCommits?.[index]);
     findings.push(storedFinding);
     newFindings.push(storedFinding);
-    findingByFingerprint.set(storedFinding.fingerprint, storedFinding);
+    findingIdByFingerprint.set(storedFinding.fingerprint, storedFinding.id);
   }
 
   return {
     findings,
     newFindings,
+    suppressedFindings,
+    filteredFindings,
+    mergedAliases,
+    reviewerReports,
   };
 }
@@ -0,0 +1,64 @@
+import type { ReviewConfig, ReviewOptions } from "@/lib/types";
+
+export interface ReviewPathScope {
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * `--path` replaces the configured `review.include` globs, while `--exclude` adds to
+ * `review.exclude` so repo-wide exclusions like lockfiles always apply.
+ */
+export function resolveReviewPathScope(
+  review: ReviewConfig | undefined,
+  cli: { include?: string[]; exclude?: string[] } = {}
+): ReviewPathScope | undefined {
+  const include = cli.include && cli.include.length > 0 ? cli.include : (review?.include ?? []);
+  const exclude = [...new Set([...(review?.exclude ?? []), ...(cli.exclude ?? [])])];
+  if (include.length === 0 && exclude.length === 0) {
+    return undefined;
+  }
+
+  return { include: [...new Set(include)], exclude };
+}
+
+export function getReviewPathScope(
+  reviewOptions: ReviewOptions | undefined
+): ReviewPathScope | undefined {
+  const include = reviewOptions?.include ?? [];
+  const exclude = reviewOptions?.exclude ?? [];
+  return include.length > 0 || exclude.length > 0 ? { include, exclude } : undefined;
+}
+
+export function isPathInReviewScope(filePath: string, scope: ReviewPathScope): boolean {
+  if (
+    scope.include.length > 0 &&
+    !scope.include.some((glob) => new Bun.Glob(glob).match(filePath))
+  ) {
+    return false;
+  }
+
+  return !scope.exclude.some((glob) => new Bun.Glob(glob).match(filePath));
+}
+
+function formatGitPathspec(scope: ReviewPathScope): string {
+  const pathspecs = [
+    ...scope.include.map((glob) => `':(glob)${glob}'`),
+    ...scope.exclude.map((glob) => `':(glob,exclude)${glob}'`),
+  ];
+  return `-- ${pathspecs.join(" ")}`;
+}
+
+export function formatReviewPathScopeInstruction(scope: ReviewPathScope): string {
+  const parts: string[] = [];
+  if (scope.include.length > 0) {
+    parts.push(
+      `only review files matching ${scope.include.map((glob) => `\`${glob}\``).join(", ")}`
+    );
+  }
+  if (scope.exclude.length > 0) {
+    parts.push(`skip files matching ${scope.exclude.map((glob) => `\`${glob}\``).join(", ")}`);
+  }
+
+  return `Limit the review scope: ${parts.join("; ")}. Findings in files outside this scope are discarded. Append the pathspec \`${formatGitPathspec(scope)}\` to git commands to narrow their output.`;
+}
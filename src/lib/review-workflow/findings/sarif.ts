@@ -0,0 +1,248 @@
+import { isAbsolute } from "node:path";
+import { pathToFileURL } from "node:url";
+import type {
+  FindingFixResult,
+  FindingsArtifact,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
+import type { FindingCategory, Priority } from "@/lib/types";
+
+const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+const SARIF_TOOL_NAME = "ralph-review";
+const SARIF_TOOL_INFORMATION_URI = "https://github.com/kenryu42/ralph-review";
+const SARIF_SOURCE_ROOT_ID = "SRCROOT";
+const SARIF_FINGERPRINT_KEY = "ralphReviewFingerprint/v1";
+const RULE_ID_FINGERPRINT_LENGTH = 12;
+
+type SarifLevel = "error" | "warning" | "note";
+
+interface SarifMessage {
+  text: string;
+}
+
+interface SarifRegion {
+  startLine: number;
+  endLine: number;
+}
+
+interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+interface SarifPhysicalLocation {
+  artifactLocation: SarifArtifactLocation;
+  region: SarifRegion;
+}
+
+interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription: SarifMessage;
+  defaultConfiguration: {
+    level: SarifLevel;
+  };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations?: Array<{ physicalLocation: SarifPhysicalLocation }>;
+  partialFingerprints: Record<string, string>;
+  properties: {
+    findingId: string;
+    priority: Priority;
+    category: FindingCategory;
+    confidenceScore: number;
+    fixStatus?: FindingFixResult["status"];
+  };
+}
+
+interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri: string;
+      rules: SarifReportingDescriptor[];
+    };
+  };
+  automationDetails: {
+    id: string;
+  };
+  originalUriBaseIds: Record<string, { uri: string }>;
+  results: SarifResult[];
+  properties: {
+    sessionId: string;
+    baselineCommitSha?: string;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: SarifRun[];
+}
+
+/**
+ * Minimal session shape needed to describe one SARIF run. A `FindingsArtifact`
+ * satisfies it directly; clean sessions without an artifact can pass no findings.
+ */
+export type SarifRunSource = Pick<FindingsArtifact, "sessionId" | "projectPath" | "findings"> &
+  Partial<Pick<FindingsArtifact, "baselineCommitSha" | "fixResults">>;
+
+interface BuildSarifOptions {
+  toolVersion: string;
+}
+
+const SARIF_LEVEL_BY_PRIORITY: Record<Priority, SarifLevel> = {
+  P0: "error",
+  P1: "error",
+  P2: "warning",
+  P3: "note",
+};
+
+export function toSarifLevel(priority: Priority): SarifLevel {
+  return SARIF_LEVEL_BY_PRIORITY[priority] ?? "warning";
+}
+
+export function toSarifRuleId(finding: Pick<StoredFinding, "fingerprint">): string {
+  return `rr-${finding.fingerprint.slice(0, RULE_ID_FINGERPRINT_LENGTH)}`;
+}
+
+function toSourceRootUri(projectPath: string): string {
+  const withTrailingSlash = projectPath.endsWith("/") ? projectPath : `${projectPath}/`;
+  return pathToFileURL(withTrailingSlash).href;
+}
+
+/**
+ * Project-relative paths resolve against `SRCROOT`; absolute paths, kept for files outside the
+ * review's path roots, become standalone `file://` URIs.
+ */
+function toArtifactLocation(filePath: string): SarifArtifactLocation {
+  if (isAbsolute(filePath)) {
+    return { uri: pathToFileURL(filePath).href };
+  }
+
+  return {
+    uri: filePath.split("/").map(encodeURIComponent).join("/"),
+    uriBaseId: SARIF_SOURCE_ROOT_ID,
+  };
+}
+
+function latestFixStatusById(
+  fixResults: FindingFixResult[] | undefined
+): Map<string, FindingFixResult["status"]> {
+  const statuses = new Map<string, FindingFixResult["status"]>();
+  for (const fixResult of fixResults ?? []) {
+    statuses.set(fixResult.findingId, fixResult.status);
+  }
+
+  return statuses;
+}
+
+function buildRule(finding: StoredFinding): SarifReportingDescriptor {
+  return {
+    id: toSarifRuleId(finding),
+    name: finding.id,
+    shortDescription: { text: finding.title },
+    fullDescription: { text: finding.body || finding.title },
+    defaultConfiguration: {
+      level: toSarifLevel(finding.priority),
+    },
+  };
+}
+
+function buildResult(
+  finding: StoredFinding,
+  ruleIndex: number,
+  fixStatus: FindingFixResult["status"] | undefined
+): SarifResult {
+  return {
+    ruleId: toSarifRuleId(finding),
+    ruleIndex,
+    level: toSarifLevel(finding.priority),
+    message: {
+      text: finding.body ? `${finding.title}\n\n${finding.body}` : finding.title,
+    },
+    ...(finding.filePath
+      ? {
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: toArtifactLocation(finding.filePath),
+                region: {
+                  startLine: finding.startLine,
+                  endLine: finding.endLine,
+                },
+              },
+            },
+          ],
+        }
+      : {}),
+    partialFingerprints: {
+      [SARIF_FINGERPRINT_KEY]: finding.fingerprint,
+    },
+    properties: {
+      findingId: finding.id,
+      priority: finding.priority,
+      category: finding.category,
+      confidenceScore: finding.confidenceScore,
+      ...(finding.commitSha ? { commitSha: finding.commitSha } : {}),
+      ...(fixStatus ? { fixStatus } : {}),
+    },
+  };
+}
+
+export function buildSarifRun(source: SarifRunSource, options: BuildSarifOptions): SarifRun {
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexById = new Map<string, number>();
+  const fixStatuses = latestFixStatusById(source.fixResults);
+  const results: SarifResult[] = [];
+
+  for (const finding of source.findings) {
+    const ruleId = toSarifRuleId(finding);
+    let ruleIndex = ruleIndexById.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      rules.push(buildRule(finding));
+      ruleIndexById.set(ruleId, ruleIndex);
+    }
+
+    results.push(buildResult(finding, ruleIndex, fixStatuses.get(finding.id)));
+  }
+
+  return {
+    tool: {
+      driver: {
+        name: SARIF_TOOL_NAME,
+        version: options.toolVersion,
+        informationUri: SARIF_TOOL_INFORMATION_URI,
+        rules,
+      },
+    },
+    automationDetails: {
+      id: `${SARIF_TOOL_NAME}/${source.sessionId}`,
+    },
+    originalUriBaseIds: {
+      [SARIF_SOURCE_ROOT_ID]: { uri: toSourceRootUri(source.projectPath) },
+    },
+    results,
+    properties: {
+      sessionId: source.sessionId,
+      ...(source.baselineCommitSha ? { baselineCommitSha: source.baselineCommitSha } : {}),
+    },
+  };
+}
+
+export function buildSarifLog(sources: SarifRunSource[], options: BuildSarifOptions): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs: sources.map((source) => buildSarifRun(source, options)),
+  };
+}
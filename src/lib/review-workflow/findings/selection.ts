@@ -1,20 +1,32 @@
+import { isOpenFinding } from "@/lib/review-workflow/findings/triage";
 import type { FindingId, StoredFinding } from "@/lib/review-workflow/findings/types";
-import type { Priority } from "@/lib/types";
+import { parseWhereExpression } from "@/lib/review-workflow/findings/where";
+import type { FindingCategory, Priority } from "@/lib/types";
 
-export type FindingSelectionMode = "all" | "priority" | "id";
+export type FindingSelectionMode = "all" | "priority" | "id" | "where";
+
+/** Narrowing applied on top of the bulk selection modes. */
+interface FindingSelectionFilters {
+  minAgreement?: number;
+  categories?: FindingCategory[];
+}
 
 export type FindingSelectionRequest =
-  | {
+  | ({
       mode: "all";
-    }
-  | {
+    } & FindingSelectionFilters)
+  | ({
       mode: "priority";
       priorities: Priority[];
-    }
+    } & FindingSelectionFilters)
   | {
       mode: "id";
       ids: FindingId[];
-    };
+    }
+  | ({
+      mode: "where";
+      expression: string;
+    } & FindingSelectionFilters);
 
 export interface FindingSelectionResult {
   selectedFindings: StoredFinding[];
@@ -26,21 +38,63 @@ function unique<T>(values: T[]): T[] {
   return [...new Set(values)];
 }
 
+/**
+ * Findings from single-reviewer sessions carry no agreement and count as one report.
+ */
+export function getFindingAgreement(finding: StoredFinding): number {
+  return finding.agreement ?? 1;
+}
+
+/**
+ * Bulk selectors only pick open findings; explicit IDs can still select triaged ones.
+ */
+function filterSelectable(
+  findings: StoredFinding[],
+  filters: FindingSelectionFilters,
+  includeTriaged = false
+): StoredFinding[] {
+  const { minAgreement } = filters;
+  const categories = filters.categories ? new Set(filters.categories) : undefined;
+  return findings.filter(
+    (finding) =>
+      (includeTriaged || isOpenFinding(finding)) &&
+      (minAgreement === undefined || getFindingAgreement(finding) >= minAgreement) &&
+      (categories === undefined || categories.has(finding.category))
+  );
+}
+
 export function selectFindings(
   findings: StoredFinding[],
   request: FindingSelectionRequest
 ): FindingSelectionResult {
   if (request.mode === "all") {
+    const selectedFindings = filterSelectable(findings, request);
     return {
-      selectedFindings: [...findings],
-      selectedIds: findings.map((finding) => finding.id),
+      selectedFindings,
+      selectedIds: selectedFindings.map((finding) => finding.id),
       notFoundIds: [],
     };
   }
 
   if (request.mode === "priority") {
     const priorities = new Set(unique(request.priorities));
-    const selectedFindings = findings.filter((finding) => priorities.has(finding.priority));
+    const selectedFindings = filterSelectable(findings, request).filter((finding) =>
+      priorities.has(finding.priority)
+    );
+
+    return {
+      selectedFindings,
+      selectedIds: selectedFindings.map((finding) => finding.id),
+      notFoundIds: [],
+    };
+  }
+
+  if (request.mode === "where") {
+    const where = parseWhereExpression(request.expression);
+    // An expression that names a triage state decides for itself which states it wants.
+    const selectedFindings = filterSelectable(findings, request, where.fields.has("state")).filter(
+      where.matches
+    );
 
     return {
       selectedFindings,
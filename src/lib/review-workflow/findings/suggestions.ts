@@ -0,0 +1,104 @@
+import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+
+export interface FindingSuggestion {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  replacement: string[];
+}
+
+const SUGGESTION_FENCE_PATTERN = /^([ \t]*)(`{3,}|~{3,})[ \t]*suggestion[ \t]*$/u;
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= fence.length &&
+    trimmed.startsWith(fence) &&
+    [...trimmed].every((char) => char === fence[0])
+  );
+}
+
+function stripFenceIndent(line: string, indent: string): string {
+  return indent && line.startsWith(indent) ? line.slice(indent.length) : line;
+}
+
+/**
+ * Extracts the replacement lines of every closed ```suggestion block in a finding body.
+ * Content is dedented by the fence's own indentation so blocks nested in lists still apply.
+ */
+export function parseSuggestionBlocks(body: string): string[][] {
+  const lines = body.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[][] = [];
+  let open: { fence: string; indent: string; lines: string[] } | null = null;
+
+  for (const line of lines) {
+    if (open) {
+      if (isClosingFence(line, open.fence)) {
+        blocks.push(open.lines);
+        open = null;
+      } else {
+        open.lines.push(stripFenceIndent(line, open.indent));
+      }
+      continue;
+    }
+
+    const match = SUGGESTION_FENCE_PATTERN.exec(line);
+    if (match) {
+      open = { indent: match[1] ?? "", fence: match[2] ?? "```", lines: [] };
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Anchors the single suggestion block in a finding to the finding's line range.
+ */
+export function resolveFindingSuggestion(finding: StoredFinding): FindingSuggestion {
+  const blocks = parseSuggestionBlocks(finding.body);
+  if (blocks.length === 0) {
+    throw new Error(`Finding ${finding.id} has no suggestion block`);
+  }
+
+  if (blocks.length > 1) {
+    throw new Error(
+      `Finding ${finding.id} has ${blocks.length} suggestion blocks; only one can be applied`
+    );
+  }
+
+  return {
+    filePath: finding.filePath,
+    startLine: finding.startLine,
+    endLine: finding.endLine,
+    replacement: blocks[0] ?? [],
+  };
+}
+
+/**
+ * Replaces lines `startLine..endLine` (1-based, inclusive) of `content` with the
+ * suggestion, preserving the file's line endings and trailing newline.
+ */
+export function applySuggestionToContent(content: string, suggestion: FindingSuggestion): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const hasTrailingNewline = content.endsWith(eol);
+  const body = hasTrailingNewline ? content.slice(0, -eol.length) : content;
+  const lines = body.length > 0 ? body.split(eol) : [];
+
+  if (
+    suggestion.startLine < 1 ||
+    suggestion.endLine < suggestion.startLine ||
+    suggestion.endLine > lines.length
+  ) {
+    throw new Error(
+      `Lines ${suggestion.startLine}-${suggestion.endLine} are outside ${suggestion.filePath} (${lines.length} lines)`
+    );
+  }
+
+  const nextLines = [
+    ...lines.slice(0, suggestion.startLine - 1),
+    ...suggestion.replacement,
+    ...lines.slice(suggestion.endLine),
+  ];
+  const nextBody = nextLines.join(eol);
+  return hasTrailingNewline && nextLines.length > 0 ? `${nextBody}${eol}` : nextBody;
+}
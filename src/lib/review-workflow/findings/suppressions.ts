@@ -0,0 +1,225 @@
+import { join } from "node:path";
+import { resolveRepositoryRootAsync } from "@/lib/git";
+import type { StoredFindingSeed } from "@/lib/review-workflow/findings/dedupe";
+import type {
+  FindingSuppression,
+  FindingSuppressionAnchor,
+} from "@/lib/review-workflow/findings/types";
+
+const SUPPRESSIONS_DIRNAME = ".ralph-review";
+const SUPPRESSIONS_FILENAME = "suppressions.json";
+const SUPPRESSIONS_VERSION = 1;
+/** How far a drifted finding may move from its anchored lines and still be suppressed. */
+const ANCHOR_LINE_WINDOW = 20;
+
+interface SuppressionsFile {
+  version: typeof SUPPRESSIONS_VERSION;
+  suppressions: FindingSuppression[];
+}
+
+interface ResolveSuppressionsPathOptions {
+  repositoryRootResolver?: (projectPath: string) => Promise<string | undefined>;
+}
+
+type SuppressibleFinding = Pick<
+  StoredFindingSeed,
+  "fingerprint" | "filePath" | "title" | "startLine" | "endLine"
+>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isOptionalNonEmptyString(value: unknown): boolean {
+  return value === undefined || (typeof value === "string" && value.trim().length > 0);
+}
+
+function isLineNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function validateAnchor(value: unknown, label: string): void {
+  if (!isRecord(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  for (const key of ["path", "title"]) {
+    const field = value[key];
+    if (typeof field !== "string" || field.trim().length === 0) {
+      throw new Error(`${label}.${key} must be a non-empty string`);
+    }
+  }
+
+  if (!isLineNumber(value.startLine) || !isLineNumber(value.endLine)) {
+    throw new Error(`${label}.startLine and ${label}.endLine must be line numbers`);
+  }
+}
+
+function isValidTitlePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "iu");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateSuppression(value: unknown, index: number): FindingSuppression {
+  const label = `suppressions[${index}]`;
+  if (!isRecord(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  if (typeof value.reason !== "string" || value.reason.trim().length === 0) {
+    throw new Error(`${label}.reason must be a non-empty string`);
+  }
+
+  for (const key of ["fingerprint", "path", "title", "sessionId", "findingId", "createdAt"]) {
+    if (!isOptionalNonEmptyString(value[key])) {
+      throw new Error(`${label}.${key} must be a non-empty string`);
+    }
+  }
+
+  if (value.fingerprint === undefined && value.path === undefined && value.title === undefined) {
+    throw new Error(`${label} must define at least one of fingerprint, path, or title`);
+  }
+
+  if (value.anchor !== undefined) {
+    validateAnchor(value.anchor, `${label}.anchor`);
+  }
+
+  if (typeof value.title === "string" && !isValidTitlePattern(value.title)) {
+    throw new Error(`${label}.title is not a valid regular expression`);
+  }
+
+  return value as unknown as FindingSuppression;
+}
+
+export function parseFindingSuppressions(value: unknown): FindingSuppression[] {
+  if (!isRecord(value)) {
+    throw new Error("Suppressions file must contain a JSON object");
+  }
+
+  if (value.version !== SUPPRESSIONS_VERSION) {
+    throw new Error(`Suppressions file version must be ${SUPPRESSIONS_VERSION}`);
+  }
+
+  if (!Array.isArray(value.suppressions)) {
+    throw new Error("Suppressions file must contain a suppressions array");
+  }
+
+  return value.suppressions.map(validateSuppression);
+}
+
+export function getSuppressionsPath(repoRoot: string): string {
+  return join(repoRoot, SUPPRESSIONS_DIRNAME, SUPPRESSIONS_FILENAME);
+}
+
+/**
+ * Suppressions live next to the repo-local config, so they resolve from the repository
+ * root rather than the (possibly nested) project path. Non-git paths use the project path.
+ */
+export async function resolveSuppressionsPath(
+  projectPath: string,
+  options: ResolveSuppressionsPathOptions = {}
+): Promise<string> {
+  const resolveRepositoryRoot = options.repositoryRootResolver ?? resolveRepositoryRootAsync;
+  const repoRoot = await resolveRepositoryRoot(projectPath);
+  return getSuppressionsPath(repoRoot ?? projectPath);
+}
+
+export async function loadFindingSuppressions(path: string): Promise<FindingSuppression[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text()) as unknown;
+  } catch {
+    throw new Error(`Suppressions file is not valid JSON: ${path}`);
+  }
+
+  try {
+    return parseFindingSuppressions(parsed);
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid suppressions file ${path}: ${details}`);
+  }
+}
+
+export async function saveFindingSuppressions(
+  path: string,
+  suppressions: FindingSuppression[]
+): Promise<void> {
+  const payload: SuppressionsFile = {
+    version: SUPPRESSIONS_VERSION,
+    suppressions,
+  };
+  await Bun.write(path, `${JSON.stringify(payload, null, 2)}\n`, { createPath: true });
+}
+
+function matchesPatterns(finding: SuppressibleFinding, suppression: FindingSuppression): boolean {
+  if (suppression.fingerprint !== undefined && suppression.fingerprint !== finding.fingerprint) {
+    return false;
+  }
+
+  if (suppression.path !== undefined && !new Bun.Glob(suppression.path).match(finding.filePath)) {
+    return false;
+  }
+
+  if (suppression.title !== undefined && !new RegExp(suppression.title, "iu").test(finding.title)) {
+    return false;
+  }
+
+  return true;
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/gu, " ").toLowerCase();
+}
+
+function matchesAnchor(finding: SuppressibleFinding, anchor: FindingSuppressionAnchor): boolean {
+  return (
+    finding.filePath === anchor.path &&
+    normalizeTitle(finding.title) === normalizeTitle(anchor.title) &&
+    finding.endLine >= anchor.startLine - ANCHOR_LINE_WINDOW &&
+    finding.startLine <= anchor.endLine + ANCHOR_LINE_WINDOW
+  );
+}
+
+function matchesSuppression(
+  finding: SuppressibleFinding,
+  suppression: FindingSuppression
+): boolean {
+  return (
+    matchesPatterns(finding, suppression) ||
+    (suppression.anchor !== undefined && matchesAnchor(finding, suppression.anchor))
+  );
+}
+
+/**
+ * Matchers for one persisted finding: its exact fingerprint, plus an anchor that keeps suppressing
+ * it when moved lines or a reworded body change the fingerprint.
+ */
+export function buildSuppressionMatchers(
+  finding: SuppressibleFinding
+): Required<Pick<FindingSuppression, "fingerprint" | "anchor">> {
+  return {
+    fingerprint: finding.fingerprint,
+    anchor: {
+      path: finding.filePath,
+      title: finding.title,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+    },
+  };
+}
+
+export function findMatchingSuppression(
+  finding: SuppressibleFinding,
+  suppressions: FindingSuppression[]
+): FindingSuppression | null {
+  return suppressions.find((suppression) => matchesSuppression(finding, suppression)) ?? null;
+}
@@ -0,0 +1,36 @@
+import type {
+  FindingTriage,
+  FindingTriageState,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
+
+export const FINDING_TRIAGE_STATES: readonly FindingTriageState[] = [
+  "open",
+  "accepted",
+  "wont-fix",
+  "false-positive",
+  "duplicate-of",
+];
+
+export function isFindingTriageState(value: unknown): value is FindingTriageState {
+  return (FINDING_TRIAGE_STATES as readonly unknown[]).includes(value);
+}
+
+export function getFindingTriageState(finding: StoredFinding): FindingTriageState {
+  return finding.triage?.state ?? "open";
+}
+
+export function isOpenFinding(finding: StoredFinding): boolean {
+  return getFindingTriageState(finding) === "open";
+}
+
+/**
+ * One-line triage label such as `duplicate-of F001 - same null check`.
+ */
+export function formatFindingTriage(triage: FindingTriage): string {
+  const state =
+    triage.state === "duplicate-of" && triage.duplicateOf
+      ? `${triage.state} ${triage.duplicateOf}`
+      : triage.state;
+  return triage.reason ? `${state} - ${triage.reason}` : state;
+}
@@ -1,9 +1,39 @@
 import type { RetainedSessionWorktree } from "@/lib/git";
-import type { Priority } from "@/lib/types";
+import type { FindingCategory, Priority } from "@/lib/types";
 
 export type FindingId = `F${string}`;
 export type FindingFingerprint = string;
 
+/**
+ * A later report that was merged into an existing finding instead of receiving its own ID.
+ * `similarity` is set when the merge came from fuzzy matching rather than an exact location.
+ */
+export interface FindingAlias {
+  fingerprint: FindingFingerprint;
+  title: string;
+  startLine: number;
+  endLine: number;
+  similarity?: number;
+}
+
+export type FindingTriageState =
+  | "open"
+  | "accepted"
+  | "wont-fix"
+  | "false-positive"
+  | "duplicate-of";
+
+/**
+ * A persisted decision about a finding. Findings without a triage record are open.
+ */
+export interface FindingTriage {
+  state: FindingTriageState;
+  reason?: string;
+  /** Finding this one duplicates; set only when `state` is "duplicate-of". */
+  duplicateOf?: FindingId;
+  updatedAt: string;
+}
+
 export interface StoredFinding {
   id: FindingId;
   fingerprint: FindingFingerprint;
@@ -11,10 +41,85 @@ export interface StoredFinding {
   title: string;
   body: string;
   priority: Priority;
+  category: FindingCategory;
   confidenceScore: number;
   filePath: string;
   startLine: number;
   endLine: number;
+  aliases?: FindingAlias[];
+  /** Ensemble reviewers that reported this finding; absent for single-reviewer sessions. */
+  reportedBy?: string[];
+  /** Number of distinct ensemble reviewers that reported this finding. */
+  agreement?: number;
+  /** Commit whose per-commit review first reported this finding. */
+  commitSha?: string;
+  /** Verification round that reported this finding as a regression in the fixer's diff. */
+  regressionRound?: number;
+  triage?: FindingTriage;
+}
+
+export interface MergedFindingAlias {
+  findingId: FindingId;
+  alias: FindingAlias;
+}
+
+/**
+ * An ensemble reviewer independently reporting a finding that an earlier iteration already stored.
+ */
+export interface FindingReviewerReport {
+  findingId: FindingId;
+  reviewer: string;
+}
+
+/**
+ * Repo-level suppression stored in `.ralph-review/suppressions.json`.
+ * Every matcher that is present must match; at least one matcher is required.
+ */
+/**
+ * Where a suppressed finding was when `rr suppress` saved it. A finding whose fingerprint drifted
+ * is still suppressed when it has the same file and title and stays near these lines.
+ */
+export interface FindingSuppressionAnchor {
+  path: string;
+  title: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface FindingSuppression {
+  fingerprint?: FindingFingerprint;
+  /** Glob matched against the repo-relative finding path. */
+  path?: string;
+  /** Case-insensitive regular expression matched against the finding title. */
+  title?: string;
+  /** Fallback match for the same finding after its fingerprint drifts. */
+  anchor?: FindingSuppressionAnchor;
+  reason: string;
+  sessionId?: string;
+  findingId?: FindingId;
+  createdAt?: string;
+}
+
+export interface SuppressedFinding {
+  fingerprint: FindingFingerprint;
+  title: string;
+  priority: Priority;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  reason: string;
+}
+
+/** A finding dropped because its confidence was below the configured floor for its priority. */
+export interface FilteredFinding {
+  fingerprint: FindingFingerprint;
+  title: string;
+  priority: Priority;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  confidenceScore: number;
+  minConfidence: number;
 }
 
 export interface FindingFixResult {
@@ -23,6 +128,16 @@ export interface FindingFixResult {
   summary: string;
 }
 
+/**
+ * A parallel fixer's changes that could not be combined with the fixes applied before them.
+ */
+export interface FixConflict {
+  findingIds: FindingId[];
+  files: string[];
+  /** Findings whose already-combined changes touch the same files. */
+  conflictingFindingIds: FindingId[];
+}
+
 export interface FindingsArtifact {
   artifactVersion: 1;
   sessionId: string;
@@ -0,0 +1,365 @@
+import { getFindingTriageState, isFindingTriageState } from "@/lib/review-workflow/findings/triage";
+import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+import { isFindingCategory, type Priority, VALID_PRIORITIES } from "@/lib/types/domain";
+
+export type WhereField = "priority" | "path" | "confidence" | "title" | "state" | "category";
+
+type WhereOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "~" | "!~";
+
+type WhereNode =
+  | { kind: "and" | "or"; left: WhereNode; right: WhereNode }
+  | { kind: "not"; operand: WhereNode }
+  | { kind: "compare"; matches: (finding: StoredFinding) => boolean };
+
+export interface FindingWhereExpression {
+  source: string;
+  fields: Set<WhereField>;
+  matches: (finding: StoredFinding) => boolean;
+}
+
+type Token =
+  | { kind: "word" | "string"; value: string; position: number }
+  | { kind: "operator" | "punct"; value: string; position: number };
+
+const WHERE_FIELDS: readonly WhereField[] = [
+  "priority",
+  "path",
+  "confidence",
+  "title",
+  "state",
+  "category",
+];
+const ORDERING_OPERATORS: readonly WhereOperator[] = ["==", "!=", "<", "<=", ">", ">="];
+const FIELD_OPERATORS: Record<WhereField, readonly WhereOperator[]> = {
+  priority: ORDERING_OPERATORS,
+  confidence: ORDERING_OPERATORS,
+  path: ["==", "!=", "~", "!~"],
+  title: ["==", "!=", "~", "!~"],
+  state: ["==", "!="],
+  category: ["==", "!="],
+};
+
+// Longest operators first so "<=" is not read as "<"; a lone "!" is negation, not an operator.
+const OPERATOR_PATTERN = /^(==|!=|<=|>=|!~|<|>|~|=)/u;
+const PUNCT_PATTERN = /^(&&|\|\||!|\(|\))/u;
+const WORD_PATTERN = /^[A-Za-z0-9_.*/\-[\]{}?,]+/u;
+
+function whereSyntaxError(message: string, position: number): Error {
+  return new Error(`Invalid --where expression at position ${position + 1}: ${message}`);
+}
+
+function readQuoted(source: string, start: number): [string, number] {
+  const quote = source[start];
+  let value = "";
+  let index = start + 1;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "\\" && index + 1 < source.length) {
+      value += source[index + 1];
+      index += 2;
+      continue;
+    }
+    if (char === quote) {
+      return [value, index + 1];
+    }
+    value += char;
+    index += 1;
+  }
+  throw whereSyntaxError("unterminated string", start);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const whitespace = /^\s+/u.exec(rest);
+    if (whitespace) {
+      index += whitespace[0].length;
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      const [value, nextIndex] = readQuoted(source, index);
+      tokens.push({ kind: "string", value, position: index });
+      index = nextIndex;
+      continue;
+    }
+
+    const operator = OPERATOR_PATTERN.exec(rest);
+    if (operator) {
+      tokens.push({
+        kind: "operator",
+        value: operator[0] === "=" ? "==" : operator[0],
+        position: index,
+      });
+      index += operator[0].length;
+      continue;
+    }
+
+    const punct = PUNCT_PATTERN.exec(rest);
+    if (punct) {
+      tokens.push({ kind: "punct", value: punct[0], position: index });
+      index += punct[0].length;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (!word) {
+      throw whereSyntaxError(`unexpected character "${rest[0]}"`, index);
+    }
+    tokens.push({ kind: "word", value: word[0], position: index });
+    index += word[0].length;
+  }
+
+  return tokens;
+}
+
+function parsePriorityValue(value: string, position: number): number {
+  const rank = VALID_PRIORITIES.indexOf(value.toUpperCase() as Priority);
+  if (rank === -1) {
+    throw whereSyntaxError(`invalid priority "${value}"`, position);
+  }
+  return rank;
+}
+
+function parseConfidenceValue(value: string, position: number): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw whereSyntaxError(`confidence must be a number between 0 and 1, got "${value}"`, position);
+  }
+  return parsed;
+}
+
+function compareNumbers(operator: WhereOperator, left: number, right: number): boolean {
+  switch (operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    default:
+      return false;
+  }
+}
+
+function buildTextMatcher(
+  operator: WhereOperator,
+  value: string,
+  position: number,
+  pick: (finding: StoredFinding) => string,
+  pattern: "glob" | "regex"
+): (finding: StoredFinding) => boolean {
+  if (operator === "==") {
+    return (finding) => pick(finding) === value;
+  }
+  if (operator === "!=") {
+    return (finding) => pick(finding) !== value;
+  }
+
+  let test: (text: string) => boolean;
+  if (pattern === "glob") {
+    const glob = new Bun.Glob(value);
+    test = (text) => glob.match(text);
+  } else {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(value, "iu");
+    } catch {
+      throw whereSyntaxError(`"${value}" is not a valid regular expression`, position);
+    }
+    test = (text) => regex.test(text);
+  }
+
+  return operator === "~" ? (finding) => test(pick(finding)) : (finding) => !test(pick(finding));
+}
+
+function buildComparison(
+  field: WhereField,
+  operator: WhereOperator,
+  value: string,
+  position: number
+): (finding: StoredFinding) => boolean {
+  switch (field) {
+    case "priority": {
+      const rank = parsePriorityValue(value, position);
+      return (finding) =>
+        compareNumbers(operator, VALID_PRIORITIES.indexOf(finding.priority), rank);
+    }
+    case "confidence": {
+      const threshold = parseConfidenceValue(value, position);
+      return (finding) => compareNumbers(operator, finding.confidenceScore, threshold);
+    }
+    case "path":
+      return buildTextMatcher(operator, value, position, (finding) => finding.filePath, "glob");
+    case "title":
+      return buildTextMatcher(operator, value, position, (finding) => finding.title, "regex");
+    case "state": {
+      if (!isFindingTriageState(value)) {
+        throw whereSyntaxError(`invalid triage state "${value}"`, position);
+      }
+      return operator === "=="
+        ? (finding) => getFindingTriageState(finding) === value
+        : (finding) => getFindingTriageState(finding) !== value;
+    }
+    case "category": {
+      if (!isFindingCategory(value)) {
+        throw whereSyntaxError(`invalid category "${value}"`, position);
+      }
+      return operator === "=="
+        ? (finding) => finding.category === value
+        : (finding) => finding.category !== value;
+    }
+  }
+}
+
+interface WhereParseState {
+  tokens: Token[];
+  index: number;
+  sourceLength: number;
+  fields: Set<WhereField>;
+}
+
+function peekToken(state: WhereParseState): Token | undefined {
+  return state.tokens[state.index];
+}
+
+function nextToken(state: WhereParseState, expected: string): Token {
+  const token = state.tokens[state.index];
+  if (!token) {
+    throw whereSyntaxError(`expected ${expected}`, state.sourceLength);
+  }
+  state.index += 1;
+  return token;
+}
+
+function acceptPunct(state: WhereParseState, value: string): boolean {
+  const token = peekToken(state);
+  if (token?.kind === "punct" && token.value === value) {
+    state.index += 1;
+    return true;
+  }
+  return false;
+}
+
+function parseOr(state: WhereParseState): WhereNode {
+  let node = parseAnd(state);
+  while (acceptPunct(state, "||")) {
+    node = { kind: "or", left: node, right: parseAnd(state) };
+  }
+  return node;
+}
+
+function parseAnd(state: WhereParseState): WhereNode {
+  let node = parseUnary(state);
+  while (acceptPunct(state, "&&")) {
+    node = { kind: "and", left: node, right: parseUnary(state) };
+  }
+  return node;
+}
+
+function parseUnary(state: WhereParseState): WhereNode {
+  if (acceptPunct(state, "!")) {
+    return { kind: "not", operand: parseUnary(state) };
+  }
+
+  if (acceptPunct(state, "(")) {
+    const node = parseOr(state);
+    if (!acceptPunct(state, ")")) {
+      throw whereSyntaxError('expected ")"', peekToken(state)?.position ?? state.sourceLength);
+    }
+    return node;
+  }
+
+  return parseComparison(state);
+}
+
+function parseComparison(state: WhereParseState): WhereNode {
+  const fieldToken = nextToken(state, "a field name");
+  const field = fieldToken.value.toLowerCase() as WhereField;
+  if (fieldToken.kind !== "word" || !WHERE_FIELDS.includes(field)) {
+    throw whereSyntaxError(
+      `unknown field "${fieldToken.value}". Use one of ${WHERE_FIELDS.join(", ")}`,
+      fieldToken.position
+    );
+  }
+
+  const operatorToken = nextToken(state, `an operator after "${fieldToken.value}"`);
+  const operator = operatorToken.value as WhereOperator;
+  if (operatorToken.kind !== "operator") {
+    throw whereSyntaxError(
+      `expected an operator after "${fieldToken.value}"`,
+      operatorToken.position
+    );
+  }
+  if (!FIELD_OPERATORS[field].includes(operator)) {
+    throw whereSyntaxError(
+      `${field} supports ${FIELD_OPERATORS[field].join(", ")}, not ${operator}`,
+      operatorToken.position
+    );
+  }
+
+  const valueToken = nextToken(state, `a value after "${field}${operator}"`);
+  if (valueToken.kind !== "word" && valueToken.kind !== "string") {
+    throw whereSyntaxError(`expected a value, got "${valueToken.value}"`, valueToken.position);
+  }
+
+  state.fields.add(field);
+  return {
+    kind: "compare",
+    matches: buildComparison(field, operator, valueToken.value, valueToken.position),
+  };
+}
+
+function evaluate(node: WhereNode, finding: StoredFinding): boolean {
+  switch (node.kind) {
+    case "and":
+      return evaluate(node.left, finding) && evaluate(node.right, finding);
+    case "or":
+      return evaluate(node.left, finding) || evaluate(node.right, finding);
+    case "not":
+      return !evaluate(node.operand, finding);
+    case "compare":
+      return node.matches(finding);
+  }
+}
+
+/**
+ * Parses a `rr fix --where` expression such as
+ * `priority<=P1 && path~"src/auth/**" && confidence>=0.7`.
+ *
+ * Priorities order by severity, so `priority<=P1` means P0 or P1. `path~` matches a glob,
+ * `title~` a case-insensitive regular expression, `state` a triage state, and `category`
+ * a finding category.
+ */
+export function parseWhereExpression(source: string): FindingWhereExpression {
+  const state: WhereParseState = {
+    tokens: tokenize(source),
+    index: 0,
+    sourceLength: source.length,
+    fields: new Set(),
+  };
+  if (state.tokens.length === 0) {
+    throw whereSyntaxError("expression is empty", 0);
+  }
+
+  const root = parseOr(state);
+  const extra = peekToken(state);
+  if (extra) {
+    throw whereSyntaxError(`unexpected "${extra.value}"`, extra.position);
+  }
+
+  return {
+    source: source.trim(),
+    fields: state.fields,
+    matches: (finding) => evaluate(root, finding),
+  };
+}
@@ -47,6 +47,7 @@ export function storedFindingToFinding(finding: StoredFinding): Finding {
     body: finding.body,
     confidence_score: finding.confidenceScore,
     priority: priorityToNumber(finding.priority),
+    category: finding.category,
     code_location: {
       absolute_file_path: finding.filePath,
       line_range: {
@@ -61,6 +62,8 @@ export function deriveWorkflowPresentationData(entries: LogEntry[]): WorkflowPre
   const reviewEntries: ReviewIterationEntry[] = [];
   let selectionEntry: FindingSelectionEntry | undefined;
   let batchFixEntry: BatchFixEntry | undefined;
+  let batchFixResults: FindingFixResult[] = [];
+  let regressionFindings: StoredFinding[] = [];
 
   for (const entry of entries) {
     if (entry.type === "review_iteration") {
@@ -68,25 +71,41 @@ export function deriveWorkflowPresentationData(entries: LogEntry[]): WorkflowPre
       continue;
     }
 
+    // Each fix run starts with a selection; its verification rounds add fix passes after it.
     if (entry.type === "finding_selection") {
       selectionEntry = entry;
+      batchFixResults = [];
+      regressionFindings = [];
       continue;
     }
 
     if (entry.type === "batch_fix") {
       batchFixEntry = entry;
+      batchFixResults = [...batchFixResults, ...entry.fixResults];
+      continue;
+    }
+
+    if (entry.type === "fix_conflict" || entry.type === "fix_verify") {
+      const droppedResults = new Map(entry.fixResults.map((result) => [result.findingId, result]));
+      batchFixResults = batchFixResults.map(
+        (result) => droppedResults.get(result.findingId) ?? result
+      );
+      continue;
+    }
+
+    if (entry.type === "verification_review") {
+      regressionFindings = [...regressionFindings, ...entry.findings];
     }
   }
 
   const storedFindings = collectReviewIterationFindings(reviewEntries);
-  const regressionFindings: StoredFinding[] = [];
-  const findingsById = createFindingMap(storedFindings);
+  const findingsById = createFindingMap([...storedFindings, ...regressionFindings]);
   const selectedFindingIds =
     selectionEntry?.selectedFindingIds ?? batchFixEntry?.selectedFindingIds ?? [];
   const selectedFindings = selectedFindingIds
     .map((findingId) => findingsById.get(findingId))
     .filter((finding): finding is StoredFinding => finding !== undefined);
-  const fixResults = (batchFixEntry?.fixResults ?? []).map((result) => ({
+  const fixResults = batchFixResults.map((result) => ({
     ...result,
     finding: findingsById.get(result.findingId),
   }));
@@ -1,4 +1,8 @@
 export * from "@/lib/review-workflow/remediation/prompt";
+export * from "@/lib/review-workflow/remediation/resolve-handoff-conflicts";
 export * from "@/lib/review-workflow/remediation/run-batch-fix-phase";
 export * from "@/lib/review-workflow/remediation/run-fix-session";
+export * from "@/lib/review-workflow/remediation/run-parallel-fix-phase";
+export * from "@/lib/review-workflow/remediation/run-verify-phase";
 export * from "@/lib/review-workflow/remediation/types";
+export * from "@/lib/review-workflow/remediation/verify-commands";
@@ -248,3 +248,37 @@ JSON rules:
 - Missing result entries will be treated as \`unresolved\`.
 - The delimited JSON block must be the final output.`;
 }
+
+export interface ConflictResolutionPromptOptions {
+  mutableWorkspacePath: string;
+  conflictedFilePaths: string[];
+  findings: StoredFinding[];
+}
+
+export function createConflictResolutionPrompt(options: ConflictResolutionPromptOptions): string {
+  const findings =
+    options.findings.length > 0
+      ? formatSelectedFindings(options.findings)
+      : "- No resolved findings were recorded for this handoff.";
+
+  return `You are resolving merge conflicts between reviewed fixes and newer changes.
+
+## Objective
+The fixes for the findings below were replayed onto newer code in \`${options.mutableWorkspacePath}\` and left Git conflict markers. Resolve every conflict so the files keep both the newer code and the intent of each fix.
+
+## Conflicted files
+${options.conflictedFilePaths.map((path) => `- ${path}`).join("\n")}
+
+## Findings the fixes addressed
+${findings}
+
+## Hard rules
+- In each conflict, the side before \`=======\` is the newer code and the side after it is the reviewed fix.
+- Keep the newer code's behavior and re-apply each fix on top of it. Drop a fix only when the newer code already resolves its finding.
+- Remove every \`<<<<<<<\`, \`=======\`, and \`>>>>>>>\` marker line.
+- Edit only the conflicted regions. Do not refactor, reformat, or fix anything else.
+- Do not run Git commands that change the index, branches, or commits.
+
+## Output
+Finish with a short note per conflicted file saying how you resolved it.`;
+}
@@ -0,0 +1,52 @@
+import { join } from "node:path";
+import { runAgent } from "@/lib/agents";
+import type { GitSessionWorktree } from "@/lib/git";
+import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+import { createConflictResolutionPrompt } from "@/lib/review-workflow/remediation/prompt";
+import type { Config } from "@/lib/types";
+
+export interface ResolveHandoffConflictsOptions {
+  config: Config;
+  worktree: GitSessionWorktree;
+  /** Repository-relative paths with conflict markers. */
+  conflictedPaths: string[];
+  /** Findings the handoff resolved, so the fixer knows what each side of a conflict is for. */
+  findings: StoredFinding[];
+}
+
+export interface ResolveHandoffConflictsDependencies {
+  createConflictResolutionPrompt: typeof createConflictResolutionPrompt;
+  runAgent: typeof runAgent;
+}
+
+const DEFAULT_RESOLVE_HANDOFF_CONFLICTS_DEPENDENCIES: ResolveHandoffConflictsDependencies = {
+  createConflictResolutionPrompt,
+  runAgent,
+};
+
+/** Runs the fixer over a replayed handoff's conflict markers in its scratch worktree. */
+export async function resolveHandoffConflicts(
+  options: ResolveHandoffConflictsOptions,
+  deps: ResolveHandoffConflictsDependencies = DEFAULT_RESOLVE_HANDOFF_CONFLICTS_DEPENDENCIES
+): Promise<void> {
+  const prompt = deps.createConflictResolutionPrompt({
+    mutableWorkspacePath: options.worktree.agentProjectPath,
+    conflictedFilePaths: options.conflictedPaths.map((path) =>
+      join(options.worktree.worktreeProjectPath, path)
+    ),
+    findings: options.findings,
+  });
+
+  const iterationResult = await deps.runAgent(
+    "fixer",
+    options.config,
+    prompt,
+    options.config.iterationTimeout,
+    undefined,
+    options.worktree.agentProjectPath
+  );
+
+  if (!iterationResult.success) {
+    throw new Error(`Fixer failed to resolve conflicts with exit code ${iterationResult.exitCode}`);
+  }
+}
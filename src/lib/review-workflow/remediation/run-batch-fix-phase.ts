@@ -14,8 +14,14 @@ import type {
 } from "@/lib/review-workflow/findings/types";
 import { createBatchFixerPrompt } from "@/lib/review-workflow/remediation/prompt";
 import type { BatchFixResult, RemediationSelection } from "@/lib/review-workflow/remediation/types";
+import {
+  applyVerifyFailures,
+  findNewVerifyFailures,
+  findPreExistingVerifyFailures,
+  runVerifyCommands,
+} from "@/lib/review-workflow/remediation/verify-commands";
 import { parseFramedJson } from "@/lib/review-workflow/shared/framed-json";
-import type { Config } from "@/lib/types";
+import type { AgentUsage, Config, VerifyCommandResult } from "@/lib/types";
 import type { FixDecision } from "@/lib/types/domain";
 
 interface BatchFixerResultEntry {
@@ -42,6 +48,7 @@ export interface RunBatchFixPhaseDependencies {
   createCheckpoint: typeof createCheckpoint;
   discardCheckpoint: typeof discardCheckpoint;
   rollbackToCheckpoint: typeof rollbackToCheckpoint;
+  runVerifyCommands: typeof runVerifyCommands;
   appendLog: typeof appendLog;
 }
 
@@ -52,9 +59,15 @@ const DEFAULT_RUN_BATCH_FIX_PHASE_DEPENDENCIES: RunBatchFixPhaseDependencies = {
   createCheckpoint,
   discardCheckpoint,
   rollbackToCheckpoint,
+  runVerifyCommands,
   appendLog,
 };
 
+interface VerifyCommandRuns {
+  before: VerifyCommandResult[];
+  after: VerifyCommandResult[];
+}
+
 function isFindingId(value: string): value is FindingId {
   return /^F\d+$/u.test(value);
 }
@@ -131,6 +144,8 @@ async function appendBatchFixLog(
   options: RunBatchFixPhaseOptions,
   startedAt: number,
   fixResults: FindingFixResult[],
+  verifyCommands: VerifyCommandRuns | undefined,
+  usage: AgentUsage | undefined,
   error?: unknown
 ): Promise<void> {
   await deps.appendLog(options.artifact.logPath, {
@@ -139,6 +154,8 @@ async function appendBatchFixLog(
     duration: Date.now() - startedAt,
     selectedFindingIds: options.selection.selectedFindingIds,
     fixResults,
+    ...(verifyCommands === undefined ? {} : { verifyCommands }),
+    ...(usage === undefined ? {} : { usage }),
     ...(error === undefined
       ? {}
       : {
@@ -159,8 +176,22 @@ export async function runBatchFixPhase(
     `${options.artifact.sessionId}-batch-fix`
   );
   const startedAt = Date.now();
+  const commands = options.config.verify?.commands ?? [];
+  let verifyCommands: VerifyCommandRuns | undefined;
+  let usage: AgentUsage | undefined;
 
   try {
+    if (commands.length > 0) {
+      verifyCommands = {
+        before: await deps.runVerifyCommands(
+          commands,
+          options.worktree.agentProjectPath,
+          options.config.iterationTimeout
+        ),
+        after: [],
+      };
+    }
+
     const prompt = deps.createBatchFixerPrompt({
       baselineCommitSha: options.artifact.baselineCommitSha,
       remediationStartCommitSha:
@@ -177,6 +208,7 @@ export async function runBatchFixPhase(
       undefined,
       options.worktree.agentProjectPath
     );
+    usage = iterationResult.usage;
 
     if (!iterationResult.success) {
       throw new Error(`Fixer failed with exit code ${iterationResult.exitCode}`);
@@ -191,19 +223,33 @@ export async function runBatchFixPhase(
       endToken: FIX_SUMMARY_END_TOKEN,
       validate: isBatchFixerOutput,
     });
-    const fixResults = toFixResults(options.selection.selectedFindingIds, parsed);
+    let fixResults = toFixResults(options.selection.selectedFindingIds, parsed);
+
+    if (verifyCommands) {
+      verifyCommands.after = await deps.runVerifyCommands(
+        commands,
+        options.worktree.agentProjectPath,
+        options.config.iterationTimeout
+      );
+      fixResults = applyVerifyFailures(
+        fixResults,
+        findNewVerifyFailures(verifyCommands.before, verifyCommands.after)
+      );
+    }
 
     deps.discardCheckpoint(options.worktree.worktreeProjectPath, checkpoint);
-    await appendBatchFixLog(deps, options, startedAt, fixResults);
+    await appendBatchFixLog(deps, options, startedAt, fixResults, verifyCommands, usage);
 
+    const preExistingVerifyFailures = findPreExistingVerifyFailures(verifyCommands?.before ?? []);
     return {
       phase: "batch-fix",
       sessionStatus: "completed",
       fixResults,
+      ...(preExistingVerifyFailures.length > 0 ? { preExistingVerifyFailures } : {}),
     };
   } catch (error) {
     deps.rollbackToCheckpoint(options.worktree.worktreeProjectPath, checkpoint);
-    await appendBatchFixLog(deps, options, startedAt, [], error);
+    await appendBatchFixLog(deps, options, startedAt, [], verifyCommands, usage, error);
     throw error;
   }
 }
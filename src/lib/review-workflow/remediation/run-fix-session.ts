@@ -1,4 +1,12 @@
 import * as p from "@clack/prompts";
+import {
+  type AgentRunSummary,
+  findExceededBudget,
+  findExhaustedBudget,
+  formatBudgetLimit,
+  projectBudgetSpend,
+  summarizeAgentRuns,
+} from "@/lib/budget";
 import { CONFIG_DIR } from "@/lib/config";
 import {
   createSessionWorktreeAt,
@@ -7,35 +15,61 @@ import {
   type GitSessionWorktree,
   type RetainedSessionWorktree,
 } from "@/lib/git";
-import { appendLog } from "@/lib/logging";
+import { appendLog, readLog } from "@/lib/logging";
 import {
   appendFixResults,
+  appendRegressionFindings,
   loadFindingsArtifactBySessionId,
   updateRetainedWorktree,
   updateSelection,
   validateArtifactBaseline,
 } from "@/lib/review-workflow/findings/artifact";
-import { selectFindings } from "@/lib/review-workflow/findings/selection";
-import type { FindingId, FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import {
+  type FindingSelectionMode,
+  type FindingSelectionRequest,
+  selectFindings,
+} from "@/lib/review-workflow/findings/selection";
+import { formatFindingTriage, isOpenFinding } from "@/lib/review-workflow/findings/triage";
+import type {
+  FindingId,
+  FindingsArtifact,
+  FixConflict,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
 import { runBatchFixPhase } from "@/lib/review-workflow/remediation/run-batch-fix-phase";
+import {
+  planFixGroups,
+  runParallelFixPhase,
+} from "@/lib/review-workflow/remediation/run-parallel-fix-phase";
+import { runVerifyPhase } from "@/lib/review-workflow/remediation/run-verify-phase";
 import type {
   FixSessionResult,
   RemediationSelection,
 } from "@/lib/review-workflow/remediation/types";
 import { finalizeResult } from "@/lib/review-workflow/results/finalize-result";
 import type { SessionState } from "@/lib/session-state";
-import type { Config, Priority, ReviewPhase } from "@/lib/types";
+import type { Config, FindingCategory, Priority, ReviewPhase } from "@/lib/types";
 
 interface FixSessionSelector {
   all?: boolean;
   priorities?: Priority[];
   ids?: FindingId[];
+  where?: string;
+  minAgreement?: number;
+  categories?: FindingCategory[];
 }
 
 export interface RunFixSessionOptions {
   sessionId: string;
   selector?: FixSessionSelector;
   isTTY: boolean;
+  /**
+   * Review the fixer's diff after the batch fix and send regressions back to the fixer up to this
+   * many times. `0` verifies once without another fix pass; omit to skip verification.
+   */
+  verifyRounds?: number;
+  /** Fix each file's findings with its own fixer in a separate worktree, then combine the changes. */
+  parallel?: boolean;
   onProgress?: (updates: Partial<SessionState>) => Promise<void> | void;
 }
 
@@ -45,17 +79,33 @@ export interface RunFixSessionDependencies {
   createSessionWorktreeAt: typeof createSessionWorktreeAt;
   updateSelection: typeof updateSelection;
   appendLog: typeof appendLog;
+  readLog: typeof readLog;
   promptForSelection: (artifact: FindingsArtifact) => Promise<FindingId[] | null>;
   runBatchFixPhase: (
     options: Parameters<typeof runBatchFixPhase>[0]
   ) => Promise<Awaited<ReturnType<typeof runBatchFixPhase>>>;
+  runParallelFixPhase: (
+    options: Parameters<typeof runParallelFixPhase>[0]
+  ) => Promise<Awaited<ReturnType<typeof runParallelFixPhase>>>;
   appendFixResults: typeof appendFixResults;
+  runVerifyPhase: (
+    options: Parameters<typeof runVerifyPhase>[0]
+  ) => Promise<Awaited<ReturnType<typeof runVerifyPhase>>>;
+  appendRegressionFindings: typeof appendRegressionFindings;
   updateRetainedWorktree: typeof updateRetainedWorktree;
   finalizeResult: typeof finalizeResult;
   finalizeSessionWorktree: typeof finalizeSessionWorktree;
   discardSessionWorktree: typeof discardSessionWorktree;
 }
 
+function formatFixSelectionHint(finding: StoredFinding): string {
+  return [
+    `${finding.filePath}:${finding.startLine}-${finding.endLine}`,
+    ...(finding.agreement !== undefined ? [`agreement ${finding.agreement}`] : []),
+    ...(finding.triage && !isOpenFinding(finding) ? [formatFindingTriage(finding.triage)] : []),
+  ].join(" · ");
+}
+
 export async function promptForFixSelection(
   artifact: FindingsArtifact
 ): Promise<FindingId[] | null> {
@@ -64,7 +114,7 @@ export async function promptForFixSelection(
     options: artifact.findings.map((finding) => ({
       value: finding.id,
       label: `${finding.id} [${finding.priority}] ${finding.title}`,
-      hint: `${finding.filePath}:${finding.startLine}-${finding.endLine}`,
+      hint: formatFixSelectionHint(finding),
     })),
     required: false,
   });
@@ -82,9 +132,13 @@ const DEFAULT_RUN_FIX_SESSION_DEPENDENCIES: RunFixSessionDependencies = {
   createSessionWorktreeAt,
   updateSelection,
   appendLog,
+  readLog,
   promptForSelection: promptForFixSelection,
   runBatchFixPhase,
+  runParallelFixPhase,
   appendFixResults,
+  runVerifyPhase,
+  appendRegressionFindings,
   updateRetainedWorktree,
   finalizeResult,
   finalizeSessionWorktree,
@@ -146,13 +200,14 @@ async function discardRetainedWorktree(
 }
 
 function resolveSelectionMode(selector: FixSessionSelector | undefined): {
-  mode: "all" | "priority" | "id" | "interactive";
+  mode: FindingSelectionMode | "interactive";
   count: number;
 } {
   const modeCount =
     (selector?.all === true ? 1 : 0) +
     ((selector?.priorities?.length ?? 0) > 0 ? 1 : 0) +
-    ((selector?.ids?.length ?? 0) > 0 ? 1 : 0);
+    ((selector?.ids?.length ?? 0) > 0 ? 1 : 0) +
+    (selector?.where !== undefined ? 1 : 0);
 
   if (selector?.all === true) {
     return { mode: "all", count: modeCount };
@@ -166,6 +221,14 @@ function resolveSelectionMode(selector: FixSessionSelector | undefined): {
     return { mode: "id", count: modeCount };
   }
 
+  if (selector?.where !== undefined) {
+    return { mode: "where", count: modeCount };
+  }
+
+  if (selector?.minAgreement !== undefined || selector?.categories !== undefined) {
+    return { mode: "all", count: modeCount };
+  }
+
   return { mode: "interactive", count: modeCount };
 }
 
@@ -175,7 +238,8 @@ async function resolveSelection(
   deps: RunFixSessionDependencies
 ): Promise<{
   selection: RemediationSelection | null;
-  mode: "all" | "priority" | "id";
+  mode: FindingSelectionMode;
+  expression?: string;
   error?: string;
   cancelled?: boolean;
 }> {
@@ -184,7 +248,8 @@ async function resolveSelection(
     return {
       selection: null,
       mode: "id",
-      error: "Selector modes are mutually exclusive. Use only one of --all, --priority, or --id.",
+      error:
+        "Selector modes are mutually exclusive. Use only one of --all, --priority, --id, or --where.",
     };
   }
 
@@ -194,7 +259,7 @@ async function resolveSelection(
         selection: null,
         mode: "id",
         error:
-          "No selector was provided. Re-run with one of --all, --priority, or --id, or use an interactive terminal.",
+          "No selector was provided. Re-run with one of --all, --priority, --id, or --where, or use an interactive terminal.",
       };
     }
 
@@ -218,14 +283,35 @@ async function resolveSelection(
     };
   }
 
-  const request =
+  const filters = {
+    minAgreement: options.selector?.minAgreement,
+    categories: options.selector?.categories,
+  };
+  const expression = options.selector?.where;
+  const request: FindingSelectionRequest =
     selectionMode.mode === "all"
-      ? { mode: "all" as const }
+      ? { mode: "all", ...filters }
       : selectionMode.mode === "priority"
-        ? { mode: "priority" as const, priorities: options.selector?.priorities ?? [] }
-        : { mode: "id" as const, ids: options.selector?.ids ?? [] };
+        ? {
+            mode: "priority",
+            priorities: options.selector?.priorities ?? [],
+            ...filters,
+          }
+        : selectionMode.mode === "where"
+          ? { mode: "where", expression: expression ?? "", ...filters }
+          : { mode: "id", ids: options.selector?.ids ?? [] };
+
+  let resolved: ReturnType<typeof selectFindings>;
+  try {
+    resolved = selectFindings(artifact.findings, request);
+  } catch (error) {
+    return {
+      selection: null,
+      mode: selectionMode.mode,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 
-  const resolved = selectFindings(artifact.findings, request);
   if (selectionMode.mode === "id" && resolved.notFoundIds.length > 0) {
     return {
       selection: null,
@@ -240,9 +326,53 @@ async function resolveSelection(
       selectedFindings: resolved.selectedFindings,
     },
     mode: selectionMode.mode,
+    expression: selectionMode.mode === "where" ? expression : undefined,
   };
 }
 
+/**
+ * Agent runs a fix session can start: one fixer, or one per file group with `--parallel`, plus
+ * every verification and re-fix round.
+ */
+function countPlannedAgentRuns(
+  options: RunFixSessionOptions,
+  selection: RemediationSelection
+): number {
+  const fixerRuns = options.parallel ? planFixGroups(selection.selectedFindings).length : 1;
+  return options.verifyRounds === undefined ? fixerRuns : fixerRuns + 1 + 2 * options.verifyRounds;
+}
+
+function checkExhaustedFixBudget(
+  config: Config,
+  summary: AgentRunSummary | undefined
+): string | undefined {
+  const exhausted = summary && findExhaustedBudget(config.budget, summary.spend);
+  if (!config.budget || !exhausted) {
+    return undefined;
+  }
+
+  return `Fix not started: the session's ${formatBudgetLimit(config.budget, exhausted)} is already exhausted. Findings remain pending.`;
+}
+
+function checkProjectedFixBudget(
+  config: Config,
+  summary: AgentRunSummary | undefined,
+  options: RunFixSessionOptions,
+  selection: RemediationSelection
+): string | undefined {
+  if (!config.budget || !summary || selection.selectedFindingIds.length === 0) {
+    return undefined;
+  }
+
+  const plannedRuns = countPlannedAgentRuns(options, selection);
+  const exceeded = findExceededBudget(config.budget, projectBudgetSpend(summary, plannedRuns));
+  if (!exceeded) {
+    return undefined;
+  }
+
+  return `Fix not started: ${plannedRuns} more agent ${plannedRuns === 1 ? "run" : "runs"} would likely exceed the session's ${formatBudgetLimit(config.budget, exceeded)}. Findings remain pending.`;
+}
+
 function getSelectedArtifactSelection(selection: RemediationSelection): FindingId[] {
   return [...selection.selectedFindingIds].sort((left, right) => left.localeCompare(right));
 }
@@ -298,6 +428,21 @@ export async function runFixSession(
     }
     artifactForResult = artifact;
 
+    const budgetSummary = config.budget
+      ? summarizeAgentRuns(await deps.readLog(artifact.logPath))
+      : undefined;
+    const budgetError = checkExhaustedFixBudget(config, budgetSummary);
+    if (budgetError) {
+      result = buildResult({
+        artifact,
+        reviewOutcome: "findings-pending",
+        reason: budgetError,
+        unselectedFindings: [...artifact.findings],
+      });
+      await emitResultProgress(options.onProgress, result);
+      return result;
+    }
+
     const resolvedSelection = await resolveSelection(artifact, options, deps);
     if (resolvedSelection.error) {
       result = buildResult({
@@ -322,6 +467,23 @@ export async function runFixSession(
       return result;
     }
 
+    const projectedBudgetError = checkProjectedFixBudget(
+      config,
+      budgetSummary,
+      options,
+      resolvedSelection.selection
+    );
+    if (projectedBudgetError) {
+      result = buildResult({
+        artifact,
+        reviewOutcome: "findings-pending",
+        reason: projectedBudgetError,
+        unselectedFindings: [...artifact.findings],
+      });
+      await emitResultProgress(options.onProgress, result);
+      return result;
+    }
+
     const artifactWithSelection = await deps.updateSelection(
       CONFIG_DIR,
       artifact.projectPath,
@@ -334,6 +496,9 @@ export async function runFixSession(
       type: "finding_selection",
       timestamp: Date.now(),
       selectionMode: resolvedSelection.mode,
+      ...(resolvedSelection.expression !== undefined
+        ? { expression: resolvedSelection.expression }
+        : {}),
       selectedFindingIds: resolvedSelection.selection.selectedFindingIds,
     });
     await emitProgress(options.onProgress, {
@@ -398,15 +563,18 @@ export async function runFixSession(
       currentAgent: "fixer",
       selectedFindingIds: resolvedSelection.selection.selectedFindingIds,
     });
-    const batchFix = await deps.runBatchFixPhase({
+    const batchFixOptions = {
       config,
       artifact: artifactWithSelection,
       selection: resolvedSelection.selection,
       worktree,
-    });
+    };
+    const batchFix = options.parallel
+      ? await deps.runParallelFixPhase(batchFixOptions)
+      : { ...(await deps.runBatchFixPhase(batchFixOptions)), conflicts: [] as FixConflict[] };
     fixResults = batchFix.fixResults;
 
-    const artifactWithFixResults = await deps.appendFixResults(
+    let artifactWithFixResults = await deps.appendFixResults(
       CONFIG_DIR,
       artifact.projectPath,
       artifact.sessionId,
@@ -414,12 +582,113 @@ export async function runFixSession(
     );
     artifactForResult = artifactWithFixResults;
 
+    let remediationSelection = resolvedSelection.selection;
+    const regressionFindings: StoredFinding[] = [];
+    if (options.verifyRounds !== undefined) {
+      let fixedFindings = resolvedSelection.selection.selectedFindings;
+      for (let round = 1; ; round += 1) {
+        phase = "verify";
+        await emitProgress(options.onProgress, {
+          currentPhase: "verify",
+          phase: "verify",
+          sessionStatus: "running",
+          currentAgent: "reviewer",
+          selectedFindingIds: remediationSelection.selectedFindingIds,
+        });
+        const verification = await deps.runVerifyPhase({
+          config,
+          artifact: artifactWithFixResults,
+          fixedFindings,
+          worktree,
+          round,
+        });
+        const regressions = verification.regressionFindings;
+        if (regressions.length === 0) {
+          break;
+        }
+
+        regressionFindings.push(...regressions);
+        artifactWithFixResults = await deps.appendRegressionFindings(
+          CONFIG_DIR,
+          artifact.projectPath,
+          artifact.sessionId,
+          regressions
+        );
+        artifactForResult = artifactWithFixResults;
+        const regressionSelection: RemediationSelection = {
+          selectedFindingIds: regressions.map((finding) => finding.id),
+          selectedFindings: regressions,
+        };
+        remediationSelection = {
+          selectedFindingIds: [
+            ...remediationSelection.selectedFindingIds,
+            ...regressionSelection.selectedFindingIds,
+          ],
+          selectedFindings: [...remediationSelection.selectedFindings, ...regressions],
+        };
+        selection = remediationSelection;
+
+        if (round > options.verifyRounds) {
+          // Regressions left after the last round block the handoff like any unresolved finding.
+          const unresolvedRegressions: FixSessionResult["fixResults"] = regressions.map(
+            (finding) => ({
+              findingId: finding.id,
+              status: "unresolved",
+              summary: `Verification round ${round} reported this regression in the fixer's diff.`,
+            })
+          );
+          fixResults = [...fixResults, ...unresolvedRegressions];
+          artifactWithFixResults = await deps.appendFixResults(
+            CONFIG_DIR,
+            artifact.projectPath,
+            artifact.sessionId,
+            unresolvedRegressions
+          );
+          artifactForResult = artifactWithFixResults;
+          break;
+        }
+
+        phase = "batch-fix";
+        await emitProgress(options.onProgress, {
+          currentPhase: "batch-fix",
+          phase: "batch-fix",
+          sessionStatus: "running",
+          currentAgent: "fixer",
+          selectedFindingIds: regressionSelection.selectedFindingIds,
+        });
+        const regressionFix = await deps.runBatchFixPhase({
+          config,
+          artifact: artifactWithFixResults,
+          selection: regressionSelection,
+          worktree,
+        });
+        fixResults = [...fixResults, ...regressionFix.fixResults];
+        artifactWithFixResults = await deps.appendFixResults(
+          CONFIG_DIR,
+          artifact.projectPath,
+          artifact.sessionId,
+          regressionFix.fixResults
+        );
+        artifactForResult = artifactWithFixResults;
+        fixedFindings = regressions;
+      }
+    }
+
     result = await deps.finalizeResult({
       artifact: artifactWithFixResults,
-      selection: resolvedSelection.selection,
-      fixResults: batchFix.fixResults,
+      selection: remediationSelection,
+      fixResults,
       worktree,
     });
+    if (regressionFindings.length > 0) {
+      result = { ...result, regressionFindings };
+    }
+    if (batchFix.conflicts.length > 0) {
+      result = { ...result, fixConflicts: batchFix.conflicts };
+    }
+    if (batchFix.preExistingVerifyFailures) {
+      result = { ...result, preExistingVerifyFailures: batchFix.preExistingVerifyFailures };
+    }
 
     if (result.handoffStatus) {
       if (artifactWithFixResults.retainedWorktree) {
@@ -0,0 +1,258 @@
+import {
+  applyWorktreeChanges,
+  createSessionWorktreeAt,
+  discardSessionWorktree,
+  type GitSessionWorktree,
+} from "@/lib/git";
+import { appendLog } from "@/lib/logging";
+import type {
+  FindingFixResult,
+  FindingId,
+  FixConflict,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
+import {
+  type RunBatchFixPhaseOptions,
+  runBatchFixPhase,
+} from "@/lib/review-workflow/remediation/run-batch-fix-phase";
+import type { ParallelFixResult } from "@/lib/review-workflow/remediation/types";
+import {
+  applyVerifyFailures,
+  findNewVerifyFailures,
+  findPreExistingVerifyFailures,
+  runVerifyCommands,
+} from "@/lib/review-workflow/remediation/verify-commands";
+import type { VerifyCommandResult } from "@/lib/types";
+
+export const DEFAULT_FIX_CONCURRENCY = 3;
+
+export interface FixGroup {
+  index: number;
+  filePath: string;
+  findings: StoredFinding[];
+}
+
+export type RunParallelFixPhaseOptions = RunBatchFixPhaseOptions;
+
+export interface RunParallelFixPhaseDependencies {
+  createSessionWorktreeAt: typeof createSessionWorktreeAt;
+  runBatchFixPhase: (
+    options: RunBatchFixPhaseOptions
+  ) => Promise<Awaited<ReturnType<typeof runBatchFixPhase>>>;
+  applyWorktreeChanges: typeof applyWorktreeChanges;
+  discardSessionWorktree: typeof discardSessionWorktree;
+  runVerifyCommands: typeof runVerifyCommands;
+  appendLog: typeof appendLog;
+}
+
+const DEFAULT_RUN_PARALLEL_FIX_PHASE_DEPENDENCIES: RunParallelFixPhaseDependencies = {
+  createSessionWorktreeAt,
+  runBatchFixPhase,
+  applyWorktreeChanges,
+  discardSessionWorktree,
+  runVerifyCommands,
+  appendLog,
+};
+
+interface FixGroupOutcome {
+  group: FixGroup;
+  worktree?: GitSessionWorktree;
+  fixResults: FindingFixResult[];
+}
+
+/**
+ * Groups findings by file so each fixer owns the edits to one file. Groups are ordered by their
+ * first finding ID, which is also the order their changes are combined in.
+ */
+export function planFixGroups(findings: readonly StoredFinding[]): FixGroup[] {
+  const groups = new Map<string, StoredFinding[]>();
+  const sorted = [...findings].sort((left, right) => left.id.localeCompare(right.id));
+  for (const finding of sorted) {
+    groups.set(finding.filePath, [...(groups.get(finding.filePath) ?? []), finding]);
+  }
+
+  return [...groups.entries()].map(([filePath, groupFindings], index) => ({
+    index: index + 1,
+    filePath,
+    findings: groupFindings,
+  }));
+}
+
+function formatConflictSummary(conflict: FixConflict, summary: string): string {
+  const cause =
+    conflict.conflictingFindingIds.length > 0
+      ? `conflicted with the fixes for ${conflict.conflictingFindingIds.join(", ")} in ${conflict.files.join(", ")}`
+      : "did not apply on top of the other parallel fixes";
+  return `Fix ${cause}; its changes were dropped. Fixer reported: ${summary}`;
+}
+
+/**
+ * Runs one fixer per file group in its own worktree, at most `review.fixConcurrency` at a time,
+ * then combines their changes into `options.worktree`. A group whose changes do not apply on top of
+ * the groups before it is dropped and its resolved findings become unresolved. `verify.commands`
+ * gate the combined changes once rather than each group's worktree.
+ */
+export async function runParallelFixPhase(
+  options: RunParallelFixPhaseOptions,
+  deps: RunParallelFixPhaseDependencies = DEFAULT_RUN_PARALLEL_FIX_PHASE_DEPENDENCIES
+): Promise<ParallelFixResult> {
+  const groups = planFixGroups(options.selection.selectedFindings);
+  const startCommitSha =
+    options.worktree.remediationStartCommitSha ?? options.artifact.baselineCommitSha;
+  const concurrency = options.config.review?.fixConcurrency ?? DEFAULT_FIX_CONCURRENCY;
+  const commands = options.config.verify?.commands ?? [];
+  const groupConfig = { ...options.config, verify: undefined };
+  const outcomes: FixGroupOutcome[] = [];
+  const groupWorktrees: GitSessionWorktree[] = [];
+  let nextGroupIndex = 0;
+
+  const runFixGroup = async (group: FixGroup): Promise<FixGroupOutcome> => {
+    try {
+      const worktree = deps.createSessionWorktreeAt(
+        options.artifact.projectPath,
+        `${options.artifact.sessionId}-fix-${group.index}`,
+        startCommitSha
+      );
+      groupWorktrees.push(worktree);
+      worktree.baselineCommitSha = options.worktree.baselineCommitSha;
+      worktree.remediationStartCommitSha = startCommitSha;
+
+      const batchFix = await deps.runBatchFixPhase({
+        config: groupConfig,
+        artifact: options.artifact,
+        selection: {
+          selectedFindingIds: group.findings.map((finding) => finding.id),
+          selectedFindings: group.findings,
+        },
+        worktree,
+      });
+      return { group, worktree, fixResults: batchFix.fixResults };
+    } catch (error) {
+      // A failed fixer only costs its own group; the batch phase already logged the failure.
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        group,
+        fixResults: group.findings.map((finding) => ({
+          findingId: finding.id,
+          status: "unresolved",
+          summary: `Parallel fixer failed: ${message}`,
+        })),
+      };
+    }
+  };
+
+  const runWorker = async (): Promise<void> => {
+    while (nextGroupIndex < groups.length) {
+      const group = groups[nextGroupIndex];
+      nextGroupIndex += 1;
+      if (group) {
+        outcomes.push(await runFixGroup(group));
+      }
+    }
+  };
+
+  const runCombinedVerifyCommands = () =>
+    deps.runVerifyCommands(
+      commands,
+      options.worktree.agentProjectPath,
+      options.config.iterationTimeout
+    );
+
+  try {
+    const verifyBefore: VerifyCommandResult[] =
+      commands.length > 0 ? await runCombinedVerifyCommands() : [];
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, groups.length) }, () => runWorker())
+    );
+    outcomes.sort((left, right) => left.group.index - right.group.index);
+
+    let fixResults: FindingFixResult[] = [];
+    const conflicts: FixConflict[] = [];
+    const conflictResults: FindingFixResult[] = [];
+    const combinedFileOwners = new Map<string, FindingId[]>();
+
+    for (const outcome of outcomes) {
+      const changes = outcome.worktree
+        ? deps.applyWorktreeChanges(
+            outcome.worktree.worktreeProjectPath,
+            options.worktree.worktreeProjectPath,
+            startCommitSha
+          )
+        : undefined;
+      const findingIds = outcome.group.findings.map((finding) => finding.id);
+
+      if (changes?.status !== "conflicted") {
+        for (const file of changes?.files ?? []) {
+          combinedFileOwners.set(file, [...(combinedFileOwners.get(file) ?? []), ...findingIds]);
+        }
+        fixResults.push(...outcome.fixResults);
+        continue;
+      }
+
+      const overlappingFiles = changes.files.filter((file) => combinedFileOwners.has(file));
+      const conflict: FixConflict = {
+        findingIds,
+        files: overlappingFiles.length > 0 ? overlappingFiles : changes.files,
+        conflictingFindingIds: [
+          ...new Set(overlappingFiles.flatMap((file) => combinedFileOwners.get(file) ?? [])),
+        ],
+      };
+      conflicts.push(conflict);
+
+      for (const fixResult of outcome.fixResults) {
+        if (fixResult.status !== "resolved") {
+          fixResults.push(fixResult);
+          continue;
+        }
+        const unresolved: FindingFixResult = {
+          findingId: fixResult.findingId,
+          status: "unresolved",
+          summary: formatConflictSummary(conflict, fixResult.summary),
+        };
+        conflictResults.push(unresolved);
+        fixResults.push(unresolved);
+      }
+    }
+
+    if (conflicts.length > 0) {
+      await deps.appendLog(options.artifact.logPath, {
+        type: "fix_conflict",
+        timestamp: Date.now(),
+        conflicts,
+        fixResults: conflictResults,
+      });
+    }
+
+    if (commands.length > 0) {
+      const verifyAfter = await runCombinedVerifyCommands();
+      const gatedResults = applyVerifyFailures(
+        fixResults,
+        findNewVerifyFailures(verifyBefore, verifyAfter)
+      );
+      await deps.appendLog(options.artifact.logPath, {
+        type: "fix_verify",
+        timestamp: Date.now(),
+        verifyCommands: { before: verifyBefore, after: verifyAfter },
+        fixResults: gatedResults.filter((result, index) => result !== fixResults[index]),
+      });
+      fixResults = gatedResults;
+    }
+
+    const preExistingVerifyFailures = findPreExistingVerifyFailures(verifyBefore);
+    return {
+      phase: "batch-fix",
+      sessionStatus: "completed",
+      fixResults,
+      conflicts,
+      ...(preExistingVerifyFailures.length > 0 ? { preExistingVerifyFailures } : {}),
+    };
+  } finally {
+    for (const worktree of groupWorktrees) {
+      try {
+        deps.discardSessionWorktree(worktree);
+      } catch {
+        // Best-effort cleanup; the combined changes already live in the session worktree.
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { AGENTS, runAgent } from "@/lib/agents";
+import type { GitSessionWorktree } from "@/lib/git";
+import { appendLog, readLog } from "@/lib/logging";
+import { mergeFindingsIntoInventory } from "@/lib/review-workflow/findings/inventory";
+import { getReviewPathScope } from "@/lib/review-workflow/findings/path-scope";
+import {
+  loadFindingSuppressions,
+  resolveSuppressionsPath,
+} from "@/lib/review-workflow/findings/suppressions";
+import type { FindingsArtifact, StoredFinding } from "@/lib/review-workflow/findings/types";
+import { loadReviewGuidelinesOverrides } from "@/lib/review-workflow/review/guidelines";
+import { createVerificationReviewerPrompt } from "@/lib/review-workflow/review/prompt";
+import { parseReviewSummaryOutput } from "@/lib/structured-output";
+import {
+  type AgentUsage,
+  type Config,
+  getPrimaryReviewerSettings,
+  type SystemEntry,
+} from "@/lib/types";
+
+export interface RunVerifyPhaseOptions {
+  config: Config;
+  artifact: FindingsArtifact;
+  /** Findings the fixer worked on in the round being verified. */
+  fixedFindings: StoredFinding[];
+  worktree: GitSessionWorktree;
+  round: number;
+}
+
+export interface VerifyPhaseResult {
+  /** Net-new findings raised against the fixer's diff, tagged with the verification round. */
+  regressionFindings: StoredFinding[];
+}
+
+export interface RunVerifyPhaseDependencies {
+  createVerificationReviewerPrompt: typeof createVerificationReviewerPrompt;
+  AGENTS: typeof AGENTS;
+  runAgent: typeof runAgent;
+  parseReviewSummaryOutput: typeof parseReviewSummaryOutput;
+  resolveSuppressionsPath: typeof resolveSuppressionsPath;
+  loadFindingSuppressions: typeof loadFindingSuppressions;
+  loadReviewGuidelinesOverrides: typeof loadReviewGuidelinesOverrides;
+  readLog: typeof readLog;
+  appendLog: typeof appendLog;
+}
+
+const DEFAULT_RUN_VERIFY_PHASE_DEPENDENCIES: RunVerifyPhaseDependencies = {
+  createVerificationReviewerPrompt,
+  AGENTS,
+  runAgent,
+  parseReviewSummaryOutput,
+  resolveSuppressionsPath,
+  loadFindingSuppressions,
+  loadReviewGuidelinesOverrides,
+  readLog,
+  appendLog,
+};
+
+async function appendVerificationLog(
+  deps: RunVerifyPhaseDependencies,
+  options: RunVerifyPhaseOptions,
+  startedAt: number,
+  regressionFindings: StoredFinding[],
+  usage: AgentUsage | undefined,
+  error?: unknown
+): Promise<void> {
+  await deps.appendLog(options.artifact.logPath, {
+    type: "verification_review",
+    timestamp: Date.now(),
+    round: options.round,
+    duration: Date.now() - startedAt,
+    findings: regressionFindings,
+    ...(usage === undefined ? {} : { usage }),
+    ...(error === undefined
+      ? {}
+      : {
+          error: {
+            phase: "reviewer" as const,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        }),
+  });
+}
+
+export async function runVerifyPhase(
+  options: RunVerifyPhaseOptions,
+  deps: RunVerifyPhaseDependencies = DEFAULT_RUN_VERIFY_PHASE_DEPENDENCIES
+): Promise<VerifyPhaseResult> {
+  const startedAt = Date.now();
+  const fixedFindingIds = new Set(options.fixedFindings.map((finding) => finding.id));
+
+  // An ensemble's primary reviewer alone checks the fixer's diff.
+  const reviewer = getPrimaryReviewerSettings(options.config.reviewer);
+  let usage: AgentUsage | undefined;
+
+  try {
+    // Hold the verification pass to the session's own review rules and path scope.
+    const guidelinesOverrides = await deps.loadReviewGuidelinesOverrides(
+      options.artifact.projectPath
+    );
+    const systemEntry = (await deps.readLog(options.artifact.logPath)).find(
+      (entry): entry is SystemEntry => entry.type === "system"
+    );
+    const pathScope = getReviewPathScope(systemEntry?.reviewOptions);
+
+    const prompt = deps.createVerificationReviewerPrompt({
+      baselineCommitSha: options.artifact.baselineCommitSha,
+      fixedFindings: options.fixedFindings,
+      knownFindings: options.artifact.findings.filter(
+        (finding) => !fixedFindingIds.has(finding.id)
+      ),
+      round: options.round,
+      guidelinesOverrides,
+    });
+
+    const iterationResult = await deps.runAgent(
+      "reviewer",
+      { ...options.config, reviewer },
+      prompt,
+      options.config.iterationTimeout,
+      undefined,
+      options.worktree.agentProjectPath
+    );
+    usage = iterationResult.usage;
+
+    if (!iterationResult.success) {
+      throw new Error(`Verification reviewer failed with exit code ${iterationResult.exitCode}`);
+    }
+
+    const reviewerModule = deps.AGENTS[reviewer.agent];
+    const extractedText = await reviewerModule.extractResult(iterationResult.output);
+    const parsed = deps.parseReviewSummaryOutput(extractedText, iterationResult.output);
+    if (!parsed.ok) {
+      throw new Error(
+        `Verification reviewer output missing valid structured summary (${parsed.failureReason ?? "unknown error"})`
+      );
+    }
+
+    const suppressions = await deps.loadFindingSuppressions(
+      await deps.resolveSuppressionsPath(options.artifact.projectPath)
+    );
+    const merged = mergeFindingsIntoInventory(options.artifact.findings, parsed.value.findings, {
+      pathRoots: [
+        options.artifact.projectPath,
+        options.worktree.worktreeProjectPath,
+        options.worktree.agentProjectPath,
+      ],
+      suppressions,
+      pathScope,
+      dedupeThreshold: options.config.review?.dedupeThreshold,
+      minConfidence: options.config.review?.minConfidence,
+      minConfidenceByPriority: options.config.review?.minConfidenceByPriority,
+    });
+    const regressionFindings = merged.newFindings.map((finding) => ({
+      ...finding,
+      regressionRound: options.round,
+    }));
+
+    await appendVerificationLog(deps, options, startedAt, regressionFindings, usage);
+    return { regressionFindings };
+  } catch (error) {
+    await appendVerificationLog(deps, options, startedAt, [], usage, error);
+    throw error;
+  }
+}
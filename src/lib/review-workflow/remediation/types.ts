@@ -3,9 +3,16 @@ import type {
   FindingFixResult,
   FindingId,
   FindingsArtifact,
+  FixConflict,
   StoredFinding,
 } from "@/lib/review-workflow/findings/types";
-import type { HandoffStatus, ReviewOutcome, ReviewPhase, SessionStatus } from "@/lib/types";
+import type {
+  HandoffStatus,
+  ReviewOutcome,
+  ReviewPhase,
+  SessionStatus,
+  VerifyCommandResult,
+} from "@/lib/types";
 
 export interface RemediationSelection {
   selectedFindingIds: FindingId[];
@@ -16,6 +23,12 @@ export interface BatchFixResult {
   phase: Extract<ReviewPhase, "batch-fix">;
   sessionStatus: SessionStatus;
   fixResults: FindingFixResult[];
+  /** `verify.commands` that already failed before the fixer ran, so they could not gate it. */
+  preExistingVerifyFailures?: VerifyCommandResult[];
+}
+
+export interface ParallelFixResult extends BatchFixResult {
+  conflicts: FixConflict[];
 }
 
 export interface FixSessionResult {
@@ -28,6 +41,12 @@ export interface FixSessionResult {
   fixResults: FindingFixResult[];
   unresolvedSelectedFindings: StoredFinding[];
   unselectedFindings: StoredFinding[];
+  /** Regressions the verification review raised against the fixer's diff. */
+  regressionFindings?: StoredFinding[];
+  /** Parallel fixes whose changes could not be combined into the handoff. */
+  fixConflicts?: FixConflict[];
+  /** `verify.commands` that already failed before the fixer ran, so they could not gate it. */
+  preExistingVerifyFailures?: VerifyCommandResult[];
   handoffStatus?: HandoffStatus;
   handoffId?: string;
   handoffUpdatedAt?: number;
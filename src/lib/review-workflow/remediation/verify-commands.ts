@@ -0,0 +1,117 @@
+import type { FindingFixResult } from "@/lib/review-workflow/findings/types";
+import type { VerifyCommandResult } from "@/lib/types";
+
+/** Longest command output kept per result; the tail is kept because failures print last. */
+export const MAX_VERIFY_OUTPUT_LENGTH = 8000;
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_VERIFY_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `[output truncated]\n${output.slice(-MAX_VERIFY_OUTPUT_LENGTH)}`;
+}
+
+async function runVerifyCommand(
+  command: string,
+  cwd: string,
+  timeoutMs: number
+): Promise<VerifyCommandResult> {
+  const proc = Bun.spawn(["sh", "-c", command], {
+    cwd,
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+    // Its own process group, so a timeout also stops the test runners the shell started.
+    detached: true,
+  });
+
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    try {
+      process.kill(-proc.pid, "SIGTERM");
+    } catch {
+      proc.kill();
+    }
+  }, timeoutMs);
+
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  clearTimeout(timeoutId);
+
+  const output = [stdout.trimEnd(), stderr.trimEnd()].filter(Boolean).join("\n");
+  if (timedOut) {
+    return {
+      command,
+      exitCode: exitCode === 0 ? 124 : exitCode,
+      output: truncateOutput(`${output}\ncommand timed out after ${timeoutMs}ms`.trim()),
+    };
+  }
+
+  return { command, exitCode, output: truncateOutput(output) };
+}
+
+/** Runs each `verify.commands` entry in order through `sh -c`, continuing past failures. */
+export async function runVerifyCommands(
+  commands: readonly string[],
+  cwd: string,
+  timeoutMs: number
+): Promise<VerifyCommandResult[]> {
+  const results: VerifyCommandResult[] = [];
+  for (const command of commands) {
+    results.push(await runVerifyCommand(command, cwd, timeoutMs));
+  }
+  return results;
+}
+
+/** Commands that passed before the fixer ran and fail after it. */
+export function findNewVerifyFailures(
+  before: readonly VerifyCommandResult[],
+  after: readonly VerifyCommandResult[]
+): VerifyCommandResult[] {
+  const passedBefore = new Set(
+    before.filter((result) => result.exitCode === 0).map((result) => result.command)
+  );
+  return after.filter((result) => result.exitCode !== 0 && passedBefore.has(result.command));
+}
+
+/**
+ * Commands that already failed before the fixer ran. They cannot gate the fix, which usually
+ * means the worktree is missing something the command needs, such as installed dependencies.
+ */
+export function findPreExistingVerifyFailures(
+  before: readonly VerifyCommandResult[]
+): VerifyCommandResult[] {
+  return before.filter((result) => result.exitCode !== 0);
+}
+
+function formatVerifyFailure(result: VerifyCommandResult): string {
+  return `\`${result.command}\` (exit code ${result.exitCode})`;
+}
+
+/**
+ * A fix that breaks a verification command which passed before it ran is not resolved, whatever
+ * the fixer reported.
+ */
+export function applyVerifyFailures(
+  fixResults: FindingFixResult[],
+  newFailures: VerifyCommandResult[]
+): FindingFixResult[] {
+  if (newFailures.length === 0) {
+    return fixResults;
+  }
+
+  const failures = newFailures.map(formatVerifyFailure).join(", ");
+  return fixResults.map((fixResult) =>
+    fixResult.status === "resolved"
+      ? {
+          findingId: fixResult.findingId,
+          status: "unresolved",
+          summary: `Verification failed after the fix: ${failures}. Fixer reported: ${fixResult.summary}`,
+        }
+      : fixResult
+  );
+}
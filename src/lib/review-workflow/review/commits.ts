@@ -0,0 +1,24 @@
+import type { RangeCommit } from "@/lib/git";
+
+export interface ReviewCommit {
+  sha: string;
+  subject: string;
+  index: number;
+  count: number;
+}
+
+export function planReviewCommits(commits: readonly RangeCommit[]): ReviewCommit[] {
+  return commits.map((commit, index) => ({
+    sha: commit.sha,
+    subject: commit.subject,
+    index: index + 1,
+    count: commits.length,
+  }));
+}
+
+export function formatReviewCommitInstruction(commit: ReviewCommit): string {
+  return [
+    `This review covers one commit at a time. You are reviewing commit ${commit.index} of ${commit.count}: \`${commit.sha}\` (${commit.subject}).`,
+    `Run \`git show ${commit.sha}\` to inspect it and report findings only for problems this commit introduces. The session worktree also contains later commits, so cite line numbers as they appear in the worktree.`,
+  ].join("\n");
+}
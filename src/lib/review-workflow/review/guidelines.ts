@@ -0,0 +1,137 @@
+import { join } from "node:path";
+import { CONFIG_DIR } from "@/lib/config";
+import { resolveRepositoryRootAsync } from "@/lib/git";
+
+const GUIDELINES_FILENAME = "review.md";
+const LOCAL_GUIDELINES_DIRNAME = ".ralph-review";
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/u;
+const GUIDELINES_MODES = ["append", "replace"] as const;
+
+export type ReviewGuidelinesMode = (typeof GUIDELINES_MODES)[number];
+export type ReviewGuidelinesScope = "global" | "local";
+
+/**
+ * A `review.md` file layered onto the reviewer guidelines. `replace` drops everything
+ * layered before it, `append` (the default) adds to it.
+ */
+export interface ReviewGuidelinesOverride {
+  scope: ReviewGuidelinesScope;
+  path: string;
+  mode: ReviewGuidelinesMode;
+  content: string;
+}
+
+interface LoadReviewGuidelinesOverridesOptions {
+  configDir?: string;
+  repositoryRootResolver?: (projectPath: string) => Promise<string | undefined>;
+}
+
+function isReviewGuidelinesMode(value: string): value is ReviewGuidelinesMode {
+  return GUIDELINES_MODES.includes(value as ReviewGuidelinesMode);
+}
+
+function parseFrontMatterMode(frontMatter: string): ReviewGuidelinesMode {
+  let mode: ReviewGuidelinesMode = "append";
+  for (const rawLine of frontMatter.split(/\r?\n/u)) {
+    const line = rawLine.trim();
+    if (line.length === 0 || line.startsWith("#")) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(":");
+    const key = separatorIndex >= 0 ? line.slice(0, separatorIndex).trim() : line;
+    if (key !== "mode") {
+      throw new Error(`Unsupported front matter key "${key}". Use: mode.`);
+    }
+
+    const value = line
+      .slice(separatorIndex + 1)
+      .trim()
+      .replace(/^(["'])(.*)\1$/u, "$2");
+    if (!isReviewGuidelinesMode(value)) {
+      throw new Error(`Front matter mode must be one of: ${GUIDELINES_MODES.join(", ")}.`);
+    }
+    mode = value;
+  }
+
+  return mode;
+}
+
+export function parseReviewGuidelines(text: string): {
+  mode: ReviewGuidelinesMode;
+  content: string;
+} {
+  const match = FRONT_MATTER_PATTERN.exec(text);
+  if (!match) {
+    return { mode: "append", content: text.trim() };
+  }
+
+  return {
+    mode: parseFrontMatterMode(match[1] ?? ""),
+    content: text.slice(match[0].length).trim(),
+  };
+}
+
+/** Layers overrides onto the base guidelines in order, global before repo-local. */
+export function composeReviewGuidelines(
+  base: string,
+  overrides: readonly ReviewGuidelinesOverride[] = []
+): string {
+  return overrides.reduce((guidelines, override) => {
+    if (override.mode === "replace" || guidelines.length === 0) {
+      return override.content;
+    }
+    return override.content.length > 0 ? `${guidelines}\n\n${override.content}` : guidelines;
+  }, base.trim());
+}
+
+/** Returns the overrides still contributing after later `replace` files are applied. */
+export function getActiveReviewGuidelinesOverrides(
+  overrides: readonly ReviewGuidelinesOverride[]
+): ReviewGuidelinesOverride[] {
+  const lastReplaceIndex = overrides.findLastIndex((override) => override.mode === "replace");
+  return overrides.slice(Math.max(lastReplaceIndex, 0));
+}
+
+export function getGlobalReviewGuidelinesPath(configDir: string = CONFIG_DIR): string {
+  return join(configDir, GUIDELINES_FILENAME);
+}
+
+export function getRepoReviewGuidelinesPath(repoRoot: string): string {
+  return join(repoRoot, LOCAL_GUIDELINES_DIRNAME, GUIDELINES_FILENAME);
+}
+
+async function loadReviewGuidelinesOverride(
+  scope: ReviewGuidelinesScope,
+  path: string
+): Promise<ReviewGuidelinesOverride | null> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return null;
+  }
+
+  try {
+    return { scope, path, ...parseReviewGuidelines(await file.text()) };
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid review guidelines file ${path}: ${details}`);
+  }
+}
+
+/**
+ * Loads the global and repo-local `review.md` overrides that exist, in the order they
+ * apply. The repo-local file resolves from the repository root like the local config.
+ */
+export async function loadReviewGuidelinesOverrides(
+  projectPath: string,
+  options: LoadReviewGuidelinesOverridesOptions = {}
+): Promise<ReviewGuidelinesOverride[]> {
+  const resolveRepositoryRoot = options.repositoryRootResolver ?? resolveRepositoryRootAsync;
+  const repoRoot = (await resolveRepositoryRoot(projectPath)) ?? projectPath;
+  const overrides = await Promise.all([
+    loadReviewGuidelinesOverride("global", getGlobalReviewGuidelinesPath(options.configDir)),
+    loadReviewGuidelinesOverride("local", getRepoReviewGuidelinesPath(repoRoot)),
+  ]);
+
+  return overrides.filter((override) => override !== null);
+}
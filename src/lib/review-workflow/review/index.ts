@@ -1,4 +1,7 @@
+export * from "@/lib/review-workflow/review/commits";
+export * from "@/lib/review-workflow/review/guidelines";
 export * from "@/lib/review-workflow/review/prompt";
 export * from "@/lib/review-workflow/review/run-review-phase";
 export * from "@/lib/review-workflow/review/run-review-session";
+export * from "@/lib/review-workflow/review/shards";
 export * from "@/lib/review-workflow/review/types";
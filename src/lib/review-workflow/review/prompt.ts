@@ -1,13 +1,33 @@
-import { mergeBaseWithHead } from "@/lib/git";
+import { readFileSync } from "node:fs";
+import { mergeBaseWithHead, parseCommitRange } from "@/lib/git";
 import defaultReviewPromptContent from "@/lib/prompts/defaults/review.md" with { type: "text" };
 import { createReviewerStructuredOutputInstructions } from "@/lib/prompts/protocol";
+import {
+  formatReviewPathScopeInstruction,
+  type ReviewPathScope,
+} from "@/lib/review-workflow/findings/path-scope";
 import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+import {
+  formatReviewCommitInstruction,
+  type ReviewCommit,
+} from "@/lib/review-workflow/review/commits";
+import {
+  composeReviewGuidelines,
+  type ReviewGuidelinesOverride,
+} from "@/lib/review-workflow/review/guidelines";
+import {
+  formatReviewShardInstruction,
+  type ReviewShard,
+} from "@/lib/review-workflow/review/shards";
 
 const defaultReviewPrompt: string = defaultReviewPromptContent;
 
 const UNCOMMITTED_PROMPT =
   "Review the uncommitted changes represented by this session snapshot. Run `git show --root HEAD` to inspect the reviewed patch, then provide prioritized findings.";
 
+const SNAPSHOT_SOURCE_PROMPT = (source: string) =>
+  `Review the changes from ${source}, applied onto this session snapshot. Run \`git show HEAD\` to inspect the reviewed patch, then provide prioritized findings.`;
+
 const BASE_BRANCH_PROMPT = (baseBranch: string, mergeBaseSha: string) =>
   `Review the code changes against the base branch '${baseBranch}'. The merge base commit for this comparison is ${mergeBaseSha}. Run \`git diff ${mergeBaseSha}\` to inspect the changes relative to ${baseBranch}. Provide prioritized, actionable findings.`;
 
@@ -20,9 +40,23 @@ const BASE_BRANCH_PROMPT_BACKUP = (branch: string) =>
 const COMMIT_PROMPT = (commitHash: string) =>
   `Review the code changes for the commit ${commitHash}. Provide prioritized, actionable findings.`;
 
+const RANGE_PROMPT = (from: string, to: string) =>
+  `Review the code changes in the commit range ${from}..${to}. Run \`git log --oneline ${from}..${to}\` to list its commits and \`git diff ${from} ${to}\` to inspect the combined changes. Provide prioritized, actionable findings.`;
+
+const VERIFICATION_PROMPT = (baselineCommitSha: string) =>
+  `Review the remediation diff a fixer applied on top of baseline commit ${baselineCommitSha}. Run \`git diff ${baselineCommitSha}\` and \`git status --short\` to inspect the fixer's edits, including new files. Report only bugs that this diff introduces; do not report issues that existed before it.`;
+
 const CUSTOM_FOCUS_PROMPT = (customInstructions: string) =>
   `Additional review focus from user instructions:\n${customInstructions}`;
 
+function loadReviewGuidelines(
+  promptFile?: string,
+  guidelinesOverrides?: readonly ReviewGuidelinesOverride[]
+): string {
+  const base = promptFile ? readFileSync(promptFile, "utf8") : defaultReviewPrompt;
+  return composeReviewGuidelines(base, guidelinesOverrides);
+}
+
 function withCustomFocus(instruction: string, customInstructions?: string): string {
   if (!customInstructions) {
     return instruction;
@@ -34,7 +68,13 @@ export interface TargetedReviewPromptOptions {
   repoPath: string;
   baseBranch?: string;
   commitSha?: string;
+  range?: string;
+  patchFile?: string;
+  stash?: string;
   customInstructions?: string;
+  pathScope?: ReviewPathScope;
+  promptFile?: string;
+  guidelinesOverrides?: readonly ReviewGuidelinesOverride[];
 }
 
 export interface ReviewerPromptOptions {
@@ -43,20 +83,42 @@ export interface ReviewerPromptOptions {
   includeDefaultReviewPrompt?: boolean;
   baseBranch?: string;
   commitSha?: string;
+  range?: string;
+  patchFile?: string;
+  stash?: string;
   customInstructions?: string;
+  pathScope?: ReviewPathScope;
+  /** Review guidelines file used instead of the built-in defaults. */
+  promptFile?: string;
+  /** Global and repo-local `review.md` files layered onto the guidelines. */
+  guidelinesOverrides?: readonly ReviewGuidelinesOverride[];
   knownFindings?: StoredFinding[];
   iteration?: number;
+  /** The file subset this reviewer covers when a large diff is reviewed in shards. */
+  shard?: ReviewShard;
+  /** The single commit this reviewer covers when each commit is reviewed separately. */
+  commit?: ReviewCommit;
 }
 
-function resolveReviewScopeInstruction(
-  repoPath: string,
-  baseBranch?: string,
-  commitSha?: string
-): string {
+interface ReviewTarget {
+  baseBranch?: string;
+  commitSha?: string;
+  range?: string;
+  patchFile?: string;
+  stash?: string;
+}
+
+function resolveReviewTargetInstruction(repoPath: string, target: ReviewTarget): string {
+  const { baseBranch, commitSha, range, patchFile, stash } = target;
   if (commitSha) {
     return COMMIT_PROMPT(commitSha);
   }
 
+  const commitRange = range ? parseCommitRange(range) : undefined;
+  if (commitRange) {
+    return RANGE_PROMPT(commitRange.from, commitRange.to);
+  }
+
   if (baseBranch) {
     const mergeBaseSha = mergeBaseWithHead(repoPath, baseBranch);
     return mergeBaseSha
@@ -64,9 +126,26 @@ function resolveReviewScopeInstruction(
       : BASE_BRANCH_PROMPT_BACKUP(baseBranch);
   }
 
+  if (patchFile) {
+    return SNAPSHOT_SOURCE_PROMPT(`the patch file \`${patchFile}\``);
+  }
+
+  if (stash) {
+    return SNAPSHOT_SOURCE_PROMPT(`stash entry \`${stash}\``);
+  }
+
   return UNCOMMITTED_PROMPT;
 }
 
+function resolveReviewScopeInstruction(
+  repoPath: string,
+  target: ReviewTarget,
+  pathScope?: ReviewPathScope
+): string {
+  const instruction = resolveReviewTargetInstruction(repoPath, target);
+  return pathScope ? `${instruction} ${formatReviewPathScopeInstruction(pathScope)}` : instruction;
+}
+
 function formatKnownFindings(knownFindings: StoredFinding[]): string {
   if (knownFindings.length === 0) {
     return "";
@@ -82,6 +161,17 @@ function formatKnownFindings(knownFindings: StoredFinding[]): string {
   ].join("\n");
 }
 
+function formatFixedFindings(fixedFindings: StoredFinding[]): string {
+  const lines = fixedFindings.map((finding) => {
+    return `- ${finding.id} [${finding.priority}] ${finding.filePath}:${finding.startLine}-${finding.endLine} ${finding.title}`;
+  });
+
+  return [
+    "The diff was written to fix these findings. Check that the fixes did not break surrounding behavior, but do not re-report the findings themselves.",
+    ...lines,
+  ].join("\n");
+}
+
 function buildReviewContext(options: ReviewerPromptOptions): string[] {
   const lines = [
     `Review the session worktree checked out at baseline commit \`${options.baselineCommitSha}\`.`,
@@ -91,9 +181,25 @@ function buildReviewContext(options: ReviewerPromptOptions): string[] {
   ];
 
   if (options.repoPath) {
-    lines.push(
-      resolveReviewScopeInstruction(options.repoPath, options.baseBranch, options.commitSha)
-    );
+    // A per-commit reviewer is pointed at its own commit instead of the whole range.
+    const target: ReviewTarget = options.commit
+      ? { commitSha: options.commit.sha }
+      : {
+          baseBranch: options.baseBranch,
+          commitSha: options.commitSha,
+          range: options.range,
+          patchFile: options.patchFile,
+          stash: options.stash,
+        };
+    lines.push(resolveReviewScopeInstruction(options.repoPath, target, options.pathScope));
+  }
+
+  if (options.shard) {
+    lines.push(formatReviewShardInstruction(options.shard));
+  }
+
+  if (options.commit) {
+    lines.push(formatReviewCommitInstruction(options.commit));
   }
 
   if (typeof options.iteration === "number" && options.iteration > 1) {
@@ -110,6 +216,10 @@ function buildReviewContext(options: ReviewerPromptOptions): string[] {
     lines.push(`The snapshot includes the changes from commit \`${options.commitSha}\`.`);
   }
 
+  if (options.range) {
+    lines.push(`The snapshot includes the changes from commit range \`${options.range}\`.`);
+  }
+
   const knownFindingsSection = formatKnownFindings(options.knownFindings ?? []);
   if (knownFindingsSection) {
     lines.push(knownFindingsSection);
@@ -124,19 +234,72 @@ function buildReviewContext(options: ReviewerPromptOptions): string[] {
 
 export function createReviewerPrompt(options: ReviewerPromptOptions): string {
   const reviewContext = buildReviewContext(options).join("\n\n");
-  const prefix =
-    options.includeDefaultReviewPrompt === false ? "" : `${defaultReviewPrompt.trim()}\n`;
+  const guidelines =
+    options.includeDefaultReviewPrompt === false
+      ? composeReviewGuidelines("", options.guidelinesOverrides)
+      : loadReviewGuidelines(options.promptFile, options.guidelinesOverrides);
+  const prefix = guidelines.length > 0 ? `${guidelines}\n` : "";
 
   return `${prefix}${createReviewerStructuredOutputInstructions()}\n\n${reviewContext}`;
 }
 
-/** Target priority: commitSha > baseBranch > uncommitted (default), with custom focus overlay. */
+export interface VerificationReviewerPromptOptions {
+  baselineCommitSha: string;
+  /** Findings the fixer worked on in the diff under review. */
+  fixedFindings: StoredFinding[];
+  knownFindings?: StoredFinding[];
+  round: number;
+  guidelinesOverrides?: readonly ReviewGuidelinesOverride[];
+}
+
+/**
+ * Reviews only the fixer's diff, so the reviewer reports regressions rather than re-reviewing the change.
+ */
+export function createVerificationReviewerPrompt(
+  options: VerificationReviewerPromptOptions
+): string {
+  const lines = [VERIFICATION_PROMPT(options.baselineCommitSha)];
+  if (options.fixedFindings.length > 0) {
+    lines.push(formatFixedFindings(options.fixedFindings));
+  }
+  lines.push(`This is verification round ${options.round}.`);
+
+  const knownFindingsSection = formatKnownFindings(options.knownFindings ?? []);
+  if (knownFindingsSection) {
+    lines.push(knownFindingsSection);
+  }
+  lines.push(
+    'If the diff introduces no new bugs, return `"findings": []` with a valid overall summary.'
+  );
+
+  return `${loadReviewGuidelines(undefined, options.guidelinesOverrides)}\n${createReviewerStructuredOutputInstructions()}\n\n${lines.join("\n\n")}`;
+}
+
+/**
+ * Target priority: commitSha > range > baseBranch > patchFile > stash > uncommitted (default),
+ * with custom focus overlay.
+ */
 export function createTargetedReviewPrompt(options: TargetedReviewPromptOptions): string {
-  const { repoPath, baseBranch, commitSha, customInstructions } = options;
+  const {
+    repoPath,
+    baseBranch,
+    commitSha,
+    range,
+    patchFile,
+    stash,
+    customInstructions,
+    pathScope,
+    promptFile,
+    guidelinesOverrides,
+  } = options;
   const instruction = withCustomFocus(
-    resolveReviewScopeInstruction(repoPath, baseBranch, commitSha),
+    resolveReviewScopeInstruction(
+      repoPath,
+      { baseBranch, commitSha, range, patchFile, stash },
+      pathScope
+    ),
     customInstructions
   );
 
-  return `${defaultReviewPrompt.trim()}\n${createReviewerStructuredOutputInstructions()}\n\n${instruction}`;
+  return `${loadReviewGuidelines(promptFile, guidelinesOverrides)}\n${createReviewerStructuredOutputInstructions()}\n\n${instruction}`;
 }
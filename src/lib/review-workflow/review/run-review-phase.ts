@@ -1,7 +1,10 @@
+import { addAgentUsage } from "@/lib/agents/core";
+import { findExhaustedBudget } from "@/lib/budget";
 import { mergeFindingsIntoInventory } from "@/lib/review-workflow/findings/inventory";
-import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+import { getReviewPathScope } from "@/lib/review-workflow/findings/path-scope";
+import type { FindingSuppression, StoredFinding } from "@/lib/review-workflow/findings/types";
 import type { ReviewIterationResult, ReviewPhaseResult } from "@/lib/review-workflow/review/types";
-import type { Config, ReviewOptions } from "@/lib/types";
+import type { AgentUsage, Config, FindingCategory, ReviewOptions } from "@/lib/types";
 
 interface RunReviewPhaseOptions {
   config: Config;
@@ -9,6 +12,7 @@ interface RunReviewPhaseOptions {
   sessionId?: string;
   projectPath: string;
   findingPathRoots: string[];
+  suppressions?: FindingSuppression[];
   sessionPath: string;
   runReviewerIteration: (
     iteration: number,
@@ -16,6 +20,13 @@ interface RunReviewPhaseOptions {
   ) => Promise<{
     findings: ReviewSummaryLike["findings"];
     duration: number;
+    /** Ensemble reviewer label for each finding, index-aligned with `findings`. */
+    findingReviewers?: string[];
+    /** Commit SHA for each finding of a per-commit review, index-aligned with `findings`. */
+    findingCommits?: string[];
+    usage?: AgentUsage;
+    /** Reviewer agents started across ensemble reviewers, shards, and commits; omitted when one. */
+    reviewerRuns?: number;
   }>;
   appendLog: (logPath: string, entry: ReviewIterationLogEntry) => Promise<void>;
   updateSessionState: (
@@ -26,6 +37,7 @@ interface RunReviewPhaseOptions {
     options?: { expectedSessionId?: string }
   ) => Promise<boolean>;
   wasInterrupted: () => boolean;
+  now?: () => number;
 }
 
 interface ReviewIterationLogEntry extends ReviewIterationResult {
@@ -41,6 +53,7 @@ interface ReviewSummaryLike {
     body: string;
     confidence_score: number;
     priority?: number;
+    category: FindingCategory;
     code_location: {
       absolute_file_path: string;
       line_range: { start: number; end: number };
@@ -64,8 +77,11 @@ async function updateReviewSessionState(
 }
 
 export async function runReviewPhase(options: RunReviewPhaseOptions): Promise<ReviewPhaseResult> {
+  const now = options.now ?? Date.now;
+  const startTime = now();
   let findings: StoredFinding[] = [];
   let iterations = 0;
+  let usage: AgentUsage | undefined;
 
   while (iterations < options.config.maxIterations) {
     if (options.wasInterrupted()) {
@@ -94,9 +110,17 @@ export async function runReviewPhase(options: RunReviewPhaseOptions): Promise<Re
     const reviewerResult = await options.runReviewerIteration(iteration, findings);
     const merged = mergeFindingsIntoInventory(findings, reviewerResult.findings, {
       pathRoots: options.findingPathRoots,
+      pathScope: getReviewPathScope(options.reviewOptions),
+      suppressions: options.suppressions,
+      dedupeThreshold: options.config.review?.dedupeThreshold,
+      minConfidence: options.config.review?.minConfidence,
+      minConfidenceByPriority: options.config.review?.minConfidenceByPriority,
+      findingReviewers: reviewerResult.findingReviewers,
+      findingCommits: reviewerResult.findingCommits,
     });
     findings = merged.findings;
     iterations = iteration;
+    usage = addAgentUsage(usage, reviewerResult.usage);
 
     const entry: ReviewIterationLogEntry = {
       type: "review_iteration",
@@ -107,6 +131,14 @@ export async function runReviewPhase(options: RunReviewPhaseOptions): Promise<Re
       sessionStatus: "running",
       findings: merged.newFindings,
       netNewFindingIds: merged.newFindings.map((finding) => finding.id),
+      ...(merged.suppressedFindings.length > 0
+        ? { suppressedFindings: merged.suppressedFindings }
+        : {}),
+      ...(merged.filteredFindings.length > 0 ? { filteredFindings: merged.filteredFindings } : {}),
+      ...(merged.mergedAliases.length > 0 ? { mergedAliases: merged.mergedAliases } : {}),
+      ...(merged.reviewerReports.length > 0 ? { reviewerReports: merged.reviewerReports } : {}),
+      ...(reviewerResult.usage ? { usage: reviewerResult.usage } : {}),
+      ...(reviewerResult.reviewerRuns ? { reviewerRuns: reviewerResult.reviewerRuns } : {}),
     };
     await options.appendLog(options.sessionPath, entry);
     await updateReviewSessionState(options, {
@@ -137,6 +169,21 @@ export async function runReviewPhase(options: RunReviewPhaseOptions): Promise<Re
         stopReason: "no-new-findings",
       };
     }
+
+    const budgetLimit = findExhaustedBudget(options.config.budget, {
+      usage,
+      wallTimeMs: now() - startTime,
+    });
+    if (budgetLimit && iterations < options.config.maxIterations) {
+      return {
+        phase: "review",
+        sessionStatus: "completed",
+        findings,
+        iterations,
+        stopReason: "budget-exhausted",
+        budgetLimit,
+      };
+    }
   }
 
   return {
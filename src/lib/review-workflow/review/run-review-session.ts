@@ -1,12 +1,20 @@
-import { AGENTS, runAgent } from "@/lib/agents";
+import { AGENTS, addAgentUsage, runAgent } from "@/lib/agents";
+import { formatBudgetLimit } from "@/lib/budget";
 import { CONFIG_DIR } from "@/lib/config";
 import {
   createCheckpoint,
   createSessionWorktree,
+  createSessionWorktreeAt,
+  createSessionWorktreeFromSource,
   deleteSessionRefs,
   discardCheckpoint,
   discardSessionWorktree,
+  listChangedFileStats,
+  listRangeCommits,
+  mergeBaseWithHead,
+  parseCommitRange,
   rollbackToCheckpoint,
+  type SessionSnapshotSource,
 } from "@/lib/git";
 import { appendLog, createLogSession, getGitBranch } from "@/lib/logging";
 import { createReviewerSummaryRetryReminder } from "@/lib/prompts/protocol";
@@ -14,23 +22,41 @@ import {
   getFindingsArtifactPath,
   saveFindingsArtifact,
 } from "@/lib/review-workflow/findings/artifact";
+import {
+  appendFindingAlias,
+  appendFindingReviewer,
+} from "@/lib/review-workflow/findings/inventory";
+import { getReviewPathScope, isPathInReviewScope } from "@/lib/review-workflow/findings/path-scope";
+import {
+  loadFindingSuppressions,
+  resolveSuppressionsPath,
+} from "@/lib/review-workflow/findings/suppressions";
 import type { FindingsArtifact, StoredFinding } from "@/lib/review-workflow/findings/types";
+import { planReviewCommits, type ReviewCommit } from "@/lib/review-workflow/review/commits";
+import {
+  loadReviewGuidelinesOverrides,
+  type ReviewGuidelinesOverride,
+} from "@/lib/review-workflow/review/guidelines";
 import {
   createReviewerPrompt,
   type ReviewerPromptOptions,
 } from "@/lib/review-workflow/review/prompt";
 import { runReviewPhase } from "@/lib/review-workflow/review/run-review-phase";
-import type { ReviewSessionResult } from "@/lib/review-workflow/review/types";
+import { planReviewShards, type ReviewShard } from "@/lib/review-workflow/review/shards";
+import type { ReviewSessionResult, ReviewShardProgress } from "@/lib/review-workflow/review/types";
 import { createSessionId, type SessionState, updateSessionState } from "@/lib/session";
 import { parseReviewSummaryOutput } from "@/lib/structured-output";
 import type {
+  AgentSettings,
+  AgentUsage,
+  BudgetLimit,
   Config,
   IterationResult,
   ReviewOptions,
   ReviewSummary,
   SystemEntry,
 } from "@/lib/types";
-import { DEFAULT_RETRY_CONFIG } from "@/lib/types";
+import { DEFAULT_RETRY_CONFIG, getReviewerSettingsList } from "@/lib/types";
 
 export interface RunReviewRuntimeContext {
   projectPath?: string;
@@ -45,9 +71,14 @@ export interface RunReviewSessionDependencies {
   runAgent: typeof runAgent;
   createCheckpoint: typeof createCheckpoint;
   createSessionWorktree: typeof createSessionWorktree;
+  createSessionWorktreeAt: typeof createSessionWorktreeAt;
+  createSessionWorktreeFromSource: typeof createSessionWorktreeFromSource;
   deleteSessionRefs: typeof deleteSessionRefs;
   discardCheckpoint: typeof discardCheckpoint;
   discardSessionWorktree: typeof discardSessionWorktree;
+  listChangedFileStats: typeof listChangedFileStats;
+  listRangeCommits: typeof listRangeCommits;
+  mergeBaseWithHead: typeof mergeBaseWithHead;
   rollbackToCheckpoint: typeof rollbackToCheckpoint;
   updateSessionState: typeof updateSessionState;
   appendLog: typeof appendLog;
@@ -55,6 +86,9 @@ export interface RunReviewSessionDependencies {
   getGitBranch: typeof getGitBranch;
   parseReviewSummaryOutput: typeof parseReviewSummaryOutput;
   saveFindingsArtifact: typeof saveFindingsArtifact;
+  resolveSuppressionsPath: typeof resolveSuppressionsPath;
+  loadFindingSuppressions: typeof loadFindingSuppressions;
+  loadReviewGuidelinesOverrides: typeof loadReviewGuidelinesOverrides;
 }
 
 export const DEFAULT_RUN_REVIEW_SESSION_DEPENDENCIES: RunReviewSessionDependencies = {
@@ -64,9 +98,14 @@ export const DEFAULT_RUN_REVIEW_SESSION_DEPENDENCIES: RunReviewSessionDependenci
   runAgent,
   createCheckpoint,
   createSessionWorktree,
+  createSessionWorktreeAt,
+  createSessionWorktreeFromSource,
   deleteSessionRefs,
   discardCheckpoint,
   discardSessionWorktree,
+  listChangedFileStats,
+  listRangeCommits,
+  mergeBaseWithHead,
   rollbackToCheckpoint,
   updateSessionState,
   appendLog,
@@ -74,8 +113,15 @@ export const DEFAULT_RUN_REVIEW_SESSION_DEPENDENCIES: RunReviewSessionDependenci
   getGitBranch,
   parseReviewSummaryOutput,
   saveFindingsArtifact,
+  resolveSuppressionsPath,
+  loadFindingSuppressions,
+  loadReviewGuidelinesOverrides,
 };
 
+function formatBudgetStopReason(config: Config, budgetLimit: BudgetLimit, outcome: string): string {
+  return `Review stopped after the ${formatBudgetLimit(config.budget ?? {}, budgetLimit)} was exhausted: ${outcome}.`;
+}
+
 function formatReviewFailureReason(error: unknown, interrupted: boolean): string {
   const details = error instanceof Error ? error.message : String(error);
   return interrupted ? `Review was interrupted: ${details}` : `Review failed: ${details}`;
@@ -130,8 +176,9 @@ async function runAgentWithRetry(
   }
 ): Promise<IterationResult> {
   const retryConfig = config.retry ?? DEFAULT_RETRY_CONFIG;
+  let usage: AgentUsage | undefined;
 
-  const runAttempt = async (attempt: number): Promise<IterationResult> => {
+  const runAttemptOnce = async (attempt: number): Promise<IterationResult> => {
     if (!workspaceReset) {
       return deps.runAgent(role, config, prompt, config.iterationTimeout, reviewOptions, cwd);
     }
@@ -164,6 +211,13 @@ async function runAgentWithRetry(
     }
   };
 
+  // Failed attempts are billed too, so the returned usage covers every attempt.
+  const runAttempt = async (attempt: number): Promise<IterationResult> => {
+    const result = await runAttemptOnce(attempt);
+    usage = addAgentUsage(usage, result.usage);
+    return usage ? { ...result, usage } : result;
+  };
+
   let result = await runAttempt(0);
   if (result.success || isInterruptLikeFailure(result, wasInterrupted)) {
     return result;
@@ -182,30 +236,45 @@ async function runAgentWithRetry(
 
 async function runReviewerIteration(
   config: Config,
+  reviewer: AgentSettings,
   deps: RunReviewSessionDependencies,
   reviewOptions: ReviewOptions | undefined,
   baselineCommitSha: string,
   reviewerCwd: string,
   iteration: number,
   knownFindings: StoredFinding[],
+  guidelinesOverrides: ReviewGuidelinesOverride[],
+  shard: ReviewShard | undefined,
+  commit: ReviewCommit | undefined,
   wasInterrupted: () => boolean
-): Promise<{ summary: ReviewSummary; duration: number }> {
+): Promise<{ summary: ReviewSummary; duration: number; usage?: AgentUsage }> {
   const promptOptions: ReviewerPromptOptions = {
     repoPath: reviewerCwd,
     baselineCommitSha,
-    includeDefaultReviewPrompt: config.reviewer.agent !== "codex",
+    // Codex ships its own review guidelines, but profile guidelines always apply.
+    includeDefaultReviewPrompt:
+      reviewer.agent !== "codex" || reviewOptions?.promptFile !== undefined,
     baseBranch: reviewOptions?.baseBranch,
     commitSha: reviewOptions?.commitSha,
+    range: reviewOptions?.range,
+    patchFile: reviewOptions?.patchFile,
+    stash: reviewOptions?.stash,
     customInstructions: reviewOptions?.customInstructions,
+    pathScope: getReviewPathScope(reviewOptions),
+    promptFile: reviewOptions?.promptFile,
+    guidelinesOverrides,
     knownFindings,
     iteration,
+    shard,
+    commit,
   };
   const reviewerPrompt = deps.createReviewerPrompt(promptOptions);
+  const reviewerConfig: Config = { ...config, reviewer };
   const startTime = Date.now();
 
   let reviewResult = await runAgentWithRetry(
     "reviewer",
-    config,
+    reviewerConfig,
     deps,
     reviewerPrompt,
     reviewOptions,
@@ -219,7 +288,8 @@ async function runReviewerIteration(
     throw new Error(`Reviewer failed with exit code ${reviewResult.exitCode}`);
   }
 
-  const reviewerAgentModule = deps.AGENTS[config.reviewer.agent];
+  const reviewerAgentModule = deps.AGENTS[reviewer.agent];
+  let usage = reviewResult.usage;
   let extractedReviewerText = await reviewerAgentModule.extractResult(reviewResult.output);
   let reviewParseResult = deps.parseReviewSummaryOutput(extractedReviewerText, reviewResult.output);
 
@@ -227,13 +297,14 @@ async function runReviewerIteration(
     const retryPrompt = `${reviewerPrompt}\n${deps.createReviewerSummaryRetryReminder()}`;
     reviewResult = await runAgentWithRetry(
       "reviewer",
-      config,
+      reviewerConfig,
       deps,
       retryPrompt,
       reviewOptions,
       reviewerCwd,
       wasInterrupted
     );
+    usage = addAgentUsage(usage, reviewResult.usage);
 
     if (!reviewResult.success) {
       if (isInterruptLikeFailure(reviewResult, wasInterrupted)) {
@@ -255,9 +326,160 @@ async function runReviewerIteration(
   return {
     summary: reviewParseResult.value,
     duration: Date.now() - startTime,
+    ...(usage ? { usage } : {}),
   };
 }
 
+interface ReviewerInvocation {
+  settings: AgentSettings;
+  label: string;
+  cwd: string;
+  shard?: ReviewShard;
+}
+
+function resolveSnapshotSource(
+  reviewOptions: ReviewOptions | undefined
+): SessionSnapshotSource | undefined {
+  if (reviewOptions?.patchFile) {
+    return { kind: "patch", patchPath: reviewOptions.patchFile };
+  }
+  if (reviewOptions?.stash) {
+    return { kind: "stash", stashRef: reviewOptions.stash };
+  }
+  return undefined;
+}
+
+/** Shards only apply to `--base` reviews, whose diff size is known before any reviewer runs. */
+function planBaseReviewShards(
+  deps: RunReviewSessionDependencies,
+  reviewerCwd: string,
+  reviewOptions: ReviewOptions | undefined,
+  config: Config
+): ReviewShard[] {
+  if (!reviewOptions?.baseBranch || reviewOptions.commitSha || reviewOptions.eachCommit) {
+    return [];
+  }
+
+  const mergeBaseSha = deps.mergeBaseWithHead(reviewerCwd, reviewOptions.baseBranch);
+  if (!mergeBaseSha) {
+    return [];
+  }
+
+  const pathScope = getReviewPathScope(reviewOptions);
+  const files = deps
+    .listChangedFileStats(reviewerCwd, mergeBaseSha)
+    .filter((file) => !pathScope || isPathInReviewScope(file.path, pathScope));
+  return planReviewShards(files, config.review);
+}
+
+/**
+ * Lists the commits an each-commit review walks through. Commits are read from the source
+ * project, whose HEAD excludes the session snapshot of uncommitted changes.
+ */
+function planEachCommitReviews(
+  deps: RunReviewSessionDependencies,
+  projectPath: string,
+  reviewOptions: ReviewOptions | undefined
+): ReviewCommit[] {
+  if (!reviewOptions?.eachCommit) {
+    return [];
+  }
+
+  const range = reviewOptions.range ? parseCommitRange(reviewOptions.range) : undefined;
+  const from =
+    range?.from ??
+    (reviewOptions.baseBranch
+      ? deps.mergeBaseWithHead(projectPath, reviewOptions.baseBranch)
+      : undefined);
+  if (!from) {
+    throw new Error("Reviewing each commit requires a base branch or commit range.");
+  }
+
+  const to = range?.to ?? "HEAD";
+  const commits = deps.listRangeCommits(projectPath, from, to);
+  if (commits.length === 0) {
+    throw new Error(`No commits to review between ${from} and ${to}.`);
+  }
+  return planReviewCommits(commits);
+}
+
+function createShardProgressTracker(
+  shards: ReviewShard[],
+  reviewerCount: number,
+  publish: (progress: ReviewShardProgress[]) => Promise<void>
+) {
+  const progress: ReviewShardProgress[] = shards.map((shard) => ({
+    index: shard.index,
+    fileCount: shard.files.length,
+    changedLines: shard.changedLines,
+    status: "pending",
+  }));
+  const pendingReviewers = new Map<number, number>();
+  const findingCounts = new Map<number, number>();
+  const snapshot = () => progress.map((entry) => ({ ...entry }));
+
+  const update = async (
+    shard: ReviewShard | undefined,
+    changes: Partial<ReviewShardProgress>
+  ): Promise<void> => {
+    const entry = shard ? progress.find((candidate) => candidate.index === shard.index) : undefined;
+    if (!entry) {
+      return;
+    }
+    Object.assign(entry, changes);
+    await publish(snapshot());
+  };
+
+  return {
+    snapshot,
+    async start(): Promise<void> {
+      if (progress.length === 0) {
+        return;
+      }
+      for (const entry of progress) {
+        entry.status = "running";
+        delete entry.findingCount;
+        pendingReviewers.set(entry.index, reviewerCount);
+        findingCounts.set(entry.index, 0);
+      }
+      await publish(snapshot());
+    },
+    async complete(shard: ReviewShard | undefined, findingCount: number): Promise<void> {
+      if (!shard) {
+        return;
+      }
+      const remaining = (pendingReviewers.get(shard.index) ?? 1) - 1;
+      const total = (findingCounts.get(shard.index) ?? 0) + findingCount;
+      pendingReviewers.set(shard.index, remaining);
+      findingCounts.set(shard.index, total);
+      if (remaining <= 0) {
+        await update(shard, { status: "completed", findingCount: total });
+      }
+    },
+    async fail(shard: ReviewShard | undefined): Promise<void> {
+      await update(shard, { status: "failed" });
+    },
+  };
+}
+
+function formatReviewerLabel(settings: AgentSettings): string {
+  if (settings.agent === "pi") {
+    return `pi:${settings.provider}/${settings.model}`;
+  }
+
+  return settings.model ? `${settings.agent}:${settings.model}` : settings.agent;
+}
+
+function createReviewerLabels(reviewers: AgentSettings[]): string[] {
+  const seen = new Map<string, number>();
+  return reviewers.map((settings) => {
+    const label = formatReviewerLabel(settings);
+    const count = (seen.get(label) ?? 0) + 1;
+    seen.set(label, count);
+    return count === 1 ? label : `${label}#${count}`;
+  });
+}
+
 function createFindingsArtifact(
   sessionId: string,
   projectPath: string,
@@ -314,6 +536,9 @@ export async function runReviewSession(
     runtimeContext?.sessionPath ?? (await deps.createLogSession(undefined, projectPath, gitBranch));
 
   let worktree: ReturnType<RunReviewSessionDependencies["createSessionWorktree"]> | null = null;
+  const reviewerWorktrees: ReturnType<RunReviewSessionDependencies["createSessionWorktreeAt"]>[] =
+    [];
+  const reviewers = getReviewerSettingsList(config.reviewer);
   let shouldDeleteSessionRefs = true;
   let completedReviewIterations = 0;
   let latestPersistedFindings: StoredFinding[] = [];
@@ -323,7 +548,17 @@ export async function runReviewSession(
     await deps.appendLog(logPath, entry);
 
     if (entry.type === "review_iteration") {
-      latestPersistedFindings = [...latestPersistedFindings, ...entry.findings];
+      latestPersistedFindings = [...latestPersistedFindings, ...entry.findings].map((finding) => {
+        const withAliases = (entry.mergedAliases ?? [])
+          .filter((merged) => merged.findingId === finding.id)
+          .reduce((survivor, merged) => appendFindingAlias(survivor, merged.alias), finding);
+        return (entry.reviewerReports ?? [])
+          .filter((report) => report.findingId === finding.id)
+          .reduce(
+            (survivor, report) => appendFindingReviewer(survivor, report.reviewer),
+            withAliases
+          );
+      });
       completedReviewIterations = entry.iteration;
 
       if (worktree && latestPersistedFindings.length > 0) {
@@ -351,7 +586,10 @@ export async function runReviewSession(
       currentAgent: null,
     });
 
-    worktree = deps.createSessionWorktree(projectPath, sessionId);
+    const snapshotSource = resolveSnapshotSource(reviewOptions);
+    worktree = snapshotSource
+      ? deps.createSessionWorktreeFromSource(projectPath, sessionId, snapshotSource)
+      : deps.createSessionWorktree(projectPath, sessionId);
     const reviewerCwd = worktree.agentProjectPath;
 
     await updateReviewSessionState(deps, projectPath, runtimeContext?.sessionId, {
@@ -371,7 +609,8 @@ export async function runReviewSession(
       gitBranch,
       worktreeProjectPath: worktree.worktreeProjectPath,
       worktreeBranch: worktree.retainedBranch,
-      reviewer: config.reviewer,
+      reviewer: reviewers[0],
+      ...(reviewers.length > 1 ? { reviewers } : {}),
       fixer: config.fixer,
       maxIterations: config.maxIterations,
       reviewOptions,
@@ -385,6 +624,40 @@ export async function runReviewSession(
       throw new Error("Review baseline metadata is incomplete.");
     }
 
+    const shards = planBaseReviewShards(deps, reviewerCwd, reviewOptions, config);
+    const commits = planEachCommitReviews(deps, projectPath, reviewOptions);
+    const commitSlots: Array<ReviewCommit | undefined> = commits.length > 0 ? commits : [undefined];
+    const shardSlots: Array<ReviewShard | undefined> = shards.length > 0 ? shards : [undefined];
+
+    // Every reviewer and shard pairing after the first gets its own disposable worktree at the
+    // same baseline.
+    const reviewerLabels = createReviewerLabels(reviewers);
+    const invocations: ReviewerInvocation[] = reviewers.flatMap((settings, reviewerIndex) => {
+      const label = reviewerLabels[reviewerIndex] ?? formatReviewerLabel(settings);
+      return shardSlots.map((shard, shardIndex) => {
+        if (reviewerIndex === 0 && shardIndex === 0) {
+          return { settings, label, cwd: reviewerCwd, shard };
+        }
+
+        const reviewerSuffix = reviewerIndex > 0 ? `-reviewer-${reviewerIndex + 1}` : "";
+        const shardSuffix = shard && shardIndex > 0 ? `-shard-${shard.index}` : "";
+        const reviewerWorktree = deps.createSessionWorktreeAt(
+          projectPath,
+          `${sessionId}${reviewerSuffix}${shardSuffix}`,
+          reviewerBaselineCommitSha
+        );
+        reviewerWorktrees.push(reviewerWorktree);
+        return { settings, label, cwd: reviewerWorktree.agentProjectPath, shard };
+      });
+    });
+    const shardTracker = createShardProgressTracker(shards, reviewers.length, (reviewShards) =>
+      updateReviewSessionState(deps, projectPath, runtimeContext?.sessionId, { reviewShards })
+    );
+
+    const suppressions = await deps.loadFindingSuppressions(
+      await deps.resolveSuppressionsPath(projectPath)
+    );
+    const guidelinesOverrides = await deps.loadReviewGuidelinesOverrides(projectPath);
     artifactPath = getFindingsArtifactPath(CONFIG_DIR, projectPath, sessionId);
 
     await updateReviewSessionState(deps, projectPath, runtimeContext?.sessionId, {
@@ -397,6 +670,7 @@ export async function runReviewSession(
       sourceBaselineFingerprint: worktree.sourceBaselineFingerprint,
       accumulatedFindings: [],
       selectedFindingIds: [],
+      ...(shards.length > 0 ? { reviewShards: shardTracker.snapshot() } : {}),
     });
 
     const phaseResult = await runReviewPhase({
@@ -404,26 +678,91 @@ export async function runReviewSession(
       reviewOptions,
       sessionId: runtimeContext?.sessionId,
       projectPath,
-      findingPathRoots: [projectPath, reviewerCwd],
+      findingPathRoots: [projectPath, ...invocations.map((invocation) => invocation.cwd)],
+      suppressions,
       sessionPath,
       appendLog: appendReviewLog,
       updateSessionState: deps.updateSessionState,
       wasInterrupted,
       runReviewerIteration: async (iteration, knownFindings) => {
-        const reviewerResult = await runReviewerIteration(
-          config,
-          deps,
-          reviewOptions,
-          reviewerBaselineCommitSha,
-          reviewerCwd,
-          iteration,
-          knownFindings,
-          wasInterrupted
+        const startTime = Date.now();
+        await shardTracker.start();
+        const reports: Array<
+          Awaited<ReturnType<typeof runReviewerIteration>> & {
+            label: string;
+            commit?: ReviewCommit;
+          }
+        > = [];
+        // Commits are reviewed one after another so a long branch does not start an agent per
+        // commit at once; the reviewers for a commit still run in parallel.
+        for (const commit of commitSlots) {
+          // Settle every reviewer before failing so no agent is still running during cleanup.
+          const settled = await Promise.allSettled(
+            invocations.map(async (invocation) => {
+              try {
+                const report = await runReviewerIteration(
+                  config,
+                  invocation.settings,
+                  deps,
+                  reviewOptions,
+                  reviewerBaselineCommitSha,
+                  invocation.cwd,
+                  iteration,
+                  knownFindings,
+                  guidelinesOverrides,
+                  invocation.shard,
+                  commit,
+                  wasInterrupted
+                );
+                await shardTracker.complete(invocation.shard, report.summary.findings.length);
+                return { label: invocation.label, commit, ...report };
+              } catch (error) {
+                await shardTracker.fail(invocation.shard);
+                throw error;
+              }
+            })
+          );
+          for (const outcome of settled) {
+            if (outcome.status === "rejected") {
+              throw outcome.reason;
+            }
+            reports.push(outcome.value);
+          }
+        }
+
+        const [primaryReport] = reports;
+        if (reports.length === 1 && primaryReport && !primaryReport.commit) {
+          return {
+            findings: primaryReport.summary.findings,
+            duration: primaryReport.duration,
+            ...(primaryReport.usage ? { usage: primaryReport.usage } : {}),
+          };
+        }
+
+        const findings = reports.flatMap((report) => report.summary.findings);
+        const usage = reports.reduce<AgentUsage | undefined>(
+          (total, report) => addAgentUsage(total, report.usage),
+          undefined
         );
-
         return {
-          findings: reviewerResult.summary.findings,
-          duration: reviewerResult.duration,
+          findings,
+          duration: Date.now() - startTime,
+          ...(usage ? { usage } : {}),
+          ...(reports.length > 1 ? { reviewerRuns: reports.length } : {}),
+          ...(reviewers.length > 1
+            ? {
+                findingReviewers: reports.flatMap((report) =>
+                  report.summary.findings.map(() => report.label)
+                ),
+              }
+            : {}),
+          ...(commits.length > 0
+            ? {
+                findingCommits: reports.flatMap((report) =>
+                  report.summary.findings.map(() => report.commit?.sha ?? "")
+                ),
+              }
+            : {}),
         };
       },
     });
@@ -452,9 +791,12 @@ export async function runReviewSession(
           reason:
             phaseResult.sessionStatus === "interrupted"
               ? "Review was interrupted before it completed."
-              : "Review found no actionable findings.",
+              : phaseResult.budgetLimit
+                ? formatBudgetStopReason(config, phaseResult.budgetLimit, "no actionable findings")
+                : "Review found no actionable findings.",
           iterations: phaseResult.iterations,
           findings: [],
+          ...(phaseResult.budgetLimit ? { budgetLimit: phaseResult.budgetLimit } : {}),
         },
       };
     }
@@ -486,9 +828,12 @@ export async function runReviewSession(
         reason:
           phaseResult.sessionStatus === "interrupted"
             ? "Review was interrupted after persisting findings."
-            : "Review complete: findings pending.",
+            : phaseResult.budgetLimit
+              ? formatBudgetStopReason(config, phaseResult.budgetLimit, "findings pending")
+              : "Review complete: findings pending.",
         iterations: phaseResult.iterations,
         findings: phaseResult.findings,
+        ...(phaseResult.budgetLimit ? { budgetLimit: phaseResult.budgetLimit } : {}),
         artifact: savedArtifact,
         artifactPath,
       },
@@ -556,9 +901,9 @@ export async function runReviewSession(
         // Best effort cleanup; final session result is still reported to the caller.
       }
     }
-    if (worktree) {
+    for (const reviewerWorktree of [...reviewerWorktrees, ...(worktree ? [worktree] : [])]) {
       try {
-        deps.discardSessionWorktree(worktree);
+        deps.discardSessionWorktree(reviewerWorktree);
       } catch {
         // Best effort cleanup; final session result is still reported to the caller.
       }
@@ -0,0 +1,69 @@
+import type { ChangedFileStat } from "@/lib/git";
+import type { ReviewConfig } from "@/lib/types";
+
+export const DEFAULT_SHARD_THRESHOLD = 1500;
+export const DEFAULT_MAX_SHARDS = 4;
+
+export interface ReviewShard {
+  index: number;
+  count: number;
+  files: string[];
+  changedLines: number;
+}
+
+/**
+ * Splits a large diff into at most `review.maxShards` shards once its changed lines exceed
+ * `review.shardThreshold`. Files stay in path order so a shard covers neighbouring code, and a
+ * file joins the shard that keeps its line count closest to an even split.
+ * Returns an empty list when the diff should be reviewed in one pass.
+ */
+export function planReviewShards(
+  files: readonly ChangedFileStat[],
+  review: Pick<ReviewConfig, "shardThreshold" | "maxShards"> | undefined
+): ReviewShard[] {
+  const threshold = review?.shardThreshold ?? DEFAULT_SHARD_THRESHOLD;
+  const maxShards = review?.maxShards ?? DEFAULT_MAX_SHARDS;
+  const totalLines = files.reduce((sum, file) => sum + file.changedLines, 0);
+  const count = Math.min(maxShards, files.length, Math.ceil(totalLines / threshold));
+  if (totalLines <= threshold || count < 2) {
+    return [];
+  }
+
+  const sorted = [...files].sort((left, right) => left.path.localeCompare(right.path));
+  const targetLines = Math.ceil(totalLines / count);
+  const groups: ChangedFileStat[][] = [[]];
+  let groupLines = 0;
+
+  for (const [position, file] of sorted.entries()) {
+    const current = groups[groups.length - 1] ?? [];
+    const remainingFiles = sorted.length - position;
+    const remainingGroups = count - groups.length;
+    const shouldStartGroup =
+      current.length > 0 &&
+      remainingGroups > 0 &&
+      (groupLines + file.changedLines / 2 > targetLines || remainingFiles <= remainingGroups);
+
+    if (shouldStartGroup) {
+      groups.push([file]);
+      groupLines = file.changedLines;
+    } else {
+      current.push(file);
+      groupLines += file.changedLines;
+    }
+  }
+
+  return groups.map((group, index) => ({
+    index: index + 1,
+    count: groups.length,
+    files: group.map((file) => file.path),
+    changedLines: group.reduce((sum, file) => sum + file.changedLines, 0),
+  }));
+}
+
+export function formatReviewShardInstruction(shard: ReviewShard): string {
+  return [
+    `This review is split into ${shard.count} shards that run in parallel. You are reviewing shard ${shard.index} of ${shard.count}, which covers ${shard.files.length} changed files (${shard.changedLines} changed lines).`,
+    "Report findings only for these files; other reviewers cover the rest of the diff. Read other files only for context.",
+    ...shard.files.map((file) => `- ${file}`),
+  ].join("\n");
+}
@@ -1,15 +1,40 @@
 import type {
+  FilteredFinding,
   FindingId,
+  FindingReviewerReport,
   FindingsArtifact,
+  MergedFindingAlias,
   StoredFinding,
+  SuppressedFinding,
 } from "@/lib/review-workflow/findings/types";
-import type { ReviewOutcome, ReviewPhase, SessionStatus } from "@/lib/types";
+import type {
+  AgentUsage,
+  BudgetLimit,
+  ReviewOutcome,
+  ReviewPhase,
+  SessionStatus,
+} from "@/lib/types";
+
+/** Live progress of one shard of a sharded review, mirrored into `SessionState`. */
+export interface ReviewShardProgress {
+  index: number;
+  fileCount: number;
+  changedLines: number;
+  status: "pending" | "running" | "completed" | "failed";
+  findingCount?: number;
+}
 
 export interface ReviewIterationResult {
   phase: Extract<ReviewPhase, "review">;
   sessionStatus: SessionStatus;
   findings: StoredFinding[];
   netNewFindingIds: FindingId[];
+  suppressedFindings?: SuppressedFinding[];
+  filteredFindings?: FilteredFinding[];
+  mergedAliases?: MergedFindingAlias[];
+  reviewerReports?: FindingReviewerReport[];
+  usage?: AgentUsage;
+  reviewerRuns?: number;
 }
 
 export interface ReviewPhaseResult {
@@ -17,7 +42,9 @@ export interface ReviewPhaseResult {
   sessionStatus: SessionStatus;
   findings: StoredFinding[];
   iterations: number;
-  stopReason: "no-new-findings" | "max-iterations" | "interrupted";
+  stopReason: "no-new-findings" | "max-iterations" | "interrupted" | "budget-exhausted";
+  /** Set when `stopReason` is `"budget-exhausted"`. */
+  budgetLimit?: BudgetLimit;
 }
 
 export interface ReviewSessionResult {
@@ -27,6 +54,8 @@ export interface ReviewSessionResult {
   reason: string;
   iterations: number;
   findings: StoredFinding[];
+  /** Budget limit that stopped the review before its last iteration. */
+  budgetLimit?: BudgetLimit;
   artifact?: FindingsArtifact;
   artifactPath?: string;
 }
@@ -115,6 +115,7 @@ export interface CycleResult {
   phase?: SessionEndEntry["phase"];
   sessionStatus?: SessionStatus;
   reviewOutcome?: ReviewOutcome;
+  budgetLimit?: SessionEndEntry["budgetLimit"];
   terminalReview?: ReviewSummary;
   handoffStatus?: HandoffStatus;
   handoffId?: string;
@@ -224,6 +225,7 @@ function createSessionEndEntry(
     phase: result?.phase,
     sessionStatus: result?.sessionStatus,
     reviewOutcome: result?.reviewOutcome,
+    budgetLimit: result?.budgetLimit,
     handoffStatus: result?.handoffStatus,
     handoffId: result?.handoffId,
     handoffUpdatedAt: result?.handoffUpdatedAt,
@@ -270,6 +272,7 @@ export async function runReviewCycle(
       phase: review.result.phase,
       sessionStatus: review.result.sessionStatus,
       reviewOutcome: review.result.reviewOutcome,
+      budgetLimit: review.result.budgetLimit,
       artifact: review.result.artifact,
       artifactPath: review.result.artifactPath,
     };
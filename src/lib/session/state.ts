@@ -3,6 +3,7 @@ import { join } from "node:path";
 import { CONFIG_DIR } from "@/lib/config";
 import { getProjectStorageDir } from "@/lib/logging";
 import type { FindingId, StoredFinding } from "@/lib/review-workflow/findings/types";
+import type { ReviewShardProgress } from "@/lib/review-workflow/review/types";
 import { sessionExists } from "@/lib/tmux";
 import type {
   HandoffStatus,
@@ -113,6 +114,7 @@ export interface SessionState {
   selectedFindingIds?: FindingId[];
   iteration?: number;
   currentAgent?: "reviewer" | "fixer" | null;
+  reviewShards?: ReviewShardProgress[];
   reviewSummary?: ReviewSummary;
   codexReviewText?: string;
 }
@@ -327,6 +327,7 @@ export function Dashboard({ projectPath, branch, refreshInterval = 1000, deps }:
           canShowSession={!displayError}
           defaultReview={state.config?.defaultReview}
           defaultMaxIterations={state.config?.maxIterations}
+          profiles={state.config?.profiles}
           projectPath={projectPath}
           sessions={state.allSessions}
           onCloseHelp={() => setShowHelp(false)}
@@ -2,7 +2,7 @@ import type { ActiveSession } from "@/lib/session-state";
 import type { PendingFixTarget } from "@/lib/tui/dashboard/dashboard-fix-state";
 import { FixIssuesOverlay } from "@/lib/tui/sessions/fix/FixIssuesOverlay";
 import { SessionOverlay } from "@/lib/tui/sessions/history/SessionListOverlay";
-import type { DefaultReview } from "@/lib/types";
+import type { DefaultReview, ReviewProfile } from "@/lib/types";
 import { HelpOverlay } from "./HelpOverlay";
 import { ReviewModeOverlay } from "./ReviewModeOverlay";
 import { StopSessionPickerOverlay } from "./StopSessionPickerOverlay";
@@ -17,6 +17,7 @@ interface DashboardOverlaysProps {
   canShowSession: boolean;
   defaultReview?: DefaultReview;
   defaultMaxIterations?: number;
+  profiles?: Record<string, ReviewProfile>;
   projectPath: string;
   sessions: ActiveSession[];
   onCloseHelp: () => void;
@@ -39,6 +40,7 @@ export function DashboardOverlays({
   canShowSession,
   defaultReview,
   defaultMaxIterations,
+  profiles,
   projectPath,
   sessions,
   onCloseHelp,
@@ -57,6 +59,7 @@ export function DashboardOverlays({
         <ReviewModeOverlay
           defaultReview={defaultReview}
           defaultMaxIterations={defaultMaxIterations}
+          profiles={profiles}
           projectPath={projectPath}
           onClose={onCloseRunOverlay}
           onSubmit={onSubmitRunOverlay}
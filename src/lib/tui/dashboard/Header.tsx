@@ -3,7 +3,7 @@ import { getAgentDisplayInfo } from "@/lib/agents/display";
 import { formatDuration } from "@/lib/format";
 import type { SessionState } from "@/lib/session-state";
 import { TUI_COLORS } from "@/lib/tui/shared/colors";
-import type { Config } from "@/lib/types";
+import { type Config, getReviewerSettingsList } from "@/lib/types";
 
 interface HeaderProps {
   projectName: string;
@@ -29,9 +29,11 @@ export function getHeaderAgentDisplays(config?: Config | null): HeaderAgentDispl
     };
   }
 
-  const reviewer = getAgentDisplayInfo(config.reviewer);
   const fixer = getAgentDisplayInfo(config.fixer);
-  const reviewerDisplay = `${reviewer.agentName} (${reviewer.modelName} • ${reviewer.reasoning})`;
+  const reviewerDisplay = getReviewerSettingsList(config.reviewer)
+    .map(getAgentDisplayInfo)
+    .map((reviewer) => `${reviewer.agentName} (${reviewer.modelName} • ${reviewer.reasoning})`)
+    .join(" + ");
   const fixerDisplay = `${fixer.agentName} (${fixer.modelName} • ${fixer.reasoning})`;
 
   return { reviewerDisplay, fixerDisplay };
@@ -4,7 +4,7 @@ import { useCallback, useMemo, useRef, useState } from "react";
 import { formatPriorityList } from "@/lib/priority-list";
 import { PriorityText } from "@/lib/tui/sessions/priority-text";
 import { TUI_COLORS } from "@/lib/tui/shared/colors";
-import type { DefaultReview, Priority } from "@/lib/types";
+import type { DefaultReview, Priority, ReviewProfile } from "@/lib/types";
 import { VALID_PRIORITIES as PRIORITIES } from "@/lib/types/domain";
 
 export type ReviewModeSelection = "uncommitted" | "base" | "commit";
@@ -18,6 +18,7 @@ type OptionsFocusTarget =
   | "execution-review-only"
   | "execution-auto-all"
   | "execution-auto-priority"
+  | "profile"
   | "custom-instructions";
 
 const OPTIONS_FOCUS_ORDER: OptionsFocusTarget[] = [
@@ -62,6 +63,7 @@ const CUSTOM_INSTRUCTIONS_PLACEHOLDER =
 interface ReviewModeOverlayProps {
   defaultReview?: DefaultReview;
   defaultMaxIterations?: number;
+  profiles?: Record<string, ReviewProfile>;
   projectPath: string;
   onClose: () => void;
   onSubmit: (args: string[]) => void;
@@ -211,6 +213,7 @@ function buildReviewCommandPreview(options: {
   executionMode: ReviewExecutionMode;
   selectedPriorityList: string | null;
   customInstructionsDraft: string;
+  selectedProfile: string | null;
 }): string {
   const parts = ["rr", "run"];
   if (options.pendingArgs) {
@@ -237,6 +240,10 @@ function buildReviewCommandPreview(options: {
     parts.push("--priority", options.selectedPriorityList ?? "<priorities>");
   }
 
+  if (options.selectedProfile) {
+    parts.push("--profile", options.selectedProfile);
+  }
+
   return parts.join(" ");
 }
 
@@ -373,6 +380,7 @@ function clampMaxIterations(value: number): number {
 export function ReviewModeOverlay({
   defaultReview,
   defaultMaxIterations,
+  profiles,
   projectPath,
   onClose,
   onSubmit,
@@ -395,6 +403,7 @@ export function ReviewModeOverlay({
   const [priorityCursorIndex, setPriorityCursorIndex] = useState(0);
   const [customInstructionsDraft, setCustomInstructionsDraft] = useState("");
   const [showCustomInstructions, setShowCustomInstructions] = useState(false);
+  const [selectedProfile, setSelectedProfile] = useState<string | null>(null);
   const [optionsFocus, setOptionsFocus] = useState<OptionsFocusTarget>("iterations");
   const lastNonCustomFocusRef = useRef<OptionsFocusTarget>("iterations");
   const customInstructionsRef = useRef<TextareaRenderable>(null);
@@ -447,6 +456,13 @@ export function ReviewModeOverlay({
   );
   const pickerOverlayHeight = pickerSelectHeight + LIST_PICKER_VERTICAL_OVERHEAD;
 
+  const profileNames = useMemo(
+    () => Object.keys(profiles ?? {}).sort((left, right) => left.localeCompare(right)),
+    [profiles]
+  );
+  const optionsFocusOrder: OptionsFocusTarget[] =
+    profileNames.length > 0 ? [...OPTIONS_FOCUS_ORDER, "profile"] : OPTIONS_FOCUS_ORDER;
+
   const orderedSelectedPriorities = useMemo(
     () => sortSelectedPriorities(selectedPriorities),
     [selectedPriorities]
@@ -460,6 +476,7 @@ export function ReviewModeOverlay({
     executionMode,
     selectedPriorityList,
     customInstructionsDraft,
+    selectedProfile,
   });
 
   const isWideOptionsLayout =
@@ -516,6 +533,18 @@ export function ReviewModeOverlay({
     setError(null);
   }
 
+  /** Cycles through "no profile" and each configured profile, adopting its iteration limit. */
+  function cycleSelectedProfile(direction: 1 | -1) {
+    const choices = [null, ...profileNames];
+    const currentIndex = choices.indexOf(selectedProfile);
+    const nextProfile =
+      choices[(currentIndex + direction + choices.length) % choices.length] ?? null;
+    setSelectedProfile(nextProfile);
+    const profileMaxIterations = nextProfile ? profiles?.[nextProfile]?.maxIterations : undefined;
+    setMaxIterationsDraft(String(profileMaxIterations ?? initialMaxIterations));
+    setError(null);
+  }
+
   function toggleForceMaxIterations() {
     setForceMaxIterations((current) => !current);
     setError(null);
@@ -544,12 +573,12 @@ export function ReviewModeOverlay({
 
       if (isUpNavigationKey(key.name) || isDownNavigationKey(key.name)) {
         const direction = isUpNavigationKey(key.name) ? -1 : 1;
-        const currentIndex = OPTIONS_FOCUS_ORDER.indexOf(optionsFocus);
+        const currentIndex = optionsFocusOrder.indexOf(optionsFocus);
         const nextIndex = Math.min(
-          OPTIONS_FOCUS_ORDER.length - 1,
+          optionsFocusOrder.length - 1,
           Math.max(0, currentIndex + direction)
         );
-        const nextFocus = OPTIONS_FOCUS_ORDER[nextIndex];
+        const nextFocus = optionsFocusOrder[nextIndex];
         if (nextFocus && nextFocus !== optionsFocus) {
           setOptionsFocus(nextFocus);
           const mode = executionFocusToMode(nextFocus);
@@ -566,6 +595,18 @@ export function ReviewModeOverlay({
         return;
       }
 
+      if (optionsFocus === "profile") {
+        if (isLeftNavigationKey(key.name)) {
+          cycleSelectedProfile(-1);
+          return;
+        }
+
+        if (isRightNavigationKey(key.name) || key.name === "space") {
+          cycleSelectedProfile(1);
+          return;
+        }
+      }
+
       if (optionsFocus === "execution-auto-priority") {
         if (isLeftNavigationKey(key.name)) {
           movePriorityCursor(-1);
@@ -672,6 +713,7 @@ export function ReviewModeOverlay({
     setExecutionMode("review-only");
     setSelectedPriorities([]);
     setPriorityCursorIndex(0);
+    setSelectedProfile(null);
     setShowCustomInstructions(false);
     setOptionsFocus("iterations");
     lastNonCustomFocusRef.current = "iterations";
@@ -727,6 +769,10 @@ export function ReviewModeOverlay({
       nextArgs.push("--priority", priorityList);
     }
 
+    if (selectedProfile) {
+      nextArgs.push("--profile", selectedProfile);
+    }
+
     setError(null);
     onSubmit(nextArgs);
   }
@@ -934,6 +980,7 @@ export function ReviewModeOverlay({
 
   function renderConfigurationPane() {
     const isForceFocused = optionsFocus === "force-max-iterations";
+    const isProfileFocused = optionsFocus === "profile";
 
     return (
       <box
@@ -1009,6 +1056,22 @@ export function ReviewModeOverlay({
           </box>
         )}
 
+        {profileNames.length > 0 && (
+          <box marginTop={1} paddingX={1} paddingY={0} flexDirection="column" gap={0}>
+            <text fg={TUI_COLORS.text.dim}>
+              <strong>Profile</strong>
+            </text>
+            <box flexDirection="row">
+              <text fg={isProfileFocused ? TUI_COLORS.accent.key : TUI_COLORS.text.dim}>
+                {isProfileFocused ? "▶ " : "  "}
+              </text>
+              <text fg={selectedProfile ? TUI_COLORS.text.primary : TUI_COLORS.text.secondary}>
+                {selectedProfile ?? "None"}
+              </text>
+            </box>
+          </box>
+        )}
+
         <box marginTop={1} paddingX={1} paddingY={0} flexDirection="column" gap={0}>
           <text fg={TUI_COLORS.text.dim}>
             <strong>Custom instructions</strong>
@@ -1052,6 +1115,7 @@ export function ReviewModeOverlay({
       >
         {renderPreviewField("Target", targetSummary)}
         {renderPreviewField("Execution", executionSummary)}
+        {selectedProfile && renderPreviewField("Profile", selectedProfile)}
         {executionMode === "auto-priority" &&
           renderPreviewField(
             "Priority filter",
@@ -1090,6 +1154,7 @@ export function ReviewModeOverlay({
   function renderOptions() {
     const isPriorityFocusActive = optionsFocus === "execution-auto-priority";
     const isForceControlActive = optionsFocus === "force-max-iterations";
+    const isProfileControlActive = optionsFocus === "profile";
     const reviewStartKeyLabel = isCustomInstructionsFocused ? "[Ctrl+Enter]" : "[Enter]";
 
     return (
@@ -1119,6 +1184,12 @@ export function ReviewModeOverlay({
                   <span fg={TUI_COLORS.text.muted}> toggles force </span>
                 </>
               )}
+              {isProfileControlActive && (
+                <>
+                  <span fg={TUI_COLORS.accent.key}>[←/→]</span>
+                  <span fg={TUI_COLORS.text.muted}> switches profile </span>
+                </>
+              )}
               <span fg={TUI_COLORS.accent.key}>[C]</span>
               <span fg={TUI_COLORS.text.muted}> custom instructions </span>
               <span fg={TUI_COLORS.accent.key}>{reviewStartKeyLabel}</span>
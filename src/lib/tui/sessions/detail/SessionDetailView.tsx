@@ -12,7 +12,10 @@ import {
   extractLatestReviewSummary,
   findLatestReviewerPhaseStart,
 } from "@/lib/tui/sessions/review-summary-parser";
-import { formatSessionIdentityDisplay } from "@/lib/tui/sessions/session-display";
+import {
+  formatReviewShardDisplay,
+  formatSessionIdentityDisplay,
+} from "@/lib/tui/sessions/session-display";
 import { TUI_COLORS } from "@/lib/tui/shared/colors";
 import { ProgressBar } from "@/lib/tui/shared/ProgressBar";
 import { Spinner } from "@/lib/tui/shared/Spinner";
@@ -266,6 +269,7 @@ export function SessionDetailView({
     inventoryFindings.length > 0 ? inventoryFindings.map(storedFindingToFinding) : displayFindings;
 
   const sessionIdentity = formatSessionIdentityDisplay(session, activeSessionCount);
+  const shardDisplay = formatReviewShardDisplay(session.reviewShards);
   const showIterationProgress = currentAgent !== "fixer";
 
   return (
@@ -297,6 +301,23 @@ export function SessionDetailView({
           </text>
         </KeyValueRow>
 
+        {shardDisplay && (
+          <box flexDirection="column">
+            <KeyValueRow label="Shards">
+              <text fg={TUI_COLORS.text.primary} wrapMode="none">
+                {shardDisplay.summary}
+              </text>
+            </KeyValueRow>
+            {shardDisplay.details.map((detail) => (
+              <box key={detail} paddingLeft={METADATA_VALUE_INDENT}>
+                <text fg={TUI_COLORS.text.dim} wrapMode="none">
+                  {detail}
+                </text>
+              </box>
+            ))}
+          </box>
+        )}
+
         <box flexDirection="column">
           <KeyValueRow label="Session">
             <text fg={TUI_COLORS.text.primary} wrapMode="none">
@@ -1,3 +1,4 @@
+import { getFindingTriageState } from "@/lib/review-workflow/findings/triage";
 import type {
   FindingFixResult,
   FindingId,
@@ -202,6 +203,7 @@ export function SelectableStoredFindingsList({
   const content = displayFindings.map((finding) => {
     const isSelected = selectedIdSet.has(finding.id);
     const lineRange = `${finding.startLine}-${finding.endLine}`;
+    const triageState = getFindingTriageState(finding);
 
     return (
       <box key={finding.id} flexDirection="column">
@@ -219,6 +221,7 @@ export function SelectableStoredFindingsList({
         </box>
         <text fg={TUI_COLORS.text.dim} paddingLeft={7} wrapMode="none">
           {toSingleLine(finding.filePath)}:{lineRange}
+          {triageState === "open" ? "" : ` · ${triageState}`}
         </text>
       </box>
     );
@@ -1037,6 +1037,9 @@ export function FixIssuesOverlay({
             label="Location"
             value={`${finding.filePath}:${finding.startLine}-${finding.endLine}`}
           />
+          {finding.commitSha && (
+            <DetailField label="Commit" value={finding.commitSha.slice(0, 7)} />
+          )}
         </box>
       </scrollbox>
     );
@@ -1,6 +1,6 @@
 import type { ScrollBoxRenderable } from "@opentui/core";
 import { type ReactNode, useRef } from "react";
-import { formatDuration } from "@/lib/format";
+import { formatAgentUsage, formatDuration } from "@/lib/format";
 import { getProjectNameFromLogPath } from "@/lib/logger";
 import { deriveWorkflowPresentationData } from "@/lib/review-workflow/presentation";
 import {
@@ -392,6 +392,11 @@ export function SessionDetailPane({
             <MetadataRow label="Result:">
               <text fg={TUI_COLORS.text.secondary}>{issueSummary}</text>
             </MetadataRow>
+            {stats.usage && (
+              <MetadataRow label="Usage:">
+                <text fg={TUI_COLORS.text.secondary}>{formatAgentUsage(stats.usage)}</text>
+              </MetadataRow>
+            )}
             <MetadataRow label="Priorities:">
               <PrioritySummaryRow priorityCounts={stats.priorityCounts} />
             </MetadataRow>
@@ -467,6 +472,9 @@ export function SessionDetailPane({
                   <text fg={TUI_COLORS.text.secondary} paddingLeft={2}>
                     {workflow.selectionEntry.selectedFindingIds.length} selected via{" "}
                     {workflow.selectionEntry.selectionMode}
+                    {workflow.selectionEntry.expression
+                      ? ` ${workflow.selectionEntry.expression}`
+                      : ""}
                   </text>
                   {workflow.selectedFindings.length > 0 && (
                     <StoredFindingsList
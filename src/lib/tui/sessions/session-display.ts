@@ -2,6 +2,7 @@ import {
   collectReviewIterationFindings,
   storedFindingToFinding,
 } from "@/lib/review-workflow/presentation";
+import type { ReviewShardProgress } from "@/lib/review-workflow/review/types";
 import type { SessionState } from "@/lib/session-state";
 import { TUI_COLORS } from "@/lib/tui/shared/colors";
 import type {
@@ -67,6 +68,44 @@ export function formatSessionIdentityDisplay(
   };
 }
 
+interface ReviewShardDisplay {
+  summary: string;
+  details: string[];
+}
+
+export function formatReviewShardDisplay(
+  shards: readonly ReviewShardProgress[] | undefined
+): ReviewShardDisplay | null {
+  if (!shards || shards.length === 0) {
+    return null;
+  }
+
+  const completed = shards.filter((shard) => shard.status === "completed").length;
+  const running = shards.filter((shard) => shard.status === "running").length;
+  const failed = shards.filter((shard) => shard.status === "failed").length;
+  const summary = [
+    `${completed}/${shards.length} done`,
+    ...(running > 0 ? [`${running} running`] : []),
+    ...(failed > 0 ? [`${failed} failed`] : []),
+  ].join(" · ");
+
+  return {
+    summary,
+    details: shards.map((shard) => {
+      const fileWord = shard.fileCount === 1 ? "file" : "files";
+      const parts = [
+        `#${shard.index} ${shard.status}`,
+        `${shard.fileCount} ${fileWord}`,
+        `${shard.changedLines} lines`,
+      ];
+      if (shard.findingCount !== undefined) {
+        parts.push(`${shard.findingCount} ${shard.findingCount === 1 ? "finding" : "findings"}`);
+      }
+      return parts.join(" · ");
+    }),
+  };
+}
+
 export function formatRetainedWorktreeMergeCommand(
   worktreeBranch: string | undefined,
   mergeReady: boolean | undefined
@@ -106,6 +145,16 @@ export function formatHandoffSummary(
       return commitSha ? `Apply conflicted · ${commitSha}` : "Apply conflicted";
     case "applied-manual":
       return commitSha ? `Applied manually · ${commitSha}` : "Applied manually";
+    case "applied-partial":
+      return commitSha ? `Partially applied · ${commitSha}` : "Partially applied";
+    case "applied-commit":
+      return commitSha ? `Committed · ${commitSha}` : "Committed";
+    case "applied-branch":
+      return commitSha ? `Committed to a branch · ${commitSha}` : "Committed to a branch";
+    case "rebased":
+      return commitSha ? `Rebased · ${commitSha}` : "Rebased";
+    case "reverted":
+      return commitSha ? `Reverted · ${commitSha}` : "Reverted";
     case "discarded":
       return commitSha ? `Discarded · ${commitSha}` : "Discarded";
     default:
@@ -1,4 +1,4 @@
-import type { AgentRole, AgentType } from "./domain";
+import type { AgentRole, AgentType, Priority } from "./domain";
 import type { ReviewOptions } from "./run";
 
 export type DefaultReview = { type: "uncommitted" } | { type: "base"; branch: string };
@@ -27,6 +27,19 @@ interface NonPiAgentSettings {
 }
 
 export type AgentSettings = PiAgentSettings | NonPiAgentSettings;
+export type ReviewerEnsemble = [AgentSettings, ...AgentSettings[]];
+export type ReviewerSettings = AgentSettings | ReviewerEnsemble;
+
+export function getReviewerSettingsList(reviewer: ReviewerSettings): ReviewerEnsemble {
+  return Array.isArray(reviewer) ? reviewer : [reviewer];
+}
+
+/**
+ * The first reviewer of an ensemble drives single-agent concerns such as display defaults.
+ */
+export function getPrimaryReviewerSettings(reviewer: ReviewerSettings): AgentSettings {
+  return getReviewerSettingsList(reviewer)[0];
+}
 export interface AgentOverrideSettings {
   agent?: AgentType;
   model?: string | null;
@@ -48,6 +61,43 @@ export interface NotificationsConfig {
   sound: SoundNotificationConfig;
 }
 
+export type PriorityConfidenceFloors = Partial<Record<Priority, number>>;
+
+export interface ReviewConfig {
+  dedupeThreshold?: number; // 0-1 similarity needed to merge a drifted duplicate finding
+  minConfidence?: number; // 0-1 confidence a finding needs to be persisted
+  minConfidenceByPriority?: PriorityConfidenceFloors; // Per-priority floors that replace minConfidence
+  include?: string[]; // Globs limiting which files are reviewed; rr run --path replaces them
+  exclude?: string[]; // Globs for files to skip; rr run --exclude adds to them
+  shardThreshold?: number; // Changed lines above which a --base review is split into shards
+  maxShards?: number; // Upper bound on concurrent reviewer shards; 1 disables sharding
+  fixConcurrency?: number; // Upper bound on concurrent fixers for rr fix --parallel
+}
+
+export interface VerifyConfig {
+  commands?: string[]; // Shell commands run in the fix worktree before and after each fixer
+}
+
+/** Spending limits for one session; agents that report no cost leave `maxCostUsd` unenforced. */
+export interface BudgetConfig {
+  maxCostUsd?: number; // Reported agent cost in USD across review, fix, and verification runs
+  maxTokens?: number; // Input, output, and cache tokens across all agent runs
+  maxWallTimeMs?: number; // Review wall time, and summed agent run time when projecting a fix
+}
+
+export type BudgetLimit = "cost" | "tokens" | "wall-time";
+
+/**
+ * A named review preset selected with `rr run --profile`. Agent and iteration settings
+ * overlay the base config like a repo-local override.
+ */
+export interface ReviewProfile {
+  reviewer?: AgentOverrideSettings | ReviewerEnsemble;
+  promptFile?: string; // Review guidelines file replacing the default, relative to the repo root
+  maxIterations?: number;
+  customInstructions?: string; // Used when rr run gets no positional instructions
+}
+
 export interface RetryOverrideConfig {
   maxRetries?: number;
   baseDelayMs?: number;
@@ -84,13 +134,17 @@ export const DEFAULT_NOTIFICATIONS_CONFIG: NotificationsConfig = {
 export interface Config {
   $schema: typeof CONFIG_SCHEMA_URI;
   version: typeof CONFIG_VERSION;
-  reviewer: AgentSettings;
+  reviewer: ReviewerSettings; // a list runs every reviewer in parallel each iteration
   fixer: AgentSettings;
   maxIterations: number;
   iterationTimeout: number; // in milliseconds
   retry?: RetryConfig; // Optional retry config, uses DEFAULT_RETRY_CONFIG if not set
   defaultReview: DefaultReview;
   notifications: NotificationsConfig;
+  review?: ReviewConfig;
+  verify?: VerifyConfig;
+  budget?: BudgetConfig;
+  profiles?: Record<string, ReviewProfile>;
 }
 
 /**
@@ -99,13 +153,17 @@ export interface Config {
 export interface ConfigOverride {
   $schema?: typeof CONFIG_SCHEMA_URI;
   version?: typeof CONFIG_VERSION;
-  reviewer?: AgentOverrideSettings;
+  reviewer?: AgentOverrideSettings | ReviewerEnsemble;
   fixer?: AgentOverrideSettings;
   maxIterations?: number;
   iterationTimeout?: number;
   retry?: RetryOverrideConfig | null;
   defaultReview?: DefaultReview;
   notifications?: NotificationsOverrideConfig;
+  review?: ReviewConfig;
+  verify?: VerifyConfig;
+  budget?: BudgetConfig;
+  profiles?: Record<string, ReviewProfile>; // Replaces global profiles with the same name
 }
 
 export interface AgentConfig {
@@ -1,10 +1,17 @@
 export type AgentType = "codex" | "claude" | "opencode" | "droid" | "gemini" | "pi";
 export type AgentRole = "reviewer" | "fixer";
 export type Priority = "P0" | "P1" | "P2" | "P3";
+export type FindingCategory =
+  | "correctness"
+  | "security"
+  | "performance"
+  | "reliability"
+  | "maintainability"
+  | "tests";
 export type FixDecision = "NO_CHANGES_NEEDED" | "APPLY_SELECTIVELY" | "APPLY_MOST";
 export type OverallCorrectness = "patch is correct" | "patch is incorrect";
 
-export type ReviewPhase = "review" | "selection" | "batch-fix" | "complete";
+export type ReviewPhase = "review" | "selection" | "batch-fix" | "verify" | "complete";
 
 export type SessionStatus = "running" | "pending-user" | "completed" | "failed" | "interrupted";
 
@@ -23,6 +30,16 @@ const VALID_AGENT_TYPES: readonly AgentType[] = [
 ];
 const VALID_AGENT_ROLES: readonly AgentRole[] = ["reviewer", "fixer"];
 export const VALID_PRIORITIES: readonly Priority[] = ["P0", "P1", "P2", "P3"];
+export const VALID_FINDING_CATEGORIES: readonly FindingCategory[] = [
+  "correctness",
+  "security",
+  "performance",
+  "reliability",
+  "maintainability",
+  "tests",
+];
+/** Used where a reviewer cannot report a category, such as Codex's plain-text review output. */
+export const DEFAULT_FINDING_CATEGORY: FindingCategory = "correctness";
 export const VALID_FIX_DECISIONS: readonly FixDecision[] = [
   "NO_CHANGES_NEEDED",
   "APPLY_SELECTIVELY",
@@ -40,3 +57,7 @@ export function isAgentType(value: unknown): value is AgentType {
 export function isAgentRole(value: unknown): value is AgentRole {
   return typeof value === "string" && VALID_AGENT_ROLES.includes(value as AgentRole);
 }
+
+export function isFindingCategory(value: unknown): value is FindingCategory {
+  return typeof value === "string" && VALID_FINDING_CATEGORIES.includes(value as FindingCategory);
+}
@@ -3,6 +3,11 @@ export type HandoffStatus =
   | "pending-apply"
   | "apply-conflicted"
   | "applied-manual"
+  | "applied-partial"
+  | "applied-commit"
+  | "applied-branch"
+  | "rebased"
+  | "reverted"
   | "discarded";
 
 export interface PendingHandoffArtifact {
@@ -20,4 +25,30 @@ export interface PendingHandoffArtifact {
   updatedAt: number;
   applyStartedAt?: number;
   applyStartFingerprint?: string;
+  /** HEAD when the conflicted apply started onto a clean working tree, so it can be undone. */
+  applyStartCommitSha?: string;
+  /** The `rr apply --select` subset of `patchPath` that an open apply conflict is applying. */
+  appliedPatchPath?: string;
+}
+
+/**
+ * An applied handoff. `rr apply --revert` backs out the ones applied to the working tree; committed
+ * ones are only recorded so the revert can point at the commit instead.
+ */
+export interface AppliedHandoffArtifact {
+  handoffId: string;
+  sessionId: string;
+  projectPath: string;
+  sourceRepoPath: string;
+  logPath: string;
+  /** Copy of the patch that was applied; reverting applies it in reverse. */
+  patchPath: string;
+  /** Working-tree fingerprint right after the apply. */
+  appliedFingerprint: string;
+  commitSha: string;
+  appliedAt: number;
+  /** Commit `rr apply --commit` or `--as-branch` created from the handoff. */
+  committedSha?: string;
+  /** Branch `rr apply --as-branch` created at `committedSha`. */
+  branch?: string;
 }
@@ -2,6 +2,8 @@ export {
   type AgentConfig,
   type AgentOverrideSettings,
   type AgentSettings,
+  type BudgetConfig,
+  type BudgetLimit,
   CONFIG_SCHEMA_URI,
   CONFIG_VERSION,
   type Config,
@@ -9,26 +11,38 @@ export {
   DEFAULT_NOTIFICATIONS_CONFIG,
   DEFAULT_RETRY_CONFIG,
   type DefaultReview,
+  getPrimaryReviewerSettings,
+  getReviewerSettingsList,
   isReasoningLevel,
   type NotificationsConfig,
   type NotificationsOverrideConfig,
+  type PriorityConfidenceFloors,
   type ReasoningLevel,
   type RetryConfig,
   type RetryOverrideConfig,
+  type ReviewConfig,
+  type ReviewerEnsemble,
+  type ReviewerSettings,
+  type ReviewProfile,
+  type VerifyConfig,
 } from "./config";
 export {
   type AgentRole,
   type AgentType,
+  DEFAULT_FINDING_CATEGORY,
   type DerivedRunStatus,
+  type FindingCategory,
   isAgentRole,
   isAgentType,
+  isFindingCategory,
   type Priority,
   type ReviewOutcome,
   type ReviewPhase,
   type SessionStatus,
+  VALID_FINDING_CATEGORIES,
 } from "./domain";
 export { type FixEntry, type FixSummary, isFixSummary, type SkippedEntry } from "./fix";
-export type { HandoffStatus, PendingHandoffArtifact } from "./handoff";
+export type { AppliedHandoffArtifact, HandoffStatus, PendingHandoffArtifact } from "./handoff";
 export type {
   HandoffEntry,
   IterationEntry,
@@ -36,6 +50,7 @@ export type {
   SessionEndEntry,
   SessionSummary,
   SystemEntry,
+  VerifyCommandResult,
 } from "./log";
 export {
   type Finding,
@@ -43,5 +58,5 @@ export {
   parseCodexReviewText,
   type ReviewSummary,
 } from "./review";
-export type { IterationResult, ReviewOptions, RunState } from "./run";
+export type { AgentUsage, IterationResult, ReviewOptions, RunState } from "./run";
 export type { ProjectStats, SessionStats } from "./stats";
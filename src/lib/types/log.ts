@@ -1,11 +1,17 @@
 import type {
+  FilteredFinding,
   FindingFixResult,
   FindingId,
+  FindingReviewerReport,
+  FixConflict,
+  MergedFindingAlias,
   StoredFinding,
+  SuppressedFinding,
 } from "@/lib/review-workflow/findings/types";
-import type { AgentSettings } from "./config";
+import type { AgentSettings, BudgetLimit } from "./config";
 import type {
   DerivedRunStatus,
+  FindingCategory,
   Priority,
   ReviewOutcome,
   ReviewPhase,
@@ -14,7 +20,7 @@ import type {
 import type { FixSummary } from "./fix";
 import type { HandoffStatus } from "./handoff";
 import type { CodexReviewSummary, ReviewSummary } from "./review";
-import type { IterationError, ReviewOptions } from "./run";
+import type { AgentUsage, IterationError, ReviewOptions } from "./run";
 
 export interface SystemEntry {
   type: "system";
@@ -25,6 +31,7 @@ export interface SystemEntry {
   worktreeProjectPath?: string;
   worktreeBranch?: string;
   reviewer: AgentSettings;
+  reviewers?: AgentSettings[];
   fixer: AgentSettings;
   maxIterations: number;
   reviewOptions?: ReviewOptions;
@@ -50,6 +57,8 @@ export interface SessionEndEntry {
   phase?: ReviewPhase;
   sessionStatus?: SessionStatus;
   reviewOutcome?: ReviewOutcome;
+  /** Budget limit that ended the review before its last iteration. */
+  budgetLimit?: BudgetLimit;
   handoffStatus?: HandoffStatus;
   handoffId?: string;
   handoffUpdatedAt?: number;
@@ -66,6 +75,8 @@ export interface HandoffEntry {
   handoffId?: string;
   handoffStatus: HandoffStatus;
   commitSha?: string;
+  /** Branch created by `rr apply --as-branch`. */
+  branch?: string;
 }
 
 export interface ReviewIterationEntry {
@@ -77,22 +88,83 @@ export interface ReviewIterationEntry {
   duration?: number;
   findings: StoredFinding[];
   netNewFindingIds: FindingId[];
+  suppressedFindings?: SuppressedFinding[];
+  filteredFindings?: FilteredFinding[];
+  mergedAliases?: MergedFindingAlias[];
+  reviewerReports?: FindingReviewerReport[];
+  /** Summed over every reviewer run of the iteration, retries included. */
+  usage?: AgentUsage;
+  /** Reviewer agents the iteration ran across ensemble reviewers, shards, and commits; omitted when one. */
+  reviewerRuns?: number;
   error?: IterationError;
 }
 
 export interface FindingSelectionEntry {
   type: "finding_selection";
   timestamp: number;
-  selectionMode: "all" | "priority" | "id";
+  selectionMode: "all" | "priority" | "id" | "where";
+  /** The `--where` expression, recorded for `where` selections. */
+  expression?: string;
   selectedFindingIds: FindingId[];
 }
 
+/** One `verify.commands` run in the fix worktree, with its combined output. */
+export interface VerifyCommandResult {
+  command: string;
+  exitCode: number;
+  output: string;
+}
+
 export interface BatchFixEntry {
   type: "batch_fix";
   timestamp: number;
   duration?: number;
   selectedFindingIds: FindingId[];
   fixResults: FindingFixResult[];
+  /** `verify.commands` results from before and after the fixer ran. */
+  verifyCommands?: {
+    before: VerifyCommandResult[];
+    after: VerifyCommandResult[];
+  };
+  usage?: AgentUsage;
+  error?: IterationError;
+}
+
+/**
+ * Parallel fixes dropped while combining worker changes. `fixResults` replaces the results their
+ * `batch_fix` entries reported as resolved.
+ */
+export interface FixConflictEntry {
+  type: "fix_conflict";
+  timestamp: number;
+  conflicts: FixConflict[];
+  fixResults: FindingFixResult[];
+}
+
+/**
+ * `verify.commands` run once on the combined changes of parallel fixes. `fixResults` replaces the
+ * results their `batch_fix` entries reported as resolved.
+ */
+export interface FixVerifyEntry {
+  type: "fix_verify";
+  timestamp: number;
+  verifyCommands: {
+    before: VerifyCommandResult[];
+    after: VerifyCommandResult[];
+  };
+  fixResults: FindingFixResult[];
+}
+
+/**
+ * A review of the fixer's diff after a batch fix. `findings` holds only the regressions it raised.
+ */
+export interface VerificationReviewEntry {
+  type: "verification_review";
+  timestamp: number;
+  round: number;
+  duration?: number;
+  findings: StoredFinding[];
+  usage?: AgentUsage;
   error?: IterationError;
 }
 
@@ -116,7 +188,11 @@ export interface SessionSummary {
   totalFixes: number;
   totalSkipped: number;
   priorityCounts: Record<Priority, number>;
+  /** Missing from summaries written before findings carried a category. */
+  categoryCounts?: Record<FindingCategory, number>;
   totalDuration?: number;
+  /** Agent usage summed over the session's review, fix, and verification runs. */
+  usage?: AgentUsage;
   reviewOutcome?: ReviewOutcome;
   handoffStatus?: HandoffStatus;
   handoffId?: string;
@@ -136,5 +212,8 @@ export type LogEntry =
   | ReviewIterationEntry
   | FindingSelectionEntry
   | BatchFixEntry
+  | FixConflictEntry
+  | FixVerifyEntry
+  | VerificationReviewEntry
   | SessionEndEntry
   | HandoffEntry;
@@ -1,5 +1,5 @@
-import type { OverallCorrectness } from "./domain";
-import { VALID_OVERALL_CORRECTNESS } from "./domain";
+import type { FindingCategory, OverallCorrectness } from "./domain";
+import { DEFAULT_FINDING_CATEGORY, isFindingCategory, VALID_OVERALL_CORRECTNESS } from "./domain";
 import { asRecord, isCodeLocation } from "./guards";
 
 export interface LineRange {
@@ -17,6 +17,7 @@ export interface Finding {
   body: string;
   confidence_score: number;
   priority?: number;
+  category: FindingCategory;
   code_location: CodeLocation;
 }
 
@@ -58,6 +59,10 @@ function isFinding(value: unknown): value is Finding {
     return false;
   }
 
+  if (!isFindingCategory(obj.category)) {
+    return false;
+  }
+
   if (!isCodeLocation(obj.code_location)) {
     return false;
   }
@@ -231,6 +236,7 @@ export function parseCodexReviewText(text: string): ReviewSummary | null {
         body,
         confidence_score: DEFAULT_CODEX_CONFIDENCE,
         priority: header.priority,
+        category: DEFAULT_FINDING_CATEGORY,
         code_location: {
           absolute_file_path: header.absolute_file_path,
           line_range: {
@@ -8,11 +8,25 @@ export interface RunState {
   lastOutput?: string;
 }
 
+/**
+ * Token counts and cost an agent reported for one or more runs. Input tokens exclude cache reads
+ * and writes. `costUsd` is missing when no run reported a cost.
+ */
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd?: number;
+}
+
 export interface IterationResult {
   success: boolean;
   output: string;
   exitCode: number;
   duration: number; // in milliseconds
+  /** Missing when the agent's output carries no usage. */
+  usage?: AgentUsage;
 }
 
 export interface IterationError {
@@ -24,6 +38,22 @@ export interface IterationError {
 export interface ReviewOptions {
   baseBranch?: string;
   commitSha?: string;
+  /** `from..to` commit SHAs, pinned when the run starts. */
+  range?: string;
+  /** Review each commit of the base branch diff or range separately. */
+  eachCommit?: boolean;
+  /** Absolute path of a patch file reviewed instead of the working tree. */
+  patchFile?: string;
+  /** Stash commit SHA reviewed instead of the working tree, pinned when the run starts. */
+  stash?: string;
   customInstructions?: string;
   forceMaxIterations?: boolean;
+  /** Globs limiting which files are reviewed; empty means every changed file. */
+  include?: string[];
+  /** Globs for files to skip even when they match `include`. */
+  exclude?: string[];
+  /** Name of the config profile the run was started with. */
+  profile?: string;
+  /** Absolute path of review guidelines replacing the built-in defaults. */
+  promptFile?: string;
 }
@@ -2,6 +2,7 @@ import type { ReasoningLevel } from "./config";
 import type {
   AgentType,
   DerivedRunStatus,
+  FindingCategory,
   Priority,
   ReviewOutcome,
   ReviewPhase,
@@ -9,6 +10,7 @@ import type {
 } from "./domain";
 import type { HandoffStatus } from "./handoff";
 import type { LogEntry } from "./log";
+import type { AgentUsage } from "./run";
 
 export interface SessionStats {
   sessionPath: string;
@@ -29,8 +31,10 @@ export interface SessionStats {
   totalFixes: number;
   totalSkipped: number;
   priorityCounts: Record<Priority, number>;
+  categoryCounts: Record<FindingCategory, number>;
   iterations: number;
   totalDuration?: number;
+  usage?: AgentUsage;
   entries: LogEntry[];
   reviewer: AgentType;
   reviewerModel: string;
@@ -54,6 +58,7 @@ export interface ProjectStats {
   totalFixes: number;
   totalSkipped: number;
   priorityCounts: Record<Priority, number>;
+  categoryCounts: Record<FindingCategory, number>;
   sessionCount: number;
   averageIterations: number;
   fixRate: number;
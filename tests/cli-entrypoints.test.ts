@@ -85,6 +85,9 @@ function createCliHarness(overrides: Partial<CliDeps> = {}): CliHarness {
     runApply: async (argv) => {
       calls.push(`apply:${argv.join(",")}`);
     },
+    runHandoff: async (argv) => {
+      calls.push(`handoff:${argv.join(",")}`);
+    },
     runFix: async (argv = []) => {
       calls.push(`fix:${argv.join(",")}`);
     },
@@ -103,6 +106,18 @@ function createCliHarness(overrides: Partial<CliDeps> = {}): CliHarness {
     runLog: async (argv) => {
       calls.push(`log:${argv.join(",")}`);
     },
+    runExport: async (argv) => {
+      calls.push(`export:${argv.join(",")}`);
+    },
+    runSuppress: async (argv) => {
+      calls.push(`suppress:${argv.join(",")}`);
+    },
+    runTriage: async (argv) => {
+      calls.push(`triage:${argv.join(",")}`);
+    },
+    runSuggest: async (argv) => {
+      calls.push(`suggest:${argv.join(",")}`);
+    },
     runPrune: async (argv) => {
       calls.push(`prune:${argv.join(",")}`);
     },
@@ -319,6 +334,11 @@ describe("cli entrypoints", () => {
         args: ["--session", "session-1"],
         expectedCall: "apply:--session,session-1",
       },
+      {
+        command: "handoff",
+        args: ["show", "--json"],
+        expectedCall: "handoff:show,--json",
+      },
       {
         command: "prune",
         args: ["--discard", "--session", "session-2"],
@@ -327,6 +347,26 @@ describe("cli entrypoints", () => {
       { command: "_run-foreground", args: ["--max", "1"], expectedCall: "_run-foreground:--max,1" },
       { command: "stop", args: ["--all"], expectedCall: "stop:--all" },
       { command: "log", args: ["--json"], expectedCall: "log:--json" },
+      {
+        command: "export",
+        args: ["--session", "session-1", "--format", "sarif"],
+        expectedCall: "export:--session,session-1,--format,sarif",
+      },
+      {
+        command: "suppress",
+        args: ["--session", "session-1", "--id", "F003", "--reason", "noise"],
+        expectedCall: "suppress:--session,session-1,--id,F003,--reason,noise",
+      },
+      {
+        command: "triage",
+        args: ["--session", "session-1", "F003", "--wont-fix", "later"],
+        expectedCall: "triage:--session,session-1,F003,--wont-fix,later",
+      },
+      {
+        command: "suggest",
+        args: ["apply", "--session", "session-1", "--id", "F004"],
+        expectedCall: "suggest:apply,--session,session-1,--id,F004",
+      },
       { command: "doctor", args: ["--fix"], expectedCall: "doctor:--fix" },
       { command: "update", args: ["--check"], expectedCall: "update:--check" },
     ] as const;
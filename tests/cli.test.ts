@@ -110,6 +110,10 @@ describe("cli", () => {
       expect(names).toContain("list");
       expect(names).toContain("stop");
       expect(names).toContain("log");
+      expect(names).toContain("export");
+      expect(names).toContain("suppress");
+      expect(names).toContain("triage");
+      expect(names).toContain("suggest");
       expect(names).toContain("doctor");
       expect(names).toContain("update");
       expect(names).toContain("_run-foreground");
@@ -184,7 +188,7 @@ describe("cli", () => {
       expect(optionNames).toContain("manager");
     });
 
-    test("config and run commands define positional args", () => {
+    test("config, run, triage, suggest, and handoff commands define positional args", () => {
       const publicCommands = COMMANDS.filter((c) => !c.hidden);
       for (const cmd of publicCommands) {
         if (cmd.name === "config") {
@@ -202,6 +206,30 @@ describe("cli", () => {
           continue;
         }
 
+        if (cmd.name === "triage") {
+          expect(cmd.positional).toEqual([
+            { name: "finding", description: "Finding ID to triage", required: true },
+          ]);
+          continue;
+        }
+
+        if (cmd.name === "suggest") {
+          expect(cmd.positional).toEqual([
+            { name: "subcommand", description: "apply = apply the finding's suggestion block" },
+          ]);
+          continue;
+        }
+
+        if (cmd.name === "handoff") {
+          expect(cmd.positional).toEqual([
+            {
+              name: "subcommand",
+              description: "show = print the handoff diffstat, diff, and findings",
+            },
+          ]);
+          continue;
+        }
+
         expect(cmd.positional).toBeUndefined();
       }
     });
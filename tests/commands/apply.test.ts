@@ -1,10 +1,23 @@
 import { describe, expect, test } from "bun:test";
 import { getCommandDef } from "@/cli";
 import type { ApplyDeps } from "@/commands/apply";
-import type { PendingHandoffArtifact } from "@/lib/handoff";
+import type {
+  AppliedHandoffArtifact,
+  CommitHandoffOptions,
+  PendingHandoffArtifact,
+  RebasedHandoff,
+} from "@/lib/handoff";
+import type { FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import type { ResolveHandoffConflictsOptions } from "@/lib/review-workflow/remediation/resolve-handoff-conflicts";
 import type { LogEntry } from "@/lib/types";
 import { captureExitCode, createPromptLogCapture, withStdoutTTY } from "../helpers/capture";
-import { createPendingHandoff } from "../helpers/review-workflow";
+import {
+  createFindingsArtifact,
+  createPendingHandoff,
+  createReviewWorkflowConfig,
+  createSessionWorktree,
+  createStoredFinding,
+} from "../helpers/review-workflow";
 
 interface ApplyHarnessOptions {
   handoffs?: PendingHandoffArtifact[];
@@ -12,11 +25,23 @@ interface ApplyHarnessOptions {
   isTTY?: boolean;
   selectValues?: unknown[];
   applyError?: Error;
+  findingsArtifact?: FindingsArtifact | null;
+  patch?: string;
+  /** Conflicted paths the rebase hands to the resolver; omit for a clean replay. */
+  rebaseConflicts?: string[];
+  rebaseResult?: Pick<RebasedHandoff, "handoff">;
+  appliedHandoffs?: AppliedHandoffArtifact[];
+  revertConflicts?: string[];
 }
 
 interface ApplyHarnessResult {
   listPendingCalls: string[];
   applyCalls: Array<{ projectPath: string; sessionId: string }>;
+  commitCalls: Array<{ handoffId: string; options: CommitHandoffOptions }>;
+  selectionCalls: Array<{ handoffId: string; patch: string }>;
+  rebaseCalls: string[];
+  resolveCalls: ResolveHandoffConflictsOptions[];
+  revertCalls: string[];
   appendCalls: Array<{ logPath: string; entry: LogEntry }>;
   infos: string[];
   errors: string[];
@@ -34,6 +59,11 @@ async function runApplyWithHarness(
   const handoffs = options.handoffs ?? [];
   const listPendingCalls: string[] = [];
   const applyCalls: Array<{ projectPath: string; sessionId: string }> = [];
+  const commitCalls: Array<{ handoffId: string; options: CommitHandoffOptions }> = [];
+  const selectionCalls: Array<{ handoffId: string; patch: string }> = [];
+  const rebaseCalls: string[] = [];
+  const resolveCalls: ResolveHandoffConflictsOptions[] = [];
+  const revertCalls: string[] = [];
   const appendCalls: Array<{ logPath: string; entry: LogEntry }> = [];
   const prompts = createPromptLogCapture(options.selectValues);
 
@@ -61,12 +91,82 @@ async function runApplyWithHarness(
 
       return matched;
     },
+    commitPendingHandoff: async (_storageRoot, _projectPath, handoffId, commitOptions) => {
+      commitCalls.push({ handoffId, options: commitOptions });
+      if (options.applyError) {
+        throw options.applyError;
+      }
+
+      const matched = handoffs.find((handoff) => handoff.handoffId === handoffId);
+      if (!matched) {
+        throw new Error(`Unknown handoff ${handoffId}`);
+      }
+
+      return { artifact: matched, commitSha: "abcdef1234567890", branch: commitOptions.branch };
+    },
+    loadFindingsArtifact: async () => options.findingsArtifact ?? null,
+    readHandoffPatch: async () => options.patch ?? "",
+    applyPendingHandoffSelection: async (_storageRoot, _projectPath, handoffId, patch) => {
+      selectionCalls.push({ handoffId, patch });
+      const matched = handoffs.find((handoff) => handoff.handoffId === handoffId);
+      if (!matched) {
+        throw new Error(`Unknown handoff ${handoffId}`);
+      }
+
+      return matched;
+    },
+    rebasePendingHandoff: async (_storageRoot, _projectPath, handoffId, resolveConflicts) => {
+      rebaseCalls.push(handoffId);
+      if (options.applyError) {
+        throw options.applyError;
+      }
+
+      const matched = handoffs.find((handoff) => handoff.handoffId === handoffId);
+      if (!matched) {
+        throw new Error(`Unknown handoff ${handoffId}`);
+      }
+
+      const conflictedPaths = options.rebaseConflicts ?? [];
+      if (conflictedPaths.length > 0) {
+        await resolveConflicts({ worktree: createSessionWorktree(), paths: conflictedPaths });
+      }
+      return {
+        previous: matched,
+        handoff: {
+          handoffId: "session-id-handoff-rebased",
+          handoffStatus: "pending-apply",
+          commitSha: "rebased-sha",
+          handoffUpdatedAt: 1,
+        },
+        conflictedPaths,
+        ...options.rebaseResult,
+      };
+    },
+    resolveHandoffConflicts: async (resolveOptions) => {
+      resolveCalls.push(resolveOptions);
+    },
+    loadConfig: async () => createReviewWorkflowConfig(),
+    listProjectAppliedHandoffs: async () => options.appliedHandoffs ?? [],
+    revertAppliedHandoff: async (_storageRoot, _projectPath, handoffId) => {
+      revertCalls.push(handoffId);
+      if (options.applyError) {
+        throw options.applyError;
+      }
+
+      const matched = options.appliedHandoffs?.find((handoff) => handoff.handoffId === handoffId);
+      if (!matched) {
+        throw new Error(`Unknown handoff ${handoffId}`);
+      }
+
+      return { artifact: matched, conflictedPaths: options.revertConflicts ?? [] };
+    },
     appendLog: async (logPath, entry) => {
       appendCalls.push({ logPath, entry });
     },
     logInfo: prompts.module.log.info,
     logError: prompts.module.log.error,
     logStep: prompts.module.log.step,
+    logMessage: prompts.module.log.message,
     logSuccess: prompts.module.log.success,
     exit: (code) => process.exit(code),
     isTTY: () => process.stdout.isTTY === true,
@@ -84,6 +184,11 @@ async function runApplyWithHarness(
   return {
     listPendingCalls,
     applyCalls,
+    commitCalls,
+    selectionCalls,
+    rebaseCalls,
+    resolveCalls,
+    revertCalls,
     appendCalls,
     infos: prompts.infos,
     errors: prompts.errors,
@@ -248,4 +353,335 @@ describe("apply command", () => {
     ]);
     expect(result.exitCode).toBe(1);
   });
+
+  test("commits the handoff onto a new branch with a message listing resolved findings", async () => {
+    const findingsArtifact = createFindingsArtifact([
+      createStoredFinding("F001"),
+      createStoredFinding("F002"),
+      createStoredFinding("F003"),
+    ]);
+    findingsArtifact.fixResults = [
+      { findingId: "F001", status: "resolved", summary: "Fixed" },
+      { findingId: "F002", status: "skipped", summary: "SKIP: not a bug" },
+      { findingId: "F003", status: "resolved", summary: "Fixed" },
+    ];
+
+    const result = await runApplyWithHarness(["--as-branch", "rr/fix-session-id"], {
+      handoffs: [createPendingHandoff()],
+      findingsArtifact,
+    });
+
+    expect(result.applyCalls).toEqual([]);
+    expect(result.commitCalls).toEqual([
+      {
+        handoffId: "session-id",
+        options: {
+          branch: "rr/fix-session-id",
+          message: [
+            "rr: fix review findings F001, F003",
+            "",
+            "- F001 [P1] Finding F001",
+            "- F003 [P1] Finding F003",
+            "",
+            "Review session: session-id",
+            "",
+          ].join("\n"),
+        },
+      },
+    ]);
+    expect(result.appendCalls[0]?.entry).toMatchObject({
+      type: "handoff",
+      handoffStatus: "applied-branch",
+      commitSha: "abcdef1234567890",
+      branch: "rr/fix-session-id",
+    });
+    expect(result.successes).toEqual([
+      "Review handoff committed to branch rr/fix-session-id (abcdef1).",
+    ]);
+  });
+
+  test("commits the handoff on top of HEAD with --commit", async () => {
+    const result = await runApplyWithHarness(["--commit"], {
+      handoffs: [createPendingHandoff()],
+    });
+
+    expect(result.commitCalls).toEqual([
+      {
+        handoffId: "session-id",
+        options: {
+          branch: undefined,
+          message: "rr: apply review fixes\n\nReview session: session-id\n",
+        },
+      },
+    ]);
+    expect(result.appendCalls[0]?.entry).toMatchObject({
+      handoffStatus: "applied-commit",
+      commitSha: "abcdef1234567890",
+    });
+    expect(result.appendCalls[0]?.entry).not.toHaveProperty("branch");
+    expect(result.successes).toEqual(["Review handoff committed as abcdef1."]);
+  });
+
+  test("reports commit failures without logging the handoff as applied", async () => {
+    const result = await runApplyWithHarness(["--commit"], {
+      handoffs: [createPendingHandoff()],
+      applyError: new Error("Handoff patch does not apply to HEAD: patch failed"),
+    });
+
+    expect(result.errors).toEqual(["Error: Handoff patch does not apply to HEAD: patch failed"]);
+    expect(result.appendCalls).toEqual([]);
+    expect(result.exitCode).toBe(1);
+  });
+
+  test("rejects --as-branch combined with --commit", async () => {
+    const result = await runApplyWithHarness(["--as-branch", "rr/fix", "--commit"], {
+      handoffs: [createPendingHandoff()],
+    });
+
+    expect(result.errors).toEqual(["Use either --as-branch or --commit, not both."]);
+    expect(result.listPendingCalls).toEqual([]);
+    expect(result.exitCode).toBe(1);
+  });
+
+  describe("--rebase", () => {
+    test("replays the handoff as a new pending handoff and records both", async () => {
+      const result = await runApplyWithHarness(["--rebase"], {
+        handoffs: [createPendingHandoff()],
+      });
+
+      expect(result.rebaseCalls).toEqual(["session-id"]);
+      expect(result.resolveCalls).toEqual([]);
+      expect(result.applyCalls).toEqual([]);
+      expect(result.steps).toEqual(["Rebasing handoff: session-id"]);
+      expect(result.appendCalls.map((call) => call.entry)).toMatchObject([
+        { type: "handoff", handoffId: "session-id", handoffStatus: "rebased" },
+        {
+          type: "handoff",
+          handoffId: "session-id-handoff-rebased",
+          handoffStatus: "pending-apply",
+          commitSha: "rebased-sha",
+        },
+      ]);
+      expect(result.successes).toEqual(["Review handoff rebased as session-id-handoff-rebased."]);
+      expect(result.infos).toEqual([
+        "Preview: rr handoff show --session session-id-handoff-rebased\nApply: rr apply --session session-id-handoff-rebased",
+      ]);
+    });
+
+    test("asks the fixer to resolve conflicts with the handoff's resolved findings", async () => {
+      const findingsArtifact = createFindingsArtifact([
+        createStoredFinding("F001"),
+        createStoredFinding("F002"),
+      ]);
+      findingsArtifact.fixResults = [
+        { findingId: "F001", status: "resolved", summary: "Fixed" },
+        { findingId: "F002", status: "skipped", summary: "SKIP: not a bug" },
+      ];
+
+      const result = await runApplyWithHarness(["--rebase"], {
+        handoffs: [createPendingHandoff()],
+        findingsArtifact,
+        rebaseConflicts: ["src/file-F001.ts"],
+      });
+
+      expect(result.resolveCalls).toHaveLength(1);
+      expect(result.resolveCalls[0]?.conflictedPaths).toEqual(["src/file-F001.ts"]);
+      expect(result.resolveCalls[0]?.findings.map((finding) => finding.id)).toEqual(["F001"]);
+      expect(result.steps).toContain("Resolving conflicts with the fixer: src/file-F001.ts");
+      expect(result.successes).toEqual([
+        "Review handoff rebased as session-id-handoff-rebased; the fixer resolved conflicts in src/file-F001.ts.",
+      ]);
+    });
+
+    test("reports when the working tree already has every change", async () => {
+      const result = await runApplyWithHarness(["--rebase"], {
+        handoffs: [createPendingHandoff()],
+        rebaseResult: { handoff: null },
+      });
+
+      expect(result.appendCalls).toHaveLength(1);
+      expect(result.appendCalls[0]?.entry).toMatchObject({ handoffStatus: "rebased" });
+      expect(result.successes).toEqual([
+        "The working tree already contains every change in this handoff; it was removed.",
+      ]);
+    });
+
+    test("reports rebase failures without logging the handoff", async () => {
+      const result = await runApplyWithHarness(["--rebase"], {
+        handoffs: [createPendingHandoff()],
+        applyError: new Error("Conflicts remain in app.txt after the fixer ran"),
+      });
+
+      expect(result.errors).toEqual(["Error: Conflicts remain in app.txt after the fixer ran"]);
+      expect(result.appendCalls).toEqual([]);
+      expect(result.exitCode).toBe(1);
+    });
+
+    test("cannot be combined with other apply modes", async () => {
+      const result = await runApplyWithHarness(["--rebase", "--commit"], {
+        handoffs: [createPendingHandoff()],
+      });
+
+      expect(result.errors).toEqual([
+        "--rebase cannot be combined with --as-branch, --commit, or --select.",
+      ]);
+      expect(result.listPendingCalls).toEqual([]);
+      expect(result.exitCode).toBe(1);
+    });
+  });
+
+  describe("--revert", () => {
+    function createAppliedHandoff(handoffId: string): AppliedHandoffArtifact {
+      return {
+        handoffId,
+        sessionId: "session-id",
+        projectPath: process.cwd(),
+        sourceRepoPath: process.cwd(),
+        logPath: `${process.cwd()}/.ralph-review/logs/session.jsonl`,
+        patchPath: `${process.cwd()}/.ralph-review/handoffs/applied/${handoffId}.patch`,
+        appliedFingerprint: "fingerprint-2",
+        commitSha: "commit-sha-1",
+        appliedAt: 1,
+      };
+    }
+
+    test("reverts the selected applied handoff and records it", async () => {
+      const result = await runApplyWithHarness(["--revert", "session-id-handoff-b"], {
+        appliedHandoffs: [
+          createAppliedHandoff("session-id-handoff-a"),
+          createAppliedHandoff("session-id-handoff-b"),
+        ],
+      });
+
+      expect(result.listPendingCalls).toEqual([]);
+      expect(result.revertCalls).toEqual(["session-id-handoff-b"]);
+      expect(result.steps).toEqual(["Reverting handoff: session-id-handoff-b"]);
+      expect(result.appendCalls[0]?.entry).toMatchObject({
+        type: "handoff",
+        handoffId: "session-id-handoff-b",
+        handoffStatus: "reverted",
+        commitSha: "commit-sha-1",
+      });
+      expect(result.successes).toEqual(["Review handoff reverted."]);
+    });
+
+    test("reports files left with conflict markers", async () => {
+      const result = await runApplyWithHarness(["--revert", "session-id-handoff-a"], {
+        appliedHandoffs: [createAppliedHandoff("session-id-handoff-a")],
+        revertConflicts: ["src/app.ts"],
+      });
+
+      expect(result.appendCalls[0]?.entry).toMatchObject({ handoffStatus: "reverted" });
+      expect(result.infos).toEqual([
+        "Review handoff reverted with conflicts in src/app.ts. Resolve the conflict markers in those files.",
+      ]);
+      expect(result.successes).toEqual([]);
+    });
+
+    test("rejects a selector that matches no applied handoff", async () => {
+      const result = await runApplyWithHarness(["--revert", "other"], {
+        appliedHandoffs: [createAppliedHandoff("session-id-handoff-a")],
+      });
+
+      expect(result.errors).toEqual([
+        'No applied review handoff matches "other" in the current project.',
+      ]);
+      expect(result.revertCalls).toEqual([]);
+      expect(result.exitCode).toBe(1);
+    });
+
+    test("reports when nothing has been applied", async () => {
+      const result = await runApplyWithHarness(["--revert", "session-id"]);
+
+      expect(result.infos).toEqual([
+        "No applied review handoffs to revert for current working directory.",
+      ]);
+      expect(result.revertCalls).toEqual([]);
+    });
+
+    test("cannot be combined with other apply options", async () => {
+      const result = await runApplyWithHarness(["--revert", "session-id", "--commit"]);
+
+      expect(result.errors).toEqual(["--revert cannot be combined with other rr apply options."]);
+      expect(result.exitCode).toBe(1);
+    });
+  });
+
+  describe("--select", () => {
+    const patch = `diff --git a/src/file-F001.ts b/src/file-F001.ts
+index 1111111..2222222 100644
+--- a/src/file-F001.ts
++++ b/src/file-F001.ts
+@@ -10,2 +10,2 @@
+-  return cache.get(key);
++  return cache.get(key) ?? load(key);
+   }
+@@ -40,2 +40,2 @@
+-  log("saved");
++  console.log("saved");
+   }
+`;
+
+    test("applies only the kept hunks and records a partial apply", async () => {
+      const findingsArtifact = createFindingsArtifact([createStoredFinding("F001")]);
+      findingsArtifact.fixResults = [{ findingId: "F001", status: "resolved", summary: "Fixed" }];
+
+      const result = await runApplyWithHarness(["--select"], {
+        handoffs: [createPendingHandoff()],
+        findingsArtifact,
+        patch,
+        selectValues: ["keep", "drop"],
+      });
+
+      expect(result.messages[0]).toStartWith("src/file-F001.ts (1/2)\n@@ -10,2 +10,2 @@");
+      expect(result.selectMessages[0]).toBe("Related findings: F001 Finding F001");
+      expect(result.selectionCalls).toEqual([
+        {
+          handoffId: "session-id",
+          patch: patch.split("@@ -40,2")[0] ?? "",
+        },
+      ]);
+      expect(result.applyCalls).toEqual([]);
+      expect(result.appendCalls[0]?.entry).toMatchObject({
+        type: "handoff",
+        handoffStatus: "applied-partial",
+        commitSha: "commit-sha-1",
+      });
+      expect(result.successes).toEqual(["Applied 1 of 2 handoff changes."]);
+    });
+
+    test("applies the whole handoff when every change is kept", async () => {
+      const result = await runApplyWithHarness(["--select"], {
+        handoffs: [createPendingHandoff()],
+        patch,
+        selectValues: ["keep", "keep"],
+      });
+
+      expect(result.selectionCalls).toEqual([]);
+      expect(result.applyCalls).toHaveLength(1);
+      expect(result.appendCalls[0]?.entry).toMatchObject({ handoffStatus: "applied-manual" });
+    });
+
+    test("leaves the handoff pending when every change is dropped", async () => {
+      const result = await runApplyWithHarness(["--select"], {
+        handoffs: [createPendingHandoff()],
+        patch,
+        selectValues: ["drop", "drop"],
+      });
+
+      expect(result.selectionCalls).toEqual([]);
+      expect(result.applyCalls).toEqual([]);
+      expect(result.infos).toEqual(["No changes kept; the handoff is still pending."]);
+    });
+
+    test("requires an interactive terminal", async () => {
+      const result = await runApplyWithHarness(["--select"], {
+        handoffs: [createPendingHandoff()],
+        isTTY: false,
+      });
+
+      expect(result.errors).toEqual(["rr apply --select needs an interactive terminal."]);
+      expect(result.exitCode).toBe(1);
+    });
+  });
 });
@@ -18,6 +18,7 @@ import {
   type Config,
   type ConfigOverride,
   DEFAULT_RETRY_CONFIG,
+  getPrimaryReviewerSettings,
 } from "@/lib/types";
 
 const baseConfig: Config = {
@@ -117,6 +118,7 @@ function createCommandHarness(overrides?: Partial<ConfigCommandDeps>): CommandHa
     buildConfigOverride: (_baseConfig, config) => ({
       maxIterations: config.maxIterations,
     }),
+    loadReviewGuidelinesOverrides: async () => [],
     spawn: ((command, options) => {
       spawnCalls.push({ command, options });
       return { exited: Promise.resolve(0) };
@@ -341,6 +343,33 @@ describe("config command helpers", () => {
       expect(parseConfigValue("notifications.sound.enabled", "false")).toBe(false);
     });
 
+    test("parses review.dedupeThreshold between 0 and 1", () => {
+      expect(parseConfigValue("review.dedupeThreshold", "0.75")).toBe(0.75);
+      expect(() => parseConfigValue("review.dedupeThreshold", "1.2")).toThrow(
+        "must be a number between 0 and 1"
+      );
+      expect(() => parseConfigValue("review.dedupeThreshold", "high")).toThrow(
+        "must be a number between 0 and 1"
+      );
+    });
+
+    test("parses confidence floors between 0 and 1", () => {
+      expect(parseConfigValue("review.minConfidence", "0.6")).toBe(0.6);
+      expect(parseConfigValue("review.minConfidenceByPriority.P3", "0.8")).toBe(0.8);
+      expect(() => parseConfigValue("review.minConfidenceByPriority.P3", "1.1")).toThrow(
+        "must be a number between 0 and 1"
+      );
+    });
+
+    test("parses positive review shard and fix concurrency limits", () => {
+      expect(parseConfigValue("review.shardThreshold", "800")).toBe(800);
+      expect(parseConfigValue("review.maxShards", "1")).toBe(1);
+      expect(parseConfigValue("review.fixConcurrency", "2")).toBe(2);
+      expect(() => parseConfigValue("review.maxShards", "0")).toThrow(
+        "must be greater than or equal to 1"
+      );
+    });
+
     test("rejects invalid boolean strings", () => {
       expect(() => parseConfigValue("notifications.sound.enabled", "yes")).toThrow(
         'must be "true" or "false"'
@@ -437,11 +466,13 @@ describe("config command helpers", () => {
         reasoning: "high",
       };
 
-      const updated = setConfigValue(config, "reviewer.agent", "codex");
-      expect(updated.reviewer.agent).toBe("codex");
-      expect(updated.reviewer.model).toBe("claude-sonnet-4-5");
-      expect(updated.reviewer.reasoning).toBe("high");
-      expect("provider" in updated.reviewer).toBe(false);
+      const updated = getPrimaryReviewerSettings(
+        setConfigValue(config, "reviewer.agent", "codex").reviewer
+      );
+      expect(updated.agent).toBe("codex");
+      expect(updated.model).toBe("claude-sonnet-4-5");
+      expect(updated.reasoning).toBe("high");
+      expect("provider" in updated).toBe(false);
     });
 
     test("updates non-pi agent while preserving existing non-provider fields", () => {
@@ -496,10 +527,12 @@ describe("config command helpers", () => {
         provider: "anthropic",
         model: "claude-sonnet-4-5",
       };
-      const updated = setConfigValue(config, "reviewer.provider", "llm-proxy");
-      expect(updated.reviewer.agent).toBe("pi");
-      if (updated.reviewer.agent === "pi") {
-        expect(updated.reviewer.provider).toBe("llm-proxy");
+      const updated = getPrimaryReviewerSettings(
+        setConfigValue(config, "reviewer.provider", "llm-proxy").reviewer
+      );
+      expect(updated.agent).toBe("pi");
+      if (updated.agent === "pi") {
+        expect(updated.provider).toBe("llm-proxy");
       }
     });
 
@@ -549,12 +582,24 @@ describe("config command helpers", () => {
         reasoning: "high",
       };
 
-      const updated = setConfigValue(config, "reviewer.model", null);
+      const updated = getPrimaryReviewerSettings(
+        setConfigValue(config, "reviewer.model", null).reviewer
+      );
 
-      expect(updated.reviewer.agent).toBe("codex");
-      expect(updated.reviewer.model).toBeUndefined();
-      expect("model" in updated.reviewer).toBe(false);
-      expect(updated.reviewer.reasoning).toBe("high");
+      expect(updated.agent).toBe("codex");
+      expect(updated.model).toBeUndefined();
+      expect("model" in updated).toBe(false);
+      expect(updated.reasoning).toBe("high");
+    });
+
+    test("rejects role updates when the reviewer is an ensemble", () => {
+      const config = createBaseConfig();
+      config.reviewer = [{ agent: "codex" }, { agent: "claude" }];
+
+      expect(() => setConfigValue(config, "reviewer.model", "gpt-5.4")).toThrow(
+        '"reviewer" is configured as a list of 2 agents. Edit the list in the config file directly.'
+      );
+      expect(getConfigValue(config, "reviewer.agent")).toBe("codex");
     });
 
     test("validates model updates", () => {
@@ -574,10 +619,10 @@ describe("config command helpers", () => {
 
     test("handles reasoning updates for pi and non-pi roles", () => {
       const nonPiDeleted = setConfigValue(createBaseConfig(), "reviewer.reasoning", null);
-      expect(nonPiDeleted.reviewer.reasoning).toBeUndefined();
+      expect(getPrimaryReviewerSettings(nonPiDeleted.reviewer).reasoning).toBeUndefined();
 
       const nonPiUpdated = setConfigValue(createBaseConfig(), "reviewer.reasoning", "max");
-      expect(nonPiUpdated.reviewer.reasoning).toBe("max");
+      expect(getPrimaryReviewerSettings(nonPiUpdated.reviewer).reasoning).toBe("max");
 
       const piConfig = createBaseConfig();
       piConfig.reviewer = {
@@ -587,16 +632,20 @@ describe("config command helpers", () => {
         reasoning: "high",
       };
 
-      const piDeleted = setConfigValue(piConfig, "reviewer.reasoning", null);
-      expect(piDeleted.reviewer.agent).toBe("pi");
-      if (piDeleted.reviewer.agent === "pi") {
-        expect(piDeleted.reviewer.reasoning).toBeUndefined();
+      const piDeleted = getPrimaryReviewerSettings(
+        setConfigValue(piConfig, "reviewer.reasoning", null).reviewer
+      );
+      expect(piDeleted.agent).toBe("pi");
+      if (piDeleted.agent === "pi") {
+        expect(piDeleted.reasoning).toBeUndefined();
       }
 
-      const piUpdated = setConfigValue(piConfig, "reviewer.reasoning", "medium");
-      expect(piUpdated.reviewer.agent).toBe("pi");
-      if (piUpdated.reviewer.agent === "pi") {
-        expect(piUpdated.reviewer.reasoning).toBe("medium");
+      const piUpdated = getPrimaryReviewerSettings(
+        setConfigValue(piConfig, "reviewer.reasoning", "medium").reviewer
+      );
+      expect(piUpdated.agent).toBe("pi");
+      if (piUpdated.agent === "pi") {
+        expect(piUpdated.reasoning).toBe("medium");
       }
     });
 
@@ -682,6 +731,22 @@ describe("config command helpers", () => {
 
       const withSound = setConfigValue(createBaseConfig(), "notifications.sound.enabled", true);
       expect(withSound.notifications.sound.enabled).toBe(true);
+
+      const withThreshold = setConfigValue(createBaseConfig(), "review.dedupeThreshold", 0.5);
+      expect(withThreshold.review).toEqual({ dedupeThreshold: 0.5 });
+
+      const withFloors = setConfigValue(
+        setConfigValue(withThreshold, "review.minConfidence", 0.5),
+        "review.minConfidenceByPriority.P3",
+        0.8
+      );
+      expect(withFloors.review).toEqual({
+        dedupeThreshold: 0.5,
+        minConfidence: 0.5,
+        minConfidenceByPriority: { P3: 0.8 },
+      });
+      expect(getConfigValue(withFloors, "review.minConfidenceByPriority.P3")).toBe(0.8);
+      expect(getConfigValue(withFloors, "review.minConfidenceByPriority.P0")).toBeUndefined();
     });
   });
 
@@ -777,6 +842,7 @@ describe("config command execution", () => {
     expect(harness.notes[0]?.message).toContain("Path: /tmp/ralph-test-config.json");
     expect(harness.notes[0]?.message).toContain("Agents");
     expect(harness.notes[0]?.message).toContain("Reviewer:");
+    expect(harness.notes[0]?.message).toContain("Built-in guidelines: active");
     expect(harness.notes[0]?.message).not.toContain('"reviewer"');
     expect(harness.effectiveLoadCalls).toEqual(["/repo/project"]);
     expect(harness.exits).toEqual([]);
@@ -1064,6 +1130,39 @@ describe("config command execution", () => {
     expect(harness.exits).toEqual([]);
   });
 
+  test("show reports active review prompt sources", async () => {
+    const guidelineCalls: Array<{ projectPath: string; configDir?: string }> = [];
+    const harness = createCommandHarness({
+      loadReviewGuidelinesOverrides: async (projectPath, options) => {
+        guidelineCalls.push({ projectPath, configDir: options?.configDir });
+        return [
+          {
+            scope: "global",
+            path: "/tmp/review.md",
+            mode: "append",
+            content: "Global rules",
+          },
+          {
+            scope: "local",
+            path: "/repo/.ralph-review/review.md",
+            mode: "replace",
+            content: "Repo rules",
+          },
+        ];
+      },
+    });
+    const runConfig = createRunConfig(harness.deps);
+
+    await runConfig(["show"]);
+
+    const output = harness.notes[0]?.message ?? "";
+    expect(guidelineCalls).toEqual([{ projectPath: "/repo/project", configDir: "/tmp" }]);
+    expect(output).toContain("Review prompt");
+    expect(output).toContain("Built-in guidelines: replaced");
+    expect(output).toContain("Global review.md: /tmp/review.md (replaced)");
+    expect(output).toContain("Repo review.md: /repo/.ralph-review/review.md (replace)");
+  });
+
   test("show --verbose includes metadata in readable output", async () => {
     const harness = createCommandHarness();
     const runConfig = createRunConfig(harness.deps);
@@ -1160,7 +1259,7 @@ describe("config command execution", () => {
   test("get prints object values as JSON", async () => {
     const config = createBaseConfig();
     config.reviewer = {
-      ...config.reviewer,
+      ...getPrimaryReviewerSettings(config.reviewer),
       model: { name: "custom" } as unknown as string,
     };
 
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { getCommandDef } from "@/cli";
+import { type ExportCommandDeps, parseExportFormat, runExport } from "@/commands/export";
+import type { FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import { createFindingsArtifact } from "../helpers/review-workflow";
+
+interface ExportHarnessOptions {
+  artifact?: FindingsArtifact | null;
+  hasExportCommandDef?: boolean;
+}
+
+interface ExportHarnessResult {
+  loadCalls: string[];
+  writes: Array<{ path: string; content: string }>;
+  printed: string[];
+  successes: string[];
+  errors: string[];
+  exitCode: number | undefined;
+}
+
+async function runExportWithHarness(
+  args: string[],
+  options: ExportHarnessOptions = {}
+): Promise<ExportHarnessResult> {
+  const result: ExportHarnessResult = {
+    loadCalls: [],
+    writes: [],
+    printed: [],
+    successes: [],
+    errors: [],
+    exitCode: undefined,
+  };
+
+  const deps: Partial<ExportCommandDeps> = {
+    getCommandDef: options.hasExportCommandDef === false ? () => undefined : getCommandDef,
+    getVersion: () => "9.9.9",
+    loadFindingsArtifactBySessionId: async (_storageRoot, sessionId) => {
+      result.loadCalls.push(sessionId);
+      return options.artifact === undefined ? createFindingsArtifact() : options.artifact;
+    },
+    cwd: () => "/work",
+    writeFile: async (path, content) => {
+      result.writes.push({ path, content });
+    },
+    print: (message) => {
+      result.printed.push(message);
+    },
+    logSuccess: (message) => {
+      result.successes.push(message);
+    },
+    logError: (message) => {
+      result.errors.push(message);
+    },
+    exit: (code) => {
+      result.exitCode = code;
+    },
+  };
+
+  await runExport(args, deps);
+  return result;
+}
+
+describe("parseExportFormat", () => {
+  test("defaults to sarif and normalizes case", () => {
+    expect(parseExportFormat(undefined)).toBe("sarif");
+    expect(parseExportFormat(" JSON ")).toBe("json");
+  });
+
+  test("rejects unsupported formats", () => {
+    expect(() => parseExportFormat("csv")).toThrow('Unsupported export format "csv"');
+  });
+});
+
+describe("runExport", () => {
+  test("prints a SARIF log for the session to stdout", async () => {
+    const result = await runExportWithHarness(["--session", "session-123", "--format", "sarif"]);
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.loadCalls).toEqual(["session-123"]);
+    expect(result.printed).toHaveLength(1);
+    const log = JSON.parse(result.printed[0] ?? "{}");
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs[0].tool.driver.version).toBe("9.9.9");
+    expect(log.runs[0].results).toHaveLength(3);
+  });
+
+  test("prints the raw findings artifact for json format", async () => {
+    const result = await runExportWithHarness(["-s", "session-123", "--format", "json"]);
+
+    expect(JSON.parse(result.printed[0] ?? "{}")).toEqual(createFindingsArtifact());
+  });
+
+  test("writes the export to --output relative to cwd", async () => {
+    const result = await runExportWithHarness(["--session", "session-123", "-o", "out/rr.sarif"]);
+
+    expect(result.printed).toEqual([]);
+    expect(result.writes).toHaveLength(1);
+    expect(result.writes[0]?.path).toBe("/work/out/rr.sarif");
+    expect(JSON.parse(result.writes[0]?.content ?? "{}").runs).toHaveLength(1);
+    expect(result.successes).toEqual(["Exported session session-123 as sarif: /work/out/rr.sarif"]);
+  });
+
+  test("requires --session", async () => {
+    const result = await runExportWithHarness(["--format", "sarif"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.loadCalls).toEqual([]);
+    expect(result.errors[0]).toContain("session");
+  });
+
+  test("fails on unsupported formats", async () => {
+    const result = await runExportWithHarness(["--session", "session-123", "--format", "csv"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors[0]).toContain('Unsupported export format "csv"');
+  });
+
+  test("fails when the session has no findings artifact", async () => {
+    const result = await runExportWithHarness(["--session", "missing"], { artifact: null });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Findings artifact not found for session missing"]);
+    expect(result.printed).toEqual([]);
+  });
+
+  test("fails when the command definition is missing", async () => {
+    const result = await runExportWithHarness(["--session", "session-123"], {
+      hasExportCommandDef: false,
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Internal error: export command definition not found"]);
+  });
+});
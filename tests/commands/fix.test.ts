@@ -301,6 +301,190 @@ describe("fix command", () => {
     ).toThrow("Selector modes are mutually exclusive");
   });
 
+  test("parses a minimum agreement filter alone or with a priority selector", () => {
+    expect(parseFixCommandOptions(["--session", "session-123", "--min-agreement", "2"])).toEqual({
+      sessionId: "session-123",
+      selector: {
+        minAgreement: 2,
+      },
+    });
+    expect(
+      parseFixCommandOptions(["--session", "session-123", "--priority", "P1", "--min-agreement=3"])
+    ).toEqual({
+      sessionId: "session-123",
+      selector: {
+        priorities: ["P1"],
+        minAgreement: 3,
+      },
+    });
+  });
+
+  test("rejects invalid minimum agreement values", () => {
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--min-agreement", "0"])
+    ).toThrow("Invalid --min-agreement value: 0. Use a whole number of at least 1.");
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--min-agreement=1.5"])
+    ).toThrow("Invalid --min-agreement value: 1.5.");
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--id", "F001", "--min-agreement", "2"])
+    ).toThrow("--min-agreement cannot be combined with --id.");
+  });
+
+  test("parses a category filter alone or with a priority selector", () => {
+    expect(parseFixCommandOptions(["--session", "session-123", "--category", "security"])).toEqual({
+      sessionId: "session-123",
+      selector: {
+        categories: ["security"],
+      },
+    });
+    expect(
+      parseFixCommandOptions([
+        "--session",
+        "session-123",
+        "--priority",
+        "P0",
+        "--category=Tests,security",
+      ])
+    ).toEqual({
+      sessionId: "session-123",
+      selector: {
+        priorities: ["P0"],
+        categories: ["security", "tests"],
+      },
+    });
+  });
+
+  test("rejects invalid categories and categories combined with IDs", () => {
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--category", "style"])
+    ).toThrow(
+      "Invalid category: style. Use one of: correctness, security, performance, reliability, maintainability, tests."
+    );
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--id", "F001", "--category", "tests"])
+    ).toThrow("--category cannot be combined with --id.");
+  });
+
+  test("parses a where expression and rejects invalid ones before launch", () => {
+    expect(
+      parseFixCommandOptions(["--session", "session-123", "--where", " priority<=P1 "])
+    ).toEqual({
+      sessionId: "session-123",
+      selector: {
+        where: "priority<=P1",
+      },
+    });
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--where=confidence>=2"])
+    ).toThrow("confidence must be a number between 0 and 1");
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--all", "--where", "state==open"])
+    ).toThrow("Selector modes are mutually exclusive");
+  });
+
+  test("forwards a shell-quoted where expression to the background fixer", async () => {
+    const harness = createFixHarness();
+
+    await runFix(["--session", "session-123", "--where", 'title~"can\'t"'], harness.deps);
+
+    expect(harness.createSessionCalls[0]?.command).toContain(
+      `_fix-foreground --session session-123 --where 'title~"can'\\''t"'`
+    );
+  });
+
+  test("parses verification options", () => {
+    expect(parseFixCommandOptions(["--session", "session-123", "--all", "--verify"])).toEqual({
+      sessionId: "session-123",
+      selector: { all: true },
+      verifyRounds: 0,
+    });
+    expect(
+      parseFixCommandOptions(["--session", "session-123", "--all", "--verify", "--verify-rounds=2"])
+    ).toEqual({
+      sessionId: "session-123",
+      selector: { all: true },
+      verifyRounds: 2,
+    });
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--verify-rounds", "0"])
+    ).toThrow("Invalid --verify-rounds value: 0. Use a whole number of at least 1.");
+  });
+
+  test("forwards verification options to the background fixer", async () => {
+    const harness = createFixHarness();
+
+    await runFix(["--session", "session-123", "--all", "--verify-rounds", "2"], harness.deps);
+    await runFix(["--session", "session-123", "--all", "--verify"], harness.deps);
+
+    expect(harness.createSessionCalls[0]?.command).toContain(
+      "_fix-foreground --session session-123 --all --verify-rounds 2"
+    );
+    expect(harness.createSessionCalls[1]?.command).toContain(
+      "_fix-foreground --session session-123 --all --verify"
+    );
+  });
+
+  test("parses and forwards the parallel fixer option", async () => {
+    expect(parseFixCommandOptions(["--session", "session-123", "--all", "--parallel"])).toEqual({
+      sessionId: "session-123",
+      selector: { all: true },
+      parallel: true,
+    });
+
+    const harness = createFixHarness();
+    await runFix(["--session", "session-123", "--all", "--parallel"], harness.deps);
+
+    expect(harness.createSessionCalls[0]?.command).toContain(
+      "_fix-foreground --session session-123 --all --parallel"
+    );
+  });
+
+  test("parses and forwards budget limits to the background fixer", async () => {
+    const args = ["--session", "session-123", "--all", "--max-cost", "2.5", "--max-tokens=90000"];
+    expect(parseFixCommandOptions(args).budget).toEqual({ maxCostUsd: 2.5, maxTokens: 90_000 });
+    expect(() =>
+      parseFixCommandOptions(["--session", "session-123", "--all", "--max-wall-time", "soon"])
+    ).toThrow("--max-wall-time must be a positive whole number");
+
+    const harness = createFixHarness();
+    await runFix(args, harness.deps);
+
+    expect(harness.createSessionCalls[0]?.command).toContain(
+      "_fix-foreground --session session-123 --all --max-cost 2.5 --max-tokens 90000"
+    );
+  });
+
+  test("applies budget flags over the configured budget in the foreground fixer", async () => {
+    const budgets: unknown[] = [];
+    const harness = createFixHarness();
+
+    await runFixForeground(["--session", "session-123", "--all", "--max-cost", "1"], {
+      ...harness.deps,
+      loadConfig: async () => ({ ...createConfig(), budget: { maxCostUsd: 5, maxTokens: 1_000 } }),
+      runFixSession: async (config, options) => {
+        budgets.push(config.budget);
+        return await (harness.deps.runFixSession as FixCommandDeps["runFixSession"])(
+          config,
+          options
+        );
+      },
+      env: { RR_PROJECT_PATH: "/repo/project", RR_SESSION_ID: "session-123" },
+    });
+
+    expect(budgets).toEqual([{ maxCostUsd: 1, maxTokens: 1_000 }]);
+  });
+
+  test("forwards the minimum agreement filter to the background fixer", async () => {
+    const harness = createFixHarness();
+
+    await runFix(["--session", "session-123", "--all", "--min-agreement", "2"], harness.deps);
+
+    expect(harness.createSessionCalls[0]?.command).toContain(
+      "_fix-foreground --session session-123 --all --min-agreement 2"
+    );
+  });
+
   test("launches a tmux-backed fixer session for explicit selectors", async () => {
     const harness = createFixHarness();
 
@@ -355,7 +539,7 @@ describe("fix command", () => {
 
     expect(exitCode).toBe(1);
     expect(harness.errors).toEqual([
-      "No selector was provided. Re-run with one of --all, --priority, or --id, or use an interactive terminal.",
+      "No selector was provided. Re-run with one of --all, --priority, --id, or --where, or use an interactive terminal.",
     ]);
     expect(harness.createSessionCalls).toEqual([]);
   });
@@ -528,4 +712,103 @@ describe("fix command", () => {
       worktreeCommitSha: "retained-commit-sha",
     });
   });
+
+  test("passes verification rounds to the fixer and warns about regressions", async () => {
+    const artifact = createArtifact();
+    const { selectedFinding, unselectedFinding } = getDefaultFindingPair(artifact);
+    const regression = { ...selectedFinding, id: "F009" as const, regressionRound: 1 };
+
+    const harness = createFixHarness({
+      runFixSessionResult: {
+        phase: "complete",
+        sessionStatus: "completed",
+        reviewOutcome: "incomplete",
+        reason: "Some selected findings remain unresolved after remediation.",
+        artifact,
+        selection: {
+          selectedFindingIds: ["F001", "F009"],
+          selectedFindings: [selectedFinding, regression],
+        },
+        fixResults: [],
+        unresolvedSelectedFindings: [regression],
+        unselectedFindings: [unselectedFinding],
+        regressionFindings: [regression],
+      },
+    });
+
+    await runFixForeground(["--session", "session-123", "--id", "F001", "--verify-rounds", "1"], {
+      ...harness.deps,
+      env: { RR_PROJECT_PATH: "/repo/project", RR_SESSION_ID: "session-123" },
+    });
+
+    expect(harness.runFixSessionCalls[0]?.verifyRounds).toBe(1);
+    expect(harness.warnings).toContain("Verification found regressions in the fixer's diff: F009");
+  });
+
+  test("passes the parallel option to the fixer and warns about conflicting fixes", async () => {
+    const artifact = createArtifact();
+    const { selectedFinding, unselectedFinding } = getDefaultFindingPair(artifact);
+
+    const harness = createFixHarness({
+      runFixSessionResult: {
+        phase: "complete",
+        sessionStatus: "completed",
+        reviewOutcome: "incomplete",
+        reason: "Some selected findings remain unresolved after remediation.",
+        artifact,
+        selection: {
+          selectedFindingIds: [selectedFinding.id],
+          selectedFindings: [selectedFinding],
+        },
+        fixResults: [],
+        unresolvedSelectedFindings: [selectedFinding],
+        unselectedFindings: [unselectedFinding],
+        fixConflicts: [
+          { findingIds: [selectedFinding.id], files: ["src/shared.ts"], conflictingFindingIds: [] },
+        ],
+      },
+    });
+
+    await runFixForeground(["--session", "session-123", "--all", "--parallel"], {
+      ...harness.deps,
+      env: { RR_PROJECT_PATH: "/repo/project", RR_SESSION_ID: "session-123" },
+    });
+
+    expect(harness.runFixSessionCalls[0]?.parallel).toBe(true);
+    expect(harness.warnings).toContain(
+      `Parallel fix for ${selectedFinding.id} conflicted in src/shared.ts and was not applied.`
+    );
+  });
+
+  test("warns about verify commands that already failed before the fixer ran", async () => {
+    const artifact = createArtifact();
+    const { selectedFinding, unselectedFinding } = getDefaultFindingPair(artifact);
+
+    const harness = createFixHarness({
+      runFixSessionResult: {
+        phase: "complete",
+        sessionStatus: "completed",
+        reviewOutcome: "fixed-selected",
+        reason: "Selected findings were fixed.",
+        artifact,
+        selection: {
+          selectedFindingIds: [selectedFinding.id],
+          selectedFindings: [selectedFinding],
+        },
+        fixResults: [],
+        unresolvedSelectedFindings: [],
+        unselectedFindings: [unselectedFinding],
+        preExistingVerifyFailures: [{ command: "bun test", exitCode: 1, output: "not found" }],
+      },
+    });
+
+    await runFixForeground(["--session", "session-123", "--all"], {
+      ...harness.deps,
+      env: { RR_PROJECT_PATH: "/repo/project", RR_SESSION_ID: "session-123" },
+    });
+
+    expect(harness.warnings).toContain(
+      "`bun test` already failed before the fixer ran (exit code 1), so it did not gate the fix."
+    );
+  });
 });
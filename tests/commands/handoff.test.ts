@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import { getCommandDef } from "@/cli";
+import type { HandoffDeps } from "@/commands/handoff";
+import type { PendingHandoffArtifact } from "@/lib/handoff";
+import type { FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import { captureExitCode, createPromptLogCapture, withStdoutTTY } from "../helpers/capture";
+import { createFindingsArtifact, createPendingHandoff } from "../helpers/review-workflow";
+
+const PATCH = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -2,3 +2,3 @@ export function load() {
+   const a = 1;
+-  const b = 2;
++  const b = 3;
+   return a + b;
+diff --git a/src/util.ts b/src/util.ts
+index 3333333..4444444 100644
+--- a/src/util.ts
++++ b/src/util.ts
+@@ -1,1 +1,2 @@
+ export const one = 1;
++export const two = 2;
+`;
+
+interface HandoffHarnessOptions {
+  handoffs?: PendingHandoffArtifact[];
+  isTTY?: boolean;
+  selectValues?: unknown[];
+  findingsArtifact?: FindingsArtifact | null;
+  patch?: string;
+}
+
+async function runHandoffWithHarness(args: string[], options: HandoffHarnessOptions = {}) {
+  const handoffs = options.handoffs ?? [];
+  const printed: string[] = [];
+  const patchReads: string[] = [];
+  const prompts = createPromptLogCapture(options.selectValues);
+
+  const deps: Partial<HandoffDeps> = {
+    getCommandDef,
+    cwd: () => process.cwd(),
+    listProjectPendingHandoffs: async (_storageRoot: string | undefined, projectPath: string) =>
+      handoffs.filter((handoff) => handoff.projectPath === projectPath),
+    loadFindingsArtifact: async () => options.findingsArtifact ?? null,
+    readHandoffPatch: async (patchPath) => {
+      patchReads.push(patchPath);
+      return options.patch ?? PATCH;
+    },
+    print: (text) => {
+      printed.push(text);
+    },
+    logInfo: prompts.module.log.info,
+    logError: prompts.module.log.error,
+    logStep: prompts.module.log.step,
+    logMessage: prompts.module.log.message,
+    logSuccess: prompts.module.log.success,
+    exit: (code) => process.exit(code),
+    isTTY: () => process.stdout.isTTY === true,
+    select: prompts.module.select,
+    isCancel: prompts.module.isCancel,
+  };
+
+  const exitCode = await withStdoutTTY(options.isTTY ?? true, async () =>
+    captureExitCode(async () => {
+      const { runHandoff } = await import("@/commands/handoff");
+      await runHandoff(args, deps);
+    })
+  );
+
+  return {
+    printed,
+    patchReads,
+    infos: prompts.infos,
+    errors: prompts.errors,
+    selectMessages: prompts.selectMessages,
+    exitCode,
+  };
+}
+
+function createResolvedFindingsArtifact(): FindingsArtifact {
+  const findingsArtifact = createFindingsArtifact();
+  findingsArtifact.fixResults = [
+    { findingId: "F001", status: "resolved", summary: "Fixed" },
+    { findingId: "F002", status: "unresolved", summary: "Could not fix" },
+    { findingId: "F003", status: "resolved", summary: "Fixed" },
+  ];
+  return findingsArtifact;
+}
+
+describe("runHandoff", () => {
+  test("rejects a missing or unknown subcommand", async () => {
+    const missing = await runHandoffWithHarness([]);
+    expect(missing.exitCode).toBe(1);
+    expect(missing.errors[0]).toContain("Missing handoff subcommand");
+
+    const unknown = await runHandoffWithHarness(["drop"]);
+    expect(unknown.exitCode).toBe(1);
+    expect(unknown.errors[0]).toContain('Unknown handoff subcommand "drop"');
+  });
+
+  test("reports when the project has no pending handoffs", async () => {
+    const result = await runHandoffWithHarness(["show"]);
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.infos).toEqual(["No pending review handoffs for current working directory."]);
+    expect(result.printed).toEqual([]);
+  });
+
+  test("prints the diffstat, resolved findings, and diff for the selected handoff", async () => {
+    const handoff = createPendingHandoff({ sessionId: "session-a", handoffId: "session-a" });
+    const result = await runHandoffWithHarness(["show", "--session", "session-a"], {
+      handoffs: [handoff],
+      findingsArtifact: createResolvedFindingsArtifact(),
+    });
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.patchReads).toEqual([handoff.patchPath]);
+    const output = result.printed.join("\n");
+    expect(output).toContain("Handoff: session-a");
+    expect(output).toContain("Resolved findings: F001, F003");
+    expect(output).toContain(" src/app.ts  | 2 +-");
+    expect(output).toContain(" src/util.ts | 1 +");
+    expect(output).toContain(" 2 files changed, 2 insertions(+), 1 deletion(-)");
+    expect(output).toContain("+export const two = 2;");
+  });
+
+  test("notes when no resolved findings are recorded", async () => {
+    const result = await runHandoffWithHarness(["show"], {
+      handoffs: [createPendingHandoff()],
+    });
+
+    expect(result.printed.join("\n")).toContain("Resolved findings: none recorded");
+  });
+
+  test("prints per-file stats and the patch as JSON", async () => {
+    const result = await runHandoffWithHarness(["show", "--json"], {
+      handoffs: [createPendingHandoff()],
+      findingsArtifact: createResolvedFindingsArtifact(),
+    });
+
+    expect(result.exitCode).toBeUndefined();
+    const report = JSON.parse(result.printed[0] ?? "{}");
+    expect(report).toMatchObject({
+      handoffId: "session-id",
+      sessionId: "session-id",
+      resolvedFindingIds: ["F001", "F003"],
+      files: [
+        { path: "src/app.ts", additions: 1, deletions: 1, binary: false },
+        { path: "src/util.ts", additions: 1, deletions: 0, binary: false },
+      ],
+      totals: { files: 2, additions: 2, deletions: 1 },
+      patch: PATCH,
+    });
+  });
+
+  test("asks which handoff to show when several are pending", async () => {
+    const result = await runHandoffWithHarness(["show"], {
+      handoffs: [
+        createPendingHandoff({ sessionId: "session-a", handoffId: "session-a" }),
+        createPendingHandoff({ sessionId: "session-b", handoffId: "session-b" }),
+      ],
+      selectValues: ["session-b"],
+    });
+
+    expect(result.selectMessages).toEqual(["Choose a review handoff to show"]);
+    expect(result.printed.join("\n")).toContain("Handoff: session-b");
+  });
+});
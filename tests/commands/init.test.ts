@@ -24,7 +24,13 @@ import {
 import { CONFIG_PATH } from "@/lib/config";
 import type { AgentCapabilitiesMap } from "@/lib/diagnostics";
 import type { ConfigOverride } from "@/lib/types";
-import { type AgentType, CONFIG_SCHEMA_URI, CONFIG_VERSION, type Config } from "@/lib/types";
+import {
+  type AgentType,
+  CONFIG_SCHEMA_URI,
+  CONFIG_VERSION,
+  type Config,
+  getPrimaryReviewerSettings,
+} from "@/lib/types";
 
 const CANCEL = Symbol("cancel");
 
@@ -437,8 +443,8 @@ describe("init command", () => {
 
       expect(config.$schema).toBe(CONFIG_SCHEMA_URI);
       expect(config.version).toBe(CONFIG_VERSION);
-      expect(config.reviewer.agent).toBe("codex");
-      expect(config.reviewer.model).toBe("gpt-4");
+      expect(getPrimaryReviewerSettings(config.reviewer).agent).toBe("codex");
+      expect(getPrimaryReviewerSettings(config.reviewer).model).toBe("gpt-4");
       expect(config.fixer.agent).toBe("claude");
       expect(config.fixer.model).toBeUndefined();
       expect(config.maxIterations).toBe(5);
@@ -463,10 +469,11 @@ describe("init command", () => {
         soundNotificationsEnabled: true,
       });
 
-      expect(config.reviewer.agent).toBe("pi");
-      if (config.reviewer.agent === "pi") {
-        expect(config.reviewer.provider).toBe("llm-proxy");
-        expect(config.reviewer.model).toBe("gemini_cli/gemini-3-flash-preview");
+      const reviewer = getPrimaryReviewerSettings(config.reviewer);
+      expect(reviewer.agent).toBe("pi");
+      if (reviewer.agent === "pi") {
+        expect(reviewer.provider).toBe("llm-proxy");
+        expect(reviewer.model).toBe("gemini_cli/gemini-3-flash-preview");
       }
       expect(config.notifications.sound.enabled).toBe(true);
     });
@@ -1110,7 +1117,7 @@ describe("init command", () => {
 
       expect(probeCalls[0]).toContain("codex");
       expect(harness.savedConfigs).toHaveLength(1);
-      expect(harness.savedConfigs[0]?.reviewer.agent).toBe("codex");
+      expect(harness.savedConfigs[0]?.reviewer).toMatchObject({ agent: "codex" });
       expect(harness.savedConfigs[0]?.fixer.agent).toBe("codex");
     });
 
@@ -1136,7 +1143,7 @@ describe("init command", () => {
 
       expect(probeCalls[0]).toContain("droid");
       expect(harness.savedConfigs).toHaveLength(1);
-      expect(harness.savedConfigs[0]?.reviewer.agent).toBe("droid");
+      expect(harness.savedConfigs[0]?.reviewer).toMatchObject({ agent: "droid" });
       expect(harness.savedConfigs[0]?.fixer.agent).toBe("droid");
     });
 
@@ -1417,7 +1424,7 @@ describe("init command", () => {
       await runInitWithRuntime(harness.overrides);
 
       expect(harness.savedConfigs).toHaveLength(1);
-      expect(harness.savedConfigs[0]?.reviewer.reasoning).toBeUndefined();
+      expect(harness.savedConfigs[0]?.reviewer).toMatchObject({ reasoning: undefined });
       expect(harness.savedConfigs[0]?.fixer.reasoning).toBeUndefined();
     });
 
@@ -11,8 +11,10 @@ import {
   getProjectStorageDir,
   getSummaryPath,
 } from "@/lib/logger";
+import { saveFindingsArtifact } from "@/lib/review-workflow/findings/artifact";
 import type { FixEntry, IterationEntry, LogEntry, SessionEndEntry, SystemEntry } from "@/lib/types";
 import { captureExitCode, captureJsonOutput, withMutedTerminalLogs } from "../helpers/capture";
+import { createFindingsArtifact, createStoredFinding } from "../helpers/review-workflow";
 import { buildFixEntry, buildFixSummary, buildSkippedEntry } from "../test-utils/fix-summary";
 
 function createSystemEntry(projectPath: string): SystemEntry {
@@ -223,6 +225,20 @@ describe("runLog integration", () => {
     expect(exitCode).toBe(1);
   });
 
+  test.each([
+    ["--global is used with text format", ["--global", "--format", "text"]],
+    ["--format is unsupported", ["--format", "csv"]],
+    ["--json conflicts with --format", ["--json", "--format", "sarif"]],
+  ])("exits with code 1 when %s", async (_name, args) => {
+    const exitCode = await withMutedTerminalLogs(() =>
+      captureExitCode(async () => {
+        await runLog(args);
+      })
+    );
+
+    expect(exitCode).toBe(1);
+  });
+
   test("exits with code 1 when --last is zero", async () => {
     const exitCode = await withMutedTerminalLogs(() =>
       captureExitCode(async () => {
@@ -375,4 +391,137 @@ describe("runLog integration", () => {
     expect(Array.isArray(payload.sessions)).toBe(true);
     expect(payload.sessions.length).toBeGreaterThan(0);
   });
+
+  test("prints SARIF for persisted findings and empty runs for clean sessions", async () => {
+    const fixture = await createTrackedProjectFixture();
+    const logsDir = getProjectLogsDir(CONFIG_DIR, fixture.projectPath);
+    const findingsLog = join(logsDir, "findings.jsonl");
+    const cleanLog = join(logsDir, "clean.jsonl");
+    fixture.logPaths.push(findingsLog, cleanLog);
+
+    const findingsSessionId = crypto.randomUUID();
+    const cleanSessionId = crypto.randomUUID();
+    await writeLogEntries(findingsLog, [
+      { ...createSystemEntry(fixture.projectPath), sessionId: findingsSessionId },
+      createSessionEndEntry("completed"),
+    ]);
+    await writeLogEntries(cleanLog, [
+      { ...createSystemEntry(fixture.projectPath), sessionId: cleanSessionId },
+      createSessionEndEntry("completed"),
+    ]);
+    await saveFindingsArtifact(
+      CONFIG_DIR,
+      createFindingsArtifact(undefined, {
+        sessionId: findingsSessionId,
+        projectPath: fixture.projectPath,
+        logPath: findingsLog,
+      })
+    );
+
+    const outputs = await withProjectCwd(fixture.projectPath, async () =>
+      captureJsonOutput(async () => {
+        await runLog(["--format", "sarif", "--last", "2"]);
+      })
+    );
+
+    expect(outputs).toHaveLength(1);
+    const payload = outputs[0] as {
+      version: string;
+      runs: Array<{ properties: { sessionId: string }; results: unknown[] }>;
+    };
+    expect(payload.version).toBe("2.1.0");
+    const resultCounts = Object.fromEntries(
+      payload.runs.map((run) => [run.properties.sessionId, run.results.length])
+    );
+    expect(resultCounts).toEqual({
+      [findingsSessionId]: 3,
+      [cleanSessionId]: 0,
+    });
+  });
+
+  test("shows persisted triage decisions in terminal and JSON output", async () => {
+    const fixture = await createTrackedProjectFixture();
+    const logPath = join(getProjectLogsDir(CONFIG_DIR, fixture.projectPath), "triaged.jsonl");
+    fixture.logPaths.push(logPath);
+    const sessionId = crypto.randomUUID();
+    await writeLogEntries(logPath, [
+      { ...createSystemEntry(fixture.projectPath), sessionId },
+      createSessionEndEntry("completed"),
+    ]);
+    const triaged = createStoredFinding("F002");
+    triaged.triage = {
+      state: "false-positive",
+      reason: "validated upstream",
+      updatedAt: "2026-02-03T04:05:06.000Z",
+    };
+    await saveFindingsArtifact(
+      CONFIG_DIR,
+      createFindingsArtifact([createStoredFinding("F001"), triaged], {
+        sessionId,
+        projectPath: fixture.projectPath,
+        logPath,
+      })
+    );
+
+    const { logs } = await captureTerminalLogForFixture(fixture);
+    const outputs = await withProjectCwd(fixture.projectPath, async () =>
+      captureJsonOutput(async () => {
+        await runLog(["--json"]);
+      })
+    );
+
+    expect(logs.step).toContain("Triage (1)");
+    expect(logs.message).toContain("F002  false-positive - validated upstream");
+    const payload = outputs[0] as { sessions: Array<{ triage?: unknown[] }> };
+    expect(payload.sessions[0]?.triage).toEqual([
+      {
+        findingId: "F002",
+        state: "false-positive",
+        reason: "validated upstream",
+        updatedAt: "2026-02-03T04:05:06.000Z",
+      },
+    ]);
+  });
+
+  test("lists findings filtered below the confidence floor", async () => {
+    const fixture = await createTrackedProjectFixture();
+    const logPath = join(getProjectLogsDir(CONFIG_DIR, fixture.projectPath), "filtered.jsonl");
+    fixture.logPaths.push(logPath);
+    const filtered = {
+      fingerprint: "fp-low",
+      title: "Rename helper",
+      priority: "P3" as const,
+      filePath: "src/util.ts",
+      startLine: 4,
+      endLine: 6,
+      confidenceScore: 0.42,
+      minConfidence: 0.8,
+    };
+    await writeLogEntries(logPath, [
+      createSystemEntry(fixture.projectPath),
+      {
+        type: "review_iteration",
+        timestamp: 1_700_000_000_100,
+        iteration: 1,
+        phase: "review",
+        sessionStatus: "running",
+        findings: [],
+        netNewFindingIds: [],
+        filteredFindings: [filtered],
+      },
+      createSessionEndEntry("completed"),
+    ]);
+
+    const { logs } = await captureTerminalLogForFixture(fixture);
+    const outputs = await withProjectCwd(fixture.projectPath, async () =>
+      captureJsonOutput(async () => {
+        await runLog(["--json"]);
+      })
+    );
+
+    expect(logs.step).toContain("Filtered below confidence floor (1)");
+    expect(logs.message).toContain("P3  Rename helper src/util.ts:4 · confidence 0.42 < 0.8");
+    const payload = outputs[0] as { sessions: Array<{ filtered?: unknown[] }> };
+    expect(payload.sessions[0]?.filtered).toEqual([filtered]);
+  });
 });
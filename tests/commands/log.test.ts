@@ -3,6 +3,7 @@ import {
   buildGlobalSessionsJson,
   buildProjectSessionsJson,
   buildSessionJson,
+  formatCategoryCounts,
   formatDuration,
   formatPriorityCounts,
   formatStatus,
@@ -27,6 +28,14 @@ function createSessionStats(overrides: Partial<SessionStats> = {}): SessionStats
     totalFixes: 5,
     totalSkipped: 2,
     priorityCounts: { P0: 1, P1: 2, P2: 1, P3: 1 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 3,
     totalDuration: 15000,
     entries: [],
@@ -261,6 +270,22 @@ describe("formatPriorityCounts", () => {
   });
 });
 
+describe("formatCategoryCounts", () => {
+  test("formats all category counts in a fixed order", () => {
+    const counts = {
+      correctness: 3,
+      security: 1,
+      performance: 0,
+      reliability: 2,
+      maintainability: 0,
+      tests: 1,
+    };
+    expect(formatCategoryCounts(counts)).toBe(
+      "correctness: 3  security: 1  performance: 0  reliability: 2  maintainability: 0  tests: 1"
+    );
+  });
+});
+
 describe("formatDuration", () => {
   test("formats seconds only when under a minute", () => {
     expect(formatDuration(5000)).toBe("5s");
@@ -316,6 +341,7 @@ describe("buildSessionJson", () => {
     expect(result.summary.totalFixes).toBe(2);
     expect(result.summary.totalSkipped).toBe(1);
     expect(result.summary.priorityCounts.P0).toBe(1);
+    expect(result.summary.categoryCounts).toEqual(session.categoryCounts);
     expect(result.fixes).toHaveLength(2);
     expect(result.skipped).toHaveLength(1);
   });
@@ -401,6 +427,18 @@ describe("buildSessionJson", () => {
     expect(result.duration).toBeUndefined();
   });
 
+  test("includes agent usage in JSON output", () => {
+    const usage = {
+      inputTokens: 1000,
+      outputTokens: 200,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0.12,
+    };
+    const session = createSessionStats({ usage });
+    expect(buildSessionJson("project", session, [], []).usage).toEqual(usage);
+  });
+
   test("includes handoff metadata when present", () => {
     const session = createSessionStats({
       handoffStatus: "pending-apply",
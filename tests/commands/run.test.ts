@@ -1,4 +1,7 @@
 import { describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { getCommandDef } from "@/cli";
 import {
   classifyRunCompletion,
@@ -57,6 +60,7 @@ function createFindingsArtifact(overrides: Partial<FindingsArtifact> = {}): Find
         title: "Finding F001",
         body: "Body for F001",
         priority: "P0",
+        category: "correctness",
         confidenceScore: 0.91,
         filePath: "src/file-a.ts",
         startLine: 10,
@@ -69,6 +73,7 @@ function createFindingsArtifact(overrides: Partial<FindingsArtifact> = {}): Find
         title: "Finding F002",
         body: "Body for F002",
         priority: "P2",
+        category: "correctness",
         confidenceScore: 0.88,
         filePath: "src/file-b.ts",
         startLine: 22,
@@ -121,6 +126,13 @@ interface RunHarnessOptions {
     force?: boolean;
     auto?: boolean;
     priority?: string;
+    path?: string[];
+    exclude?: string[];
+    profile?: string;
+    "each-commit"?: boolean;
+    "max-cost"?: number;
+    "max-tokens"?: number;
+    "max-wall-time"?: number;
   };
   parseErrorFor?: Array<"run" | "_run-foreground">;
   commandDefs?: {
@@ -186,6 +198,7 @@ interface RunHarness {
   createLogSessionCalls: Array<{ projectPath: string; branch: string | undefined }>;
   runReviewCycleCalls: Array<{
     maxIterations: number;
+    budget: Config["budget"];
     options: Record<string, unknown>;
     runtimeInfo: Record<string, unknown>;
   }>;
@@ -230,6 +243,7 @@ function createRunHarness(options: RunHarnessOptions = {}): RunHarness {
   const createLogSessionCalls: Array<{ projectPath: string; branch: string | undefined }> = [];
   const runReviewCycleCalls: Array<{
     maxIterations: number;
+    budget: Config["budget"];
     options: Record<string, unknown>;
     runtimeInfo: Record<string, unknown>;
   }> = [];
@@ -366,9 +380,20 @@ function createRunHarness(options: RunHarnessOptions = {}): RunHarness {
       return collected;
     },
     getTmuxInstallHint: () => "brew install tmux",
+    resolveCommitRange: (_projectPath, range) => {
+      const [from, to] = range.split("..");
+      return { from: `${from}-sha`, to: `${to}-sha` };
+    },
+    resolveStashEntry: (_projectPath, stashRef) => {
+      if (stashRef === "stash@{9}") {
+        throw new Error("Stash entry 'stash@{9}' was not found.");
+      }
+      return "stash-sha-1234567";
+    },
     runReviewCycle: async (config, _deps, runOptions, runtimeInfo) => {
       runReviewCycleCalls.push({
         maxIterations: config.maxIterations,
+        budget: config.budget,
         options: runOptions as Record<string, unknown>,
         runtimeInfo: runtimeInfo as Record<string, unknown>,
       });
@@ -619,6 +644,19 @@ describe("run command", () => {
       expect(values.priority).toBe("P0,P1");
     });
 
+    test("collects repeated --path and --exclude globs", () => {
+      const { values } = parseCommand<RunOptions>(runDef, [
+        "--path",
+        "src/lib/**",
+        "--path",
+        "src/commands/**",
+        "--exclude",
+        "**/*.snap",
+      ]);
+      expect(values.path).toEqual(["src/lib/**", "src/commands/**"]);
+      expect(values.exclude).toEqual(["**/*.snap"]);
+    });
+
     test("parses -f shorthand", () => {
       const { values } = parseCommand<RunOptions>(runDef, ["-f"]);
       expect(values.force).toBe(true);
@@ -827,6 +865,19 @@ describe("run command", () => {
       expect(note).toContain("Fixer:");
       expect(note).toContain("Review:");
     });
+
+    test("lists one line per ensemble reviewer", () => {
+      const config: Config = {
+        ...createConfig(),
+        reviewer: [{ agent: "codex" }, { agent: "claude" }],
+      };
+
+      const lines = formatRunAgentsNote(config, {}).split("\n");
+
+      expect(lines[0]).toStartWith("Reviewers:  Codex");
+      expect(lines[1]).toStartWith(`${" ".repeat(12)}Claude`);
+      expect(lines[2]).toStartWith("Fixer:");
+    });
   });
 
   describe("startReview", () => {
@@ -1026,6 +1077,74 @@ describe("run command", () => {
       expect(harness.createSessionCalls[0]?.command).toContain("--priority P0,P1");
     });
 
+    test("passes path scope globs through to the background command", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          path: ["src/lib/**"],
+          exclude: ["**/*.snap"],
+        },
+      });
+
+      await startReview(["--path", "src/lib/**", "--exclude", "**/*.snap"], harness.overrides);
+
+      expect(harness.createSessionCalls[0]?.command).toContain(
+        "_run-foreground --path 'src/lib/**' --exclude '**/*.snap'"
+      );
+      expect(harness.notes.find((note) => note.title === "Agents")?.message).toContain(
+        "Paths:      src/lib/**, !**/*.snap"
+      );
+    });
+
+    test("passes the selected profile through to the background command", async () => {
+      const config: Config = {
+        ...createConfig(),
+        profiles: { security: { reviewer: { agent: "claude" }, maxIterations: 2 } },
+      };
+      const harness = createRunHarness({
+        runValues: { profile: "security" },
+        loadConfigResults: [config],
+        diagnostics: createDiagnosticsReport([], config),
+      });
+
+      await startReview(["--profile", "security"], harness.overrides);
+
+      expect(harness.createSessionCalls[0]?.command).toContain(
+        "_run-foreground --profile 'security'"
+      );
+      expect(harness.notes.find((note) => note.title === "Agents")?.message).toContain(
+        "Profile:    security"
+      );
+    });
+
+    test("exits when the selected profile is not configured", async () => {
+      const harness = createRunHarness({
+        runValues: { profile: "perf" },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview(["--profile", "perf"], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain('Unknown profile "perf". No profiles are configured.');
+      expect(harness.createSessionCalls).toEqual([]);
+    });
+
+    test("exits when a path scope glob is empty", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          exclude: ["  "],
+        },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview([], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain("--exclude cannot be empty");
+    });
+
     test("exits when priority is provided without auto mode", async () => {
       const harness = createRunHarness({
         runValues: {
@@ -1167,7 +1286,7 @@ describe("run command", () => {
 
       expect(exitCode).toBe(1);
       expect(harness.errors[0]).toContain(
-        "Custom review instructions require --base, --commit, or --uncommitted when no defaultReview is configured"
+        "Custom review instructions require --base, --commit, --range, --patch, --stash, or --uncommitted when no defaultReview is configured"
       );
     });
 
@@ -1203,6 +1322,91 @@ describe("run command", () => {
       expect(harness.errors[0]).toContain("Cannot use --uncommitted and --commit together");
     });
 
+    test("exits when --range is combined with another review mode", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          base: "main",
+          range: "main..feature",
+        },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview([], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors[0]).toContain("Cannot use --range and --base together");
+    });
+
+    test("exits when --patch or --stash is combined with another review mode", async () => {
+      const patchHarness = createRunHarness({
+        runValues: {
+          uncommitted: true,
+          patch: "changes.diff",
+        },
+      });
+      const stashHarness = createRunHarness({
+        runValues: {
+          range: "main..feature",
+          stash: "stash@{0}",
+        },
+      });
+
+      expect(await captureExitCode(() => startReview([], patchHarness.overrides))).toBe(1);
+      expect(await captureExitCode(() => startReview([], stashHarness.overrides))).toBe(1);
+      expect(patchHarness.errors[0]).toContain("Cannot use --patch and --uncommitted together");
+      expect(stashHarness.errors[0]).toContain("Cannot use --range and --stash together");
+    });
+
+    test("exits when the patch file does not exist", async () => {
+      const harness = createRunHarness({
+        cwd: "/repo/missing-dir",
+        runValues: {
+          patch: "changes.diff",
+        },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview([], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain("Patch file not found: /repo/missing-dir/changes.diff");
+      expect(harness.createSessionCalls).toHaveLength(0);
+    });
+
+    test("exits when the stash entry cannot be resolved", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          stash: "stash@{9}",
+        },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview([], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain("Stash entry 'stash@{9}' was not found.");
+      expect(harness.createSessionCalls).toHaveLength(0);
+    });
+
+    test("exits when --each-commit has no base branch or range", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          "each-commit": true,
+        },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview([], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain("--each-commit requires --base or --range");
+      expect(harness.diagnosticsCalls).toHaveLength(0);
+    });
+
     test("prints diagnostic errors and remediation and exits", async () => {
       const errorItem: DiagnosticItem = {
         id: "git-worktree-state",
@@ -1417,6 +1621,90 @@ describe("run command", () => {
       const command = harness.createSessionCalls[0]?.command ?? "";
       expect(command).toContain("RR_COMMIT_SHA='abc123'");
     });
+
+    test("pins the commit range and forwards --each-commit to the background session", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          range: "main..feature",
+          "each-commit": true,
+        },
+      });
+
+      await startReview([], harness.overrides);
+
+      expect(harness.diagnosticsCalls[0]?.options.range).toBe("main..feature");
+      const command = harness.createSessionCalls[0]?.command ?? "";
+      expect(command).toContain("RR_RANGE='main-sha..feature-sha'");
+      expect(command).toContain("_run-foreground --each-commit");
+      expect(harness.notes[0]?.message).toContain("range (main-sh..feature) per commit");
+    });
+
+    test("forwards budget flags to the background session", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          "max-cost": 5,
+          "max-wall-time": 1_800_000,
+        },
+      });
+
+      await startReview([], harness.overrides);
+
+      const command = harness.createSessionCalls[0]?.command ?? "";
+      expect(command).toContain("_run-foreground --max-cost 5 --max-wall-time 1800000");
+    });
+
+    test("exits when a budget flag is not positive", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          "max-tokens": 0,
+        },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await startReview([], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain("--max-tokens must be a positive whole number");
+      expect(harness.createSessionCalls).toHaveLength(0);
+    });
+
+    test("forwards an absolute patch path to the background session", async () => {
+      const tempDir = await mkdtemp(join(tmpdir(), "rr-run-patch-"));
+      try {
+        await Bun.write(join(tempDir, "changes.diff"), "diff --git a/a.ts b/a.ts\n");
+        const harness = createRunHarness({
+          cwd: tempDir,
+          runValues: {
+            patch: "changes.diff",
+          },
+        });
+
+        await startReview([], harness.overrides);
+
+        expect(harness.diagnosticsCalls[0]?.options.patchFile).toBe("changes.diff");
+        const command = harness.createSessionCalls[0]?.command ?? "";
+        expect(command).toContain(`RR_PATCH_FILE='${join(tempDir, "changes.diff")}'`);
+        expect(harness.notes[0]?.message).toContain("patch (changes.diff)");
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    test("pins the stash entry for the background session", async () => {
+      const harness = createRunHarness({
+        runValues: {
+          stash: "stash@{0}",
+        },
+      });
+
+      await startReview([], harness.overrides);
+
+      expect(harness.diagnosticsCalls[0]?.options.stash).toBe("stash@{0}");
+      const command = harness.createSessionCalls[0]?.command ?? "";
+      expect(command).toContain("RR_STASH='stash-sha-1234567'");
+      expect(harness.notes[0]?.message).toContain("stash (stash-s)");
+    });
   });
 
   describe("runForeground", () => {
@@ -1527,6 +1815,119 @@ describe("run command", () => {
       expect(harness.updateSessionStateCalls[0]?.updates.currentAgent).toBeNull();
     });
 
+    test("passes the pinned range and each-commit mode to the review cycle", async () => {
+      const harness = createRunHarness({
+        env: { RR_RANGE: "aaa111..bbb222" },
+        foregroundValues: { "each-commit": true },
+      });
+
+      await runForeground(["--each-commit"], harness.overrides);
+
+      expect(harness.runReviewCycleCalls[0]?.options).toMatchObject({
+        range: "aaa111..bbb222",
+        eachCommit: true,
+      });
+    });
+
+    test("applies budget flags over the configured budget", async () => {
+      const harness = createRunHarness({
+        loadConfigResults: [{ ...createConfig(), budget: { maxCostUsd: 10, maxTokens: 1_000 } }],
+        foregroundValues: { "max-cost": 2 },
+      });
+
+      await runForeground(["--max-cost", "2"], harness.overrides);
+
+      expect(harness.runReviewCycleCalls[0]?.budget).toEqual({ maxCostUsd: 2, maxTokens: 1_000 });
+    });
+
+    test("passes the patch file and pinned stash to the review cycle", async () => {
+      const harness = createRunHarness({
+        env: { RR_PATCH_FILE: "/tmp/changes.diff", RR_STASH: "stash-sha" },
+      });
+
+      await runForeground([], harness.overrides);
+
+      expect(harness.runReviewCycleCalls[0]?.options).toMatchObject({
+        patchFile: "/tmp/changes.diff",
+        stash: "stash-sha",
+      });
+    });
+
+    test("resolves the path scope from config and internal foreground args", async () => {
+      const harness = createRunHarness({
+        loadConfigResults: [
+          { ...createConfig(), review: { include: ["src/**"], exclude: ["**/*.snap"] } },
+        ],
+        foregroundValues: {
+          path: ["src/lib/**"],
+          exclude: ["*.md"],
+        },
+      });
+
+      await runForeground(["--path", "src/lib/**", "--exclude", "*.md"], harness.overrides);
+
+      expect(harness.runReviewCycleCalls[0]?.options).toMatchObject({
+        include: ["src/lib/**"],
+        exclude: ["**/*.snap", "*.md"],
+      });
+    });
+
+    test("applies the selected profile before explicit foreground overrides", async () => {
+      const projectPath = await mkdtemp(join(tmpdir(), "rr-run-profile-"));
+      try {
+        await Bun.write(join(projectPath, "security.md"), "# Security guidelines\n");
+        const harness = createRunHarness({
+          env: {
+            RR_PROJECT_PATH: projectPath,
+            RR_CUSTOM_PROMPT: "Also check logging",
+          },
+          loadConfigResults: [
+            {
+              ...createConfig(),
+              profiles: {
+                security: {
+                  maxIterations: 2,
+                  promptFile: "security.md",
+                  customInstructions: "Focus on auth boundaries",
+                },
+              },
+            },
+          ],
+          foregroundValues: { profile: "security", max: 7 },
+        });
+
+        await runForeground(["--profile", "security", "--max", "7"], harness.overrides);
+
+        expect(harness.runReviewCycleCalls[0]?.maxIterations).toBe(7);
+        expect(harness.runReviewCycleCalls[0]?.options).toMatchObject({
+          profile: "security",
+          promptFile: join(projectPath, "security.md"),
+          customInstructions: "Focus on auth boundaries\n\nAlso check logging",
+        });
+      } finally {
+        await rm(projectPath, { recursive: true, force: true });
+      }
+    });
+
+    test("exits when the selected profile prompt file is missing", async () => {
+      const harness = createRunHarness({
+        loadConfigResults: [
+          { ...createConfig(), profiles: { security: { promptFile: "/missing/security.md" } } },
+        ],
+        foregroundValues: { profile: "security" },
+      });
+
+      const exitCode = await captureExitCode(async () => {
+        await runForeground(["--profile", "security"], harness.overrides);
+      });
+
+      expect(exitCode).toBe(1);
+      expect(harness.errors).toContain(
+        'Profile "security" prompt file not found: /missing/security.md'
+      );
+      expect(harness.runReviewCycleCalls).toEqual([]);
+    });
+
     test("ignores internal parser failures and continues with defaults", async () => {
       const harness = createRunHarness({
         parseErrorFor: ["_run-foreground"],
@@ -1718,6 +2119,7 @@ describe("run command", () => {
                 title: "Finding F010",
                 body: "Body for F010",
                 priority: "P2",
+                category: "correctness",
                 confidenceScore: 0.75,
                 filePath: "src/file-c.ts",
                 startLine: 33,
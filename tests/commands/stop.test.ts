@@ -109,6 +109,14 @@ function createSessionStats(overrides: Partial<SessionStats> = {}): SessionStats
       P2: 0,
       P3: 0,
     },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 1,
     entries: [],
     reviewer: "claude",
@@ -493,7 +501,7 @@ describe("runStop", () => {
     });
 
     expect(result.messages).toContain(
-      "Handoff:\nReviewed fixes hit conflicts during apply.\nCommit: commit-sha-4\nResolve or abort the Git conflict. Ralph will reconcile the handoff automatically on a later command."
+      "Handoff:\nReviewed fixes hit conflicts during apply.\nCommit: commit-sha-4\nResolve or abort the Git conflict. Ralph will reconcile the handoff automatically on a later command.\nTo have the fixer replay the handoff onto your changes instead, run rr apply --rebase; it undoes the conflicted apply first."
     );
   });
 
@@ -522,7 +530,7 @@ describe("runStop", () => {
       { projectPath: cwd, sessionId: "current-session-id" },
     ]);
     expect(result.messages).toContain(
-      "Handoff:\nReviewed fixes hit conflicts during apply.\nCommit: commit-sha-5\nResolve or abort the Git conflict. Ralph will reconcile the handoff automatically on a later command."
+      "Handoff:\nReviewed fixes hit conflicts during apply.\nCommit: commit-sha-5\nResolve or abort the Git conflict. Ralph will reconcile the handoff automatically on a later command.\nTo have the fixer replay the handoff onto your changes instead, run rr apply --rebase; it undoes the conflicted apply first."
     );
   });
 
@@ -0,0 +1,277 @@
+import { describe, expect, test } from "bun:test";
+import { getCommandDef } from "@/cli";
+import { runSuggest, type SuggestCommandDeps } from "@/commands/suggest";
+import type { GitSessionWorktree } from "@/lib/git";
+import type { SessionHandoffResult } from "@/lib/handoff";
+import type {
+  FindingFixResult,
+  FindingsArtifact,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
+import type { LogEntry } from "@/lib/types";
+import { createFindingsArtifact, createStoredFinding } from "../helpers/review-workflow";
+
+interface SuggestHarnessOptions {
+  artifact?: FindingsArtifact | null;
+  fileContent?: string;
+  handoff?: SessionHandoffResult | null;
+}
+
+interface SuggestHarnessResult {
+  worktreeStarts: Array<{ projectPath: string; id: string; startPoint: string }>;
+  handoffWorktrees: GitSessionWorktree[];
+  writes: Array<{ path: string; content: string }>;
+  logs: LogEntry[];
+  fixResults: FindingFixResult[];
+  discarded: number;
+  infos: string[];
+  successes: string[];
+  errors: string[];
+  exitCode: number | undefined;
+}
+
+function createSuggestionFinding(overrides: Partial<StoredFinding> = {}): StoredFinding {
+  return {
+    ...createStoredFinding("F004", "P1"),
+    body: [
+      "The retry count is off by one.",
+      "",
+      "```suggestion",
+      "  for (let attempt = 0; attempt < maxAttempts; attempt++) {",
+      "```",
+    ].join("\n"),
+    filePath: "src/retry.ts",
+    startLine: 2,
+    endLine: 2,
+    ...overrides,
+  };
+}
+
+function createWorktree(): GitSessionWorktree {
+  return {
+    sourceProjectPath: "/repo/project",
+    sourceRepoPath: "/repo/project",
+    worktreeProjectPath: "/tmp/worktrees/session-123-suggest-F004",
+    agentProjectPath: "/tmp/worktrees/session-123-suggest-F004",
+    retainedBranch: "rr-worktree-session-123-suggest-F004",
+    headKind: "detached",
+  };
+}
+
+async function runSuggestWithHarness(
+  args: string[],
+  options: SuggestHarnessOptions = {}
+): Promise<SuggestHarnessResult> {
+  const result: SuggestHarnessResult = {
+    worktreeStarts: [],
+    handoffWorktrees: [],
+    writes: [],
+    logs: [],
+    fixResults: [],
+    discarded: 0,
+    infos: [],
+    successes: [],
+    errors: [],
+    exitCode: undefined,
+  };
+
+  const handoff: SessionHandoffResult | null =
+    options.handoff === undefined
+      ? {
+          handoffId: "session-123-handoff",
+          handoffStatus: "applied-auto",
+          commitSha: "suggest-commit",
+          handoffUpdatedAt: 1_700_000_000_000,
+        }
+      : options.handoff;
+
+  const deps: Partial<SuggestCommandDeps> = {
+    getCommandDef,
+    loadFindingsArtifactBySessionId: async () =>
+      options.artifact === undefined
+        ? createFindingsArtifact([createSuggestionFinding()])
+        : options.artifact,
+    validateArtifactBaseline: async (artifact) => ({
+      baselineCommitSha: artifact.baselineCommitSha,
+    }),
+    createSessionWorktreeAt: (projectPath, id, startPoint) => {
+      result.worktreeStarts.push({ projectPath, id, startPoint });
+      return createWorktree();
+    },
+    discardSessionWorktree: () => {
+      result.discarded += 1;
+    },
+    createOrAutoApplyHandoff: async (_storageRoot, handoffOptions) => {
+      result.handoffWorktrees.push({ ...handoffOptions.worktree });
+      return handoff;
+    },
+    appendLog: async (_path, entry) => {
+      result.logs.push(entry);
+    },
+    appendFixResults: async (_storageRoot, _projectPath, _sessionId, fixResults) => {
+      result.fixResults.push(...fixResults);
+      return createFindingsArtifact();
+    },
+    readFile: async () =>
+      options.fileContent ??
+      "export function retry(maxAttempts: number) {\n  for (let attempt = 0; attempt <= maxAttempts; attempt++) {\n  }\n}\n",
+    writeFile: async (path, content) => {
+      result.writes.push({ path, content });
+    },
+    logInfo: (message) => {
+      result.infos.push(message);
+    },
+    logSuccess: (message) => {
+      result.successes.push(message);
+    },
+    logError: (message) => {
+      result.errors.push(message);
+    },
+    exit: (code) => {
+      result.exitCode = code;
+    },
+  };
+
+  await runSuggest(args, deps);
+  return result;
+}
+
+describe("runSuggest", () => {
+  test("applies the suggestion at the baseline and hands it off without a fixer", async () => {
+    const result = await runSuggestWithHarness([
+      "apply",
+      "--session",
+      "session-123",
+      "--id",
+      "f004",
+    ]);
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.errors).toEqual([]);
+    expect(result.worktreeStarts).toEqual([
+      {
+        projectPath: "/repo/project",
+        id: "session-123-suggest-F004",
+        startPoint: "baseline-sha-123",
+      },
+    ]);
+    expect(result.writes).toEqual([
+      {
+        path: "/tmp/worktrees/session-123-suggest-F004/src/retry.ts",
+        content:
+          "export function retry(maxAttempts: number) {\n  for (let attempt = 0; attempt < maxAttempts; attempt++) {\n  }\n}\n",
+      },
+    ]);
+    expect(result.handoffWorktrees[0]?.sourceBaselineCommitSha).toBe("source-baseline-sha-123");
+    expect(result.handoffWorktrees[0]?.sourceBaselineFingerprint).toBe("tracked-fingerprint-1");
+    expect(result.logs).toEqual([
+      {
+        type: "handoff",
+        timestamp: 1_700_000_000_000,
+        handoffId: "session-123-handoff",
+        handoffStatus: "applied-auto",
+        commitSha: "suggest-commit",
+      },
+    ]);
+    expect(result.fixResults).toEqual([
+      {
+        findingId: "F004",
+        status: "resolved",
+        summary: "Applied reviewer suggestion to src/retry.ts:2-2",
+      },
+    ]);
+    expect(result.successes).toEqual(["Applied suggestion for F004 (Finding F004)."]);
+    expect(result.discarded).toBe(1);
+  });
+
+  test("points at rr apply when the handoff is left pending", async () => {
+    const result = await runSuggestWithHarness(
+      ["apply", "--session", "session-123", "--id", "F004"],
+      {
+        handoff: {
+          handoffId: "session-123-handoff",
+          handoffStatus: "pending-apply",
+          commitSha: "suggest-commit",
+          handoffUpdatedAt: 1,
+        },
+      }
+    );
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.successes).toEqual([]);
+    expect(result.infos).toEqual([
+      "Suggestion for F004 is pending because the working tree changed since the review. Apply: rr apply --session session-123-handoff",
+    ]);
+  });
+
+  test("reports a suggestion that leaves the file unchanged", async () => {
+    const result = await runSuggestWithHarness(
+      ["apply", "--session", "session-123", "--id", "F004"],
+      { handoff: null }
+    );
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.infos).toEqual(["Suggestion for F004 matches the baseline; nothing to apply."]);
+    expect(result.fixResults).toEqual([]);
+    expect(result.discarded).toBe(1);
+  });
+
+  test("rejects findings without a suggestion block before creating a worktree", async () => {
+    const result = await runSuggestWithHarness(
+      ["apply", "--session", "session-123", "--id", "F004"],
+      {
+        artifact: createFindingsArtifact([
+          createSuggestionFinding({ body: "Consider a guard clause." }),
+        ]),
+      }
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Finding F004 has no suggestion block"]);
+    expect(result.worktreeStarts).toEqual([]);
+  });
+
+  test("rejects line ranges outside the baseline file and discards the worktree", async () => {
+    const result = await runSuggestWithHarness(
+      ["apply", "--session", "session-123", "--id", "F004"],
+      { fileContent: "one line\n" }
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Lines 2-2 are outside src/retry.ts (1 lines)"]);
+    expect(result.writes).toEqual([]);
+    expect(result.discarded).toBe(1);
+  });
+
+  test("reports missing artifacts and findings", async () => {
+    const missingArtifact = await runSuggestWithHarness(
+      ["apply", "--session", "session-404", "--id", "F004"],
+      { artifact: null }
+    );
+    expect(missingArtifact.errors).toEqual(["Findings artifact not found for session session-404"]);
+    expect(missingArtifact.exitCode).toBe(1);
+
+    const missingFinding = await runSuggestWithHarness([
+      "apply",
+      "--session",
+      "session-123",
+      "--id",
+      "F009",
+    ]);
+    expect(missingFinding.errors).toEqual(["Finding F009 not found in session session-123"]);
+    expect(missingFinding.exitCode).toBe(1);
+  });
+
+  test("requires the apply subcommand", async () => {
+    const result = await runSuggestWithHarness([
+      "show",
+      "--session",
+      "session-123",
+      "--id",
+      "F004",
+    ]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(['Error: Unknown suggest subcommand "show". Use: apply.']);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test";
+import { getCommandDef } from "@/cli";
+import { runSuppress, type SuppressCommandDeps } from "@/commands/suppress";
+import type { FindingSuppression, FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import { createFindingsArtifact } from "../helpers/review-workflow";
+
+interface SuppressHarnessOptions {
+  artifact?: FindingsArtifact | null;
+  suppressions?: FindingSuppression[];
+  loadError?: Error;
+}
+
+interface SuppressHarnessResult {
+  resolvedProjectPaths: string[];
+  saves: Array<{ path: string; suppressions: FindingSuppression[] }>;
+  infos: string[];
+  successes: string[];
+  errors: string[];
+  exitCode: number | undefined;
+}
+
+async function runSuppressWithHarness(
+  args: string[],
+  options: SuppressHarnessOptions = {}
+): Promise<SuppressHarnessResult> {
+  const result: SuppressHarnessResult = {
+    resolvedProjectPaths: [],
+    saves: [],
+    infos: [],
+    successes: [],
+    errors: [],
+    exitCode: undefined,
+  };
+
+  const deps: Partial<SuppressCommandDeps> = {
+    getCommandDef,
+    loadFindingsArtifactBySessionId: async () =>
+      options.artifact === undefined ? createFindingsArtifact() : options.artifact,
+    resolveSuppressionsPath: async (projectPath) => {
+      result.resolvedProjectPaths.push(projectPath);
+      return "/repo/.ralph-review/suppressions.json";
+    },
+    loadFindingSuppressions: async () => {
+      if (options.loadError) {
+        throw options.loadError;
+      }
+      return options.suppressions ?? [];
+    },
+    saveFindingSuppressions: async (path, suppressions) => {
+      result.saves.push({ path, suppressions });
+    },
+    now: () => new Date("2026-02-03T04:05:06.000Z"),
+    logInfo: (message) => {
+      result.infos.push(message);
+    },
+    logSuccess: (message) => {
+      result.successes.push(message);
+    },
+    logError: (message) => {
+      result.errors.push(message);
+    },
+    exit: (code) => {
+      result.exitCode = code;
+    },
+  };
+
+  await runSuppress(args, deps);
+  return result;
+}
+
+describe("runSuppress", () => {
+  test("appends a fingerprint suppression anchored to the selected finding", async () => {
+    const existing: FindingSuppression = { path: "src/generated/**", reason: "Generated code" };
+    const result = await runSuppressWithHarness(
+      ["--session", "session-123", "--id", "f003", "--reason", "  Intentional fallback  "],
+      { suppressions: [existing] }
+    );
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.resolvedProjectPaths).toEqual(["/repo/project"]);
+    expect(result.saves).toEqual([
+      {
+        path: "/repo/.ralph-review/suppressions.json",
+        suppressions: [
+          existing,
+          {
+            fingerprint: "fp-F003",
+            anchor: { path: "src/file-F003.ts", title: "Finding F003", startLine: 10, endLine: 12 },
+            reason: "Intentional fallback",
+            sessionId: "session-123",
+            findingId: "F003",
+            createdAt: "2026-02-03T04:05:06.000Z",
+          },
+        ],
+      },
+    ]);
+    expect(result.successes).toEqual([
+      "Suppressed F003 (Finding F003) in /repo/.ralph-review/suppressions.json",
+    ]);
+  });
+
+  test("does not duplicate an existing suppression that already matches the finding", async () => {
+    const result = await runSuppressWithHarness(
+      ["--session", "session-123", "--id", "F001", "--reason", "noise"],
+      { suppressions: [{ fingerprint: "fp-F001", reason: "Known false positive" }] }
+    );
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.saves).toEqual([]);
+    expect(result.infos).toEqual([
+      "F001 is already suppressed in /repo/.ralph-review/suppressions.json: Known false positive",
+    ]);
+  });
+
+  test.each([
+    [["--id", "F001", "--reason", "noise"], "--session"],
+    [["--session", "session-123", "--reason", "noise"], "--id"],
+    [["--session", "session-123", "--id", "F001"], "--reason"],
+    [
+      ["--session", "session-123", "--id", "oops", "--reason", "noise"],
+      'Invalid finding ID "oops"',
+    ],
+    [["--session", "session-123", "--id", "F001", "--reason", "  "], "--reason must not be empty"],
+  ])("rejects invalid arguments %#", async (args, message) => {
+    const result = await runSuppressWithHarness(args);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors[0]).toContain(message);
+    expect(result.saves).toEqual([]);
+  });
+
+  test("fails when the session has no findings artifact", async () => {
+    const result = await runSuppressWithHarness(
+      ["--session", "missing", "--id", "F001", "--reason", "noise"],
+      { artifact: null }
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Findings artifact not found for session missing"]);
+  });
+
+  test("fails when the finding is not in the session", async () => {
+    const result = await runSuppressWithHarness([
+      "--session",
+      "session-123",
+      "--id",
+      "F099",
+      "--reason",
+      "noise",
+    ]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Finding F099 not found in session session-123"]);
+  });
+
+  test("fails without overwriting when the suppressions file is invalid", async () => {
+    const result = await runSuppressWithHarness(
+      ["--session", "session-123", "--id", "F001", "--reason", "noise"],
+      { loadError: new Error("Invalid suppressions file /repo/x.json: bad") }
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Invalid suppressions file /repo/x.json: bad"]);
+    expect(result.saves).toEqual([]);
+  });
+});
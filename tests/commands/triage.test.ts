@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+import { getCommandDef } from "@/cli";
+import { runTriage, type TriageCommandDeps } from "@/commands/triage";
+import type {
+  FindingId,
+  FindingsArtifact,
+  FindingTriage,
+} from "@/lib/review-workflow/findings/types";
+import { createFindingsArtifact } from "../helpers/review-workflow";
+
+interface TriageHarnessOptions {
+  artifact?: FindingsArtifact | null;
+  updateError?: Error;
+}
+
+interface TriageHarnessResult {
+  updates: Array<{
+    projectPath: string;
+    sessionId: string;
+    findingId: FindingId;
+    triage: FindingTriage;
+  }>;
+  successes: string[];
+  errors: string[];
+  exitCode: number | undefined;
+}
+
+async function runTriageWithHarness(
+  args: string[],
+  options: TriageHarnessOptions = {}
+): Promise<TriageHarnessResult> {
+  const result: TriageHarnessResult = {
+    updates: [],
+    successes: [],
+    errors: [],
+    exitCode: undefined,
+  };
+
+  const deps: Partial<TriageCommandDeps> = {
+    getCommandDef,
+    loadFindingsArtifactBySessionId: async () =>
+      options.artifact === undefined ? createFindingsArtifact() : options.artifact,
+    updateFindingTriage: async (_storageRoot, projectPath, sessionId, findingId, triage) => {
+      if (options.updateError) {
+        throw options.updateError;
+      }
+      result.updates.push({ projectPath, sessionId, findingId, triage });
+      return createFindingsArtifact();
+    },
+    now: () => new Date("2026-02-03T04:05:06.000Z"),
+    logSuccess: (message) => {
+      result.successes.push(message);
+    },
+    logError: (message) => {
+      result.errors.push(message);
+    },
+    exit: (code) => {
+      result.exitCode = code;
+    },
+  };
+
+  await runTriage(args, deps);
+  return result;
+}
+
+describe("runTriage", () => {
+  test("records a false-positive decision with its reason", async () => {
+    const result = await runTriageWithHarness([
+      "--session",
+      "session-123",
+      "f003",
+      "--false-positive",
+      "  validated upstream  ",
+    ]);
+
+    expect(result.exitCode).toBeUndefined();
+    expect(result.updates).toEqual([
+      {
+        projectPath: "/repo/project",
+        sessionId: "session-123",
+        findingId: "F003",
+        triage: {
+          state: "false-positive",
+          reason: "validated upstream",
+          updatedAt: "2026-02-03T04:05:06.000Z",
+        },
+      },
+    ]);
+    expect(result.successes).toEqual(["Triaged F003 as false-positive - validated upstream"]);
+  });
+
+  test("records duplicates and reopened findings with optional reasons", async () => {
+    const duplicate = await runTriageWithHarness([
+      "-s",
+      "session-123",
+      "F003",
+      "--duplicate-of",
+      "F001",
+      "--reason",
+      "same null check",
+    ]);
+    const reopened = await runTriageWithHarness(["-s", "session-123", "F003", "--open"]);
+
+    expect(duplicate.updates[0]?.triage).toEqual({
+      state: "duplicate-of",
+      reason: "same null check",
+      duplicateOf: "F001",
+      updatedAt: "2026-02-03T04:05:06.000Z",
+    });
+    expect(duplicate.successes).toEqual(["Triaged F003 as duplicate-of F001 - same null check"]);
+    expect(reopened.updates[0]?.triage).toEqual({
+      state: "open",
+      updatedAt: "2026-02-03T04:05:06.000Z",
+    });
+  });
+
+  test.each([
+    [["--session", "session-123", "F003"], "Choose exactly one of"],
+    [
+      ["--session", "session-123", "F003", "--open", "--wont-fix", "later"],
+      "Choose exactly one of",
+    ],
+    [["--session", "session-123", "oops", "--open"], 'Invalid finding ID "oops"'],
+    [
+      ["--session", "session-123", "F003", "--accepted", " "],
+      "--accepted reason must not be empty",
+    ],
+    [
+      ["--session", "session-123", "F003", "--wont-fix", "later", "--reason", "x"],
+      "--reason cannot be combined with --wont-fix",
+    ],
+    [["--session", "session-123", "F003", "--duplicate-of", "F003"], "duplicate of itself"],
+  ])("rejects invalid arguments %#", async (args, message) => {
+    const result = await runTriageWithHarness(args);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors[0]).toContain(message);
+    expect(result.updates).toEqual([]);
+  });
+
+  test("fails when the session has no findings artifact", async () => {
+    const result = await runTriageWithHarness(["-s", "missing", "F001", "--open"], {
+      artifact: null,
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toEqual(["Findings artifact not found for session missing"]);
+  });
+
+  test("fails when the finding or duplicate target is not in the session", async () => {
+    const missing = await runTriageWithHarness(["-s", "session-123", "F099", "--open"]);
+    const missingTarget = await runTriageWithHarness([
+      "-s",
+      "session-123",
+      "F001",
+      "--duplicate-of",
+      "F099",
+    ]);
+
+    expect(missing.errors).toEqual(["Finding F099 not found in session session-123"]);
+    expect(missingTarget.errors).toEqual(["Finding F099 not found in session session-123"]);
+    expect(missingTarget.updates).toEqual([]);
+  });
+});
@@ -21,6 +21,7 @@ export function createStoredFinding(
     title: `Finding ${id}`,
     body: `Body for ${id}`,
     priority,
+    category: "correctness",
     confidenceScore: 0.91,
     filePath: `src/file-${id}.ts`,
     startLine: 10,
@@ -153,6 +154,7 @@ export function createReviewFinding(
     body: "A null check is missing before dereference.",
     confidence_score: 0.97,
     priority: 1,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/repo/project/src/file.ts",
       line_range: {
@@ -91,6 +91,14 @@ export function createSessionStats(overrides: Partial<SessionStats> = {}): Sessi
     totalFixes: 2,
     totalSkipped: 1,
     priorityCounts: { P0: 0, P1: 1, P2: 1, P3: 0 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 2,
     totalDuration: 154000,
     entries: [],
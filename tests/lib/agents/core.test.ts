@@ -1,11 +1,13 @@
 import { describe, expect, test } from "bun:test";
 import {
+  addAgentUsage,
   createLineFormatter,
   defaultBuildEnv,
   isAgentAvailable,
   parseJsonlEvent,
   streamAndCapture,
   stripSystemReminders,
+  sumParsedUsage,
 } from "@/lib/agents/core";
 
 function createReadableStreamFromChunks(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
@@ -309,4 +311,51 @@ describe("core", () => {
       expect(writeStream.output).toBe("tail�\n");
     });
   });
+
+  describe("addAgentUsage", () => {
+    const usage = { inputTokens: 10, outputTokens: 5, cacheReadTokens: 3, cacheWriteTokens: 1 };
+
+    test("returns whichever side is defined", () => {
+      expect(addAgentUsage(undefined, undefined)).toBeUndefined();
+      expect(addAgentUsage(usage, undefined)).toBe(usage);
+      expect(addAgentUsage(undefined, usage)).toBe(usage);
+    });
+
+    test("adds tokens and keeps cost only when a side reports one", () => {
+      expect(addAgentUsage(usage, usage)).toEqual({
+        inputTokens: 20,
+        outputTokens: 10,
+        cacheReadTokens: 6,
+        cacheWriteTokens: 2,
+      });
+      expect(addAgentUsage({ ...usage, costUsd: 0.5 }, usage)?.costUsd).toBe(0.5);
+    });
+  });
+
+  describe("sumParsedUsage", () => {
+    test("sums the usage selected from each parsed line", () => {
+      const output = ['{"type":"turn","tokens":4}', "not json", '{"type":"turn","tokens":6}'].join(
+        "\n"
+      );
+      const total = sumParsedUsage(
+        output,
+        (line) => parseJsonlEvent<{ type: string; tokens: number }>(line),
+        (event) => ({
+          inputTokens: event.tokens,
+          outputTokens: 0,
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+        })
+      );
+
+      expect(total?.inputTokens).toBe(10);
+      expect(
+        sumParsedUsage(
+          "",
+          () => null,
+          () => null
+        )
+      ).toBeNull();
+    });
+  });
 });
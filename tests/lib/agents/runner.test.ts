@@ -1,7 +1,13 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { AGENTS } from "@/lib/agents/registry";
 import { resolveAgentSettings, runAgent } from "@/lib/agents/runner";
-import { CONFIG_SCHEMA_URI, CONFIG_VERSION, type Config, type ReviewOptions } from "@/lib/types";
+import {
+  CONFIG_SCHEMA_URI,
+  CONFIG_VERSION,
+  type Config,
+  getPrimaryReviewerSettings,
+  type ReviewOptions,
+} from "@/lib/types";
 import { withMutedTerminalLogs } from "../../helpers/capture";
 import { createErroringStream, createMockProcess, createTextStream } from "../../helpers/process";
 
@@ -51,7 +57,18 @@ afterEach(() => {
 
 describe("resolveAgentSettings", () => {
   test("returns reviewer settings for reviewer role", () => {
-    expect(resolveAgentSettings("reviewer", baseConfig)).toEqual(baseConfig.reviewer);
+    expect(resolveAgentSettings("reviewer", baseConfig)).toEqual(
+      getPrimaryReviewerSettings(baseConfig.reviewer)
+    );
+  });
+
+  test("returns the first reviewer of an ensemble", () => {
+    const config: Config = {
+      ...baseConfig,
+      reviewer: [{ agent: "claude" }, { agent: "codex", model: "gpt-5.3-codex" }],
+    };
+
+    expect(resolveAgentSettings("reviewer", config)).toEqual({ agent: "claude" });
   });
 
   test("returns fixer settings for fixer role", () => {
@@ -118,6 +135,43 @@ describe("runAgent", () => {
     expect(result.duration).toBeGreaterThanOrEqual(0);
   });
 
+  test("extracts usage from stdout only", async () => {
+    const usageInputs: string[] = [];
+    AGENTS.codex = {
+      config: {
+        command: "mock-usage-command",
+        buildArgs: () => [],
+        buildEnv: () => ({ PATH: process.env.PATH ?? "" }),
+      },
+      usesJsonl: false,
+      extractResult: (output) => output,
+      extractUsage: (output) => {
+        usageInputs.push(output);
+        return { inputTokens: 7, outputTokens: 3, cacheReadTokens: 0, cacheWriteTokens: 0 };
+      },
+    };
+
+    Bun.spawn = (() => {
+      return createMockProcess(
+        createTextStream("stdout line\n"),
+        createTextStream("stderr line\n"),
+        Promise.resolve(0)
+      );
+    }) as typeof Bun.spawn;
+
+    const result = await withMutedTerminalLogs(() =>
+      runAgent("reviewer", baseConfig, "review prompt", 5000)
+    );
+
+    expect(usageInputs).toEqual(["stdout line\n"]);
+    expect(result.usage).toEqual({
+      inputTokens: 7,
+      outputTokens: 3,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    });
+  });
+
   test("uses default prompt and config iteration timeout when omitted", async () => {
     let capturedPrompt = "unexpected";
     const claudeReviewerConfig: Config = {
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildBudgetArgs,
+  findExceededBudget,
+  findExhaustedBudget,
+  formatBudgetLimit,
+  parseBudgetFlags,
+  projectBudgetSpend,
+  summarizeAgentRuns,
+} from "@/lib/budget";
+import type { AgentUsage, LogEntry } from "@/lib/types";
+
+function createUsage(overrides: Partial<AgentUsage> = {}): AgentUsage {
+  return {
+    inputTokens: 1_000,
+    outputTokens: 200,
+    cacheReadTokens: 500,
+    cacheWriteTokens: 100,
+    ...overrides,
+  };
+}
+
+const ENTRIES: LogEntry[] = [
+  {
+    type: "review_iteration",
+    timestamp: 1,
+    iteration: 1,
+    phase: "review",
+    sessionStatus: "running",
+    duration: 30_000,
+    findings: [],
+    netNewFindingIds: [],
+    usage: createUsage({ costUsd: 0.5 }),
+  },
+  { type: "finding_selection", timestamp: 2, selectionMode: "all", selectedFindingIds: [] },
+  {
+    type: "batch_fix",
+    timestamp: 3,
+    duration: 50_000,
+    selectedFindingIds: [],
+    fixResults: [],
+    usage: createUsage({ costUsd: 1.5 }),
+  },
+];
+
+describe("budget", () => {
+  test("counts cache tokens toward the token budget and reports the first limit reached", () => {
+    const spend = { usage: createUsage({ costUsd: 2 }), wallTimeMs: 60_000 };
+
+    expect(findExhaustedBudget({ maxTokens: 1_800 }, spend)).toBe("tokens");
+    expect(findExhaustedBudget({ maxCostUsd: 2, maxTokens: 1_800 }, spend)).toBe("cost");
+    expect(findExhaustedBudget({ maxWallTimeMs: 60_000 }, spend)).toBe("wall-time");
+    expect(findExceededBudget({ maxCostUsd: 2, maxWallTimeMs: 60_000 }, spend)).toBeUndefined();
+    expect(findExhaustedBudget(undefined, spend)).toBeUndefined();
+  });
+
+  test("leaves the cost budget unenforced when agents report no cost", () => {
+    expect(
+      findExhaustedBudget({ maxCostUsd: 0.01 }, { usage: createUsage(), wallTimeMs: 0 })
+    ).toBeUndefined();
+  });
+
+  test("summarizes recorded agent runs and projects further runs from their average", () => {
+    const summary = summarizeAgentRuns(ENTRIES);
+
+    expect(summary).toEqual({
+      runs: 2,
+      spend: {
+        usage: createUsage({
+          inputTokens: 2_000,
+          outputTokens: 400,
+          cacheReadTokens: 1_000,
+          cacheWriteTokens: 200,
+          costUsd: 2,
+        }),
+        wallTimeMs: 80_000,
+      },
+    });
+    expect(projectBudgetSpend(summary, 3)).toEqual({
+      usage: createUsage({
+        inputTokens: 5_000,
+        outputTokens: 1_000,
+        cacheReadTokens: 2_500,
+        cacheWriteTokens: 500,
+        costUsd: 5,
+      }),
+      wallTimeMs: 200_000,
+    });
+    expect(projectBudgetSpend(summarizeAgentRuns([]), 3)).toEqual({ wallTimeMs: 0 });
+  });
+
+  test("counts every reviewer agent of an ensemble or sharded iteration as a run", () => {
+    const entries: LogEntry[] = ENTRIES.map((entry) =>
+      entry.type === "review_iteration" ? { ...entry, reviewerRuns: 3 } : entry
+    );
+
+    expect(summarizeAgentRuns(entries).runs).toBe(4);
+  });
+
+  test("describes each budget limit", () => {
+    const budget = { maxCostUsd: 5, maxTokens: 2_000_000, maxWallTimeMs: 1_800_000 };
+
+    expect(formatBudgetLimit(budget, "cost")).toBe("cost budget of $5.00");
+    expect(formatBudgetLimit(budget, "tokens")).toBe("token budget of 2,000,000");
+    expect(formatBudgetLimit(budget, "wall-time")).toBe("wall-time budget of 30m 0s");
+  });
+
+  test("parses budget flags and forwards them as arguments", () => {
+    const budget = parseBudgetFlags({
+      "max-cost": 2.5,
+      "max-tokens": 500_000,
+      "max-wall-time": 600_000,
+    });
+
+    expect(budget).toEqual({ maxCostUsd: 2.5, maxTokens: 500_000, maxWallTimeMs: 600_000 });
+    expect(buildBudgetArgs(budget)).toEqual([
+      "--max-cost",
+      "2.5",
+      "--max-tokens",
+      "500000",
+      "--max-wall-time",
+      "600000",
+    ]);
+    expect(parseBudgetFlags({})).toBeUndefined();
+    expect(buildBudgetArgs(undefined)).toEqual([]);
+  });
+
+  test("rejects budget flags that are not positive", () => {
+    expect(() => parseBudgetFlags({ "max-cost": 0 })).toThrow(
+      "--max-cost must be a positive number"
+    );
+    expect(() => parseBudgetFlags({ "max-tokens": 1.5 })).toThrow(
+      "--max-tokens must be a positive whole number"
+    );
+    expect(() => parseBudgetFlags({ "max-wall-time": Number.NaN })).toThrow(
+      "--max-wall-time must be a positive whole number"
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import {
   extractClaudeResult,
+  extractClaudeUsage,
   formatClaudeEventForDisplay,
   parseClaudeStreamEvent,
 } from "@/lib/agents/claude";
@@ -519,4 +520,51 @@ describe("claude-stream", () => {
       expect(result).toBe("Last result");
     });
   });
+
+  describe("extractClaudeUsage", () => {
+    test("reads tokens and cost from the result event", () => {
+      const jsonl = [
+        JSON.stringify({ type: "system", subtype: "init", session_id: "abc" }),
+        JSON.stringify({
+          type: "result",
+          result: "Done",
+          subtype: "success",
+          is_error: false,
+          session_id: "abc",
+          duration_ms: 500,
+          num_turns: 3,
+          total_cost_usd: 0.42,
+          usage: {
+            input_tokens: 1200,
+            output_tokens: 340,
+            cache_read_input_tokens: 9000,
+            cache_creation_input_tokens: 500,
+          },
+        }),
+      ].join("\n");
+
+      expect(extractClaudeUsage(jsonl)).toEqual({
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheReadTokens: 9000,
+        cacheWriteTokens: 500,
+        costUsd: 0.42,
+      });
+    });
+
+    test("returns null when no result event reports usage", () => {
+      const jsonl = JSON.stringify({
+        type: "result",
+        result: "Done",
+        subtype: "success",
+        is_error: false,
+        session_id: "abc",
+        duration_ms: 500,
+        num_turns: 1,
+      });
+
+      expect(extractClaudeUsage(jsonl)).toBeNull();
+      expect(extractClaudeUsage("")).toBeNull();
+    });
+  });
 });
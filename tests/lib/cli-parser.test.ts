@@ -105,6 +105,25 @@ describe("cli-parser", () => {
         const result = parseCommand(commandWithValues, ["-o", "file.txt"]);
         expect(result.values.output).toBe("file.txt");
       });
+
+      test("keeps the last value for a repeated option", () => {
+        const result = parseCommand(commandWithValues, ["-o", "a.txt", "-o", "b.txt"]);
+        expect(result.values.output).toBe("b.txt");
+      });
+
+      test("collects every value for a repeatable option", () => {
+        const command: CommandDef = {
+          name: "scan",
+          description: "Scan paths",
+          options: [{ name: "path", type: "string", description: "Path glob", repeatable: true }],
+        };
+
+        expect(parseCommand(command, ["--path", "src/**", "--path=docs/**"]).values.path).toEqual([
+          "src/**",
+          "docs/**",
+        ]);
+        expect(parseCommand(command, []).values.path).toBeUndefined();
+      });
     });
 
     describe("default values", () => {
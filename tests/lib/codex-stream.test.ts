@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import {
   extractCodexResult,
+  extractCodexUsage,
   formatCodexEventForDisplay,
   parseCodexStreamEvent,
 } from "@/lib/agents/codex";
@@ -852,4 +853,33 @@ describe("codex-stream", () => {
       expect(result).toBe(JSON.stringify(reviewOutput));
     });
   });
+
+  describe("extractCodexUsage", () => {
+    test("sums turn usage and separates cached input tokens", () => {
+      const jsonl = [
+        JSON.stringify({ type: "thread.started", thread_id: "thread-1" }),
+        JSON.stringify({
+          type: "turn.completed",
+          usage: { input_tokens: 1000, cached_input_tokens: 600, output_tokens: 50 },
+        }),
+        JSON.stringify({
+          type: "turn.completed",
+          usage: { input_tokens: 500, cached_input_tokens: 100, output_tokens: 25 },
+        }),
+      ].join("\n");
+
+      expect(extractCodexUsage(jsonl)).toEqual({
+        inputTokens: 800,
+        outputTokens: 75,
+        cacheReadTokens: 700,
+        cacheWriteTokens: 0,
+      });
+    });
+
+    test("returns null when no turn completed", () => {
+      expect(
+        extractCodexUsage(JSON.stringify({ type: "thread.started", thread_id: "thread-1" }))
+      ).toBeNull();
+    });
+  });
 });
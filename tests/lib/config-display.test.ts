@@ -117,6 +117,36 @@ describe("config display", () => {
     expect(output).not.toContain("version");
   });
 
+  test("formats reviewer ensembles on one line", () => {
+    const output = formatReadableConfigSection({
+      title: "Current configuration",
+      path: "/tmp/global.json",
+      config: { ...baseConfig, reviewer: [{ agent: "codex" }, { agent: "claude" }] },
+      mode: "full",
+    });
+
+    expect(output).toMatch(/Reviewers:\s+Codex.* \+ Claude/);
+  });
+
+  test("formats review profiles by name", () => {
+    const output = formatReadableConfigSection({
+      title: "Current configuration",
+      path: "/tmp/global.json",
+      config: {
+        ...baseConfig,
+        profiles: {
+          security: { maxIterations: 3, promptFile: ".ralph-review/security.md" },
+          quick: {},
+        },
+      },
+      mode: "full",
+    });
+
+    expect(output).toContain("Profiles");
+    expect(output).toMatch(/security:\s+max 3 iterations, prompt \.ralph-review\/security\.md/);
+    expect(output).toMatch(/quick:\s+no overrides/);
+  });
+
   test("formats readable full config with metadata when requested", () => {
     const output = formatReadableConfigSection({
       title: "Current configuration",
@@ -3,6 +3,7 @@ import { mkdtemp, rm, stat } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import {
+  applyReviewProfile,
   buildConfigOverride,
   configExists,
   ensureConfigDir,
@@ -15,11 +16,17 @@ import {
   parseConfig,
   parseConfigOverrideWithDiagnostics,
   parseConfigWithDiagnostics,
+  resolveProfilePromptPath,
   resolveRepoConfigPath,
   saveConfig,
   saveConfigOverride,
 } from "@/lib/config";
-import { CONFIG_SCHEMA_URI, CONFIG_VERSION, type Config } from "@/lib/types";
+import {
+  CONFIG_SCHEMA_URI,
+  CONFIG_VERSION,
+  type Config,
+  getPrimaryReviewerSettings,
+} from "@/lib/types";
 
 describe("config", () => {
   let tempDir: string;
@@ -280,6 +287,214 @@ describe("config", () => {
       expect(result.errors).toContain("notifications.sound must be an object.");
     });
 
+    test("parseConfig reads review.dedupeThreshold", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        review: { dedupeThreshold: 0.75 },
+      });
+
+      expect(parsed?.review).toEqual({ dedupeThreshold: 0.75 });
+    });
+
+    test("parseConfig reads review confidence floors", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        review: { minConfidence: 0.5, minConfidenceByPriority: { P3: 0.8 } },
+      });
+
+      expect(parsed?.review).toEqual({ minConfidence: 0.5, minConfidenceByPriority: { P3: 0.8 } });
+    });
+
+    test("parseConfig reads review path globs", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        review: { include: ["src/**"], exclude: ["**/*.snap", "dist/**"] },
+      });
+
+      expect(parsed?.review).toEqual({ include: ["src/**"], exclude: ["**/*.snap", "dist/**"] });
+    });
+
+    test("parseConfigWithDiagnostics rejects invalid review path globs", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        review: { include: "src/**", exclude: ["  "] },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        "review.include must be an array of non-empty glob strings.",
+        "review.exclude must be an array of non-empty glob strings.",
+      ]);
+    });
+
+    test("parseConfig reads review shard and fix concurrency limits", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        review: { shardThreshold: 800, maxShards: 3, fixConcurrency: 2 },
+      });
+
+      expect(parsed?.review).toEqual({ shardThreshold: 800, maxShards: 3, fixConcurrency: 2 });
+    });
+
+    test("parseConfigWithDiagnostics rejects non-positive shard and fix concurrency limits", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        review: { shardThreshold: 0, maxShards: 2.5, fixConcurrency: -1 },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        "review.shardThreshold must be an integer greater than 0.",
+        "review.maxShards must be an integer greater than 0.",
+        "review.fixConcurrency must be an integer greater than 0.",
+      ]);
+    });
+
+    test("parseConfig reads verification commands", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        verify: { commands: ["bun test", "bun run typecheck"] },
+      });
+
+      expect(parsed?.verify).toEqual({ commands: ["bun test", "bun run typecheck"] });
+    });
+
+    test("parseConfigWithDiagnostics rejects invalid verification commands", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        verify: { commands: ["bun test", " "], timeout: 10 },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        "verify.timeout is not supported.",
+        "verify.commands must be an array of non-empty command strings.",
+      ]);
+    });
+
+    test("parseConfig reads session budget limits", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        budget: { maxCostUsd: 2.5, maxTokens: 2_000_000, maxWallTimeMs: 1_800_000 },
+      });
+
+      expect(parsed?.budget).toEqual({
+        maxCostUsd: 2.5,
+        maxTokens: 2_000_000,
+        maxWallTimeMs: 1_800_000,
+      });
+    });
+
+    test("parseConfigWithDiagnostics rejects invalid budget limits", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        budget: { maxCostUsd: 0, maxTokens: 1.5, maxWallTimeMs: -1, maxIterations: 3 },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        "budget.maxIterations is not supported.",
+        "budget.maxCostUsd must be a number greater than 0.",
+        "budget.maxTokens must be an integer greater than 0.",
+        "budget.maxWallTimeMs must be an integer greater than 0.",
+      ]);
+    });
+
+    test("parseConfig reads review profiles", () => {
+      const profiles = {
+        security: {
+          reviewer: { agent: "claude", reasoning: "high" },
+          promptFile: ".ralph-review/security.md",
+          maxIterations: 3,
+          customInstructions: "Focus on auth boundaries",
+        },
+        perf: { reviewer: [{ agent: "codex" }, { agent: "gemini" }] },
+      };
+      const parsed = parseConfig({ ...createValidConfigInput(), profiles });
+
+      expect(parsed?.profiles).toEqual(profiles as Config["profiles"]);
+    });
+
+    test("parseConfigWithDiagnostics rejects invalid review profiles", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        profiles: {
+          "bad name": {},
+          security: { reviewer: { agent: "nope" }, maxIterations: 0, promptFile: "", extra: 1 },
+        },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        'profiles.bad name is not a valid profile name. Use letters, digits, "-", and "_".',
+        "profiles.security.extra is not supported.",
+        "profiles.security.reviewer.agent must be one of: codex, claude, opencode, droid, gemini, pi.",
+        "profiles.security.maxIterations must be a positive integer.",
+        "profiles.security.promptFile must be a non-empty string.",
+      ]);
+    });
+
+    test("applyReviewProfile overlays reviewer and iteration settings", () => {
+      const config: Config = {
+        ...testConfig,
+        profiles: {
+          security: { reviewer: { agent: "claude", model: null }, maxIterations: 3 },
+          empty: {},
+        },
+      };
+
+      const profiled = applyReviewProfile(config, "security");
+
+      expect(profiled.reviewer).toEqual({ agent: "claude", reasoning: "high" });
+      expect(profiled.maxIterations).toBe(3);
+      expect(profiled.fixer).toEqual(testConfig.fixer);
+      expect(applyReviewProfile(config, "empty").reviewer).toEqual(testConfig.reviewer);
+      expect(() => applyReviewProfile(config, "perf")).toThrow(
+        'Unknown profile "perf". Available profiles: empty, security.'
+      );
+      expect(() => applyReviewProfile(testConfig, "perf")).toThrow("No profiles are configured.");
+    });
+
+    test("resolveProfilePromptPath resolves relative prompt files from the repository root", async () => {
+      const resolveRoot = async () => "/repo";
+
+      expect(
+        await resolveProfilePromptPath("/repo/packages/app", "prompts/security.md", {
+          repositoryRootResolver: resolveRoot,
+        })
+      ).toBe("/repo/prompts/security.md");
+      expect(
+        await resolveProfilePromptPath("/repo/packages/app", "/abs/security.md", {
+          repositoryRootResolver: resolveRoot,
+        })
+      ).toBe("/abs/security.md");
+    });
+
+    test("parseConfigWithDiagnostics rejects invalid confidence floors", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        review: { minConfidence: -0.1, minConfidenceByPriority: { P3: 2, P9: 0.5 } },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        "review.minConfidence must be a number between 0 and 1.",
+        "review.minConfidenceByPriority.P3 must be a number between 0 and 1.",
+        "review.minConfidenceByPriority.P9 is not supported.",
+      ]);
+    });
+
+    test("parseConfigWithDiagnostics rejects out-of-range review settings", () => {
+      const result = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        review: { dedupeThreshold: 1.5, strict: true },
+      });
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toContain("review.dedupeThreshold must be a number between 0 and 1.");
+      expect(result.errors).toContain("review.strict is not supported.");
+    });
+
     test("parseConfig rejects removed run settings", () => {
       const withInvalidRun = {
         ...createValidConfigInput(),
@@ -298,7 +513,7 @@ describe("config", () => {
       const result = parseConfigWithDiagnostics(withRemovedRun);
       expect(result.config).toBeNull();
       expect(result.errors).toContain(
-        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout."
+        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout."
       );
     });
 
@@ -319,7 +534,7 @@ describe("config", () => {
         "fixer.reasoning must be one of: low, medium, high, xhigh, max."
       );
       expect(result.errors).toContain(
-        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout."
+        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout."
       );
     });
 
@@ -463,6 +678,33 @@ describe("config", () => {
       });
     });
 
+    test("parseConfig accepts a reviewer ensemble list", () => {
+      const parsed = parseConfig({
+        ...createValidConfigInput(),
+        reviewer: [{ agent: "codex", model: "gpt-5.3-codex" }, { agent: "claude" }],
+      });
+
+      expect(parsed?.reviewer).toEqual([
+        { agent: "codex", model: "gpt-5.3-codex", reasoning: undefined },
+        { agent: "claude", model: undefined, reasoning: undefined },
+      ]);
+    });
+
+    test("parseConfigWithDiagnostics reports empty and invalid reviewer ensembles", () => {
+      const empty = parseConfigWithDiagnostics({ ...createValidConfigInput(), reviewer: [] });
+      expect(empty.config).toBeNull();
+      expect(empty.errors).toContain("reviewer must list at least one agent.");
+
+      const invalid = parseConfigWithDiagnostics({
+        ...createValidConfigInput(),
+        reviewer: [{ agent: "codex" }, { agent: "pi", provider: "google" }],
+      });
+      expect(invalid.config).toBeNull();
+      expect(invalid.errors).toContain(
+        'reviewer[1].model must be a string when reviewer[1].agent is "pi".'
+      );
+    });
+
     test("parseConfig accepts pi fixer with provider, model, and reasoning", () => {
       const withPiFixer = {
         ...createValidConfigInput(),
@@ -545,7 +787,7 @@ describe("config", () => {
       };
       const effective: Config = {
         ...base,
-        reviewer: { ...base.reviewer, reasoning: "low" },
+        reviewer: { ...getPrimaryReviewerSettings(base.reviewer), reasoning: "low" },
       };
 
       expect(buildConfigOverride(base, effective)).toEqual({
@@ -553,6 +795,18 @@ describe("config", () => {
       });
     });
 
+    test("buildConfigOverride writes reviewer ensembles as whole lists", () => {
+      const ensemble: Config = {
+        ...testConfig,
+        reviewer: [{ agent: "codex" }, { agent: "claude" }],
+      };
+
+      expect(buildConfigOverride(testConfig, ensemble)).toEqual({
+        reviewer: [{ agent: "codex" }, { agent: "claude" }],
+      });
+      expect(buildConfigOverride(ensemble, ensemble)).toEqual({});
+    });
+
     test("buildConfigOverride captures whole-section and nested override differences", () => {
       const base: Config = {
         ...testConfig,
@@ -567,6 +821,7 @@ describe("config", () => {
         iterationTimeout: 900000,
         defaultReview: { type: "base", branch: "main" },
         notifications: { sound: { enabled: true } },
+        review: { dedupeThreshold: 0.8, minConfidenceByPriority: { P2: 0.6, P3: 0.8 } },
       };
 
       expect(buildConfigOverride(base, effective)).toEqual({
@@ -575,9 +830,31 @@ describe("config", () => {
         iterationTimeout: 900000,
         defaultReview: { type: "base", branch: "main" },
         notifications: { sound: { enabled: true } },
+        review: { dedupeThreshold: 0.8, minConfidenceByPriority: { P2: 0.6, P3: 0.8 } },
       });
     });
 
+    test("buildConfigOverride writes verification commands as a whole list", () => {
+      const base: Config = { ...testConfig, verify: { commands: ["bun test"] } };
+
+      expect(
+        buildConfigOverride(base, { ...base, verify: { commands: ["bun test", "bun run lint"] } })
+      ).toEqual({ verify: { commands: ["bun test", "bun run lint"] } });
+      expect(buildConfigOverride(base, base)).toEqual({});
+    });
+
+    test("buildConfigOverride writes only the budget limits that differ from the base", () => {
+      const base: Config = { ...testConfig, budget: { maxCostUsd: 5, maxTokens: 1_000_000 } };
+
+      expect(
+        buildConfigOverride(base, {
+          ...base,
+          budget: { maxCostUsd: 2, maxTokens: 1_000_000, maxWallTimeMs: 600_000 },
+        })
+      ).toEqual({ budget: { maxCostUsd: 2, maxWallTimeMs: 600_000 } });
+      expect(buildConfigOverride(base, base)).toEqual({});
+    });
+
     test("buildConfigOverride preserves explicit removal of inherited optional sections", () => {
       const base: Config = {
         ...testConfig,
@@ -656,7 +933,7 @@ describe("config", () => {
       expect(result.errors).toContain("notifications.sound.extra is not supported.");
       expect(result.errors).toContain("notifications.sound.enabled must be a boolean.");
       expect(result.errors).toContain(
-        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout."
+        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout."
       );
       expect(result.errors).toContain("maxIterations must be a number.");
       expect(result.errors).toContain("iterationTimeout must be a number.");
@@ -676,7 +953,7 @@ describe("config", () => {
       expect(result.exists).toBe(true);
       expect(result.config).toBeNull();
       expect(result.errors).toContain(
-        "maxIteratons is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout."
+        "maxIteratons is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout."
       );
     });
 
@@ -698,7 +975,7 @@ describe("config", () => {
       expect(result.errors).toContain("retry must be an object.");
       expect(result.errors).toContain("notifications must be an object.");
       expect(result.errors).toContain(
-        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout."
+        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout."
       );
     });
 
@@ -730,7 +1007,7 @@ describe("config", () => {
       expect(result.errors).toContain("retry.maxDelayMs must be a number.");
       expect(result.errors).toContain("notifications.sound must be an object.");
       expect(result.errors).toContain(
-        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, maxIterations, iterationTimeout."
+        "run is not supported. Available settings: reviewer, fixer, defaultReview, retry, notifications, review, verify, budget, profiles, maxIterations, iterationTimeout."
       );
     });
 
@@ -881,6 +1158,34 @@ describe("config", () => {
       });
     });
 
+    test("loadEffectiveConfigWithDiagnostics replaces or narrows inherited reviewer ensembles", async () => {
+      const globalPath = join(tempDir, "global-config.json");
+      const repoPath = join(tempDir, "repo");
+      const localPath = getRepoConfigPath(repoPath);
+      const globalConfig: Config = {
+        ...testConfig,
+        reviewer: [
+          { agent: "codex", model: "gpt-5.4" },
+          { agent: "claude", reasoning: "high" },
+        ],
+      };
+      await ensureConfigDir(repoPath);
+      runGitIn(repoPath, ["init", "--initial-branch=main"]);
+      await saveConfig(globalConfig, globalPath);
+
+      await saveConfigOverride({ reviewer: [{ agent: "gemini" }, { agent: "droid" }] }, localPath);
+      const replaced = await loadEffectiveConfigWithDiagnostics(repoPath, { globalPath });
+      expect(replaced.config?.reviewer).toEqual([{ agent: "gemini" }, { agent: "droid" }]);
+
+      await saveConfigOverride({ reviewer: { reasoning: "low" } }, localPath);
+      const narrowed = await loadEffectiveConfigWithDiagnostics(repoPath, { globalPath });
+      expect(narrowed.config?.reviewer).toEqual({
+        agent: "codex",
+        model: "gpt-5.4",
+        reasoning: "low",
+      });
+    });
+
     test("loadEffectiveConfigWithDiagnostics updates only the pi provider when overridden", async () => {
       const globalPath = join(tempDir, "global-config.json");
       const repoPath = join(tempDir, "repo");
@@ -1004,6 +1309,86 @@ describe("config", () => {
       expect(result.config?.retry).toEqual({ maxRetries: 1, baseDelayMs: 750, maxDelayMs: 4000 });
     });
 
+    test("loadEffectiveConfigWithDiagnostics merges per-priority confidence floors", async () => {
+      const globalPath = join(tempDir, "global-config.json");
+      const repoPath = join(tempDir, "repo");
+      const localPath = getRepoConfigPath(repoPath);
+      await ensureConfigDir(repoPath);
+      runGitIn(repoPath, ["init", "--initial-branch=main"]);
+      await saveConfig(
+        {
+          ...testConfig,
+          review: { minConfidence: 0.5, minConfidenceByPriority: { P2: 0.6, P3: 0.7 } },
+        },
+        globalPath
+      );
+      await saveConfigOverride({ review: { minConfidenceByPriority: { P3: 0.9 } } }, localPath);
+
+      const result = await loadEffectiveConfigWithDiagnostics(repoPath, { globalPath });
+
+      expect(result.config?.review).toEqual({
+        minConfidence: 0.5,
+        minConfidenceByPriority: { P2: 0.6, P3: 0.9 },
+      });
+    });
+
+    test("loadEffectiveConfigWithDiagnostics lets repo-local verification commands replace global ones", async () => {
+      const globalPath = join(tempDir, "global-config.json");
+      const repoPath = join(tempDir, "repo");
+      const localPath = getRepoConfigPath(repoPath);
+      await ensureConfigDir(repoPath);
+      runGitIn(repoPath, ["init", "--initial-branch=main"]);
+      await saveConfig({ ...testConfig, verify: { commands: ["make test"] } }, globalPath);
+      await saveConfigOverride({ verify: { commands: ["bun test"] } }, localPath);
+
+      const result = await loadEffectiveConfigWithDiagnostics(repoPath, { globalPath });
+
+      expect(result.config?.verify).toEqual({ commands: ["bun test"] });
+    });
+
+    test("loadEffectiveConfigWithDiagnostics merges repo-local budget limits over global ones", async () => {
+      const globalPath = join(tempDir, "global-config.json");
+      const repoPath = join(tempDir, "repo");
+      const localPath = getRepoConfigPath(repoPath);
+      await ensureConfigDir(repoPath);
+      runGitIn(repoPath, ["init", "--initial-branch=main"]);
+      await saveConfig(
+        { ...testConfig, budget: { maxCostUsd: 10, maxWallTimeMs: 3_600_000 } },
+        globalPath
+      );
+      await saveConfigOverride({ budget: { maxCostUsd: 3 } }, localPath);
+
+      const result = await loadEffectiveConfigWithDiagnostics(repoPath, { globalPath });
+
+      expect(result.config?.budget).toEqual({ maxCostUsd: 3, maxWallTimeMs: 3_600_000 });
+    });
+
+    test("loadEffectiveConfigWithDiagnostics lets repo-local profiles replace global ones by name", async () => {
+      const globalPath = join(tempDir, "global-config.json");
+      const repoPath = join(tempDir, "repo");
+      const localPath = getRepoConfigPath(repoPath);
+      await ensureConfigDir(repoPath);
+      runGitIn(repoPath, ["init", "--initial-branch=main"]);
+      await saveConfig(
+        {
+          ...testConfig,
+          profiles: {
+            security: { maxIterations: 2, customInstructions: "Global focus" },
+            perf: { maxIterations: 4 },
+          },
+        },
+        globalPath
+      );
+      await saveConfigOverride({ profiles: { security: { maxIterations: 6 } } }, localPath);
+
+      const result = await loadEffectiveConfigWithDiagnostics(repoPath, { globalPath });
+
+      expect(result.config?.profiles).toEqual({
+        security: { maxIterations: 6 },
+        perf: { maxIterations: 4 },
+      });
+    });
+
     test("loadEffectiveConfigWithDiagnostics applies maxRetries-only retry overrides", async () => {
       const globalPath = join(tempDir, "global-config.json");
       const repoPath = join(tempDir, "repo");
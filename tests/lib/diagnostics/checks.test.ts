@@ -635,6 +635,61 @@ describe("diagnostics checks", () => {
     expect(commitRefItem?.remediation).toContain("Then run: rr run --commit <sha>");
   });
 
+  test("checks both commit range endpoints and skips uncommitted checks", async () => {
+    const checkedRefs: string[] = [];
+
+    const report = await runDiagnosticsWithDefaults("run", {
+      range: "main..feature",
+      dependencies: {
+        gitRefExists: async (_path, ref) => {
+          checkedRefs.push(ref);
+          return true;
+        },
+      },
+    });
+
+    const rangeItem = report.items.find((item) => item.id === "git-range-ref");
+    expect(rangeItem?.severity).toBe("ok");
+    expect(checkedRefs).toEqual(["main", "feature"]);
+    expect(report.items.find((item) => item.id === "git-uncommitted")).toBeUndefined();
+  });
+
+  test("skips uncommitted checks for patch file and stash reviews", async () => {
+    let uncommittedChecks = 0;
+    const dependencies = {
+      hasUncommittedChanges: async () => {
+        uncommittedChecks += 1;
+        return false;
+      },
+    };
+
+    const patchReport = await runDiagnosticsWithDefaults("run", {
+      patchFile: "changes.diff",
+      dependencies,
+    });
+    const stashReport = await runDiagnosticsWithDefaults("run", {
+      stash: "stash@{0}",
+      dependencies,
+    });
+
+    expect(uncommittedChecks).toBe(0);
+    expect(patchReport.items.find((item) => item.id === "git-uncommitted")).toBeUndefined();
+    expect(stashReport.items.find((item) => item.id === "git-uncommitted")).toBeUndefined();
+  });
+
+  test("reports malformed commit ranges as errors", async () => {
+    const report = await runDiagnosticsWithDefaults("run", {
+      range: "main...feature",
+      dependencies: {
+        gitRefExists: async () => true,
+      },
+    });
+
+    const rangeItem = report.items.find((item) => item.id === "git-range-ref");
+    expect(rangeItem?.severity).toBe("error");
+    expect(rangeItem?.summary).toBe("Commit range 'main...feature' is not in A..B form.");
+  });
+
   test("uses default git checks to detect uncommitted changes", async () => {
     const repoPath = await mkdtemp(join(tmpdir(), "diagnostics-checks-git-"));
     try {
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import {
   extractDroidResult,
+  extractDroidUsage,
   formatDroidEventForDisplay,
   parseDroidStreamEvent,
 } from "@/lib/agents/droid";
@@ -355,4 +356,44 @@ describe("droid-stream", () => {
       expect(result).toBe("Last result");
     });
   });
+
+  describe("extractDroidUsage", () => {
+    test("reads completion usage and counts thinking tokens as output", () => {
+      const jsonl = JSON.stringify({
+        type: "completion",
+        finalText: "Done",
+        numTurns: 2,
+        durationMs: 1000,
+        session_id: "abc",
+        timestamp: 1,
+        usage: {
+          input_tokens: 300,
+          output_tokens: 40,
+          thinking_tokens: 60,
+          cache_read_input_tokens: 2000,
+          cache_creation_input_tokens: 100,
+        },
+      });
+
+      expect(extractDroidUsage(jsonl)).toEqual({
+        inputTokens: 300,
+        outputTokens: 100,
+        cacheReadTokens: 2000,
+        cacheWriteTokens: 100,
+      });
+    });
+
+    test("returns null when the completion carries no usage", () => {
+      const jsonl = JSON.stringify({
+        type: "completion",
+        finalText: "Done",
+        numTurns: 1,
+        durationMs: 1000,
+        session_id: "abc",
+        timestamp: 1,
+      });
+
+      expect(extractDroidUsage(jsonl)).toBeNull();
+    });
+  });
 });
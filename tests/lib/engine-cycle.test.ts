@@ -110,6 +110,7 @@ function createFinding(): ReviewSummary["findings"][number] {
     body: "Optional config access can throw when the field is missing.",
     confidence_score: 0.92,
     priority: 1,
+    category: "correctness",
     code_location: {
       absolute_file_path: `${TEST_WORKTREE_PATH}/src/lib/config.ts`,
       line_range: {
@@ -225,6 +226,12 @@ function createDependencies(state: HarnessState): RunReviewCycleDeps {
       state.createSessionWorktreeCalls.push({ projectPath, worktreeId });
       return worktree;
     },
+    createSessionWorktreeAt: () => {
+      throw new Error("ensemble worktrees should not be used by a single reviewer");
+    },
+    createSessionWorktreeFromSource: () => {
+      throw new Error("snapshot source worktrees should not be used for working tree reviews");
+    },
     deleteSessionRefs: () => {
       state.operationLog.push("delete-session-refs");
     },
@@ -234,6 +241,9 @@ function createDependencies(state: HarnessState): RunReviewCycleDeps {
     discardSessionWorktree: (createdWorktree) => {
       state.discardSessionWorktreeCalls.push(createdWorktree);
     },
+    listChangedFileStats: () => [],
+    listRangeCommits: () => [],
+    mergeBaseWithHead: () => undefined,
     rollbackToCheckpoint: (projectPath, checkpoint) => {
       state.rollbackCalls.push({ projectPath, checkpoint });
     },
@@ -261,6 +271,9 @@ function createDependencies(state: HarnessState): RunReviewCycleDeps {
       state.savedArtifacts.push(artifact);
       return artifact;
     },
+    resolveSuppressionsPath: async () => "/repo/.ralph-review/suppressions.json",
+    loadFindingSuppressions: async () => [],
+    loadReviewGuidelinesOverrides: async () => [],
   };
 }
 
@@ -382,6 +395,29 @@ describe("runReviewCycle", () => {
     expect(sessionEnd?.reviewOutcome).toBe("clean");
   });
 
+  test("ends the session with the budget that stopped the review", async () => {
+    const state = createHarnessState();
+    queueRunAgentResults(state, {
+      ...createSuccessResult("review-pass-1"),
+      usage: { inputTokens: 800, outputTokens: 400, cacheReadTokens: 0, cacheWriteTokens: 0 },
+    });
+    queueReviewParses(state, createReviewParse(createReviewSummary([createFinding()])));
+
+    const result = await runDefaultReviewCycle(
+      state,
+      createConfig({ maxIterations: 4, budget: { maxTokens: 1_000 } })
+    );
+
+    expect(result.iterations).toBe(1);
+    expect(result.finalStatus).toBe("completed");
+    const sessionEnd = state.appendedEntries.find((entry) => entry.type === "session_end");
+    expect(sessionEnd).toMatchObject({
+      status: "completed",
+      budgetLimit: "tokens",
+      reason: "Review stopped after the token budget of 1,000 was exhausted: findings pending.",
+    });
+  });
+
   test("runs review directly with the reviewer and keeps the original baseline", async () => {
     const state = createCleanReviewState();
 
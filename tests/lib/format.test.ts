@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { formatReviewType } from "@/lib/format";
+import { formatAgentUsage, formatReviewType } from "@/lib/format";
 import type { ReviewOptions } from "@/lib/types";
 
 describe("formatReviewType", () => {
@@ -19,6 +19,28 @@ describe("formatReviewType", () => {
     expect(formatReviewType({ commitSha: "abc1234567890" })).toBe("commit (abc1234)");
   });
 
+  test("returns range format with short SHAs", () => {
+    expect(formatReviewType({ range: "abc1234567890..def4567890123" })).toBe(
+      "range (abc1234..def4567)"
+    );
+  });
+
+  test("returns patch format with the file name", () => {
+    expect(formatReviewType({ patchFile: "/tmp/reviews/changes.diff" })).toBe(
+      "patch (changes.diff)"
+    );
+  });
+
+  test("returns stash format with short SHA", () => {
+    expect(formatReviewType({ stash: "abc1234567890" })).toBe("stash (abc1234)");
+  });
+
+  test("marks each-commit reviews", () => {
+    expect(formatReviewType({ baseBranch: "main", eachCommit: true })).toBe(
+      "base (main) per commit"
+    );
+  });
+
   test("returns uncommitted + custom format with short instructions", () => {
     expect(formatReviewType({ customInstructions: "check for typos" })).toBe(
       "uncommitted changes + custom (check for typos)"
@@ -62,3 +84,28 @@ describe("formatReviewType", () => {
     expect(formatReviewType(options)).toBe("commit (abc1234)");
   });
 });
+
+describe("formatAgentUsage", () => {
+  test("abbreviates token counts and shows cost", () => {
+    expect(
+      formatAgentUsage({
+        inputTokens: 1_250_000,
+        outputTokens: 48_300,
+        cacheReadTokens: 900,
+        cacheWriteTokens: 100,
+        costUsd: 3.456,
+      })
+    ).toBe("1.3M in · 48.3k out · 1.0k cached · $3.46");
+  });
+
+  test("omits cache and cost when the agent reported neither", () => {
+    expect(
+      formatAgentUsage({
+        inputTokens: 512,
+        outputTokens: 64,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+      })
+    ).toBe("512 in · 64 out");
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import {
   extractGeminiResult,
+  extractGeminiUsage,
   formatGeminiEventForDisplay,
   parseGeminiStreamEvent,
 } from "@/lib/agents/gemini";
@@ -369,4 +370,31 @@ describe("gemini-stream", () => {
       expect(result).toBe("Valid content");
     });
   });
+
+  describe("extractGeminiUsage", () => {
+    test("reads result stats and separates cached input tokens", () => {
+      const jsonl = [
+        JSON.stringify({ type: "init", timestamp: "t", session_id: "abc", model: "gemini" }),
+        JSON.stringify({
+          type: "result",
+          timestamp: "t",
+          status: "success",
+          stats: { total_tokens: 1500, input_tokens: 1400, output_tokens: 100, cached: 400 },
+        }),
+      ].join("\n");
+
+      expect(extractGeminiUsage(jsonl)).toEqual({
+        inputTokens: 1000,
+        outputTokens: 100,
+        cacheReadTokens: 400,
+        cacheWriteTokens: 0,
+      });
+    });
+
+    test("returns null when the result carries no stats", () => {
+      const jsonl = JSON.stringify({ type: "result", timestamp: "t", status: "success" });
+
+      expect(extractGeminiUsage(jsonl)).toBeNull();
+    });
+  });
 });
@@ -4,19 +4,25 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import {
   applyBinaryPatch,
+  applyWorktreeChanges,
   computeWorkingTreeFingerprint,
   createBaselineCommit,
   createBaselineToFinalPatch,
   createCheckpoint,
   createSessionWorktree,
   createSessionWorktreeAt,
+  createSessionWorktreeFromSource,
   discardCheckpoint,
   discardSessionWorktree,
   ensureGitRepository,
   ensureGitRepositoryAsync,
   finalizeSessionWorktree,
   type GitSessionWorktree,
+  listRangeCommits,
   mergeBaseWithHead,
+  parseCommitRange,
+  resolveCommitRange,
+  resolveStashEntry,
   rollbackToCheckpoint,
 } from "@/lib/git";
 import { getProjectWorktreesDir } from "@/lib/logger";
@@ -304,6 +310,55 @@ describe("mergeBaseWithHead", () => {
   });
 });
 
+describe("commit ranges", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createGitTempDir("git-commit-range-test-");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("parses two-dot ranges and rejects other forms", () => {
+    expect(parseCommitRange(" main..feature ")).toEqual({ from: "main", to: "feature" });
+    expect(parseCommitRange("main...feature")).toBeUndefined();
+    expect(parseCommitRange("main..")).toBeUndefined();
+    expect(parseCommitRange("main")).toBeUndefined();
+  });
+
+  test("resolves range endpoints to SHAs and lists commits oldest first", () => {
+    initTestRepo(tempDir);
+    commit(tempDir, "base.txt", "base commit");
+    commit(tempDir, "one.txt", "first change");
+    commit(tempDir, "two.txt", "second change");
+
+    const range = resolveCommitRange(tempDir, "HEAD~2..HEAD");
+
+    expect(range).toEqual({
+      from: runGitStdout(tempDir, ["rev-parse", "HEAD~2"]),
+      to: runGitStdout(tempDir, ["rev-parse", "HEAD"]),
+    });
+    expect(listRangeCommits(tempDir, range.from, range.to)).toEqual([
+      { sha: runGitStdout(tempDir, ["rev-parse", "HEAD~1"]), subject: "first change" },
+      { sha: range.to, subject: "second change" },
+    ]);
+  });
+
+  test("rejects malformed ranges and unknown endpoints", () => {
+    initTestRepo(tempDir);
+    commit(tempDir, "base.txt", "base commit");
+
+    expect(() => resolveCommitRange(tempDir, "HEAD")).toThrow(
+      "Invalid commit range 'HEAD'. Expected A..B."
+    );
+    expect(() => resolveCommitRange(tempDir, "HEAD..missing")).toThrow(
+      "Commit 'missing' in range 'HEAD..missing' was not found."
+    );
+  });
+});
+
 describe("checkpoint management", () => {
   let tempDir: string;
 
@@ -411,6 +466,83 @@ describe("session worktree management", () => {
     expect(await Bun.file(join(worktree.worktreeProjectPath, "late.txt")).exists()).toBe(false);
   });
 
+  test("creates a worktree from a patch file without touching the source working tree", async () => {
+    await initializeRepoWithIgnoreRule(tempDir);
+    await Bun.write(join(tempDir, "base.txt"), "patched content\n");
+    const patch = runGitStdout(tempDir, ["diff"]);
+    runGitIn(tempDir, ["checkout", "--", "base.txt"]);
+    const patchPath = join(storageRoot, "changes.diff");
+    await Bun.write(patchPath, `${patch}\n`);
+
+    const worktree = createSessionWorktreeFromSource(
+      tempDir,
+      "session-patch",
+      { kind: "patch", patchPath },
+      storageRoot
+    );
+    createdWorktrees.push(worktree);
+
+    expect(await Bun.file(join(worktree.worktreeProjectPath, "base.txt")).text()).toBe(
+      "patched content\n"
+    );
+    expect(runGitStdout(worktree.worktreeProjectPath, ["rev-parse", "HEAD^"])).toBe(
+      runGitStdout(tempDir, ["rev-parse", "HEAD"])
+    );
+    expect(runGitStdout(worktree.worktreeProjectPath, ["status", "--porcelain"])).toBe("");
+    expect(runGitStdout(tempDir, ["status", "--porcelain"])).toBe("");
+    expect(worktree.baselineCommitSha).toBe(worktree.sourceBaselineCommitSha);
+  });
+
+  test("creates a worktree from a stash entry applied onto its parent commit", async () => {
+    await initializeRepoWithIgnoreRule(tempDir);
+    await Bun.write(join(tempDir, "base.txt"), "stashed content");
+    runGitIn(tempDir, ["stash", "push", "-m", "wip"]);
+    const stashParent = runGitStdout(tempDir, ["rev-parse", "HEAD"]);
+    commit(tempDir, "later.txt", "later commit");
+
+    const stashSha = resolveStashEntry(tempDir, "stash@{0}");
+    const worktree = createSessionWorktreeFromSource(
+      tempDir,
+      "session-stash",
+      { kind: "stash", stashRef: stashSha },
+      storageRoot
+    );
+    createdWorktrees.push(worktree);
+
+    expect(await Bun.file(join(worktree.worktreeProjectPath, "base.txt")).text()).toBe(
+      "stashed content"
+    );
+    expect(await Bun.file(join(worktree.worktreeProjectPath, "later.txt")).exists()).toBe(false);
+    expect(runGitStdout(worktree.worktreeProjectPath, ["rev-parse", "HEAD^"])).toBe(stashParent);
+    expect(runGitStdout(tempDir, ["stash", "list"])).toContain("wip");
+  });
+
+  test("rejects refs that are not stash entries", async () => {
+    await initializeRepoWithIgnoreRule(tempDir);
+
+    expect(() => resolveStashEntry(tempDir, "stash@{0}")).toThrow(
+      "Stash entry 'stash@{0}' was not found."
+    );
+    expect(() => resolveStashEntry(tempDir, "HEAD")).toThrow("'HEAD' is not a stash entry.");
+  });
+
+  test("removes the worktree when the patch does not apply", async () => {
+    await initializeRepoWithIgnoreRule(tempDir);
+    const patchPath = join(storageRoot, "broken.diff");
+    await Bun.write(patchPath, "not a patch\n");
+    const worktreesBefore = listWorktreePaths(tempDir);
+
+    expect(() =>
+      createSessionWorktreeFromSource(
+        tempDir,
+        "session-broken-patch",
+        { kind: "patch", patchPath },
+        storageRoot
+      )
+    ).toThrow("Failed to apply patch");
+    expect(listWorktreePaths(tempDir)).toEqual(worktreesBefore);
+  });
+
   test("computes review-scope fingerprints including non-ignored untracked files but excluding ignored files", async () => {
     await initializeRepoWithIgnoreRule(tempDir, "add ignore rule");
 
@@ -686,4 +818,37 @@ describe("session worktree management", () => {
     expect(sourceRefExitCode).not.toBe(0);
     expect(baselineRefExitCode).not.toBe(0);
   });
+
+  test("combines changes from sibling worktrees and reports overlapping edits as conflicts", async () => {
+    initTestRepo(tempDir);
+    await Bun.write(join(tempDir, "shared.txt"), "one\ntwo\nthree\n");
+    runGitIn(tempDir, ["add", "shared.txt"]);
+    runGitIn(tempDir, ["commit", "-m", "add shared file"]);
+    const startSha = runGitStdout(tempDir, ["rev-parse", "HEAD"]);
+
+    const [target, first, second] = ["target", "first", "second"].map((id) => {
+      const worktree = createSessionWorktreeAt(tempDir, `combine-${id}`, startSha, storageRoot);
+      createdWorktrees.push(worktree);
+      return worktree;
+    }) as [GitSessionWorktree, GitSessionWorktree, GitSessionWorktree];
+
+    await Bun.write(join(first.worktreeProjectPath, "shared.txt"), "one\nTWO\nthree\n");
+    await Bun.write(join(first.worktreeProjectPath, "added.txt"), "new file\n");
+    await Bun.write(join(second.worktreeProjectPath, "shared.txt"), "one\ntwo!\nthree\n");
+
+    expect(
+      applyWorktreeChanges(target.worktreeProjectPath, target.worktreeProjectPath, startSha)
+    ).toEqual({ status: "empty", files: [] });
+    expect(
+      applyWorktreeChanges(first.worktreeProjectPath, target.worktreeProjectPath, startSha)
+    ).toEqual({ status: "applied", files: ["added.txt", "shared.txt"] });
+    expect(
+      applyWorktreeChanges(second.worktreeProjectPath, target.worktreeProjectPath, startSha)
+    ).toEqual({ status: "conflicted", files: ["shared.txt"] });
+
+    expect(await Bun.file(join(target.worktreeProjectPath, "shared.txt")).text()).toBe(
+      "one\nTWO\nthree\n"
+    );
+    expect(await Bun.file(join(target.worktreeProjectPath, "added.txt")).text()).toBe("new file\n");
+  });
 });
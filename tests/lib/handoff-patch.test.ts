@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHandoffPatch,
+  findChangeFindings,
+  listHandoffPatchChanges,
+  parseHandoffPatch,
+  summarizeHandoffPatch,
+} from "@/lib/handoff-patch";
+import { createStoredFinding } from "../helpers/review-workflow";
+
+const PATCH = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -2,3 +2,3 @@ export function load() {
+   const a = 1;
+-  const b = 2;
++  const b = 3;
+   return a + b;
+@@ -20,2 +20,3 @@ export function save() {
+   write();
++  flush();
+ }
+diff --git a/assets/logo.png b/assets/logo.png
+index 3333333..4444444 100644
+GIT binary patch
+literal 4
+LcmZQzWMT#Y01f~L
+
+literal 3
+KcmZQzWMTjW00962
+
+`;
+
+describe("handoff-patch", () => {
+  test("splits a patch into files, hunks, and whole-file changes", () => {
+    const files = parseHandoffPatch(PATCH);
+
+    expect(files.map((file) => file.path)).toEqual(["src/app.ts", "assets/logo.png"]);
+    expect(files[0]?.hunks.map((hunk) => [hunk.oldStart, hunk.oldLines])).toEqual([
+      [2, 3],
+      [20, 2],
+    ]);
+    expect(files[1]?.hunks).toEqual([]);
+    expect(
+      listHandoffPatchChanges(files).map((change) => [change.file.path, change.hunkIndex])
+    ).toEqual([
+      ["src/app.ts", 0],
+      ["src/app.ts", 1],
+      ["assets/logo.png", undefined],
+    ]);
+  });
+
+  test("counts added and removed lines per file and flags binary changes", () => {
+    expect(summarizeHandoffPatch(parseHandoffPatch(PATCH))).toEqual([
+      { path: "src/app.ts", additions: 2, deletions: 1, binary: false },
+      { path: "assets/logo.png", additions: 0, deletions: 0, binary: true },
+    ]);
+  });
+
+  test("rebuilds the full patch when every change is kept", () => {
+    const changes = listHandoffPatchChanges(parseHandoffPatch(PATCH));
+
+    expect(buildHandoffPatch(changes)).toBe(PATCH);
+  });
+
+  test("rebuilds a patch with only the kept hunks", () => {
+    const changes = listHandoffPatchChanges(parseHandoffPatch(PATCH));
+
+    expect(buildHandoffPatch([changes[1]].filter((change) => change !== undefined))).toBe(
+      `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -20,2 +20,3 @@ export function save() {
+   write();
++  flush();
+ }
+`
+    );
+    expect(buildHandoffPatch([])).toBe("");
+  });
+
+  test("relates a hunk to findings whose lines it overlaps, falling back to the whole file", () => {
+    const changes = listHandoffPatchChanges(parseHandoffPatch(PATCH));
+    const loadFinding = { ...createStoredFinding("F001"), filePath: "src/app.ts", startLine: 3 };
+    const otherFinding = {
+      ...createStoredFinding("F002"),
+      filePath: "src/app.ts",
+      startLine: 40,
+      endLine: 42,
+    };
+    const findings = [loadFinding, otherFinding, createStoredFinding("F003")];
+
+    expect(
+      changes[0] && findChangeFindings(changes[0], findings).map((finding) => finding.id)
+    ).toEqual(["F001"]);
+    expect(
+      changes[1] && findChangeFindings(changes[1], findings).map((finding) => finding.id)
+    ).toEqual(["F001", "F002"]);
+    expect(changes[2] && findChangeFindings(changes[2], findings)).toEqual([]);
+  });
+});
@@ -5,11 +5,17 @@ import { join } from "node:path";
 import { createSessionWorktree, discardSessionWorktree } from "@/lib/git";
 import {
   applyPendingHandoff,
+  applyPendingHandoffSelection,
+  commitPendingHandoff,
   createOrAutoApplyHandoff,
   discardPendingHandoff,
+  listProjectAppliedHandoffs,
   listProjectPendingHandoffs,
   readPendingHandoff,
+  rebasePendingHandoff,
+  revertAppliedHandoff,
 } from "@/lib/handoff";
+import { buildHandoffPatch, listHandoffPatchChanges, parseHandoffPatch } from "@/lib/handoff-patch";
 import { getProjectStorageDir } from "@/lib/logger";
 import {
   createStorageBackedRepo,
@@ -399,6 +405,444 @@ describe("handoff", () => {
     expect(pending?.state).toBe("pending-apply");
   });
 
+  test("rebases a pending handoff onto newer commits and working-tree changes", async () => {
+    const handoffId = await createPendingDivergedHandoff("session-rebase-clean", async () => {
+      await writeFile(join(repoPath, "other.txt"), "other change\n");
+      runGitIn(repoPath, ["add", "other.txt"]);
+      runGitIn(repoPath, ["commit", "-m", "other change"]);
+    });
+    await writeFile(join(repoPath, "notes.txt"), "unrelated work\n");
+    const resolveCalls: string[][] = [];
+
+    const rebased = await rebasePendingHandoff(
+      storageRoot,
+      repoPath,
+      handoffId,
+      async (conflicts) => {
+        resolveCalls.push(conflicts.paths);
+      }
+    );
+
+    expect(resolveCalls).toEqual([]);
+    expect(rebased.previous.handoffId).toBe(handoffId);
+    expect(rebased.conflictedPaths).toEqual([]);
+    expect(rebased.handoff?.handoffStatus).toBe("pending-apply");
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+    expect(gitRefExists(repoPath, rebased.previous.hiddenRef)).toBe(false);
+
+    const rebasedId = rebased.handoff?.handoffId ?? "";
+    await applyPendingHandoff(storageRoot, repoPath, rebasedId);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("fixed draft\n");
+    expect(await Bun.file(join(repoPath, "notes.txt")).text()).toBe("unrelated work\n");
+    expect(await listProjectPendingHandoffs(storageRoot, repoPath)).toEqual([]);
+  });
+
+  test("hands replay conflicts to the resolver and keeps its resolution", async () => {
+    const handoffId = await createPendingDivergedHandoff(
+      "session-rebase-conflict",
+      commitUserChangeAfterStart
+    );
+
+    const rebased = await rebasePendingHandoff(
+      storageRoot,
+      repoPath,
+      handoffId,
+      async (conflicts) => {
+        const conflictedPath = join(conflicts.worktree.worktreeProjectPath, "app.txt");
+        expect(conflicts.paths).toEqual(["app.txt"]);
+        expect(await Bun.file(conflictedPath).text()).toContain("<<<<<<<");
+        await writeFile(conflictedPath, "user changed after start, fixed\n");
+      }
+    );
+
+    expect(rebased.conflictedPaths).toEqual(["app.txt"]);
+    const rebasedId = rebased.handoff?.handoffId ?? "";
+    await applyPendingHandoff(storageRoot, repoPath, rebasedId);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe(
+      "user changed after start, fixed\n"
+    );
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+  });
+
+  test("rebases a handoff straight out of a three-way apply conflict", async () => {
+    const handoffId = await createPendingDivergedHandoff(
+      "session-rebase-apply-conflicted",
+      commitUserChangeAfterStart
+    );
+    const head = runGitResult(repoPath, ["rev-parse", "HEAD"]).stdout.trim();
+    await expect(applyPendingHandoff(storageRoot, repoPath, handoffId)).rejects.toThrow(
+      "has conflicts during apply"
+    );
+    expect((await readPendingHandoff(storageRoot, repoPath, handoffId))?.applyStartCommitSha).toBe(
+      head
+    );
+    const conflicted = await Bun.file(join(repoPath, "app.txt")).text();
+    await writeFile(join(repoPath, "app.txt"), `${conflicted}half-resolved edit\n`);
+
+    const rebased = await rebasePendingHandoff(
+      storageRoot,
+      repoPath,
+      handoffId,
+      async (conflicts) => {
+        await writeFile(
+          join(conflicts.worktree.worktreeProjectPath, "app.txt"),
+          "user changed after start, fixed\n"
+        );
+      }
+    );
+
+    expect(rebased.previous.state).toBe("pending-apply");
+    expect(rebased.conflictedPaths).toEqual(["app.txt"]);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("user changed after start\n");
+    expect(runGitResult(repoPath, ["ls-files", "--unmerged"]).stdout).toBe("");
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+
+    await applyPendingHandoff(storageRoot, repoPath, rebased.handoff?.handoffId ?? "");
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe(
+      "user changed after start, fixed\n"
+    );
+  });
+
+  test("keeps the original handoff when conflict markers remain after the resolver", async () => {
+    const handoffId = await createPendingDivergedHandoff(
+      "session-rebase-unresolved",
+      commitUserChangeAfterStart
+    );
+
+    const listRefs = () =>
+      runGitResult(repoPath, ["for-each-ref", "--format=%(refname)", "refs/ralph-review"]).stdout;
+    const refsBefore = listRefs();
+
+    await expect(
+      rebasePendingHandoff(storageRoot, repoPath, handoffId, async () => {})
+    ).rejects.toThrow("Conflicts remain in app.txt");
+
+    const pending = await listProjectPendingHandoffs(storageRoot, repoPath);
+    expect(pending.map((handoff) => handoff.handoffId)).toEqual([handoffId]);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("user changed after start\n");
+    expect(listRefs()).toBe(refsBefore);
+  });
+
+  test("records an auto-applied handoff and reverts it while the tree is unchanged", async () => {
+    await writeFile(join(repoPath, "app.txt"), "draft\n");
+    const worktree = createSessionWorktree(repoPath, "session-revert-auto", storageRoot);
+    try {
+      await writeFile(join(worktree.worktreeProjectPath, "app.txt"), "fixed draft\n");
+      await expectAutoAppliedHandoff(await createHandoff("session-revert-auto", worktree));
+    } finally {
+      discardSessionWorktree(worktree);
+    }
+
+    const [applied] = await listProjectAppliedHandoffs(storageRoot, repoPath);
+    expect(applied?.sessionId).toBe("session-revert-auto");
+    expect(await Bun.file(applied?.patchPath ?? "").exists()).toBe(true);
+
+    const reverted = await revertAppliedHandoff(storageRoot, repoPath, applied?.handoffId ?? "");
+
+    expect(reverted.conflictedPaths).toEqual([]);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("draft\n");
+    expect(await listProjectAppliedHandoffs(storageRoot, repoPath)).toEqual([]);
+    expect(await Bun.file(applied?.patchPath ?? "").exists()).toBe(false);
+  });
+
+  test("reverts a manually applied handoff while keeping later edits", async () => {
+    const handoffId = await createPendingDivergedHandoff("session-revert-edits");
+    await applyPendingHandoff(storageRoot, repoPath, handoffId);
+    await writeFile(join(repoPath, "notes.txt"), "later edit\n");
+
+    const reverted = await revertAppliedHandoff(storageRoot, repoPath, handoffId);
+
+    expect(reverted.conflictedPaths).toEqual([]);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("draft\n");
+    expect(await Bun.file(join(repoPath, "notes.txt")).text()).toBe("later edit\n");
+  });
+
+  test("leaves conflict markers when later edits overlap the reverted handoff", async () => {
+    const handoffId = await createPendingDivergedHandoff("session-revert-conflict");
+    await applyPendingHandoff(storageRoot, repoPath, handoffId);
+    await writeFile(join(repoPath, "app.txt"), "fixed draft, then edited\n");
+
+    const reverted = await revertAppliedHandoff(storageRoot, repoPath, handoffId);
+
+    expect(reverted.conflictedPaths).toEqual(["app.txt"]);
+    const content = await Bun.file(join(repoPath, "app.txt")).text();
+    expect(content).toContain("<<<<<<<");
+    expect(content).toContain("fixed draft, then edited");
+    expect(runGitResult(repoPath, ["ls-files", "--unmerged"]).stdout).toBe("");
+    expect(await listProjectAppliedHandoffs(storageRoot, repoPath)).toEqual([]);
+  });
+
+  test("rejects reverting a handoff that was never applied", async () => {
+    await expect(revertAppliedHandoff(storageRoot, repoPath, "missing")).rejects.toThrow(
+      'Applied review handoff "missing" was not found.'
+    );
+  });
+
+  test("commits a pending handoff onto a new branch without touching the working tree", async () => {
+    const handoffId = await createPendingDivergedHandoff("session-branch");
+    await writeFile(join(repoPath, "notes.txt"), "unrelated work\n");
+    const head = runGitResult(repoPath, ["rev-parse", "HEAD"]).stdout.trim();
+
+    const committed = await commitPendingHandoff(storageRoot, repoPath, handoffId, {
+      message: "rr: fix review findings F001\n",
+      branch: "rr/fix-session-branch",
+    });
+
+    expect(committed.branch).toBe("rr/fix-session-branch");
+    expect(runGitResult(repoPath, ["rev-parse", "rr/fix-session-branch"]).stdout.trim()).toBe(
+      committed.commitSha
+    );
+    expect(runGitResult(repoPath, ["rev-parse", `${committed.commitSha}^`]).stdout.trim()).toBe(
+      head
+    );
+    expect(runGitResult(repoPath, ["show", "rr/fix-session-branch:app.txt"]).stdout).toBe(
+      "fixed draft\n"
+    );
+    expect(runGitResult(repoPath, ["log", "-1", "--format=%s", committed.commitSha]).stdout).toBe(
+      "rr: fix review findings F001\n"
+    );
+    expect(runGitResult(repoPath, ["rev-parse", "HEAD"]).stdout.trim()).toBe(head);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("draft\n");
+    expect(await Bun.file(join(repoPath, "notes.txt")).text()).toBe("unrelated work\n");
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+  });
+
+  test("fast-forwards HEAD onto a committed handoff", async () => {
+    const handoffId = await createPendingDivergedHandoff("session-commit");
+
+    const committed = await commitPendingHandoff(storageRoot, repoPath, handoffId, {
+      message: "rr: apply review fixes\n",
+    });
+
+    expect(runGitResult(repoPath, ["rev-parse", "HEAD"]).stdout.trim()).toBe(committed.commitSha);
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("fixed draft\n");
+    expect(runGitResult(repoPath, ["status", "--porcelain"]).stdout).toBe("");
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+  });
+
+  test("records committed handoffs and points --revert at git instead", async () => {
+    const commitHandoffId = await createPendingDivergedHandoff("session-commit-revert");
+    const committed = await commitPendingHandoff(storageRoot, repoPath, commitHandoffId, {
+      message: "rr: apply review fixes\n",
+    });
+    const shortSha = committed.commitSha.slice(0, 7);
+
+    await expect(revertAppliedHandoff(storageRoot, repoPath, commitHandoffId)).rejects.toThrow(
+      `was committed as ${shortSha}, not applied to the working tree. Undo it with git revert ${shortSha} instead.`
+    );
+
+    const branchHandoffId = await createPendingDivergedHandoff("session-branch-revert");
+    const branched = await commitPendingHandoff(storageRoot, repoPath, branchHandoffId, {
+      message: "rr: apply review fixes\n",
+      branch: "rr/fix-revert",
+    });
+
+    await expect(revertAppliedHandoff(storageRoot, repoPath, branchHandoffId)).rejects.toThrow(
+      `was committed to branch rr/fix-revert as ${branched.commitSha.slice(0, 7)}, not applied to the working tree. Delete the branch with git branch -D rr/fix-revert instead.`
+    );
+    expect(
+      (await listProjectAppliedHandoffs(storageRoot, repoPath)).map((applied) => ({
+        committedSha: applied.committedSha,
+        branch: applied.branch,
+      }))
+    ).toEqual(
+      expect.arrayContaining([
+        { committedSha: committed.commitSha, branch: undefined },
+        { committedSha: branched.commitSha, branch: "rr/fix-revert" },
+      ])
+    );
+  });
+
+  test("keeps the handoff pending when its patch does not apply to HEAD", async () => {
+    const handoffId = await createPendingDivergedHandoff(
+      "session-commit-conflict",
+      commitUserChangeAfterStart
+    );
+    const head = runGitResult(repoPath, ["rev-parse", "HEAD"]).stdout.trim();
+
+    await expect(
+      commitPendingHandoff(storageRoot, repoPath, handoffId, {
+        message: "rr: apply review fixes\n",
+      })
+    ).rejects.toThrow("Handoff patch does not apply to HEAD");
+
+    expect(runGitResult(repoPath, ["rev-parse", "HEAD"]).stdout.trim()).toBe(head);
+    expect((await readPendingHandoff(storageRoot, repoPath, handoffId))?.state).toBe(
+      "pending-apply"
+    );
+  });
+
+  test("branches from the hidden handoff commit when HEAD has moved past the patch", async () => {
+    const handoffId = await createPendingDivergedHandoff(
+      "session-branch-moved",
+      commitUserChangeAfterStart
+    );
+    const hiddenCommitSha = (await readPendingHandoff(storageRoot, repoPath, handoffId))?.commitSha;
+
+    const branched = await commitPendingHandoff(storageRoot, repoPath, handoffId, {
+      message: "rr: fix review findings F001\n",
+      branch: "rr/fix-moved",
+    });
+
+    expect(runGitResult(repoPath, ["rev-parse", "rr/fix-moved"]).stdout.trim()).toBe(
+      branched.commitSha
+    );
+    expect(runGitResult(repoPath, ["rev-parse", `${branched.commitSha}^`]).stdout).toBe(
+      runGitResult(repoPath, ["rev-parse", `${hiddenCommitSha}^`]).stdout
+    );
+    expect(runGitResult(repoPath, ["show", "rr/fix-moved:app.txt"]).stdout).toBe("fixed draft\n");
+    expect(runGitResult(repoPath, ["log", "-1", "--format=%s", branched.commitSha]).stdout).toBe(
+      "rr: fix review findings F001\n"
+    );
+    expect(await Bun.file(join(repoPath, "app.txt")).text()).toBe("user changed after start\n");
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+  });
+
+  test("checks the branch name before committing a handoff", async () => {
+    const handoffId = await createPendingDivergedHandoff("session-branch-taken");
+    runGitIn(repoPath, ["branch", "rr/fix-taken"]);
+    const taken = runGitResult(repoPath, ["rev-parse", "rr/fix-taken"]).stdout;
+
+    await expect(
+      commitPendingHandoff(storageRoot, repoPath, handoffId, {
+        message: "rr: apply review fixes\n",
+        branch: "rr/fix-taken",
+      })
+    ).rejects.toThrow('Branch "rr/fix-taken" already exists.');
+    await expect(
+      commitPendingHandoff(storageRoot, repoPath, handoffId, {
+        message: "rr: apply review fixes\n",
+        branch: "rr/bad..name",
+      })
+    ).rejects.toThrow('"rr/bad..name" is not a valid branch name.');
+
+    expect(runGitResult(repoPath, ["rev-parse", "rr/fix-taken"]).stdout).toBe(taken);
+    expect((await readPendingHandoff(storageRoot, repoPath, handoffId))?.state).toBe(
+      "pending-apply"
+    );
+  });
+
+  test("applies only the selected hunks of a pending handoff", async () => {
+    const original = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+    await writeFile(join(repoPath, "long.txt"), `${original.join("\n")}\n`);
+    runGitIn(repoPath, ["add", "long.txt"]);
+    runGitIn(repoPath, ["commit", "-m", "add long file"]);
+
+    const worktree = createSessionWorktree(repoPath, "session-select", storageRoot);
+    let handoffId = "";
+    try {
+      const fixed = original.map((line, index) =>
+        index === 1 || index === 27 ? `${line} fixed` : line
+      );
+      await writeFile(join(worktree.worktreeProjectPath, "long.txt"), `${fixed.join("\n")}\n`);
+      const handoff = await createOrAutoApplyHandoff(storageRoot, {
+        sessionId: "session-select",
+        projectPath: repoPath,
+        logPath: join(storageRoot, "logs", "session-select.jsonl"),
+        worktree,
+        autoApply: false,
+      });
+      handoffId = handoff?.handoffId ?? "";
+    } finally {
+      discardSessionWorktree(worktree);
+    }
+
+    const pending = await readPendingHandoff(storageRoot, repoPath, handoffId);
+    const changes = listHandoffPatchChanges(
+      parseHandoffPatch(await Bun.file(pending?.patchPath ?? "").text())
+    );
+    expect(changes).toHaveLength(2);
+
+    await applyPendingHandoffSelection(
+      storageRoot,
+      repoPath,
+      handoffId,
+      buildHandoffPatch(changes.slice(1))
+    );
+
+    const applied = (await Bun.file(join(repoPath, "long.txt")).text()).split("\n");
+    expect(applied[1]).toBe("line 2");
+    expect(applied[27]).toBe("line 28 fixed");
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+  });
+
+  async function applyConflictedSelection(sessionId: string) {
+    const original = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+    await writeFile(join(repoPath, "long.txt"), `${original.join("\n")}\n`);
+    runGitIn(repoPath, ["add", "long.txt"]);
+    runGitIn(repoPath, ["commit", "-m", "add long file"]);
+
+    const logPath = join(storageRoot, "logs", `${sessionId}.jsonl`);
+    const worktree = createSessionWorktree(repoPath, sessionId, storageRoot);
+    let handoffId = "";
+    try {
+      const fixed = original.map((line, index) =>
+        index === 1 || index === 27 ? `${line} fixed` : line
+      );
+      await writeFile(join(worktree.worktreeProjectPath, "long.txt"), `${fixed.join("\n")}\n`);
+      const userEdit = original.map((line, index) => (index === 27 ? `${line} user` : line));
+      await writeFile(join(repoPath, "long.txt"), `${userEdit.join("\n")}\n`);
+      runGitIn(repoPath, ["commit", "-am", "user edit"]);
+
+      const handoff = await createOrAutoApplyHandoff(storageRoot, {
+        sessionId,
+        projectPath: repoPath,
+        logPath,
+        worktree,
+        autoApply: false,
+      });
+      handoffId = handoff?.handoffId ?? "";
+    } finally {
+      discardSessionWorktree(worktree);
+    }
+
+    const pending = await readPendingHandoff(storageRoot, repoPath, handoffId);
+    const changes = listHandoffPatchChanges(
+      parseHandoffPatch(await Bun.file(pending?.patchPath ?? "").text())
+    );
+    const selectedPatch = buildHandoffPatch(changes.slice(1));
+
+    await expect(
+      applyPendingHandoffSelection(storageRoot, repoPath, handoffId, selectedPatch)
+    ).rejects.toThrow("Resolve or abort the Git conflict");
+
+    return { original, logPath, handoffId, selectedPatch };
+  }
+
+  test("records only the selected hunks when a conflicted selection is resolved", async () => {
+    const { original, logPath, handoffId, selectedPatch } =
+      await applyConflictedSelection("session-select-conflict");
+    const conflicted = await readPendingHandoff(storageRoot, repoPath, handoffId);
+    expect(await Bun.file(conflicted?.appliedPatchPath ?? "").text()).toBe(selectedPatch);
+
+    const resolved = original.map((line, index) => (index === 27 ? `${line} merged` : line));
+    await writeFile(join(repoPath, "long.txt"), `${resolved.join("\n")}\n`);
+    runGitIn(repoPath, ["add", "long.txt"]);
+
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+    const [applied] = await listProjectAppliedHandoffs(storageRoot, repoPath);
+    expect(await Bun.file(applied?.patchPath ?? "").text()).toBe(selectedPatch);
+    expect(await Bun.file(conflicted?.appliedPatchPath ?? "").exists()).toBe(false);
+    const statuses = (await Bun.file(logPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).handoffStatus);
+    expect(statuses.at(-1)).toBe("applied-partial");
+  });
+
+  test("reverts only the selected hunks after a conflicted selection is resolved", async () => {
+    const { original, handoffId } = await applyConflictedSelection("session-select-revert");
+    const resolved = original.map((line, index) => (index === 27 ? `${line} fixed` : line));
+    await writeFile(join(repoPath, "long.txt"), `${resolved.join("\n")}\n`);
+    runGitIn(repoPath, ["add", "long.txt"]);
+    expect(await readPendingHandoff(storageRoot, repoPath, handoffId)).toBeNull();
+
+    const reverted = await revertAppliedHandoff(storageRoot, repoPath, handoffId);
+
+    expect(reverted.conflictedPaths).toEqual([]);
+    expect(await Bun.file(join(repoPath, "long.txt")).text()).toBe(`${original.join("\n")}\n`);
+  });
+
   test("discards a pending handoff without changing the source repo", async () => {
     const worktree = await createChangedWorktree("session-discard");
     let handoffId = "";
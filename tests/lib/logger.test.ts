@@ -32,6 +32,7 @@ function createStoredFinding(id: `F${string}`, priority: "P0" | "P1" | "P2" | "P
     title: `Finding ${id}`,
     body: `Body for ${id}`,
     priority,
+    category: "correctness" as const,
     confidenceScore: 0.91,
     filePath: `src/file-${id}.ts`,
     startLine: 10,
@@ -358,7 +359,10 @@ describe("logger", () => {
         phase: "review",
         sessionStatus: "running",
         duration: 1_000,
-        findings: [createStoredFinding("F001", "P0"), createStoredFinding("F002", "P2")],
+        findings: [
+          createStoredFinding("F001", "P0"),
+          { ...createStoredFinding("F002", "P2"), category: "security" },
+        ],
         netNewFindingIds: ["F001", "F002"],
       });
       await appendLog(logPath, {
@@ -420,12 +424,111 @@ describe("logger", () => {
         P2: 1,
         P3: 0,
       });
+      expect(summary?.categoryCounts).toEqual({
+        correctness: 2,
+        security: 1,
+        performance: 0,
+        reliability: 0,
+        maintainability: 0,
+        tests: 0,
+      });
       expect(summary?.totalFindings).toBe(3);
       expect(summary?.totalSelectedFindings).toBe(2);
       expect(summary?.totalResolvedSelectedFindings).toBe(1);
       expect(summary?.totalUnresolvedSelectedFindings).toBe(1);
     });
 
+    test("counts verification regressions and their fix pass in the session summary", async () => {
+      const logPath = await createLogSession(tempDir, "/path/to/project", "main");
+
+      await appendLog(logPath, {
+        type: "system",
+        timestamp: 1_700_000_000_000,
+        sessionId: "session-123",
+        projectPath: "/path/to/project",
+        gitBranch: "main",
+        reviewer: { agent: "codex" },
+        fixer: { agent: "claude" },
+        maxIterations: 5,
+      } as SystemEntry);
+      await appendLog(logPath, {
+        type: "review_iteration",
+        timestamp: 1_700_000_001_000,
+        iteration: 1,
+        phase: "review",
+        sessionStatus: "running",
+        findings: [createStoredFinding("F001", "P0")],
+        netNewFindingIds: ["F001"],
+      });
+      await appendLog(logPath, {
+        type: "finding_selection",
+        timestamp: 1_700_000_002_000,
+        selectionMode: "id",
+        selectedFindingIds: ["F001"],
+      });
+      await appendLog(logPath, {
+        type: "batch_fix",
+        timestamp: 1_700_000_003_000,
+        selectedFindingIds: ["F001"],
+        fixResults: [{ findingId: "F001", status: "resolved", summary: "Resolved F001" }],
+      });
+      await appendLog(logPath, {
+        type: "verification_review",
+        timestamp: 1_700_000_004_000,
+        round: 1,
+        duration: 500,
+        findings: [{ ...createStoredFinding("F002", "P1"), regressionRound: 1 }],
+      });
+
+      const verifying = await readSessionSummary(logPath);
+      expect(verifying?.phase).toBe("verify");
+      expect(verifying?.status).toBe("running");
+      expect(verifying?.totalFindings).toBe(2);
+
+      await appendLog(logPath, {
+        type: "batch_fix",
+        timestamp: 1_700_000_005_000,
+        selectedFindingIds: ["F002"],
+        fixResults: [{ findingId: "F002", status: "resolved", summary: "Resolved F002" }],
+      });
+
+      const summary = await readSessionSummary(logPath);
+      expect(summary?.phase).toBe("batch-fix");
+      expect(summary?.totalResolvedSelectedFindings).toBe(2);
+      expect(summary?.totalFixes).toBe(2);
+    });
+
+    test("adds up parallel fix passes and moves conflicting fixes to unresolved", async () => {
+      const logPath = await createLogSession(tempDir, "/path/to/project", "main");
+
+      await appendLog(logPath, {
+        type: "finding_selection",
+        timestamp: 1_700_000_000_000,
+        selectionMode: "all",
+        selectedFindingIds: ["F001", "F002"],
+      });
+      for (const findingId of ["F001", "F002"] as const) {
+        await appendLog(logPath, {
+          type: "batch_fix",
+          timestamp: 1_700_000_001_000,
+          selectedFindingIds: [findingId],
+          fixResults: [{ findingId, status: "resolved", summary: `Resolved ${findingId}` }],
+        });
+      }
+      await appendLog(logPath, {
+        type: "fix_conflict",
+        timestamp: 1_700_000_002_000,
+        conflicts: [{ findingIds: ["F002"], files: ["src/a.ts"], conflictingFindingIds: ["F001"] }],
+        fixResults: [{ findingId: "F002", status: "unresolved", summary: "Fix conflicted" }],
+      });
+
+      const summary = await readSessionSummary(logPath);
+      expect(summary?.status).toBe("running");
+      expect(summary?.totalResolvedSelectedFindings).toBe(1);
+      expect(summary?.totalUnresolvedSelectedFindings).toBe(1);
+      expect(summary?.totalFixes).toBe(1);
+    });
+
     test("applies incremental summary updates for each appended event", async () => {
       const logPath = await createLogSession(tempDir, "/path/to/project", "main");
 
@@ -1568,6 +1671,62 @@ describe("logger", () => {
       expect(stats.totalDuration).toBeUndefined();
     });
 
+    test("totals agent usage across review, fix, and verification entries", async () => {
+      const logPath = await createLogSession(tempDir, "/path/to/project");
+      const usage = {
+        inputTokens: 100,
+        outputTokens: 20,
+        cacheReadTokens: 50,
+        cacheWriteTokens: 0,
+      };
+
+      await appendLog(logPath, {
+        type: "system",
+        timestamp: Date.now(),
+        projectPath: "/path/to/project",
+        reviewer: { agent: "claude" },
+        fixer: { agent: "codex" },
+        maxIterations: 5,
+      });
+      await appendLog(logPath, {
+        type: "review_iteration",
+        timestamp: Date.now(),
+        iteration: 1,
+        phase: "review",
+        sessionStatus: "running",
+        findings: [createStoredFinding("F001", "P1")],
+        netNewFindingIds: ["F001"],
+        usage: { ...usage, costUsd: 0.25 },
+      });
+      await appendLog(logPath, {
+        type: "batch_fix",
+        timestamp: Date.now(),
+        selectedFindingIds: ["F001"],
+        fixResults: [{ findingId: "F001", status: "resolved", summary: "Fixed" }],
+        usage,
+      });
+      await appendLog(logPath, {
+        type: "verification_review",
+        timestamp: Date.now(),
+        round: 1,
+        findings: [],
+        usage: { ...usage, costUsd: 0.1 },
+      });
+
+      const stats = await computeSessionStats({
+        path: logPath,
+        name: "test.jsonl",
+        projectName: getProjectName("/path/to/project"),
+        timestamp: Date.now(),
+      });
+
+      expect(stats.usage?.inputTokens).toBe(300);
+      expect(stats.usage?.outputTokens).toBe(60);
+      expect(stats.usage?.cacheReadTokens).toBe(150);
+      expect(stats.usage?.costUsd).toBeCloseTo(0.35);
+      expect((await readSessionSummary(logPath))?.usage).toEqual(stats.usage);
+    });
+
     test("uses fresh metrics when summary is stale", async () => {
       const logPath = await createLogSession(tempDir, "/path/to/project", "main");
 
@@ -1882,6 +2041,54 @@ describe("logger", () => {
       expect(projectStats.displayName).toBe("project");
     });
 
+    test("aggregates finding categories across review sessions", async () => {
+      const systemEntry: SystemEntry = {
+        type: "system",
+        timestamp: Date.now(),
+        projectPath: "/path/to/project",
+        gitBranch: "main",
+        reviewer: { agent: "codex" },
+        fixer: { agent: "claude" },
+        maxIterations: 5,
+      };
+      const categoriesBySession = [
+        ["security", "tests"],
+        ["security", "performance"],
+      ] as const;
+      for (const [sessionIndex, categories] of categoriesBySession.entries()) {
+        const logPath = await createLogSession(
+          tempDir,
+          "/path/to/project",
+          `branch-${sessionIndex}`
+        );
+        await appendLog(logPath, systemEntry);
+        await appendLog(logPath, {
+          type: "review_iteration",
+          timestamp: Date.now(),
+          iteration: 1,
+          phase: "review",
+          sessionStatus: "running",
+          findings: categories.map((category, index) => ({
+            ...createStoredFinding(`F00${index + 1}`, "P1"),
+            category,
+          })),
+          netNewFindingIds: ["F001", "F002"],
+        });
+      }
+
+      const sessions = await listProjectLogSessions(tempDir, "/path/to/project");
+      const projectStats = await computeProjectStats(getProjectName("/path/to/project"), sessions);
+
+      expect(projectStats.categoryCounts).toEqual({
+        correctness: 0,
+        security: 2,
+        performance: 1,
+        reliability: 0,
+        maintainability: 0,
+        tests: 1,
+      });
+    });
+
     test("counts unresolved batch-fix results in fix-rate stats", async () => {
       const logPath = await createLogSession(tempDir, "/path/to/project", "main");
       await appendLog(logPath, {
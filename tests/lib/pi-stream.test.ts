@@ -1,5 +1,10 @@
 import { describe, expect, test } from "bun:test";
-import { createPiLineFormatter, extractPiResult, parsePiStreamEvent } from "@/lib/agents/pi";
+import {
+  createPiLineFormatter,
+  extractPiResult,
+  extractPiUsage,
+  parsePiStreamEvent,
+} from "@/lib/agents/pi";
 
 function piAssistantUpdate(type: string, event: Record<string, unknown> = {}): string {
   return JSON.stringify({
@@ -488,4 +493,43 @@ describe("pi-stream", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("extractPiUsage", () => {
+    test("sums usage and cost over assistant message_end events only", () => {
+      const usage = {
+        input: 100,
+        output: 20,
+        cacheRead: 50,
+        cacheWrite: 10,
+        cost: { total: 0.01 },
+      };
+      const assistantMessage = {
+        role: "assistant",
+        content: [{ type: "text", text: "Done" }],
+        usage,
+      };
+      const jsonl = [
+        JSON.stringify({
+          type: "message_end",
+          message: { role: "user", content: [{ type: "text", text: "Review" }] },
+        }),
+        JSON.stringify({ type: "message_end", message: assistantMessage }),
+        JSON.stringify({ type: "turn_end", message: assistantMessage }),
+        JSON.stringify({ type: "message_end", message: assistantMessage }),
+        JSON.stringify({ type: "agent_end", messages: [assistantMessage, assistantMessage] }),
+      ].join("\n");
+
+      expect(extractPiUsage(jsonl)).toEqual({
+        inputTokens: 200,
+        outputTokens: 40,
+        cacheReadTokens: 100,
+        cacheWriteTokens: 20,
+        costUsd: 0.02,
+      });
+    });
+
+    test("returns null when no assistant message reports usage", () => {
+      expect(extractPiUsage(JSON.stringify({ type: "agent_start" }))).toBeNull();
+    });
+  });
 });
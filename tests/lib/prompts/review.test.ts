@@ -1,4 +1,7 @@
 import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   createReviewerPrompt,
   createTargetedReviewPrompt,
@@ -6,6 +9,7 @@ import {
   REVIEW_SUMMARY_START_TOKEN,
 } from "@/lib/prompts";
 import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+import { createVerificationReviewerPrompt } from "@/lib/review-workflow/review";
 
 const REPO_PATH = process.cwd();
 
@@ -102,6 +106,68 @@ describe("createReviewerPrompt", () => {
     expectStructuredOutputProtocol(prompt);
   });
 
+  test("replaces the default review guidelines with a profile prompt file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "rr-review-prompt-"));
+    try {
+      const promptFile = join(dir, "security.md");
+      await Bun.write(promptFile, "# Security guidelines\n\nFlag missing auth checks.\n");
+
+      const prompt = createReviewerPrompt({
+        repoPath: REPO_PATH,
+        baselineCommitSha: "baseline-sha-123",
+        promptFile,
+      });
+
+      expect(prompt.startsWith("# Security guidelines\n\nFlag missing auth checks.\n")).toBe(true);
+      expect(prompt).not.toContain("# Review guidelines:");
+      expectStructuredOutputProtocol(prompt);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("appends repo review guidelines after the defaults", () => {
+    const prompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      guidelinesOverrides: [
+        {
+          scope: "local",
+          path: "/repo/.ralph-review/review.md",
+          mode: "append",
+          content: "Do not flag TODO comments.",
+        },
+      ],
+    });
+
+    expect(prompt).toContain("# Review guidelines:");
+    expect(prompt.indexOf("# Review guidelines:")).toBeLessThan(
+      prompt.indexOf("Do not flag TODO comments.")
+    );
+    expect(prompt.indexOf("Do not flag TODO comments.")).toBeLessThan(
+      prompt.indexOf("Structured output protocol (STRICT)")
+    );
+  });
+
+  test("keeps repo review guidelines when default guidelines are omitted", () => {
+    const prompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      includeDefaultReviewPrompt: false,
+      guidelinesOverrides: [
+        {
+          scope: "local",
+          path: "/repo/.ralph-review/review.md",
+          mode: "append",
+          content: "Do not flag TODO comments.",
+        },
+      ],
+    });
+
+    expect(prompt).not.toContain("# Review guidelines:");
+    expect(prompt.startsWith("Do not flag TODO comments.\n")).toBe(true);
+  });
+
   test("includes uncommitted review guidance when no explicit git target is provided", () => {
     const prompt = createReviewerPrompt({
       repoPath: REPO_PATH,
@@ -112,6 +178,23 @@ describe("createReviewerPrompt", () => {
     expectStructuredOutputProtocol(prompt);
   });
 
+  test("limits the review scope to the configured path globs", () => {
+    const prompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      commitSha: "abc1234",
+      pathScope: { include: ["src/lib/**"], exclude: ["**/*.snap"] },
+    });
+
+    expect(prompt).toContain(
+      "Limit the review scope: only review files matching `src/lib/**`; skip files matching `**/*.snap`."
+    );
+    expect(prompt).toContain("-- ':(glob)src/lib/**' ':(glob,exclude)**/*.snap'");
+    expect(prompt.indexOf("Review the code changes for the commit abc1234.")).toBeLessThan(
+      prompt.indexOf("Limit the review scope:")
+    );
+  });
+
   test("includes base-branch review guidance when a base branch is provided", () => {
     const prompt = createReviewerPrompt({
       repoPath: REPO_PATH,
@@ -124,6 +207,53 @@ describe("createReviewerPrompt", () => {
     expectStructuredOutputProtocol(prompt);
   });
 
+  test("includes commit range review guidance when a range is provided", () => {
+    const prompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      range: "aaa111..bbb222",
+    });
+
+    expect(prompt).toContain(
+      "Review the code changes in the commit range aaa111..bbb222. Run `git log --oneline aaa111..bbb222`"
+    );
+    expect(prompt).toContain("`git diff aaa111 bbb222`");
+    expect(prompt).not.toContain("Review the uncommitted changes");
+    expectStructuredOutputProtocol(prompt);
+  });
+
+  test("describes patch file and stash reviews as changes applied onto the snapshot", () => {
+    const patchPrompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      patchFile: "/tmp/changes.diff",
+    });
+    const stashPrompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      stash: "abc1234",
+    });
+
+    expect(patchPrompt).toContain(
+      "Review the changes from the patch file `/tmp/changes.diff`, applied onto this session snapshot. Run `git show HEAD`"
+    );
+    expect(stashPrompt).toContain("Review the changes from stash entry `abc1234`");
+    expect(stashPrompt).not.toContain("Review the uncommitted changes");
+  });
+
+  test("points a per-commit reviewer at its own commit", () => {
+    const prompt = createReviewerPrompt({
+      repoPath: REPO_PATH,
+      baselineCommitSha: "baseline-sha-123",
+      range: "aaa111..ccc333",
+      commit: { sha: "bbb222", subject: "Wire parser", index: 2, count: 3 },
+    });
+
+    expect(prompt).toContain("Review the code changes for the commit bbb222.");
+    expect(prompt).toContain("You are reviewing commit 2 of 3: `bbb222` (Wire parser).");
+    expect(prompt).not.toContain("Review the code changes in the commit range");
+  });
+
   test("includes known findings inventory and requests only net-new findings on later passes", () => {
     const knownFindings: StoredFinding[] = [
       {
@@ -133,6 +263,7 @@ describe("createReviewerPrompt", () => {
         title: "Guard undefined config",
         body: "Optional config access can throw when the field is missing.",
         priority: "P1",
+        category: "correctness",
         confidenceScore: 0.91,
         filePath: "src/lib/config.ts",
         startLine: 10,
@@ -161,3 +292,62 @@ describe("createReviewerPrompt", () => {
     expectStructuredOutputProtocol(prompt);
   });
 });
+
+describe("createVerificationReviewerPrompt", () => {
+  test("scopes the review to the fixer's diff and lists the fixed findings", () => {
+    const finding: StoredFinding = {
+      id: "F001",
+      fingerprint: "fp-1",
+      locationKey: "src/lib/config.ts:10:12",
+      title: "Guard undefined config",
+      body: "Config can be undefined.",
+      priority: "P1",
+      category: "correctness",
+      confidenceScore: 0.91,
+      filePath: "src/lib/config.ts",
+      startLine: 10,
+      endLine: 12,
+    };
+
+    const prompt = createVerificationReviewerPrompt({
+      baselineCommitSha: "baseline-sha-123",
+      fixedFindings: [finding],
+      knownFindings: [
+        { ...finding, id: "F002", fingerprint: "fp-2", title: "Cache never expires" },
+      ],
+      round: 2,
+    });
+
+    expect(prompt).toContain("git diff baseline-sha-123");
+    expect(prompt).toContain("Report only bugs that this diff introduces");
+    expect(prompt).toContain("F001 [P1] src/lib/config.ts:10-12 Guard undefined config");
+    expect(prompt).toContain("This is verification round 2.");
+    expect(prompt).toContain("Known findings already captured");
+    expect(prompt).toContain("Cache never expires");
+    expect(prompt).toContain('return `"findings": []`');
+    expectStructuredOutputProtocol(prompt);
+  });
+
+  test("layers review guideline overrides onto the verification prompt", () => {
+    const prompt = createVerificationReviewerPrompt({
+      baselineCommitSha: "baseline-sha-123",
+      fixedFindings: [],
+      round: 1,
+      guidelinesOverrides: [
+        {
+          scope: "local",
+          path: "/repo/.ralph-review/review.md",
+          mode: "append",
+          content: "Do not flag TODO comments.",
+        },
+      ],
+    });
+
+    expect(prompt.indexOf("# Review guidelines:")).toBeLessThan(
+      prompt.indexOf("Do not flag TODO comments.")
+    );
+    expect(prompt.indexOf("Do not flag TODO comments.")).toBeLessThan(
+      prompt.indexOf("Structured output protocol (STRICT)")
+    );
+  });
+});
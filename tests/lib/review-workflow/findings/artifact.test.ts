@@ -9,6 +9,7 @@ import {
   loadFindingsArtifact,
   loadFindingsArtifactBySessionId,
   saveFindingsArtifact,
+  updateFindingTriage,
   updateSelection,
   validateArtifactBaseline,
 } from "@/lib/review-workflow/findings/artifact";
@@ -28,6 +29,7 @@ function createStoredFinding(id: FindingId): StoredFinding {
     title: `Finding ${id}`,
     body: `Body for ${id}`,
     priority: "P1",
+    category: "correctness",
     confidenceScore: 0.5,
     filePath: `src/file-${id}.ts`,
     startLine: 1,
@@ -116,6 +118,55 @@ describe("review-workflow/findings/artifact", () => {
     expect(withFixes.fixResults).toEqual(fixResults);
   });
 
+  test("persists triage decisions on stored findings", async () => {
+    const { repoPath, artifact } = await createRepoArtifact();
+    await saveFindingsArtifact(tempDir, artifact);
+    const triage = {
+      state: "false-positive" as const,
+      reason: "validated upstream",
+      updatedAt: "2026-02-03T04:05:06.000Z",
+    };
+
+    await updateFindingTriage(tempDir, repoPath, "session-123", "F001", triage);
+    const loaded = await loadFindingsArtifact(tempDir, repoPath, "session-123");
+
+    expect(loaded?.findings[0]?.triage).toEqual(triage);
+    await expect(
+      updateFindingTriage(tempDir, repoPath, "session-123", "F009", triage)
+    ).rejects.toThrow("Finding F009 not found in session session-123");
+  });
+
+  test("rejects artifacts with invalid triage states", async () => {
+    const { repoPath, artifact } = await createRepoArtifact();
+    const invalid = {
+      ...artifact,
+      findings: [{ ...createStoredFinding("F001"), triage: { state: "ignored", updatedAt: "x" } }],
+    };
+    await Bun.write(
+      getFindingsArtifactPath(tempDir, repoPath, artifact.sessionId),
+      JSON.stringify(invalid),
+      { createPath: true }
+    );
+
+    await expect(loadFindingsArtifact(tempDir, repoPath, artifact.sessionId)).rejects.toThrow(
+      "invalid schema"
+    );
+  });
+
+  test("loads findings written before categories existed as correctness findings", async () => {
+    const { repoPath, artifact } = await createRepoArtifact();
+    const { category: _category, ...uncategorized } = createStoredFinding("F001");
+    await Bun.write(
+      getFindingsArtifactPath(tempDir, repoPath, artifact.sessionId),
+      JSON.stringify({ ...artifact, findings: [uncategorized] }),
+      { createPath: true }
+    );
+
+    const loaded = await loadFindingsArtifact(tempDir, repoPath, artifact.sessionId);
+
+    expect(loaded?.findings[0]?.category).toBe("correctness");
+  });
+
   test("loads a single artifact by session id across project storage", async () => {
     const { repoPath, artifact } = await createRepoArtifact();
     await saveFindingsArtifact(tempDir, artifact);
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import { mergeFindingsIntoInventory } from "@/lib/review-workflow/findings/inventory";
+import { buildSuppressionMatchers } from "@/lib/review-workflow/findings/suppressions";
 import type { Finding } from "@/lib/types";
 
 function createRawFinding(
@@ -27,6 +28,7 @@ function createRawFinding(
     title,
     body,
     priority,
+    category: "correctness",
     confidence_score: confidenceScore,
     code_location: {
       absolute_file_path: absolutePath,
@@ -63,6 +65,22 @@ describe("review-workflow/findings/inventory", () => {
     expect(result.findings.map((finding) => finding.id)).toEqual(["F001", "F002"]);
   });
 
+  test("keeps body line structure so suggestion blocks survive persistence", () => {
+    const result = mergeFindingsIntoInventory(
+      [],
+      [
+        createRawFinding({
+          body: "Guard the config read.  \r\n\r\n```suggestion\r\n    return config?.value;\r\n```\n",
+        }),
+      ],
+      { pathRoots: ["/repo"] }
+    );
+
+    expect(result.findings[0]?.body).toBe(
+      "Guard the config read.\n\n```suggestion\n    return config?.value;\n```"
+    );
+  });
+
   test("keeps fingerprints stable when priority and confidence change", () => {
     const initial = mergeFindingsIntoInventory(
       [],
@@ -170,4 +188,253 @@ describe("review-workflow/findings/inventory", () => {
 
     expect(result.findings[0]?.filePath).toBe("/tmp/external/dependency.ts");
   });
+
+  test("drops findings matching suppressions before assigning IDs", () => {
+    const suppressed = createRawFinding({ title: "Prefer early return in parser" });
+    const kept = createRawFinding({
+      title: "Validate array bounds",
+      absolutePath: "/repo/src/lib/parser.ts",
+      startLine: 42,
+      endLine: 44,
+    });
+
+    const result = mergeFindingsIntoInventory([], [suppressed, kept], {
+      pathRoots: ["/repo"],
+      suppressions: [{ path: "src/lib/*.ts", title: "^prefer early return", reason: "Style only" }],
+    });
+
+    expect(result.findings.map((finding) => [finding.id, finding.title])).toEqual([
+      ["F001", "Validate array bounds"],
+    ]);
+    expect(result.newFindings.map((finding) => finding.id)).toEqual(["F001"]);
+    expect(result.suppressedFindings).toEqual([
+      expect.objectContaining({
+        title: "Prefer early return in parser",
+        filePath: "src/lib/config.ts",
+        startLine: 10,
+        endLine: 12,
+        priority: "P1",
+        reason: "Style only",
+      }),
+    ]);
+  });
+
+  test("drops findings outside the review path scope", () => {
+    const result = mergeFindingsIntoInventory(
+      [],
+      [
+        createRawFinding(),
+        createRawFinding({
+          title: "Stale snapshot",
+          absolutePath: "/repo/src/lib/__snapshots__/a.snap",
+        }),
+        createRawFinding({ title: "Broken link", absolutePath: "/repo/docs/guide.md" }),
+      ],
+      { pathRoots: ["/repo"], pathScope: { include: ["src/lib/**"], exclude: ["**/*.snap"] } }
+    );
+
+    expect(result.findings.map((finding) => [finding.id, finding.filePath])).toEqual([
+      ["F001", "src/lib/config.ts"],
+    ]);
+    expect(result.suppressedFindings).toEqual([]);
+    expect(result.filteredFindings).toEqual([]);
+  });
+
+  test("suppresses findings by exact fingerprint", () => {
+    const finding = createRawFinding();
+    const { findings } = mergeFindingsIntoInventory([], [finding], { pathRoots: ["/repo"] });
+    const fingerprint = findings[0]?.fingerprint ?? "";
+
+    const result = mergeFindingsIntoInventory([], [finding, createRawFinding({ startLine: 50 })], {
+      pathRoots: ["/repo"],
+      suppressions: [{ fingerprint, reason: "Known false positive" }],
+    });
+
+    expect(result.findings.map((stored) => stored.startLine)).toEqual([50]);
+    expect(result.suppressedFindings.map((entry) => entry.fingerprint)).toEqual([fingerprint]);
+  });
+
+  test("keeps suppressing a finding saved by rr suppress after it drifts", () => {
+    const { findings } = mergeFindingsIntoInventory([], [createRawFinding()], {
+      pathRoots: ["/repo"],
+    });
+    const saved = findings[0];
+    if (!saved) {
+      throw new Error("Expected a stored finding");
+    }
+    const drifted = createRawFinding({
+      title: "Handle  undefined config ",
+      body: "Reading an optional field without a guard throws.",
+      startLine: 31,
+      endLine: 33,
+    });
+    const elsewhere = createRawFinding({ startLine: 200, endLine: 202 });
+
+    const result = mergeFindingsIntoInventory([], [drifted, elsewhere], {
+      pathRoots: ["/repo"],
+      suppressions: [{ ...buildSuppressionMatchers(saved), reason: "Known false positive" }],
+    });
+
+    expect(result.findings.map((finding) => finding.startLine)).toEqual([200]);
+    expect(result.suppressedFindings).toHaveLength(1);
+    expect(result.suppressedFindings[0]?.fingerprint).not.toBe(saved.fingerprint);
+  });
+
+  test("merges a reworded finding on drifted lines as an alias of the existing finding", () => {
+    const initial = mergeFindingsIntoInventory([], [createRawFinding()], { pathRoots: ["/repo"] });
+    const drifted = createRawFinding({
+      title: "Handle missing config value",
+      startLine: 13,
+      endLine: 15,
+    });
+
+    const result = mergeFindingsIntoInventory(initial.findings, [drifted], {
+      pathRoots: ["/repo"],
+    });
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.newFindings).toEqual([]);
+    expect(result.findings[0]?.aliases).toEqual([
+      {
+        fingerprint: expect.any(String),
+        title: "Handle missing config value",
+        startLine: 13,
+        endLine: 15,
+        similarity: 0.64,
+      },
+    ]);
+    expect(result.mergedAliases.map((merged) => merged.findingId)).toEqual(["F001"]);
+    expect(result.mergedAliases[0]?.alias).toEqual(result.findings[0]?.aliases?.[0]);
+    expect(initial.findings[0]?.aliases).toBeUndefined();
+
+    const repeated = mergeFindingsIntoInventory(result.findings, [drifted], {
+      pathRoots: ["/repo"],
+    });
+    expect(repeated.findings).toEqual(result.findings);
+    expect(repeated.mergedAliases).toEqual([]);
+  });
+
+  test("keeps distant or dissimilar findings separate", () => {
+    const result = mergeFindingsIntoInventory(
+      [],
+      [
+        createRawFinding(),
+        createRawFinding({ title: "Handle missing config value", startLine: 40, endLine: 42 }),
+        createRawFinding({
+          title: "Escape shell arguments",
+          body: "User input reaches the spawned command unescaped.",
+          startLine: 11,
+          endLine: 11,
+        }),
+      ],
+      { pathRoots: ["/repo"] }
+    );
+
+    expect(result.findings.map((finding) => finding.id)).toEqual(["F001", "F002", "F003"]);
+    expect(result.mergedAliases).toEqual([]);
+  });
+
+  test("respects the configured dedupe threshold", () => {
+    const findings = [
+      createRawFinding(),
+      createRawFinding({ title: "Handle missing config value", startLine: 13, endLine: 15 }),
+    ];
+
+    const strict = mergeFindingsIntoInventory([], findings, {
+      pathRoots: ["/repo"],
+      dedupeThreshold: 0.7,
+    });
+    const loose = mergeFindingsIntoInventory([], findings, {
+      pathRoots: ["/repo"],
+      dedupeThreshold: 0.5,
+    });
+
+    expect(strict.findings).toHaveLength(2);
+    expect(loose.findings).toHaveLength(1);
+    expect(loose.newFindings[0]?.aliases).toHaveLength(1);
+  });
+
+  test("records which ensemble reviewers reported each finding", () => {
+    const shared = createRawFinding();
+    const result = mergeFindingsIntoInventory(
+      [],
+      [
+        shared,
+        createRawFinding({ title: "Escape shell arguments", startLine: 40, endLine: 40 }),
+        shared,
+        createRawFinding({ title: "Handle missing config value", startLine: 13, endLine: 15 }),
+      ],
+      {
+        pathRoots: ["/repo"],
+        findingReviewers: ["codex", "codex", "claude", "claude"],
+      }
+    );
+
+    expect(result.findings).toHaveLength(2);
+    expect(result.findings[0]?.reportedBy).toEqual(["codex", "claude"]);
+    expect(result.findings[0]?.agreement).toBe(2);
+    expect(result.findings[1]?.reportedBy).toEqual(["codex"]);
+    expect(result.findings[1]?.agreement).toBe(1);
+    expect(result.reviewerReports).toEqual([]);
+  });
+
+  test("reports reviewers that corroborate findings from earlier iterations", () => {
+    const initial = mergeFindingsIntoInventory([], [createRawFinding()], {
+      pathRoots: ["/repo"],
+      findingReviewers: ["codex"],
+    });
+
+    const result = mergeFindingsIntoInventory(initial.findings, [createRawFinding()], {
+      pathRoots: ["/repo"],
+      findingReviewers: ["claude"],
+    });
+
+    expect(result.newFindings).toEqual([]);
+    expect(result.findings[0]?.reportedBy).toEqual(["codex", "claude"]);
+    expect(result.reviewerReports).toEqual([{ findingId: "F001", reviewer: "claude" }]);
+
+    const repeated = mergeFindingsIntoInventory(result.findings, [createRawFinding()], {
+      pathRoots: ["/repo"],
+      findingReviewers: ["codex"],
+    });
+    expect(repeated.findings).toEqual(result.findings);
+    expect(repeated.reviewerReports).toEqual([]);
+  });
+
+  test("leaves attribution unset without reviewer labels", () => {
+    const result = mergeFindingsIntoInventory([], [createRawFinding()], { pathRoots: ["/repo"] });
+
+    expect(result.findings[0]?.reportedBy).toBeUndefined();
+    expect(result.findings[0]?.agreement).toBeUndefined();
+  });
+
+  test("filters findings below the confidence floor for their priority", () => {
+    const result = mergeFindingsIntoInventory(
+      [],
+      [
+        createRawFinding({ confidenceScore: 0.55 }),
+        createRawFinding({ title: "Rename helper", priority: 3, confidenceScore: 0.75 }),
+        createRawFinding({ title: "Tidy comment", priority: 3, confidenceScore: 0.85 }),
+        createRawFinding({ title: "Guard null", priority: 2, confidenceScore: 0.4, startLine: 40 }),
+      ],
+      { pathRoots: ["/repo"], minConfidence: 0.5, minConfidenceByPriority: { P3: 0.8 } }
+    );
+
+    expect(result.findings.map((finding) => finding.title)).toEqual([
+      "Handle undefined config",
+      "Tidy comment",
+    ]);
+    expect(result.findings.map((finding) => finding.id)).toEqual(["F001", "F002"]);
+    expect(
+      result.filteredFindings.map(({ title, priority, confidenceScore, minConfidence }) => ({
+        title,
+        priority,
+        confidenceScore,
+        minConfidence,
+      }))
+    ).toEqual([
+      { title: "Rename helper", priority: "P3", confidenceScore: 0.75, minConfidence: 0.8 },
+      { title: "Guard null", priority: "P2", confidenceScore: 0.4, minConfidence: 0.5 },
+    ]);
+  });
 });
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatReviewPathScopeInstruction,
+  isPathInReviewScope,
+  resolveReviewPathScope,
+} from "@/lib/review-workflow/findings/path-scope";
+
+describe("review-workflow/findings/path-scope", () => {
+  test("returns no scope when nothing is configured", () => {
+    expect(resolveReviewPathScope(undefined)).toBeUndefined();
+    expect(resolveReviewPathScope({ dedupeThreshold: 0.5 }, { include: [], exclude: [] })).toBe(
+      undefined
+    );
+  });
+
+  test("lets --path replace configured includes and --exclude extend configured excludes", () => {
+    const review = { include: ["src/**"], exclude: ["**/*.snap"] };
+
+    expect(resolveReviewPathScope(review)).toEqual(review);
+    expect(
+      resolveReviewPathScope(review, { include: ["src/lib/**"], exclude: ["**/*.snap", "*.md"] })
+    ).toEqual({ include: ["src/lib/**"], exclude: ["**/*.snap", "*.md"] });
+  });
+
+  test("matches includes and lets excludes win", () => {
+    const scope = { include: ["src/lib/**"], exclude: ["**/*.snap"] };
+
+    expect(isPathInReviewScope("src/lib/config.ts", scope)).toBe(true);
+    expect(isPathInReviewScope("src/lib/__snapshots__/a.snap", scope)).toBe(false);
+    expect(isPathInReviewScope("docs/guide.md", scope)).toBe(false);
+    expect(isPathInReviewScope("docs/guide.md", { include: [], exclude: ["**/*.snap"] })).toBe(
+      true
+    );
+  });
+
+  test("formats exclude-only scopes without an include clause", () => {
+    expect(formatReviewPathScopeInstruction({ include: [], exclude: ["dist/**"] })).toBe(
+      "Limit the review scope: skip files matching `dist/**`. Findings in files outside this scope are discarded. Append the pathspec `-- ':(glob,exclude)dist/**'` to git commands to narrow their output."
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildSarifLog,
+  buildSarifRun,
+  toSarifLevel,
+  toSarifRuleId,
+} from "@/lib/review-workflow/findings/sarif";
+import { createFindingsArtifact, createStoredFinding } from "../../../helpers/review-workflow";
+
+describe("review-workflow/findings/sarif", () => {
+  test("maps priorities to SARIF levels", () => {
+    expect(toSarifLevel("P0")).toBe("error");
+    expect(toSarifLevel("P1")).toBe("error");
+    expect(toSarifLevel("P2")).toBe("warning");
+    expect(toSarifLevel("P3")).toBe("note");
+  });
+
+  test("derives stable rule IDs from finding fingerprints", () => {
+    expect(toSarifRuleId({ fingerprint: "0123456789abcdef0123" })).toBe("rr-0123456789ab");
+  });
+
+  test("builds a SARIF 2.1.0 log with one run per session", () => {
+    const log = buildSarifLog(
+      [
+        createFindingsArtifact(),
+        { sessionId: "session-clean", projectPath: "/repo/project", findings: [] },
+      ],
+      { toolVersion: "1.2.3" }
+    );
+
+    expect(log.version).toBe("2.1.0");
+    expect(log.$schema).toBe("https://json.schemastore.org/sarif-2.1.0.json");
+    expect(log.runs).toHaveLength(2);
+    expect(log.runs[0]?.tool.driver).toMatchObject({ name: "ralph-review", version: "1.2.3" });
+    expect(log.runs[0]?.results).toHaveLength(3);
+    expect(log.runs[1]?.automationDetails.id).toBe("ralph-review/session-clean");
+    expect(log.runs[1]?.results).toEqual([]);
+    expect(log.runs[1]?.properties).toEqual({ sessionId: "session-clean" });
+  });
+
+  test("maps finding location, fingerprint, and metadata into results", () => {
+    const finding = {
+      ...createStoredFinding("F001", "P2"),
+      filePath: "src/my file.ts",
+      startLine: 4,
+      endLine: 9,
+    };
+    const run = buildSarifRun(createFindingsArtifact([finding]), { toolVersion: "1.0.0" });
+
+    expect(run.originalUriBaseIds.SRCROOT?.uri).toBe("file:///repo/project/");
+    expect(run.properties.baselineCommitSha).toBe("baseline-sha-123");
+    expect(run.results[0]).toEqual({
+      ruleId: "rr-fp-F001",
+      ruleIndex: 0,
+      level: "warning",
+      message: { text: "Finding F001\n\nBody for F001" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/my%20file.ts", uriBaseId: "SRCROOT" },
+            region: { startLine: 4, endLine: 9 },
+          },
+        },
+      ],
+      partialFingerprints: { "ralphReviewFingerprint/v1": "fp-F001" },
+      properties: {
+        findingId: "F001",
+        priority: "P2",
+        category: "correctness",
+        confidenceScore: 0.91,
+      },
+    });
+  });
+
+  test("emits absolute paths as file URIs and omits locations for findings without a file", () => {
+    const outside = { ...createStoredFinding("F001"), filePath: "/opt/shared/lib utils.ts" };
+    const fileless = { ...createStoredFinding("F002"), filePath: "" };
+    const run = buildSarifRun(createFindingsArtifact([outside, fileless]), {
+      toolVersion: "1.0.0",
+    });
+
+    expect(run.results[0]?.locations?.[0]?.physicalLocation.artifactLocation).toEqual({
+      uri: "file:///opt/shared/lib%20utils.ts",
+    });
+    expect(run.results[1]).not.toHaveProperty("locations");
+  });
+
+  test("shares rules between findings with the same fingerprint prefix", () => {
+    const first = { ...createStoredFinding("F001"), fingerprint: "abcdef0123456789-a" };
+    const second = { ...createStoredFinding("F002"), fingerprint: "abcdef0123456789-b" };
+    const run = buildSarifRun(createFindingsArtifact([first, second]), { toolVersion: "1.0.0" });
+
+    expect(run.tool.driver.rules).toHaveLength(1);
+    expect(run.results.map((result) => result.ruleIndex)).toEqual([0, 0]);
+  });
+
+  test("reports the latest fix status for each finding", () => {
+    const artifact = createFindingsArtifact(undefined, {
+      fixResults: [
+        { findingId: "F001", status: "unresolved", summary: "first attempt" },
+        { findingId: "F001", status: "resolved", summary: "second attempt" },
+      ],
+    });
+    const run = buildSarifRun(artifact, { toolVersion: "1.0.0" });
+
+    expect(run.results[0]?.properties.fixStatus).toBe("resolved");
+    expect(run.results[1]?.properties.fixStatus).toBeUndefined();
+  });
+});
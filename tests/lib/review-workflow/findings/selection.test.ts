@@ -11,6 +11,7 @@ function createStoredFinding(id: FindingId, priority: Priority): StoredFinding {
     title: `Finding ${id}`,
     body: `Body for ${id}`,
     priority,
+    category: "correctness",
     confidenceScore: 0.5,
     filePath: `src/file-${id}.ts`,
     startLine: 1,
@@ -61,4 +62,97 @@ describe("review-workflow/findings/selection", () => {
 
     expect(result.selectedIds).toEqual(["F001", "F002", "F003", "F004"]);
   });
+
+  test("filters by minimum reviewer agreement", () => {
+    const ensembleFindings: StoredFinding[] = [
+      { ...createStoredFinding("F001", "P0"), reportedBy: ["codex", "claude"], agreement: 2 },
+      { ...createStoredFinding("F002", "P1"), reportedBy: ["codex"], agreement: 1 },
+      { ...createStoredFinding("F003", "P1"), reportedBy: ["codex", "claude"], agreement: 2 },
+      createStoredFinding("F004", "P1"),
+    ];
+
+    expect(selectFindings(ensembleFindings, { mode: "all", minAgreement: 2 }).selectedIds).toEqual([
+      "F001",
+      "F003",
+    ]);
+    expect(
+      selectFindings(ensembleFindings, { mode: "priority", priorities: ["P1"], minAgreement: 2 })
+        .selectedIds
+    ).toEqual(["F003"]);
+    expect(selectFindings(ensembleFindings, { mode: "all", minAgreement: 1 }).selectedIds).toEqual([
+      "F001",
+      "F002",
+      "F003",
+      "F004",
+    ]);
+  });
+
+  test("filters by category on top of the selection mode", () => {
+    const categorizedFindings: StoredFinding[] = [
+      { ...createStoredFinding("F001", "P0"), category: "security" },
+      { ...createStoredFinding("F002", "P1"), category: "performance" },
+      { ...createStoredFinding("F003", "P1"), category: "security" },
+      createStoredFinding("F004", "P1"),
+    ];
+
+    expect(
+      selectFindings(categorizedFindings, { mode: "all", categories: ["security"] }).selectedIds
+    ).toEqual(["F001", "F003"]);
+    expect(
+      selectFindings(categorizedFindings, {
+        mode: "priority",
+        priorities: ["P1"],
+        categories: ["security", "correctness"],
+      }).selectedIds
+    ).toEqual(["F003", "F004"]);
+    expect(
+      selectFindings(categorizedFindings, { mode: "where", expression: "category!=security" })
+        .selectedIds
+    ).toEqual(["F002", "F004"]);
+  });
+
+  test("skips triaged findings unless they are selected by ID", () => {
+    const updatedAt = "2026-02-03T04:05:06.000Z";
+    const triagedFindings: StoredFinding[] = [
+      createStoredFinding("F001", "P0"),
+      { ...createStoredFinding("F002", "P1"), triage: { state: "wont-fix", updatedAt } },
+      { ...createStoredFinding("F003", "P1"), triage: { state: "open", updatedAt } },
+      {
+        ...createStoredFinding("F004", "P1"),
+        triage: { state: "duplicate-of", duplicateOf: "F003", updatedAt },
+      },
+    ];
+
+    expect(selectFindings(triagedFindings, { mode: "all" }).selectedIds).toEqual(["F001", "F003"]);
+    expect(
+      selectFindings(triagedFindings, { mode: "priority", priorities: ["P1"] }).selectedIds
+    ).toEqual(["F003"]);
+    expect(selectFindings(triagedFindings, { mode: "id", ids: ["F002"] }).selectedIds).toEqual([
+      "F002",
+    ]);
+  });
+
+  test("selects findings by where expression, skipping triaged ones unless state is named", () => {
+    const updatedAt = "2026-02-03T04:05:06.000Z";
+    const whereFindings: StoredFinding[] = [
+      createStoredFinding("F001", "P0"),
+      { ...createStoredFinding("F002", "P1"), triage: { state: "wont-fix", updatedAt } },
+      { ...createStoredFinding("F003", "P1"), agreement: 2 },
+      createStoredFinding("F004", "P3"),
+    ];
+
+    expect(
+      selectFindings(whereFindings, { mode: "where", expression: "priority<=P1" }).selectedIds
+    ).toEqual(["F001", "F003"]);
+    expect(
+      selectFindings(whereFindings, { mode: "where", expression: "state==wont-fix" }).selectedIds
+    ).toEqual(["F002"]);
+    expect(
+      selectFindings(whereFindings, {
+        mode: "where",
+        expression: "priority<=P1",
+        minAgreement: 2,
+      }).selectedIds
+    ).toEqual(["F003"]);
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applySuggestionToContent,
+  parseSuggestionBlocks,
+  resolveFindingSuggestion,
+} from "@/lib/review-workflow/findings/suggestions";
+import { createStoredFinding } from "../../../helpers/review-workflow";
+
+describe("review-workflow/findings/suggestions", () => {
+  test("parses backtick and tilde suggestion fences and ignores other code blocks", () => {
+    const body = [
+      "Use the cached value.",
+      "```ts",
+      "const ignored = true;",
+      "```",
+      "```suggestion",
+      "  return cache.get(key);",
+      "```",
+      "~~~~suggestion",
+      "```",
+      "~~~~",
+    ].join("\n");
+
+    expect(parseSuggestionBlocks(body)).toEqual([["  return cache.get(key);"], ["```"]]);
+  });
+
+  test("dedents blocks by the fence indentation and skips unterminated fences", () => {
+    const body = [
+      "- Replace the guard:",
+      "  ```suggestion",
+      "    if (!user) {",
+      "  ```",
+      "```suggestion",
+      "dangling",
+    ].join("\n");
+
+    expect(parseSuggestionBlocks(body)).toEqual([["  if (!user) {"]]);
+  });
+
+  test("treats an empty suggestion block as a deletion", () => {
+    expect(parseSuggestionBlocks("Remove this.\n```suggestion\n```")).toEqual([[]]);
+    expect(
+      applySuggestionToContent("a\nb\nc\n", {
+        filePath: "src/a.ts",
+        startLine: 2,
+        endLine: 2,
+        replacement: [],
+      })
+    ).toBe("a\nc\n");
+  });
+
+  test("anchors the single suggestion to the finding line range", () => {
+    const finding = {
+      ...createStoredFinding("F004"),
+      body: "Fix it.\n```suggestion\nconst fixed = true;\n```",
+    };
+
+    expect(resolveFindingSuggestion(finding)).toEqual({
+      filePath: "src/file-F004.ts",
+      startLine: 10,
+      endLine: 12,
+      replacement: ["const fixed = true;"],
+    });
+  });
+
+  test("rejects findings with no or several suggestion blocks", () => {
+    const finding = createStoredFinding("F004");
+    expect(() => resolveFindingSuggestion(finding)).toThrow("Finding F004 has no suggestion block");
+    expect(() =>
+      resolveFindingSuggestion({
+        ...finding,
+        body: "```suggestion\na\n```\n```suggestion\nb\n```",
+      })
+    ).toThrow("Finding F004 has 2 suggestion blocks; only one can be applied");
+  });
+
+  test("replaces the line range and keeps CRLF line endings", () => {
+    expect(
+      applySuggestionToContent("one\r\ntwo\r\nthree\r\nfour\r\n", {
+        filePath: "src/a.ts",
+        startLine: 2,
+        endLine: 3,
+        replacement: ["middle"],
+      })
+    ).toBe("one\r\nmiddle\r\nfour\r\n");
+  });
+
+  test("keeps a missing trailing newline missing", () => {
+    expect(
+      applySuggestionToContent("one\ntwo", {
+        filePath: "src/a.ts",
+        startLine: 2,
+        endLine: 2,
+        replacement: ["2", "3"],
+      })
+    ).toBe("one\n2\n3");
+  });
+
+  test("rejects line ranges past the end of the file", () => {
+    expect(() =>
+      applySuggestionToContent("one\n", {
+        filePath: "src/a.ts",
+        startLine: 1,
+        endLine: 3,
+        replacement: ["x"],
+      })
+    ).toThrow("Lines 1-3 are outside src/a.ts (1 lines)");
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildSuppressionMatchers,
+  findMatchingSuppression,
+  getSuppressionsPath,
+  loadFindingSuppressions,
+  parseFindingSuppressions,
+  resolveSuppressionsPath,
+  saveFindingSuppressions,
+} from "@/lib/review-workflow/findings/suppressions";
+
+const finding = {
+  fingerprint: "fp-1",
+  filePath: "src/lib/config.ts",
+  title: "Handle undefined config",
+  startLine: 40,
+  endLine: 42,
+};
+
+describe("review-workflow/findings/suppressions", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "ralph-suppressions-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("matches by fingerprint, path glob, and title pattern", () => {
+    expect(findMatchingSuppression(finding, [{ fingerprint: "fp-1", reason: "r" }])).not.toBeNull();
+    expect(findMatchingSuppression(finding, [{ path: "src/**/*.ts", reason: "r" }])).not.toBeNull();
+    expect(findMatchingSuppression(finding, [{ title: "^handle", reason: "r" }])).not.toBeNull();
+    expect(findMatchingSuppression(finding, [{ fingerprint: "fp-2", reason: "r" }])).toBeNull();
+    expect(findMatchingSuppression(finding, [{ path: "tests/**", reason: "r" }])).toBeNull();
+  });
+
+  test("requires every present matcher to match", () => {
+    const suppression = { path: "src/**", title: "stale cache", reason: "r" };
+
+    expect(findMatchingSuppression(finding, [suppression])).toBeNull();
+    expect(
+      findMatchingSuppression({ ...finding, title: "Avoid stale cache" }, [suppression])
+    ).toEqual(suppression);
+  });
+
+  test("anchors saved suppressions to the finding's file, title, and nearby lines", () => {
+    const matchers = buildSuppressionMatchers(finding);
+    const suppression = { ...matchers, reason: "r" };
+    const drifted = { ...finding, fingerprint: "fp-drifted" };
+
+    expect(matchers).toEqual({
+      fingerprint: "fp-1",
+      anchor: {
+        path: "src/lib/config.ts",
+        title: "Handle undefined config",
+        startLine: 40,
+        endLine: 42,
+      },
+    });
+    expect(
+      findMatchingSuppression(
+        { ...drifted, title: "handle  undefined config", startLine: 55, endLine: 57 },
+        [suppression]
+      )
+    ).toEqual(suppression);
+    expect(
+      findMatchingSuppression({ ...drifted, startLine: 120, endLine: 121 }, [suppression])
+    ).toBeNull();
+    expect(
+      findMatchingSuppression({ ...drifted, filePath: "src/lib/other.ts" }, [suppression])
+    ).toBeNull();
+    expect(
+      findMatchingSuppression({ ...drifted, title: "Handle undefined config twice" }, [suppression])
+    ).toBeNull();
+  });
+
+  test.each([
+    [{ version: 2, suppressions: [] }, "version must be 1"],
+    [{ version: 1 }, "must contain a suppressions array"],
+    [{ version: 1, suppressions: [{ fingerprint: "fp" }] }, "suppressions[0].reason"],
+    [
+      { version: 1, suppressions: [{ reason: "r" }] },
+      "at least one of fingerprint, path, or title",
+    ],
+    [{ version: 1, suppressions: [{ title: "(", reason: "r" }] }, "not a valid regular expression"],
+    [{ version: 1, suppressions: [{ path: "", reason: "r" }] }, "suppressions[0].path"],
+    [
+      { version: 1, suppressions: [{ fingerprint: "fp", anchor: { path: "a.ts" }, reason: "r" }] },
+      "suppressions[0].anchor.title",
+    ],
+  ])("rejects invalid suppressions file %#", (value, message) => {
+    expect(() => parseFindingSuppressions(value)).toThrow(message);
+  });
+
+  test("returns no suppressions when the file is missing", async () => {
+    expect(await loadFindingSuppressions(join(tempDir, "missing.json"))).toEqual([]);
+  });
+
+  test("round-trips saved suppressions", async () => {
+    const path = getSuppressionsPath(tempDir);
+    const suppressions = [{ fingerprint: "fp-1", reason: "Known false positive" }];
+
+    await saveFindingSuppressions(path, suppressions);
+
+    expect(path).toBe(join(tempDir, ".ralph-review", "suppressions.json"));
+    expect(await loadFindingSuppressions(path)).toEqual(suppressions);
+  });
+
+  test("reports the file path when JSON is invalid", async () => {
+    const path = join(tempDir, "suppressions.json");
+    await Bun.write(path, "{");
+
+    await expect(loadFindingSuppressions(path)).rejects.toThrow(
+      `Suppressions file is not valid JSON: ${path}`
+    );
+  });
+
+  test("resolves the suppressions file from the repository root", async () => {
+    expect(
+      await resolveSuppressionsPath("/repo/packages/app", {
+        repositoryRootResolver: async () => "/repo",
+      })
+    ).toBe("/repo/.ralph-review/suppressions.json");
+    expect(
+      await resolveSuppressionsPath("/scratch", { repositoryRootResolver: async () => undefined })
+    ).toBe("/scratch/.ralph-review/suppressions.json");
+  });
+});
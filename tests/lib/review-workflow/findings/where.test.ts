@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import type { StoredFinding } from "@/lib/review-workflow/findings/types";
+import { parseWhereExpression } from "@/lib/review-workflow/findings/where";
+import { createStoredFinding } from "../../../helpers/review-workflow";
+
+const authFinding: StoredFinding = {
+  ...createStoredFinding("F001", "P1"),
+  filePath: "src/auth/session.ts",
+  title: "Race condition in token refresh",
+  confidenceScore: 0.8,
+};
+
+const docsFinding: StoredFinding = {
+  ...createStoredFinding("F002", "P3"),
+  filePath: "docs/guide.md",
+  title: "Typo in guide",
+  confidenceScore: 0.4,
+  triage: { state: "wont-fix", reason: "cosmetic", updatedAt: "2026-01-01T00:00:00.000Z" },
+};
+
+function matches(expression: string): string[] {
+  const where = parseWhereExpression(expression);
+  return [authFinding, docsFinding].filter(where.matches).map((finding) => finding.id);
+}
+
+describe("review-workflow/findings/where", () => {
+  test("orders priorities by severity", () => {
+    expect(matches("priority<=P1")).toEqual(["F001"]);
+    expect(matches("priority>P1")).toEqual(["F002"]);
+    expect(matches("priority==p3")).toEqual(["F002"]);
+  });
+
+  test("matches path globs, confidence, title patterns, and triage state", () => {
+    expect(matches('path~"src/auth/**"')).toEqual(["F001"]);
+    expect(matches("path!~src/**")).toEqual(["F002"]);
+    expect(matches("confidence>=0.7")).toEqual(["F001"]);
+    expect(matches("title~'RACE|deadlock'")).toEqual(["F001"]);
+    expect(matches("state==wont-fix")).toEqual(["F002"]);
+    expect(matches("state=open")).toEqual(["F001"]);
+  });
+
+  test("combines clauses with boolean operators and parentheses", () => {
+    expect(matches('priority<=P1 && path~"src/auth/**" && confidence>=0.7')).toEqual(["F001"]);
+    expect(matches("priority==P0 || state!=open")).toEqual(["F002"]);
+    expect(matches("!(priority==P1 || confidence<0.5)")).toEqual([]);
+    expect(matches("priority<=P3&&!title~typo")).toEqual(["F001"]);
+  });
+
+  test("reports the fields the expression uses", () => {
+    expect([...parseWhereExpression("state==open && path~src/**").fields]).toEqual([
+      "state",
+      "path",
+    ]);
+  });
+
+  test.each([
+    ["", "expression is empty"],
+    ["severity==P1", 'unknown field "severity"'],
+    ["priority~P1", "priority supports ==, !=, <, <=, >, >=, not ~"],
+    ["priority==P9", 'invalid priority "P9"'],
+    ["confidence>1.5", "confidence must be a number between 0 and 1"],
+    ["state==closed", 'invalid triage state "closed"'],
+    ["title~'('", "is not a valid regular expression"],
+    ["path~'src", "unterminated string"],
+    ["(priority==P1", 'expected ")"'],
+    ["priority==P1 path~src", 'unexpected "path"'],
+    ["priority", 'expected an operator after "priority"'],
+  ])("rejects invalid expression %#", (expression, message) => {
+    expect(() => parseWhereExpression(expression)).toThrow(message);
+  });
+});
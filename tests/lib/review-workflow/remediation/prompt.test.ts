@@ -1,6 +1,9 @@
 import { describe, expect, test } from "bun:test";
 import type { StoredFinding } from "@/lib/review-workflow/findings/types";
-import { createBatchFixerPrompt } from "@/lib/review-workflow/remediation/prompt";
+import {
+  createBatchFixerPrompt,
+  createConflictResolutionPrompt,
+} from "@/lib/review-workflow/remediation/prompt";
 
 function createFinding(id: StoredFinding["id"]): StoredFinding {
   return {
@@ -10,6 +13,7 @@ function createFinding(id: StoredFinding["id"]): StoredFinding {
     title: `Finding ${id}`,
     body: `Body for ${id}`,
     priority: "P1",
+    category: "correctness",
     confidenceScore: 0.91,
     filePath: `src/file-${id}.ts`,
     startLine: 10,
@@ -62,3 +66,27 @@ describe("review-workflow/remediation/createBatchFixerPrompt", () => {
     expect(prompt).not.toContain("Use `fixed`");
   });
 });
+
+describe("review-workflow/remediation/createConflictResolutionPrompt", () => {
+  test("lists the conflicted files and the findings the fixes addressed", () => {
+    const prompt = createConflictResolutionPrompt({
+      mutableWorkspacePath: "/tmp/workspace",
+      conflictedFilePaths: ["/tmp/workspace/src/file-F001.ts"],
+      findings: [createFinding("F001")],
+    });
+
+    expect(prompt).toContain("- /tmp/workspace/src/file-F001.ts");
+    expect(prompt).toContain("- F001 [P1] src/file-F001.ts:10-12");
+    expect(prompt).toContain("Remove every `<<<<<<<`, `=======`, and `>>>>>>>` marker line");
+  });
+
+  test("says so when no resolved findings were recorded", () => {
+    const prompt = createConflictResolutionPrompt({
+      mutableWorkspacePath: "/tmp/workspace",
+      conflictedFilePaths: ["/tmp/workspace/app.txt"],
+      findings: [],
+    });
+
+    expect(prompt).toContain("No resolved findings were recorded for this handoff.");
+  });
+});
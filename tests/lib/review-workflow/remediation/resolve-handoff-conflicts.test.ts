@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type ResolveHandoffConflictsDependencies,
+  resolveHandoffConflicts,
+} from "@/lib/review-workflow/remediation/resolve-handoff-conflicts";
+import {
+  createAgentResult,
+  createReviewWorkflowConfig,
+  createSessionWorktree,
+  createStoredFinding,
+} from "../../../helpers/review-workflow";
+
+function createDependencies(
+  overrides: Partial<ResolveHandoffConflictsDependencies> = {}
+): ResolveHandoffConflictsDependencies {
+  return {
+    createConflictResolutionPrompt: () => "CONFLICT_PROMPT",
+    runAgent: async () => createAgentResult(),
+    ...overrides,
+  };
+}
+
+describe("review-workflow/remediation/resolveHandoffConflicts", () => {
+  test("runs the fixer in the scratch worktree with absolute conflicted paths", async () => {
+    const finding = createStoredFinding("F001");
+    const agentCalls: Array<{ role: string; prompt?: string; cwd?: string }> = [];
+
+    await resolveHandoffConflicts(
+      {
+        config: createReviewWorkflowConfig(),
+        worktree: createSessionWorktree({
+          worktreeProjectPath: "/tmp/worktree",
+          agentProjectPath: "/tmp/worktree/packages/app",
+        }),
+        conflictedPaths: ["packages/app/src/index.ts"],
+        findings: [finding],
+      },
+      createDependencies({
+        createConflictResolutionPrompt: (options) => {
+          expect(options).toEqual({
+            mutableWorkspacePath: "/tmp/worktree/packages/app",
+            conflictedFilePaths: ["/tmp/worktree/packages/app/src/index.ts"],
+            findings: [finding],
+          });
+          return "CONFLICT_PROMPT";
+        },
+        runAgent: async (role, _config, prompt, _timeout, _reviewOptions, cwd) => {
+          agentCalls.push({ role, prompt, cwd });
+          return createAgentResult();
+        },
+      })
+    );
+
+    expect(agentCalls).toEqual([
+      { role: "fixer", prompt: "CONFLICT_PROMPT", cwd: "/tmp/worktree/packages/app" },
+    ]);
+  });
+
+  test("fails when the fixer exits unsuccessfully", async () => {
+    await expect(
+      resolveHandoffConflicts(
+        {
+          config: createReviewWorkflowConfig(),
+          worktree: createSessionWorktree(),
+          conflictedPaths: ["app.txt"],
+          findings: [],
+        },
+        createDependencies({
+          runAgent: async () => createAgentResult({ success: false, exitCode: 2 }),
+        })
+      )
+    ).rejects.toThrow("Fixer failed to resolve conflicts with exit code 2");
+  });
+});
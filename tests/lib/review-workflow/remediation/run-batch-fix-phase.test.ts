@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import type { GitCheckpoint } from "@/lib/git";
 import { runBatchFixPhase } from "@/lib/review-workflow/remediation/run-batch-fix-phase";
+import type { VerifyCommandResult } from "@/lib/types";
 import {
   createAgentResult,
   createFindingsArtifact,
@@ -61,6 +62,9 @@ describe("review-workflow/remediation/runBatchFixPhase", () => {
         rollbackToCheckpoint: () => {
           throw new Error("rollback should not be called");
         },
+        runVerifyCommands: async () => {
+          throw new Error("verify commands should not run without verify.commands");
+        },
         appendLog: async (_logPath, entry) => {
           appendedEntries.push(entry);
         },
@@ -116,9 +120,126 @@ describe("review-workflow/remediation/runBatchFixPhase", () => {
             throw new Error("discard should not be called");
           },
           rollbackToCheckpoint: () => {},
+          runVerifyCommands: async () => [],
           appendLog: async () => {},
         }
       )
     ).rejects.toThrow("Structured JSON output was missing or invalid.");
   });
+
+  test("marks resolved findings unresolved when the fix breaks a passing verify command", async () => {
+    const findings = [createStoredFinding("F001"), createStoredFinding("F002")];
+    const checkpoint: GitCheckpoint = {
+      kind: "snapshot",
+      id: "checkpoint-1",
+      snapshotDir: "/tmp/checkpoint",
+    };
+    const verifyRuns: Array<{ commands: readonly string[]; cwd: string }> = [];
+    const before: VerifyCommandResult[] = [
+      { command: "bun test", exitCode: 0, output: "12 pass" },
+      { command: "bun run typecheck", exitCode: 2, output: "src/a.ts: error TS2322" },
+    ];
+    const after: VerifyCommandResult[] = [
+      { command: "bun test", exitCode: 1, output: "11 pass\n1 fail" },
+      { command: "bun run typecheck", exitCode: 2, output: "src/a.ts: error TS2322" },
+    ];
+    const appendedEntries: unknown[] = [];
+
+    const result = await runBatchFixPhase(
+      {
+        config: createReviewWorkflowConfig({
+          verify: { commands: ["bun test", "bun run typecheck"] },
+        }),
+        artifact: createFindingsArtifact(findings),
+        selection: {
+          selectedFindingIds: ["F001", "F002"],
+          selectedFindings: findings,
+        },
+        worktree: createSessionWorktree({ agentProjectPath: "/tmp/workspace" }),
+      },
+      {
+        createBatchFixerPrompt: () => "BATCH_FIX_PROMPT",
+        AGENTS: createMockAgentRegistry(),
+        runAgent: async () => {
+          expect(verifyRuns).toHaveLength(1);
+          return createAgentResult({
+            output: `<<<RR_FIX_SUMMARY_JSON_START>>>
+{"decision":"APPLY_SELECTIVELY","results":{"F001":{"status":"resolved","summary":"Applied guard"},"F002":{"status":"skipped","summary":"SKIP: insufficient evidence"}}}
+<<<RR_FIX_SUMMARY_JSON_END>>>`,
+          });
+        },
+        createCheckpoint: () => checkpoint,
+        discardCheckpoint: () => {},
+        rollbackToCheckpoint: () => {
+          throw new Error("rollback should not be called");
+        },
+        runVerifyCommands: async (commands, cwd) => {
+          verifyRuns.push({ commands, cwd });
+          return verifyRuns.length === 1 ? before : after;
+        },
+        appendLog: async (_logPath, entry) => {
+          appendedEntries.push(entry);
+        },
+      }
+    );
+
+    expect(verifyRuns).toEqual([
+      { commands: ["bun test", "bun run typecheck"], cwd: "/tmp/workspace" },
+      { commands: ["bun test", "bun run typecheck"], cwd: "/tmp/workspace" },
+    ]);
+    expect(result.fixResults).toEqual([
+      {
+        findingId: "F001",
+        status: "unresolved",
+        summary:
+          "Verification failed after the fix: `bun test` (exit code 1). Fixer reported: Applied guard",
+      },
+      {
+        findingId: "F002",
+        status: "skipped",
+        summary: "SKIP: insufficient evidence",
+      },
+    ]);
+    expect(appendedEntries).toEqual([
+      expect.objectContaining({
+        type: "batch_fix",
+        fixResults: result.fixResults,
+        verifyCommands: { before, after },
+      }),
+    ]);
+    expect(result.preExistingVerifyFailures).toEqual(before.slice(1));
+  });
+
+  test("records the fixer's usage even when its output cannot be parsed", async () => {
+    const findings = [createStoredFinding("F001")];
+    const usage = { inputTokens: 900, outputTokens: 80, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    const appendedEntries: unknown[] = [];
+
+    await expect(
+      runBatchFixPhase(
+        {
+          config: createReviewWorkflowConfig(),
+          artifact: createFindingsArtifact(findings),
+          selection: { selectedFindingIds: ["F001"], selectedFindings: findings },
+          worktree: createSessionWorktree({ agentProjectPath: "/tmp/workspace" }),
+        },
+        {
+          createBatchFixerPrompt: () => "BATCH_FIX_PROMPT",
+          AGENTS: createMockAgentRegistry(),
+          runAgent: async () => createAgentResult({ output: "no summary", usage }),
+          createCheckpoint: () => ({ kind: "snapshot", id: "checkpoint-1", snapshotDir: "/tmp" }),
+          discardCheckpoint: () => {},
+          rollbackToCheckpoint: () => {},
+          runVerifyCommands: async () => [],
+          appendLog: async (_logPath, entry) => {
+            appendedEntries.push(entry);
+          },
+        }
+      )
+    ).rejects.toThrow();
+
+    expect(appendedEntries).toEqual([
+      expect.objectContaining({ type: "batch_fix", usage, error: expect.anything() }),
+    ]);
+  });
 });
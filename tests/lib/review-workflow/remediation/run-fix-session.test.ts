@@ -1,13 +1,20 @@
 import { describe, expect, test } from "bun:test";
 import type { RetainedSessionWorktree } from "@/lib/git";
-import type { FindingId, FindingsArtifact } from "@/lib/review-workflow/findings/types";
+import type {
+  FindingId,
+  FindingsArtifact,
+  FixConflict,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
 import {
   type RunFixSessionDependencies,
   runFixSession,
 } from "@/lib/review-workflow/remediation/run-fix-session";
+import type { LogEntry } from "@/lib/types";
 import {
   createFindingsArtifact,
   createReviewWorkflowConfig,
+  createStoredFinding,
 } from "../../../helpers/review-workflow";
 
 type BatchFixResult = NonNullable<
@@ -58,6 +65,26 @@ function expectRetainedWorktree(value: unknown) {
   });
 }
 
+function createReviewIterationEntry(iteration: number, costUsd: number): LogEntry {
+  return {
+    type: "review_iteration",
+    timestamp: iteration,
+    iteration,
+    phase: "review",
+    sessionStatus: "running",
+    duration: 60_000,
+    findings: [],
+    netNewFindingIds: [],
+    usage: {
+      inputTokens: 40_000,
+      outputTokens: 10_000,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd,
+    },
+  };
+}
+
 function createDependencies(
   state: {
     artifact?: FindingsArtifact;
@@ -74,6 +101,12 @@ function createDependencies(
     createdWorktreeStartPoints?: string[];
     retainedWorktreeUpdates?: Array<RetainedSessionWorktree | undefined>;
     finalizeResultHandoffWhenResolved?: boolean;
+    regressionsByRound?: StoredFinding[][];
+    verifyCalls?: Array<{ round: number; fixedFindingIds: FindingId[] }>;
+    batchFixSelections?: FindingId[][];
+    parallelFixSelections?: FindingId[][];
+    fixConflicts?: FixConflict[];
+    logEntries?: LogEntry[];
   } = {}
 ): RunFixSessionDependencies {
   const artifact = state.artifact ?? createFindingsArtifact();
@@ -115,23 +148,54 @@ function createDependencies(
       };
     },
     appendLog: async () => {},
+    readLog: async () => state.logEntries ?? [],
     promptForSelection: async () =>
       (state.promptSelectionIds as FindingId[] | null | undefined) ?? null,
-    runBatchFixPhase: async ({ selection }) => ({
-      phase: "batch-fix",
-      sessionStatus: "completed",
-      fixResults:
-        state.batchFixResults ??
-        selection.selectedFindingIds.map((findingId) => ({
+    runBatchFixPhase: async ({ selection }) => {
+      state.batchFixSelections?.push(selection.selectedFindingIds);
+      return {
+        phase: "batch-fix",
+        sessionStatus: "completed",
+        fixResults:
+          state.batchFixResults ??
+          selection.selectedFindingIds.map((findingId) => ({
+            findingId,
+            status: "resolved" as const,
+            summary: `Resolved ${findingId}`,
+          })),
+      };
+    },
+    runParallelFixPhase: async ({ selection }) => {
+      state.parallelFixSelections?.push(selection.selectedFindingIds);
+      const conflictedIds = new Set(
+        state.fixConflicts?.flatMap((conflict) => conflict.findingIds) ?? []
+      );
+      return {
+        phase: "batch-fix",
+        sessionStatus: "completed",
+        fixResults: selection.selectedFindingIds.map((findingId) => ({
           findingId,
-          status: "resolved" as const,
-          summary: `Resolved ${findingId}`,
+          status: conflictedIds.has(findingId) ? ("unresolved" as const) : ("resolved" as const),
+          summary: `Parallel fix for ${findingId}`,
         })),
-    }),
+        conflicts: state.fixConflicts ?? [],
+      };
+    },
     appendFixResults: async (_storageRoot, _projectPath, _sessionId, fixResults) => ({
       ...artifact,
       fixResults,
     }),
+    runVerifyPhase: async ({ round, fixedFindings }) => {
+      state.verifyCalls?.push({
+        round,
+        fixedFindingIds: fixedFindings.map((finding) => finding.id),
+      });
+      return { regressionFindings: state.regressionsByRound?.[round - 1] ?? [] };
+    },
+    appendRegressionFindings: async (_storageRoot, _projectPath, _sessionId, regressions) => ({
+      ...artifact,
+      findings: [...artifact.findings, ...regressions],
+    }),
     updateRetainedWorktree: async (_storageRoot, projectPath, sessionId, retainedWorktree) => {
       expect(projectPath).toBe(artifact.projectPath);
       expect(sessionId).toBe(artifact.sessionId);
@@ -229,6 +293,51 @@ describe("review-workflow/remediation/runFixSession", () => {
     expect(result.selection.selectedFindingIds).toEqual(["F001", "F003"]);
   });
 
+  test("selects findings by where expression and logs the expression", async () => {
+    const entries: unknown[] = [];
+    const result = await runFixSession(
+      createReviewWorkflowConfig(),
+      {
+        sessionId: "session-123",
+        selector: {
+          where: "priority>=P1 && path~src/**",
+        },
+        isTTY: false,
+      },
+      {
+        ...createDependencies(),
+        appendLog: async (_logPath, entry) => {
+          entries.push(entry);
+        },
+      }
+    );
+
+    expect(result.selection.selectedFindingIds).toEqual(["F002", "F003"]);
+    expect(entries[0]).toMatchObject({
+      type: "finding_selection",
+      selectionMode: "where",
+      expression: "priority>=P1 && path~src/**",
+      selectedFindingIds: ["F002", "F003"],
+    });
+  });
+
+  test("fails with the parse error when a where expression is invalid", async () => {
+    const result = await runFixSession(
+      createReviewWorkflowConfig(),
+      {
+        sessionId: "session-123",
+        selector: {
+          where: "severity==P1",
+        },
+        isTTY: false,
+      },
+      createDependencies()
+    );
+
+    expect(result.sessionStatus).toBe("failed");
+    expect(result.reason).toContain('unknown field "severity"');
+  });
+
   test("fails with a clear error when selector modes are mixed", async () => {
     const result = await runFixSession(
       createReviewWorkflowConfig(),
@@ -258,7 +367,7 @@ describe("review-workflow/remediation/runFixSession", () => {
     );
 
     expect(result.sessionStatus).toBe("failed");
-    expect(result.reason).toContain("Re-run with one of --all, --priority, or --id");
+    expect(result.reason).toContain("Re-run with one of --all, --priority, --id, or --where");
   });
 
   test("prompts interactively when no selector is provided in a tty", async () => {
@@ -368,6 +477,194 @@ describe("review-workflow/remediation/runFixSession", () => {
     });
   });
 
+  test("does not run a verification review unless requested", async () => {
+    const verifyCalls: Array<{ round: number; fixedFindingIds: FindingId[] }> = [];
+
+    const result = await runSelectedFixSession(createDependencies({ verifyCalls }));
+
+    expect(result.reviewOutcome).toBe("fixed-selected");
+    expect(verifyCalls).toEqual([]);
+  });
+
+  test("feeds verification regressions back to the fixer until the diff is clean", async () => {
+    const regression = { ...createStoredFinding("F004"), regressionRound: 1 };
+    const verifyCalls: Array<{ round: number; fixedFindingIds: FindingId[] }> = [];
+    const batchFixSelections: FindingId[][] = [];
+    const updates: Array<Record<string, unknown>> = [];
+
+    const result = await runFixSession(
+      createReviewWorkflowConfig(),
+      {
+        ...createFixSessionOptions(),
+        verifyRounds: 2,
+        onProgress: async (nextUpdates) => {
+          updates.push(nextUpdates as Record<string, unknown>);
+        },
+      },
+      createDependencies({
+        regressionsByRound: [[regression], []],
+        verifyCalls,
+        batchFixSelections,
+      })
+    );
+
+    expect(verifyCalls).toEqual([
+      { round: 1, fixedFindingIds: ["F001"] },
+      { round: 2, fixedFindingIds: ["F004"] },
+    ]);
+    expect(batchFixSelections).toEqual([["F001"], ["F004"]]);
+    expect(result.reviewOutcome).toBe("fixed-selected");
+    expect(result.selection.selectedFindingIds).toEqual(["F001", "F004"]);
+    expect(result.fixResults.map((fixResult) => fixResult.findingId)).toEqual(["F001", "F004"]);
+    expect(result.regressionFindings).toEqual([regression]);
+    expect(updates).toContainEqual({
+      currentPhase: "verify",
+      phase: "verify",
+      sessionStatus: "running",
+      currentAgent: "reviewer",
+      selectedFindingIds: ["F001"],
+    });
+  });
+
+  test("leaves regressions unresolved and retains the worktree when verification rounds run out", async () => {
+    const regression = { ...createStoredFinding("F004"), regressionRound: 1 };
+    const batchFixSelections: FindingId[][] = [];
+
+    const result = await runFixSession(
+      createReviewWorkflowConfig(),
+      { ...createFixSessionOptions(), verifyRounds: 0 },
+      createDependencies({ regressionsByRound: [[regression]], batchFixSelections })
+    );
+
+    expect(batchFixSelections).toEqual([["F001"]]);
+    expect(result.reviewOutcome).toBe("incomplete");
+    expect(result.fixResults).toContainEqual({
+      findingId: "F004",
+      status: "unresolved",
+      summary: "Verification round 1 reported this regression in the fixer's diff.",
+    });
+    expect(result.handoffStatus).toBeUndefined();
+    expectRetainedWorktree(result.retainedWorktree);
+  });
+
+  test("refuses to start when the projected fix spend would exceed the budget", async () => {
+    const batchFixSelections: FindingId[][] = [];
+    const createdWorktreeStartPoints: string[] = [];
+    const entries: unknown[] = [];
+    const config = { ...createReviewWorkflowConfig(), budget: { maxCostUsd: 4 } };
+
+    const result = await runFixSession(
+      config,
+      { ...createFixSessionOptions(), verifyRounds: 1 },
+      {
+        ...createDependencies({
+          logEntries: [createReviewIterationEntry(1, 1), createReviewIterationEntry(2, 1)],
+          batchFixSelections,
+          createdWorktreeStartPoints,
+        }),
+        appendLog: async (_logPath, entry) => {
+          entries.push(entry);
+        },
+      }
+    );
+
+    expect(result.sessionStatus).toBe("failed");
+    expect(result.reviewOutcome).toBe("findings-pending");
+    expect(result.reason).toBe(
+      "Fix not started: 4 more agent runs would likely exceed the session's cost budget of $4.00. Findings remain pending."
+    );
+    expect(batchFixSelections).toEqual([]);
+    expect(createdWorktreeStartPoints).toEqual([]);
+    expect(entries).toEqual([
+      expect.objectContaining({ type: "session_end", status: "failed", reason: result.reason }),
+    ]);
+  });
+
+  test("starts the fix when the projected spend fits the remaining budget", async () => {
+    const batchFixSelections: FindingId[][] = [];
+    const config = { ...createReviewWorkflowConfig(), budget: { maxCostUsd: 4 } };
+
+    const result = await runFixSession(
+      config,
+      createFixSessionOptions(),
+      createDependencies({
+        logEntries: [createReviewIterationEntry(1, 1), createReviewIterationEntry(2, 1)],
+        batchFixSelections,
+      })
+    );
+
+    expect(result.reviewOutcome).toBe("fixed-selected");
+    expect(batchFixSelections).toEqual([["F001"]]);
+  });
+
+  test("counts one fixer per file group when projecting a parallel fix", async () => {
+    const artifact = createFindingsArtifact();
+    const parallelFixSelections: FindingId[][] = [];
+    const config = { ...createReviewWorkflowConfig(), budget: { maxCostUsd: 4 } };
+
+    const result = await runFixSession(
+      config,
+      { sessionId: artifact.sessionId, selector: { all: true }, isTTY: false, parallel: true },
+      createDependencies({
+        artifact,
+        logEntries: [createReviewIterationEntry(1, 1), createReviewIterationEntry(2, 1)],
+        parallelFixSelections,
+      })
+    );
+
+    expect(result.reviewOutcome).toBe("findings-pending");
+    expect(result.reason).toBe(
+      "Fix not started: 3 more agent runs would likely exceed the session's cost budget of $4.00. Findings remain pending."
+    );
+    expect(parallelFixSelections).toEqual([]);
+  });
+
+  test("refuses to start once the session budget is already exhausted", async () => {
+    const config = {
+      ...createReviewWorkflowConfig(),
+      budget: { maxTokens: 100_000, maxWallTimeMs: 3_600_000 },
+    };
+
+    const result = await runFixSession(
+      config,
+      createFixSessionOptions(),
+      createDependencies({
+        logEntries: [createReviewIterationEntry(1, 1), createReviewIterationEntry(2, 1)],
+      })
+    );
+
+    expect(result.sessionStatus).toBe("failed");
+    expect(result.reason).toBe(
+      "Fix not started: the session's token budget of 100,000 is already exhausted. Findings remain pending."
+    );
+  });
+
+  test("runs per-file parallel fixers when requested and reports their conflicts", async () => {
+    const artifact = createFindingsArtifact();
+    const fixConflicts: FixConflict[] = [
+      { findingIds: ["F002"], files: ["src/file-F001.ts"], conflictingFindingIds: ["F001"] },
+    ];
+    const batchFixSelections: FindingId[][] = [];
+    const parallelFixSelections: FindingId[][] = [];
+
+    const result = await runFixSession(
+      createReviewWorkflowConfig(),
+      { sessionId: artifact.sessionId, selector: { all: true }, isTTY: false, parallel: true },
+      createDependencies({
+        artifact,
+        fixConflicts,
+        batchFixSelections,
+        parallelFixSelections,
+      })
+    );
+
+    expect(parallelFixSelections).toEqual([artifact.findings.map((finding) => finding.id)]);
+    expect(batchFixSelections).toEqual([]);
+    expect(result.fixConflicts).toEqual(fixConflicts);
+    expect(result.reviewOutcome).toBe("incomplete");
+    expectRetainedWorktree(result.retainedWorktree);
+  });
+
   test("retains the worktree when remediation leaves selected findings unresolved", async () => {
     const finalizedWorktrees: string[] = [];
     const discardedWorktrees: string[] = [];
@@ -0,0 +1,290 @@
+import { describe, expect, test } from "bun:test";
+import type { AppliedWorktreeChanges } from "@/lib/git";
+import type {
+  FindingFixResult,
+  FindingId,
+  FixConflict,
+  StoredFinding,
+} from "@/lib/review-workflow/findings/types";
+import {
+  planFixGroups,
+  type RunParallelFixPhaseDependencies,
+  runParallelFixPhase,
+} from "@/lib/review-workflow/remediation/run-parallel-fix-phase";
+import type { Config, LogEntry, VerifyCommandResult } from "@/lib/types";
+import {
+  createFindingsArtifact,
+  createReviewWorkflowConfig,
+  createSessionWorktree,
+  createStoredFinding,
+} from "../../../helpers/review-workflow";
+
+function createFindingInFile(id: FindingId, filePath: string): StoredFinding {
+  return { ...createStoredFinding(id), filePath };
+}
+
+function createDependencies(
+  state: {
+    changesByWorktree?: Record<string, AppliedWorktreeChanges>;
+    failingWorktrees?: string[];
+    createdWorktrees?: Array<{ worktreeId: string; startPoint: string }>;
+    discardedWorktrees?: string[];
+    appliedWorktrees?: string[];
+    appendedEntries?: LogEntry[];
+    maxRunning?: { value: number };
+    groupConfigs?: Config[];
+    verifyRuns?: Array<{ cwd: string; results: VerifyCommandResult[] }>;
+  } = {}
+): RunParallelFixPhaseDependencies {
+  let running = 0;
+
+  return {
+    createSessionWorktreeAt: (_projectPath, worktreeId, startPoint) => {
+      state.createdWorktrees?.push({ worktreeId, startPoint });
+      return createSessionWorktree({
+        worktreeProjectPath: `/tmp/${worktreeId}`,
+        agentProjectPath: `/tmp/${worktreeId}`,
+      });
+    },
+    runBatchFixPhase: async ({ config, selection, worktree }) => {
+      state.groupConfigs?.push(config);
+      running += 1;
+      if (state.maxRunning) {
+        state.maxRunning.value = Math.max(state.maxRunning.value, running);
+      }
+      await Bun.sleep(1);
+      running -= 1;
+
+      if (state.failingWorktrees?.includes(worktree.worktreeProjectPath)) {
+        throw new Error("Fixer failed with exit code 1");
+      }
+      return {
+        phase: "batch-fix",
+        sessionStatus: "completed",
+        fixResults: selection.selectedFindingIds.map((findingId) => ({
+          findingId,
+          status: "resolved" as const,
+          summary: `Resolved ${findingId}`,
+        })),
+      };
+    },
+    applyWorktreeChanges: (sourceRepoPath, targetRepoPath, fromCommitSha) => {
+      expect(targetRepoPath).toBe("/tmp/worktree");
+      expect(fromCommitSha).toBe("remediation-start-sha");
+      state.appliedWorktrees?.push(sourceRepoPath);
+      return state.changesByWorktree?.[sourceRepoPath] ?? { status: "empty", files: [] };
+    },
+    discardSessionWorktree: (worktree) => {
+      state.discardedWorktrees?.push(worktree.worktreeProjectPath);
+    },
+    runVerifyCommands: async (_commands, cwd) => {
+      const run = state.verifyRuns?.find((candidate) => candidate.cwd === cwd);
+      if (!run) {
+        throw new Error(`Unexpected verify commands in ${cwd}`);
+      }
+      state.verifyRuns?.splice(state.verifyRuns.indexOf(run), 1);
+      return run.results;
+    },
+    appendLog: async (_logPath, entry) => {
+      state.appendedEntries?.push(entry);
+    },
+  };
+}
+
+function createOptions(findings: StoredFinding[], fixConcurrency?: number) {
+  return {
+    config: createReviewWorkflowConfig(
+      fixConcurrency === undefined ? {} : { review: { fixConcurrency } }
+    ),
+    artifact: createFindingsArtifact(findings),
+    selection: {
+      selectedFindingIds: findings.map((finding) => finding.id),
+      selectedFindings: findings,
+    },
+    worktree: createSessionWorktree({ remediationStartCommitSha: "remediation-start-sha" }),
+  };
+}
+
+describe("review-workflow/remediation/planFixGroups", () => {
+  test("groups findings by file in finding ID order", () => {
+    const groups = planFixGroups([
+      createFindingInFile("F003", "src/b.ts"),
+      createFindingInFile("F001", "src/a.ts"),
+      createFindingInFile("F002", "src/b.ts"),
+      createFindingInFile("F004", "src/a.ts"),
+    ]);
+
+    expect(
+      groups.map((group) => ({
+        index: group.index,
+        filePath: group.filePath,
+        ids: group.findings.map((finding) => finding.id),
+      }))
+    ).toEqual([
+      { index: 1, filePath: "src/a.ts", ids: ["F001", "F004"] },
+      { index: 2, filePath: "src/b.ts", ids: ["F002", "F003"] },
+    ]);
+  });
+});
+
+describe("review-workflow/remediation/runParallelFixPhase", () => {
+  test("fixes each file group in its own worktree and combines the changes in order", async () => {
+    const findings = ["F001", "F002", "F003", "F004"].map((id) =>
+      createFindingInFile(id as FindingId, `src/${id}.ts`)
+    );
+    const createdWorktrees: Array<{ worktreeId: string; startPoint: string }> = [];
+    const discardedWorktrees: string[] = [];
+    const appliedWorktrees: string[] = [];
+    const maxRunning = { value: 0 };
+
+    const result = await runParallelFixPhase(
+      createOptions(findings, 2),
+      createDependencies({
+        createdWorktrees,
+        discardedWorktrees,
+        appliedWorktrees,
+        maxRunning,
+        changesByWorktree: {
+          "/tmp/session-123-fix-1": { status: "applied", files: ["src/F001.ts"] },
+        },
+      })
+    );
+
+    expect(maxRunning.value).toBe(2);
+    expect(createdWorktrees).toHaveLength(4);
+    expect(createdWorktrees.every((entry) => entry.startPoint === "remediation-start-sha")).toBe(
+      true
+    );
+    expect(appliedWorktrees).toEqual([
+      "/tmp/session-123-fix-1",
+      "/tmp/session-123-fix-2",
+      "/tmp/session-123-fix-3",
+      "/tmp/session-123-fix-4",
+    ]);
+    expect(discardedWorktrees.sort()).toEqual([...appliedWorktrees].sort());
+    expect(result.fixResults.map((fixResult) => fixResult.status)).toEqual([
+      "resolved",
+      "resolved",
+      "resolved",
+      "resolved",
+    ]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  test("drops a group whose changes conflict and reports the findings it collided with", async () => {
+    const findings = [
+      createFindingInFile("F001", "src/a.ts"),
+      createFindingInFile("F002", "src/b.ts"),
+    ];
+    const appendedEntries: LogEntry[] = [];
+
+    const result = await runParallelFixPhase(
+      createOptions(findings),
+      createDependencies({
+        appendedEntries,
+        changesByWorktree: {
+          "/tmp/session-123-fix-1": { status: "applied", files: ["src/a.ts", "src/shared.ts"] },
+          "/tmp/session-123-fix-2": { status: "conflicted", files: ["src/b.ts", "src/shared.ts"] },
+        },
+      })
+    );
+
+    const conflict: FixConflict = {
+      findingIds: ["F002"],
+      files: ["src/shared.ts"],
+      conflictingFindingIds: ["F001"],
+    };
+    const droppedResult: FindingFixResult = {
+      findingId: "F002",
+      status: "unresolved",
+      summary:
+        "Fix conflicted with the fixes for F001 in src/shared.ts; its changes were dropped. Fixer reported: Resolved F002",
+    };
+    expect(result.conflicts).toEqual([conflict]);
+    expect(result.fixResults).toEqual([
+      { findingId: "F001", status: "resolved", summary: "Resolved F001" },
+      droppedResult,
+    ]);
+    expect(appendedEntries).toEqual([
+      expect.objectContaining({
+        type: "fix_conflict",
+        conflicts: [conflict],
+        fixResults: [droppedResult],
+      }),
+    ]);
+  });
+
+  test("keeps other groups when one fixer fails", async () => {
+    const findings = [
+      createFindingInFile("F001", "src/a.ts"),
+      createFindingInFile("F002", "src/b.ts"),
+    ];
+    const appliedWorktrees: string[] = [];
+
+    const result = await runParallelFixPhase(
+      createOptions(findings),
+      createDependencies({
+        appliedWorktrees,
+        failingWorktrees: ["/tmp/session-123-fix-1"],
+        changesByWorktree: {
+          "/tmp/session-123-fix-2": { status: "applied", files: ["src/b.ts"] },
+        },
+      })
+    );
+
+    expect(appliedWorktrees).toEqual(["/tmp/session-123-fix-2"]);
+    expect(result.fixResults).toEqual([
+      {
+        findingId: "F001",
+        status: "unresolved",
+        summary: "Parallel fixer failed: Fixer failed with exit code 1",
+      },
+      { findingId: "F002", status: "resolved", summary: "Resolved F002" },
+    ]);
+  });
+
+  test("gates the combined changes on verify commands once instead of per group", async () => {
+    const findings = [
+      createFindingInFile("F001", "src/a.ts"),
+      createFindingInFile("F002", "src/b.ts"),
+    ];
+    const before: VerifyCommandResult[] = [
+      { command: "bun test", exitCode: 0, output: "12 pass" },
+      { command: "bun run lint", exitCode: 1, output: "missing node_modules" },
+    ];
+    const after: VerifyCommandResult[] = [
+      { command: "bun test", exitCode: 1, output: "11 pass\n1 fail" },
+      { command: "bun run lint", exitCode: 1, output: "missing node_modules" },
+    ];
+    const verifyRuns = [
+      { cwd: "/tmp/worktree", results: before },
+      { cwd: "/tmp/worktree", results: after },
+    ];
+    const groupConfigs: Config[] = [];
+    const appendedEntries: LogEntry[] = [];
+    const options = createOptions(findings);
+    options.config.verify = { commands: ["bun test", "bun run lint"] };
+
+    const result = await runParallelFixPhase(
+      options,
+      createDependencies({ verifyRuns, groupConfigs, appendedEntries })
+    );
+
+    expect(verifyRuns).toEqual([]);
+    expect(groupConfigs.map((config) => config.verify)).toEqual([undefined, undefined]);
+    const gatedResults: FindingFixResult[] = (["F001", "F002"] as const).map((findingId) => ({
+      findingId,
+      status: "unresolved",
+      summary: `Verification failed after the fix: \`bun test\` (exit code 1). Fixer reported: Resolved ${findingId}`,
+    }));
+    expect(result.fixResults).toEqual(gatedResults);
+    expect(result.preExistingVerifyFailures).toEqual(before.slice(1));
+    expect(appendedEntries).toEqual([
+      expect.objectContaining({
+        type: "fix_verify",
+        verifyCommands: { before, after },
+        fixResults: gatedResults,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type RunVerifyPhaseDependencies,
+  runVerifyPhase,
+} from "@/lib/review-workflow/remediation/run-verify-phase";
+import type { LogEntry } from "@/lib/types";
+import {
+  createAgentResult,
+  createFindingsArtifact,
+  createMockAgentRegistry,
+  createReviewFinding,
+  createReviewParse,
+  createReviewSummary,
+  createReviewWorkflowConfig,
+  createSessionWorktree,
+  createStoredFinding,
+} from "../../../helpers/review-workflow";
+
+function createDependencies(
+  overrides: Partial<RunVerifyPhaseDependencies> = {}
+): RunVerifyPhaseDependencies {
+  return {
+    createVerificationReviewerPrompt: () => "VERIFY_PROMPT",
+    AGENTS: createMockAgentRegistry(),
+    runAgent: async () => createAgentResult({ output: "review output" }),
+    parseReviewSummaryOutput: () => createReviewParse(),
+    resolveSuppressionsPath: async () => "/repo/project/.ralph-review/suppressions.json",
+    loadFindingSuppressions: async () => [],
+    loadReviewGuidelinesOverrides: async () => [],
+    readLog: async () => [],
+    appendLog: async () => {},
+    ...overrides,
+  };
+}
+
+describe("review-workflow/remediation/runVerifyPhase", () => {
+  test("reviews the fixer's diff and tags net-new findings as regressions", async () => {
+    const fixedFinding = createStoredFinding("F001");
+    const openFinding = createStoredFinding("F002");
+    const artifact = createFindingsArtifact([fixedFinding, openFinding]);
+    const appendedEntries: LogEntry[] = [];
+
+    const result = await runVerifyPhase(
+      {
+        config: createReviewWorkflowConfig(),
+        artifact,
+        fixedFindings: [fixedFinding],
+        worktree: createSessionWorktree({ agentProjectPath: "/tmp/workspace" }),
+        round: 2,
+      },
+      createDependencies({
+        createVerificationReviewerPrompt: (options) => {
+          expect(options).toEqual({
+            baselineCommitSha: "baseline-sha-123",
+            fixedFindings: [fixedFinding],
+            knownFindings: [openFinding],
+            round: 2,
+            guidelinesOverrides: [],
+          });
+          return "VERIFY_PROMPT";
+        },
+        runAgent: async (role, _config, prompt, _timeout, _reviewOptions, cwd) => {
+          expect(role).toBe("reviewer");
+          expect(prompt).toBe("VERIFY_PROMPT");
+          expect(cwd).toBe("/tmp/workspace");
+          return createAgentResult({ output: "review output" });
+        },
+        parseReviewSummaryOutput: () =>
+          createReviewParse(
+            createReviewSummary([
+              createReviewFinding({
+                title: "Guard now skips cached entries",
+                code_location: {
+                  absolute_file_path: "/tmp/worktree/src/cache.ts",
+                  line_range: { start: 4, end: 6 },
+                },
+              }),
+            ])
+          ),
+        appendLog: async (_logPath, entry) => {
+          appendedEntries.push(entry);
+        },
+      })
+    );
+
+    expect(result.regressionFindings).toHaveLength(1);
+    expect(result.regressionFindings[0]).toMatchObject({
+      id: "F003",
+      title: "Guard now skips cached entries",
+      filePath: "src/cache.ts",
+      regressionRound: 2,
+    });
+    expect(appendedEntries).toEqual([
+      expect.objectContaining({
+        type: "verification_review",
+        round: 2,
+        findings: result.regressionFindings,
+      }),
+    ]);
+  });
+
+  test("does not report findings already in the inventory as regressions", async () => {
+    const artifact = createFindingsArtifact();
+
+    const result = await runVerifyPhase(
+      {
+        config: createReviewWorkflowConfig(),
+        artifact,
+        fixedFindings: [],
+        worktree: createSessionWorktree(),
+        round: 1,
+      },
+      createDependencies({
+        parseReviewSummaryOutput: () =>
+          createReviewParse(
+            createReviewSummary([
+              createReviewFinding({
+                title: "Finding F002",
+                body: "Body for F002",
+                code_location: {
+                  absolute_file_path: "/repo/project/src/file-F002.ts",
+                  line_range: { start: 10, end: 12 },
+                },
+              }),
+            ])
+          ),
+      })
+    );
+
+    expect(result.regressionFindings).toEqual([]);
+  });
+
+  test("applies the session's path scope and review guideline overrides", async () => {
+    const guidelinesOverrides = [
+      {
+        scope: "local" as const,
+        path: "/repo/project/.ralph-review/review.md",
+        mode: "append" as const,
+        content: "Do not flag TODO comments.",
+      },
+    ];
+    const systemEntry: LogEntry = {
+      type: "system",
+      timestamp: 1,
+      projectPath: "/repo/project",
+      reviewer: { agent: "codex" },
+      fixer: { agent: "codex" },
+      maxIterations: 5,
+      reviewOptions: { include: ["src/**"], exclude: ["src/generated/**"] },
+    };
+    const createRegression = (path: string) =>
+      createReviewFinding({
+        title: `Regression in ${path}`,
+        code_location: {
+          absolute_file_path: `/tmp/worktree/${path}`,
+          line_range: { start: 1, end: 2 },
+        },
+      });
+
+    const result = await runVerifyPhase(
+      {
+        config: createReviewWorkflowConfig(),
+        artifact: createFindingsArtifact(),
+        fixedFindings: [],
+        worktree: createSessionWorktree(),
+        round: 1,
+      },
+      createDependencies({
+        loadReviewGuidelinesOverrides: async (projectPath) => {
+          expect(projectPath).toBe("/repo/project");
+          return guidelinesOverrides;
+        },
+        readLog: async () => [systemEntry],
+        createVerificationReviewerPrompt: (options) => {
+          expect(options.guidelinesOverrides).toEqual(guidelinesOverrides);
+          return "VERIFY_PROMPT";
+        },
+        parseReviewSummaryOutput: () =>
+          createReviewParse(
+            createReviewSummary([
+              createRegression("docs/guide.md"),
+              createRegression("src/generated/client.ts"),
+              createRegression("src/cache.ts"),
+            ])
+          ),
+      })
+    );
+
+    expect(result.regressionFindings.map((finding) => finding.filePath)).toEqual(["src/cache.ts"]);
+  });
+
+  test("logs and rethrows verification reviewer failures", async () => {
+    const appendedEntries: LogEntry[] = [];
+
+    await expect(
+      runVerifyPhase(
+        {
+          config: createReviewWorkflowConfig(),
+          artifact: createFindingsArtifact(),
+          fixedFindings: [],
+          worktree: createSessionWorktree(),
+          round: 1,
+        },
+        createDependencies({
+          runAgent: async () => createAgentResult({ success: false, exitCode: 2 }),
+          appendLog: async (_logPath, entry) => {
+            appendedEntries.push(entry);
+          },
+        })
+      )
+    ).rejects.toThrow("Verification reviewer failed with exit code 2");
+    expect(appendedEntries).toEqual([
+      expect.objectContaining({
+        type: "verification_review",
+        findings: [],
+        error: { phase: "reviewer", message: "Verification reviewer failed with exit code 2" },
+      }),
+    ]);
+  });
+});
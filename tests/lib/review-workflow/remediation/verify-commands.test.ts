@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findNewVerifyFailures,
+  MAX_VERIFY_OUTPUT_LENGTH,
+  runVerifyCommands,
+} from "@/lib/review-workflow/remediation/verify-commands";
+
+describe("review-workflow/remediation/runVerifyCommands", () => {
+  test("runs every command in the worktree and keeps going after a failure", async () => {
+    const results = await runVerifyCommands(
+      ["echo checked; echo warning >&2; exit 3", "pwd"],
+      "/tmp",
+      5000
+    );
+
+    expect(results).toEqual([
+      {
+        command: "echo checked; echo warning >&2; exit 3",
+        exitCode: 3,
+        output: "checked\nwarning",
+      },
+      { command: "pwd", exitCode: 0, output: expect.stringContaining("tmp") },
+    ]);
+  });
+
+  test("keeps the tail of long output", async () => {
+    const [result] = await runVerifyCommands(
+      [`head -c ${MAX_VERIFY_OUTPUT_LENGTH + 100} /dev/zero | tr '\\0' a; echo END`],
+      "/tmp",
+      5000
+    );
+
+    expect(result?.output.startsWith("[output truncated]\n")).toBe(true);
+    expect(result?.output.endsWith("aEND")).toBe(true);
+  });
+
+  test("stops commands that run past the timeout", async () => {
+    const [result] = await runVerifyCommands(["sleep 5"], "/tmp", 50);
+
+    expect(result?.exitCode).not.toBe(0);
+    expect(result?.output).toBe("command timed out after 50ms");
+  });
+});
+
+describe("review-workflow/remediation/findNewVerifyFailures", () => {
+  test("reports only commands that passed before and fail after", () => {
+    expect(
+      findNewVerifyFailures(
+        [
+          { command: "bun test", exitCode: 0, output: "" },
+          { command: "bun run typecheck", exitCode: 2, output: "" },
+          { command: "bun run lint", exitCode: 0, output: "" },
+        ],
+        [
+          { command: "bun test", exitCode: 1, output: "1 fail" },
+          { command: "bun run typecheck", exitCode: 2, output: "" },
+          { command: "bun run lint", exitCode: 0, output: "" },
+        ]
+      )
+    ).toEqual([{ command: "bun test", exitCode: 1, output: "1 fail" }]);
+  });
+});
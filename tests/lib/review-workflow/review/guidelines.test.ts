@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  composeReviewGuidelines,
+  getActiveReviewGuidelinesOverrides,
+  getRepoReviewGuidelinesPath,
+  loadReviewGuidelinesOverrides,
+  parseReviewGuidelines,
+  type ReviewGuidelinesOverride,
+} from "@/lib/review-workflow/review/guidelines";
+
+function override(
+  scope: ReviewGuidelinesOverride["scope"],
+  mode: ReviewGuidelinesOverride["mode"],
+  content: string
+): ReviewGuidelinesOverride {
+  return { scope, mode, content, path: `/${scope}/review.md` };
+}
+
+describe("review-workflow/review/guidelines", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "ralph-guidelines-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("defaults to append mode without front matter", () => {
+    expect(parseReviewGuidelines("\n# Team rules\n")).toEqual({
+      mode: "append",
+      content: "# Team rules",
+    });
+  });
+
+  test("reads the mode from front matter", () => {
+    expect(parseReviewGuidelines("---\nmode: replace\n---\n# Team rules\n")).toEqual({
+      mode: "replace",
+      content: "# Team rules",
+    });
+    expect(parseReviewGuidelines('---\nmode: "append"\n---\nDo not flag TODOs.')).toEqual({
+      mode: "append",
+      content: "Do not flag TODOs.",
+    });
+  });
+
+  test("rejects unknown front matter keys and modes", () => {
+    expect(() => parseReviewGuidelines("---\nmode: merge\n---\nRules")).toThrow(
+      "Front matter mode must be one of: append, replace."
+    );
+    expect(() => parseReviewGuidelines("---\nseverity: high\n---\nRules")).toThrow(
+      'Unsupported front matter key "severity". Use: mode.'
+    );
+  });
+
+  test("layers overrides in order and lets replace drop earlier guidelines", () => {
+    expect(composeReviewGuidelines("Default", [override("global", "append", "Global")])).toBe(
+      "Default\n\nGlobal"
+    );
+    expect(
+      composeReviewGuidelines("Default", [
+        override("global", "append", "Global"),
+        override("local", "replace", "Repo"),
+      ])
+    ).toBe("Repo");
+    expect(
+      composeReviewGuidelines("Default", [
+        override("global", "replace", "Global"),
+        override("local", "append", "Repo"),
+      ])
+    ).toBe("Global\n\nRepo");
+    expect(composeReviewGuidelines("", [override("local", "append", "Repo")])).toBe("Repo");
+  });
+
+  test("reports only the overrides left active after the last replace", () => {
+    const global = override("global", "append", "Global");
+    const local = override("local", "replace", "Repo");
+
+    expect(getActiveReviewGuidelinesOverrides([global])).toEqual([global]);
+    expect(getActiveReviewGuidelinesOverrides([global, local])).toEqual([local]);
+  });
+
+  test("loads existing global and repo-local files from the repository root", async () => {
+    const configDir = join(tempDir, "config");
+    const repoRoot = join(tempDir, "repo");
+    await Bun.write(join(configDir, "review.md"), "Global rules\n");
+    await Bun.write(getRepoReviewGuidelinesPath(repoRoot), "---\nmode: replace\n---\nRepo rules\n");
+
+    const overrides = await loadReviewGuidelinesOverrides(join(repoRoot, "packages/app"), {
+      configDir,
+      repositoryRootResolver: async () => repoRoot,
+    });
+
+    expect(overrides).toEqual([
+      {
+        scope: "global",
+        path: join(configDir, "review.md"),
+        mode: "append",
+        content: "Global rules",
+      },
+      {
+        scope: "local",
+        path: join(repoRoot, ".ralph-review", "review.md"),
+        mode: "replace",
+        content: "Repo rules",
+      },
+    ]);
+  });
+
+  test("returns no overrides when neither file exists", async () => {
+    expect(
+      await loadReviewGuidelinesOverrides(tempDir, {
+        configDir: join(tempDir, "config"),
+        repositoryRootResolver: async () => undefined,
+      })
+    ).toEqual([]);
+  });
+
+  test("names the file when its front matter is invalid", async () => {
+    const path = getRepoReviewGuidelinesPath(tempDir);
+    await Bun.write(path, "---\nmode: merge\n---\nRules\n");
+
+    await expect(
+      loadReviewGuidelinesOverrides(tempDir, {
+        configDir: join(tempDir, "config"),
+        repositoryRootResolver: async () => tempDir,
+      })
+    ).rejects.toThrow(`Invalid review guidelines file ${path}`);
+  });
+});
@@ -9,6 +9,7 @@ function createFinding(title: string, startLine: number): Finding {
     body: `${title} body`,
     confidence_score: 0.91,
     priority: 2,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/repo/project/src/file.ts",
       line_range: { start: startLine, end: startLine + 1 },
@@ -118,4 +119,160 @@ describe("review-workflow/review/runReviewPhase", () => {
     ]);
     expect(entries.map((entry) => entry.netNewFindingIds)).toEqual([["F001"], ["F002"], []]);
   });
+
+  test("logs drifted duplicates as aliases of the surviving finding", async () => {
+    const entries: Array<Parameters<Parameters<typeof runReviewPhase>[0]["appendLog"]>[1]> = [];
+
+    const result = await runReviewPhase({
+      config: createReviewWorkflowConfig({ maxIterations: 2 }),
+      reviewOptions: {
+        forceMaxIterations: true,
+      },
+      projectPath: "/repo/project",
+      findingPathRoots: ["/repo/project"],
+      sessionPath: "/tmp/session.jsonl",
+      runReviewerIteration: async (iteration) => ({
+        findings: [
+          iteration === 1
+            ? createFinding("Guard missing config", 10)
+            : createFinding("Guard missing config value", 12),
+        ],
+        duration: 1,
+      }),
+      appendLog: async (_logPath, entry) => {
+        entries.push(entry);
+      },
+      updateSessionState: async () => true,
+      wasInterrupted: () => false,
+    });
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]?.aliases?.map((alias) => alias.title)).toEqual([
+      "Guard missing config value",
+    ]);
+    expect(entries[0]?.mergedAliases).toBeUndefined();
+    expect(entries[1]?.netNewFindingIds).toEqual([]);
+    expect(entries[1]?.mergedAliases).toEqual([
+      {
+        findingId: "F001",
+        alias: expect.objectContaining({ title: "Guard missing config value", startLine: 12 }),
+      },
+    ]);
+  });
+
+  test("logs findings filtered by the configured confidence floor", async () => {
+    const entries: Array<Parameters<Parameters<typeof runReviewPhase>[0]["appendLog"]>[1]> = [];
+
+    const result = await runReviewPhase({
+      config: createReviewWorkflowConfig({
+        maxIterations: 1,
+        review: { minConfidenceByPriority: { P2: 0.95 } },
+      }),
+      projectPath: "/repo/project",
+      findingPathRoots: ["/repo/project"],
+      sessionPath: "/tmp/session.jsonl",
+      runReviewerIteration: async () => ({
+        findings: [createFinding("Guard missing config", 10)],
+        duration: 1,
+      }),
+      appendLog: async (_logPath, entry) => {
+        entries.push(entry);
+      },
+      updateSessionState: async () => true,
+      wasInterrupted: () => false,
+    });
+
+    expect(result.findings).toEqual([]);
+    expect(entries[0]?.netNewFindingIds).toEqual([]);
+    expect(entries[0]?.filteredFindings).toEqual([
+      expect.objectContaining({
+        title: "Guard missing config",
+        priority: "P2",
+        confidenceScore: 0.91,
+        minConfidence: 0.95,
+      }),
+    ]);
+  });
+
+  test("logs the reviewer usage and agent count on the iteration entry", async () => {
+    const entries: Array<Parameters<Parameters<typeof runReviewPhase>[0]["appendLog"]>[1]> = [];
+    const usage = { inputTokens: 500, outputTokens: 40, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+    await runReviewPhase({
+      config: createReviewWorkflowConfig({ maxIterations: 1 }),
+      projectPath: "/repo/project",
+      findingPathRoots: ["/repo/project"],
+      sessionPath: "/tmp/session.jsonl",
+      runReviewerIteration: async () => ({ findings: [], duration: 1, usage, reviewerRuns: 4 }),
+      appendLog: async (_logPath, entry) => {
+        entries.push(entry);
+      },
+      updateSessionState: async () => true,
+      wasInterrupted: () => false,
+    });
+
+    expect(entries[0]?.usage).toEqual(usage);
+    expect(entries[0]?.reviewerRuns).toBe(4);
+  });
+
+  test("stops iterating once the cost budget is exhausted", async () => {
+    let calls = 0;
+
+    const result = await runReviewPhase({
+      config: { ...createReviewWorkflowConfig({ maxIterations: 5 }), budget: { maxCostUsd: 1 } },
+      projectPath: "/repo/project",
+      findingPathRoots: ["/repo/project"],
+      sessionPath: "/tmp/session.jsonl",
+      runReviewerIteration: async () => {
+        calls += 1;
+        return {
+          findings: [createFinding(`Issue ${calls}`, calls * 10)],
+          duration: 1,
+          usage: {
+            inputTokens: 500,
+            outputTokens: 40,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+            costUsd: 0.6,
+          },
+        };
+      },
+      appendLog: async () => {},
+      updateSessionState: async () => true,
+      wasInterrupted: () => false,
+    });
+
+    expect(calls).toBe(2);
+    expect(result.findings).toHaveLength(2);
+    expect(result.stopReason).toBe("budget-exhausted");
+    expect(result.budgetLimit).toBe("cost");
+  });
+
+  test("stops iterating once the wall-time budget is exhausted", async () => {
+    let clock = 0;
+    let calls = 0;
+
+    const result = await runReviewPhase({
+      config: {
+        ...createReviewWorkflowConfig({ maxIterations: 5 }),
+        budget: { maxWallTimeMs: 90_000 },
+      },
+      projectPath: "/repo/project",
+      findingPathRoots: ["/repo/project"],
+      sessionPath: "/tmp/session.jsonl",
+      runReviewerIteration: async () => {
+        calls += 1;
+        clock += 60_000;
+        return { findings: [createFinding(`Issue ${calls}`, calls * 10)], duration: 60_000 };
+      },
+      appendLog: async () => {},
+      updateSessionState: async () => true,
+      wasInterrupted: () => false,
+      now: () => clock,
+    });
+
+    expect(calls).toBe(2);
+    expect(result.stopReason).toBe("budget-exhausted");
+    expect(result.budgetLimit).toBe("wall-time");
+  });
 });
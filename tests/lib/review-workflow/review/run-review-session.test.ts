@@ -1,7 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import type { RunReviewSessionDependencies } from "@/lib/review-workflow/review/run-review-session";
 import { runReviewSession } from "@/lib/review-workflow/review/run-review-session";
-import type { ReviewOptions } from "@/lib/types";
+import { getPrimaryReviewerSettings, type ReviewOptions } from "@/lib/types";
 import {
   createAgentResult,
   createMockAgentRegistry,
@@ -16,8 +16,16 @@ function createDependencies(overrides: {
   runAgent: RunReviewSessionDependencies["runAgent"];
   createReviewerPrompt?: RunReviewSessionDependencies["createReviewerPrompt"];
   parseReviewSummaryOutput?: RunReviewSessionDependencies["parseReviewSummaryOutput"];
+  createSessionWorktreeAt?: RunReviewSessionDependencies["createSessionWorktreeAt"];
+  createSessionWorktreeFromSource?: RunReviewSessionDependencies["createSessionWorktreeFromSource"];
   deleteSessionRefs?: RunReviewSessionDependencies["deleteSessionRefs"];
   saveFindingsArtifact?: RunReviewSessionDependencies["saveFindingsArtifact"];
+  loadFindingSuppressions?: RunReviewSessionDependencies["loadFindingSuppressions"];
+  loadReviewGuidelinesOverrides?: RunReviewSessionDependencies["loadReviewGuidelinesOverrides"];
+  appendLog?: RunReviewSessionDependencies["appendLog"];
+  listChangedFileStats?: RunReviewSessionDependencies["listChangedFileStats"];
+  listRangeCommits?: RunReviewSessionDependencies["listRangeCommits"];
+  updateSessionState?: RunReviewSessionDependencies["updateSessionState"];
 }): RunReviewSessionDependencies {
   return {
     createReviewerPrompt: overrides.createReviewerPrompt ?? (() => "REVIEW_PROMPT"),
@@ -26,17 +34,33 @@ function createDependencies(overrides: {
     runAgent: overrides.runAgent,
     createCheckpoint: () => ({ kind: "clean", id: "checkpoint-1" }),
     createSessionWorktree: () => createSessionWorktree(),
+    createSessionWorktreeAt:
+      overrides.createSessionWorktreeAt ??
+      ((_projectPath, worktreeId) =>
+        createSessionWorktree({
+          worktreeProjectPath: `/tmp/${worktreeId}`,
+          agentProjectPath: `/tmp/${worktreeId}`,
+        })),
+    createSessionWorktreeFromSource:
+      overrides.createSessionWorktreeFromSource ?? (() => createSessionWorktree()),
     deleteSessionRefs: overrides.deleteSessionRefs ?? (() => {}),
     discardCheckpoint: () => {},
     discardSessionWorktree: () => {},
+    listChangedFileStats: overrides.listChangedFileStats ?? (() => []),
+    listRangeCommits: overrides.listRangeCommits ?? (() => []),
+    mergeBaseWithHead: () => "merge-base-sha",
     rollbackToCheckpoint: () => {},
-    updateSessionState: async () => true,
-    appendLog: async () => {},
+    updateSessionState: overrides.updateSessionState ?? (async () => true),
+    appendLog: overrides.appendLog ?? (async () => {}),
     createLogSession: async () => "/tmp/session-123.jsonl",
     getGitBranch: async () => "main",
     parseReviewSummaryOutput: overrides.parseReviewSummaryOutput ?? (() => createReviewParse()),
     saveFindingsArtifact:
       overrides.saveFindingsArtifact ?? (async (_storageRoot, artifact) => artifact),
+    resolveSuppressionsPath: async (projectPath) =>
+      `${projectPath}/.ralph-review/suppressions.json`,
+    loadFindingSuppressions: overrides.loadFindingSuppressions ?? (async () => []),
+    loadReviewGuidelinesOverrides: overrides.loadReviewGuidelinesOverrides ?? (async () => []),
   };
 }
 
@@ -173,6 +197,323 @@ describe("review-workflow/review/runReviewSession", () => {
     expect(createdWorktreeIds[0]).not.toBe(createdWorktreeIds[1]);
   });
 
+  test("runs ensemble reviewers in separate worktrees and records agreement", async () => {
+    const artifactRecorder = createArtifactRecorder();
+    const createdWorktrees: Array<{ worktreeId: string; startPoint: string }> = [];
+    const discardedWorktrees: string[] = [];
+    const agentRuns: Array<{ agent: string; cwd: string | undefined }> = [];
+    let parseCalls = 0;
+    const baseDeps = createDependencies({
+      runAgent: async (_role, config, _prompt, _timeout, _reviewOptions, cwd) => {
+        agentRuns.push({ agent: getPrimaryReviewerSettings(config.reviewer).agent, cwd });
+        return createAgentResult({ output: "structured output" });
+      },
+      createSessionWorktreeAt: (_projectPath, worktreeId, startPoint) => {
+        createdWorktrees.push({ worktreeId, startPoint });
+        return createSessionWorktree({
+          worktreeProjectPath: `/tmp/${worktreeId}`,
+          agentProjectPath: `/tmp/${worktreeId}`,
+        });
+      },
+      parseReviewSummaryOutput: () => {
+        parseCalls += 1;
+        return createReviewParse(
+          createReviewSummary(parseCalls <= 2 ? [createReviewFinding()] : [])
+        );
+      },
+      saveFindingsArtifact: artifactRecorder.saveFindingsArtifact,
+    });
+    const deps: RunReviewSessionDependencies = {
+      ...baseDeps,
+      discardSessionWorktree: (worktree) => {
+        discardedWorktrees.push(worktree.agentProjectPath);
+      },
+    };
+
+    const result = await runTestReviewSession(
+      deps,
+      undefined,
+      createReviewWorkflowConfig({ reviewer: [{ agent: "claude" }, { agent: "codex" }] })
+    );
+
+    expect(createdWorktrees).toEqual([
+      { worktreeId: "session-123-reviewer-2", startPoint: "baseline-sha-123" },
+    ]);
+    expect(agentRuns.slice(0, 2)).toEqual([
+      { agent: "claude", cwd: "/tmp/worktree" },
+      { agent: "codex", cwd: "/tmp/session-123-reviewer-2" },
+    ]);
+    expect(result.result.findings).toEqual([
+      expect.objectContaining({
+        id: "F001",
+        filePath: "src/file.ts",
+        reportedBy: ["claude", "codex"],
+        agreement: 2,
+      }),
+    ]);
+    expect(artifactRecorder.savedArtifacts.at(-1)?.findings[0]?.agreement).toBe(2);
+    expect(discardedWorktrees).toEqual(["/tmp/session-123-reviewer-2", "/tmp/worktree"]);
+  });
+
+  test("logs reviewer usage summed over the summary retry and every ensemble reviewer", async () => {
+    const loggedEntries: Array<Parameters<RunReviewSessionDependencies["appendLog"]>[1]> = [];
+    let parseCalls = 0;
+    const deps = createDependencies({
+      runAgent: async () =>
+        createAgentResult({
+          output: "structured output",
+          usage: { inputTokens: 100, outputTokens: 10, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        }),
+      parseReviewSummaryOutput: () => {
+        parseCalls += 1;
+        return parseCalls === 1
+          ? {
+              ok: false as const,
+              value: null,
+              source: null,
+              usedRepair: false,
+              failureReason: "missing summary",
+            }
+          : createReviewParse(createReviewSummary([]));
+      },
+      appendLog: async (_logPath, entry) => {
+        loggedEntries.push(entry);
+      },
+    });
+
+    await runTestReviewSession(
+      deps,
+      undefined,
+      createReviewWorkflowConfig({ reviewer: [{ agent: "claude" }, { agent: "codex" }] })
+    );
+
+    const iterationEntry = loggedEntries.find((entry) => entry.type === "review_iteration");
+    expect(iterationEntry?.type === "review_iteration" ? iterationEntry.usage : undefined).toEqual({
+      inputTokens: 300,
+      outputTokens: 30,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    });
+  });
+
+  test("stops with a budget reason once the reviewer exhausts the cost budget", async () => {
+    let agentRuns = 0;
+    let parseCalls = 0;
+    const deps = createDependencies({
+      runAgent: async () => {
+        agentRuns += 1;
+        return createAgentResult({
+          output: "structured output",
+          usage: {
+            inputTokens: 100,
+            outputTokens: 10,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+            costUsd: 1.5,
+          },
+        });
+      },
+      parseReviewSummaryOutput: () => {
+        parseCalls += 1;
+        return createReviewParse(
+          createReviewSummary([
+            createReviewFinding({
+              code_location: {
+                absolute_file_path: "/repo/project/src/file.ts",
+                line_range: { start: parseCalls * 10, end: parseCalls * 10 + 1 },
+              },
+            }),
+          ])
+        );
+      },
+    });
+
+    const result = await runTestReviewSession(
+      deps,
+      undefined,
+      createReviewWorkflowConfig({ maxIterations: 3, budget: { maxCostUsd: 1 } })
+    );
+
+    expect(agentRuns).toBe(1);
+    expect(result.result.reviewOutcome).toBe("findings-pending");
+    expect(result.result.budgetLimit).toBe("cost");
+    expect(result.result.reason).toBe(
+      "Review stopped after the cost budget of $1.00 was exhausted: findings pending."
+    );
+  });
+
+  test("reviews large base diffs in concurrent shards and tracks shard progress", async () => {
+    const prompts: Array<{ cwd: string | undefined; files: string[] | undefined }> = [];
+    const agentCwds: Array<string | undefined> = [];
+    const shardUpdates: unknown[] = [];
+    let parseCalls = 0;
+    const deps = createDependencies({
+      runAgent: async (_role, _config, _prompt, _timeout, _reviewOptions, cwd) => {
+        agentCwds.push(cwd);
+        return createAgentResult({ output: "structured output" });
+      },
+      createReviewerPrompt: (options) => {
+        prompts.push({ cwd: options.repoPath, files: options.shard?.files });
+        return "REVIEW_PROMPT";
+      },
+      listChangedFileStats: () => [
+        { path: "src/a.ts", changedLines: 80 },
+        { path: "src/b.ts", changedLines: 90 },
+        { path: "docs/skipped.md", changedLines: 500 },
+      ],
+      parseReviewSummaryOutput: () => {
+        parseCalls += 1;
+        return createReviewParse(
+          createReviewSummary(parseCalls === 1 ? [createReviewFinding()] : [])
+        );
+      },
+      updateSessionState: async (_storageRoot, _projectPath, _sessionId, updates) => {
+        if (updates.reviewShards) {
+          shardUpdates.push(updates.reviewShards);
+        }
+        return true;
+      },
+    });
+
+    const result = await runTestReviewSession(
+      deps,
+      { baseBranch: "main", include: ["src/**"] },
+      createReviewWorkflowConfig({ review: { shardThreshold: 100, maxShards: 4 } })
+    );
+
+    expect(prompts.slice(0, 2)).toEqual([
+      { cwd: "/tmp/worktree", files: ["src/a.ts"] },
+      { cwd: "/tmp/session-123-shard-2", files: ["src/b.ts"] },
+    ]);
+    expect(agentCwds.slice(0, 2)).toEqual(["/tmp/worktree", "/tmp/session-123-shard-2"]);
+    expect(result.result.findings).toEqual([
+      expect.objectContaining({ id: "F001", filePath: "src/file.ts" }),
+    ]);
+    expect(result.result.findings[0]?.reportedBy).toBeUndefined();
+    expect(shardUpdates[0]).toEqual([
+      { index: 1, fileCount: 1, changedLines: 80, status: "pending" },
+      { index: 2, fileCount: 1, changedLines: 90, status: "pending" },
+    ]);
+    expect(shardUpdates.at(-1)).toEqual([
+      { index: 1, fileCount: 1, changedLines: 80, status: "completed", findingCount: 0 },
+      { index: 2, fileCount: 1, changedLines: 90, status: "completed", findingCount: 0 },
+    ]);
+    expect(shardUpdates).toContainEqual([
+      { index: 1, fileCount: 1, changedLines: 80, status: "completed", findingCount: 1 },
+      { index: 2, fileCount: 1, changedLines: 90, status: "completed", findingCount: 0 },
+    ]);
+  });
+
+  test("keeps small base diffs in a single reviewer pass", async () => {
+    const prompts: Array<string[] | undefined> = [];
+    const createdWorktrees: string[] = [];
+    const deps = createDependencies({
+      runAgent: async () => createAgentResult(),
+      createReviewerPrompt: (options) => {
+        prompts.push(options.shard?.files);
+        return "REVIEW_PROMPT";
+      },
+      createSessionWorktreeAt: (_projectPath, worktreeId) => {
+        createdWorktrees.push(worktreeId);
+        return createSessionWorktree();
+      },
+      listChangedFileStats: () => [
+        { path: "src/a.ts", changedLines: 40 },
+        { path: "src/b.ts", changedLines: 40 },
+      ],
+    });
+
+    await runTestReviewSession(
+      deps,
+      { baseBranch: "main" },
+      createReviewWorkflowConfig({ review: { shardThreshold: 100 } })
+    );
+
+    expect(prompts[0]).toBeUndefined();
+    expect(createdWorktrees).toEqual([]);
+  });
+
+  test("reviews each commit in turn and tags findings with the commit SHA", async () => {
+    const reviewedCommits: Array<string | undefined> = [];
+    const rangeRequests: Array<[string, string, string]> = [];
+    let parseCalls = 0;
+    const deps = createDependencies({
+      runAgent: async () => createAgentResult({ output: "structured output" }),
+      createReviewerPrompt: (options) => {
+        reviewedCommits.push(options.commit?.sha);
+        return "REVIEW_PROMPT";
+      },
+      listRangeCommits: (repoPath, from, to) => {
+        rangeRequests.push([repoPath, from, to]);
+        return [
+          { sha: "aaa111", subject: "Add parser" },
+          { sha: "bbb222", subject: "Wire parser" },
+        ];
+      },
+      parseReviewSummaryOutput: () => {
+        parseCalls += 1;
+        const path = parseCalls === 1 ? "/repo/project/src/parser.ts" : "/repo/project/src/cli.ts";
+        return createReviewParse(
+          createReviewSummary(
+            parseCalls <= 2
+              ? [
+                  createReviewFinding({
+                    code_location: { absolute_file_path: path, line_range: { start: 1, end: 2 } },
+                  }),
+                ]
+              : []
+          )
+        );
+      },
+    });
+
+    const result = await runTestReviewSession(deps, { baseBranch: "main", eachCommit: true });
+
+    expect(rangeRequests).toEqual([["/repo/project", "merge-base-sha", "HEAD"]]);
+    expect(reviewedCommits.slice(0, 2)).toEqual(["aaa111", "bbb222"]);
+    expect(result.result.findings.map((finding) => [finding.filePath, finding.commitSha])).toEqual([
+      ["src/parser.ts", "aaa111"],
+      ["src/cli.ts", "bbb222"],
+    ]);
+  });
+
+  test("fails an each-commit review when the range has no commits", async () => {
+    const deps = createDependencies({ runAgent: async () => createAgentResult() });
+
+    const result = await runTestReviewSession(deps, {
+      range: "from-sha..to-sha",
+      eachCommit: true,
+    });
+
+    expect(result.result.sessionStatus).toBe("failed");
+    expect(result.result.reason).toBe(
+      "Review failed: No commits to review between from-sha and to-sha."
+    );
+  });
+
+  test("reviews a patch file in a worktree built from the patch", async () => {
+    const sources: unknown[] = [];
+    let prompted: string | undefined;
+    const deps = createDependencies({
+      runAgent: async () => createAgentResult(),
+      createReviewerPrompt: (options) => {
+        prompted = options.patchFile;
+        return "REVIEW_PROMPT";
+      },
+      createSessionWorktreeFromSource: (_projectPath, worktreeId, source) => {
+        sources.push({ worktreeId, source });
+        return createSessionWorktree();
+      },
+    });
+
+    await runTestReviewSession(deps, { patchFile: "/tmp/changes.diff" });
+
+    expect(sources).toEqual([
+      { worktreeId: "session-123", source: { kind: "patch", patchPath: "/tmp/changes.diff" } },
+    ]);
+    expect(prompted).toBe("/tmp/changes.diff");
+  });
+
   test("classifies exit code 130 as interrupted even without parent SIGINT", async () => {
     const deps = createDependencies({
       runAgent: async () => createAgentResult({ success: false, exitCode: 130 }),
@@ -279,6 +620,86 @@ describe("review-workflow/review/runReviewSession", () => {
     ]);
   });
 
+  test("drops suppressed findings and records them in the review iteration log", async () => {
+    const loadedPaths: string[] = [];
+    const loggedEntries: Array<Parameters<RunReviewSessionDependencies["appendLog"]>[1]> = [];
+    const deps = createDependencies({
+      runAgent: async () => createAgentResult({ output: "structured output" }),
+      parseReviewSummaryOutput: () =>
+        createReviewParse(createReviewSummary([createReviewFinding(), createCacheReviewFinding()])),
+      loadFindingSuppressions: async (path) => {
+        loadedPaths.push(path);
+        return [{ title: "stale cache", reason: "Cache is rebuilt on every request" }];
+      },
+      appendLog: async (_logPath, entry) => {
+        loggedEntries.push(entry);
+      },
+    });
+
+    const result = await runTestReviewSession(deps);
+
+    expect(loadedPaths).toEqual(["/repo/project/.ralph-review/suppressions.json"]);
+    expect(result.result.findings.map((finding) => finding.filePath)).toEqual(["src/file.ts"]);
+    const iterationEntry = loggedEntries.find((entry) => entry.type === "review_iteration");
+    expect(iterationEntry).toMatchObject({
+      suppressedFindings: [
+        {
+          title: "Avoid stale cache",
+          filePath: "src/cache.ts",
+          reason: "Cache is rebuilt on every request",
+        },
+      ],
+    });
+  });
+
+  test("fails the review when the suppressions file is invalid", async () => {
+    let runAgentCalls = 0;
+    const deps = createDependencies({
+      runAgent: async () => {
+        runAgentCalls += 1;
+        return createAgentResult({ output: "structured output" });
+      },
+      loadFindingSuppressions: async () => {
+        throw new Error("Suppressions file is not valid JSON: suppressions.json");
+      },
+    });
+
+    const result = await runTestReviewSession(deps);
+
+    expect(runAgentCalls).toBe(0);
+    expect(result.result.sessionStatus).toBe("failed");
+    expect(result.result.reason).toContain("Suppressions file is not valid JSON");
+  });
+
+  test("passes repo review guidelines overrides to every reviewer prompt", async () => {
+    const overrides = [
+      {
+        scope: "local" as const,
+        path: "/repo/.ralph-review/review.md",
+        mode: "replace" as const,
+        content: "# Team guidelines",
+      },
+    ];
+    const loadedProjectPaths: string[] = [];
+    const promptOptions: Parameters<RunReviewSessionDependencies["createReviewerPrompt"]>[0][] = [];
+    const deps = createDependencies({
+      runAgent: async () => createAgentResult({ output: "structured output" }),
+      loadReviewGuidelinesOverrides: async (projectPath) => {
+        loadedProjectPaths.push(projectPath);
+        return overrides;
+      },
+      createReviewerPrompt: (options) => {
+        promptOptions.push(options);
+        return "REVIEW_PROMPT";
+      },
+    });
+
+    await runTestReviewSession(deps);
+
+    expect(loadedProjectPaths).toEqual(["/repo/project"]);
+    expect(promptOptions.map((options) => options.guidelinesOverrides)).toEqual([overrides]);
+  });
+
   test("updates the same findings artifact with accumulated findings across iterations", async () => {
     const artifactRecorder = createArtifactRecorder();
     const deps = createDependencies({
@@ -300,6 +721,43 @@ describe("review-workflow/review/runReviewSession", () => {
     ).toEqual([["F001"], ["F001", "F002"], ["F001", "F002"]]);
   });
 
+  test("persists merged aliases on the surviving finding in the findings artifact", async () => {
+    const artifactRecorder = createArtifactRecorder();
+    let parseCalls = 0;
+    const deps = createDependencies({
+      runAgent: async () => createAgentResult({ output: "structured output" }),
+      parseReviewSummaryOutput: () => {
+        parseCalls += 1;
+        return createReviewParse(
+          createReviewSummary([
+            parseCalls === 1
+              ? createReviewFinding()
+              : createReviewFinding({
+                  title: "Guard missing config value",
+                  code_location: {
+                    absolute_file_path: "/repo/project/src/file.ts",
+                    line_range: { start: 14, end: 16 },
+                  },
+                }),
+          ])
+        );
+      },
+      saveFindingsArtifact: artifactRecorder.saveFindingsArtifact,
+    });
+
+    await runTestReviewSession(
+      deps,
+      { forceMaxIterations: true },
+      createReviewWorkflowConfig({ maxIterations: 2 })
+    );
+
+    const lastArtifact = artifactRecorder.savedArtifacts.at(-1);
+    expect(lastArtifact?.findings.map((finding) => finding.id)).toEqual(["F001"]);
+    expect(lastArtifact?.findings[0]?.aliases).toEqual([
+      expect.objectContaining({ title: "Guard missing config value", startLine: 14, endLine: 16 }),
+    ]);
+  });
+
   test("preserves findings artifact when an interrupted reviewer run happens after progress", async () => {
     const artifactRecorder = createArtifactRecorder();
     const deletedSessionRefs: string[] = [];
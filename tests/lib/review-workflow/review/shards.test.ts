@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatReviewShardInstruction,
+  planReviewShards,
+} from "@/lib/review-workflow/review/shards";
+
+describe("review-workflow/review/shards", () => {
+  test("keeps diffs at or below the threshold in a single pass", () => {
+    expect(
+      planReviewShards(
+        [
+          { path: "src/a.ts", changedLines: 1000 },
+          { path: "src/b.ts", changedLines: 500 },
+        ],
+        undefined
+      )
+    ).toEqual([]);
+  });
+
+  test("groups files in path order into balanced shards", () => {
+    const shards = planReviewShards(
+      [
+        { path: "src/d.ts", changedLines: 40 },
+        { path: "src/a.ts", changedLines: 60 },
+        { path: "src/c.ts", changedLines: 50 },
+        { path: "src/b.ts", changedLines: 50 },
+      ],
+      { shardThreshold: 100, maxShards: 4 }
+    );
+
+    expect(shards).toEqual([
+      { index: 1, count: 2, files: ["src/a.ts", "src/b.ts"], changedLines: 110 },
+      { index: 2, count: 2, files: ["src/c.ts", "src/d.ts"], changedLines: 90 },
+    ]);
+  });
+
+  test("caps the shard count at maxShards and the number of files", () => {
+    const files = Array.from({ length: 6 }, (_, index) => ({
+      path: `src/file-${index}.ts`,
+      changedLines: 100,
+    }));
+
+    expect(planReviewShards(files, { shardThreshold: 10, maxShards: 3 })).toHaveLength(3);
+    expect(
+      planReviewShards([{ path: "src/huge.ts", changedLines: 5000 }], { shardThreshold: 10 })
+    ).toEqual([]);
+    expect(planReviewShards(files, { shardThreshold: 10, maxShards: 1 })).toEqual([]);
+  });
+
+  test("gives every shard at least one file", () => {
+    const shards = planReviewShards(
+      [
+        { path: "src/a.ts", changedLines: 900 },
+        { path: "src/b.ts", changedLines: 1 },
+        { path: "src/c.ts", changedLines: 1 },
+      ],
+      { shardThreshold: 100, maxShards: 3 }
+    );
+
+    expect(shards.map((shard) => shard.files)).toEqual([["src/a.ts"], ["src/b.ts"], ["src/c.ts"]]);
+  });
+
+  test("lists the shard files in the reviewer instruction", () => {
+    const instruction = formatReviewShardInstruction({
+      index: 2,
+      count: 3,
+      files: ["src/b.ts", "src/c.ts"],
+      changedLines: 640,
+    });
+
+    expect(instruction).toContain("You are reviewing shard 2 of 3");
+    expect(instruction).toContain("covers 2 changed files (640 changed lines)");
+    expect(instruction).toEndWith("- src/b.ts\n- src/c.ts");
+  });
+});
@@ -79,6 +79,7 @@ function createStoredFinding() {
     title: "Missing guard",
     body: "Body",
     priority: "P1" as const,
+    category: "correctness" as const,
     confidenceScore: 0.91,
     filePath: "src/file.ts",
     startLine: 10,
@@ -53,6 +53,7 @@ const REVIEWER_EXPECTED_VALUE = {
       body: "Config access can throw when the optional field is missing.",
       confidence_score: 0.88,
       priority: 1,
+      category: "reliability",
       code_location: {
         absolute_file_path: "/repo/src/lib/config.ts",
         line_range: {
@@ -34,6 +34,7 @@ function createStoredFinding(id: `F${string}`, priority: StoredFinding["priority
     title: `Finding ${id}`,
     body: `Body for ${id}`,
     priority,
+    category: "correctness",
     confidenceScore: 0.97,
     filePath: "src/config.ts",
     startLine: 10,
@@ -54,6 +55,14 @@ function createLastSessionStats(
     totalFixes: 0,
     totalSkipped: 0,
     priorityCounts: { P0: 1, P1: 0, P2: 0, P3: 0 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 2,
     entries: [
       {
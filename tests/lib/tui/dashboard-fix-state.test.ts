@@ -26,6 +26,14 @@ function createSessionStats(overrides: Partial<SessionStats> = {}): SessionStats
     totalFixes: 0,
     totalSkipped: 0,
     priorityCounts: { P0: 1, P1: 0, P2: 0, P3: 0 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 2,
     entries: [createSystemEntry()],
     reviewer: "claude",
@@ -47,6 +55,7 @@ function createFinding(id = "F001") {
     title: `Finding ${id}`,
     body: "Body",
     priority: "P0" as const,
+    category: "correctness" as const,
     confidenceScore: 0.91,
     filePath: "src/file.ts",
     startLine: 10,
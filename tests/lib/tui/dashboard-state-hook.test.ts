@@ -51,6 +51,7 @@ function createFinding(title: string): Finding {
     body: "Details",
     confidence_score: 0.9,
     priority: 1,
+    category: "correctness",
     code_location: {
       absolute_file_path: "/tmp/example.ts",
       line_range: { start: 10, end: 12 },
@@ -109,6 +110,14 @@ function createSessionStats(entries: (SystemEntry | IterationEntry)[]): SessionS
     totalFixes: 2,
     totalSkipped: 1,
     priorityCounts: { P0: 0, P1: 1, P2: 1, P3: 1 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 2,
     entries,
     reviewer: "codex",
@@ -129,6 +138,14 @@ function createProjectStats(sessions: SessionStats[]): ProjectStats {
     totalFixes: 2,
     totalSkipped: 1,
     priorityCounts: { P0: 0, P1: 1, P2: 1, P3: 1 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     sessionCount: sessions.length,
     averageIterations: 2,
     fixRate: 0.66,
@@ -57,6 +57,7 @@ describe("selectLatestReviewFromEntries", () => {
               body: "Missing null guard in status panel.",
               confidence_score: 0.9,
               priority: 1,
+              category: "correctness",
               code_location: {
                 absolute_file_path: "/tmp/session.tsx",
                 line_range: { start: 42, end: 44 },
@@ -112,6 +113,7 @@ describe("selectLatestReviewFromEntries", () => {
               body: "Found during the iteration review.",
               confidence_score: 0.8,
               priority: 2,
+              category: "correctness",
               code_location: {
                 absolute_file_path: "/tmp/iteration.ts",
                 line_range: { start: 12, end: 14 },
@@ -136,6 +138,7 @@ describe("selectLatestReviewFromEntries", () => {
               body: "Still present after the final reviewer classification.",
               confidence_score: 0.9,
               priority: 1,
+              category: "correctness",
               code_location: {
                 absolute_file_path: "/tmp/terminal.ts",
                 line_range: { start: 21, end: 23 },
@@ -211,6 +214,7 @@ describe("mergeHeavyRefreshState", () => {
           body: "Missing null guard in status panel.",
           confidence_score: 0.9,
           priority: 1,
+          category: "correctness",
           code_location: {
             absolute_file_path: "/tmp/session.tsx",
             line_range: { start: 42, end: 44 },
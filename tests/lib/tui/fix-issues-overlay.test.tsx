@@ -21,6 +21,7 @@ function createFinding(
     title: `[${priority}] Finding ${id}`,
     body: `Body for ${id}`,
     priority,
+    category: "correctness" as const,
     confidenceScore: 0.91,
     filePath: `src/file-${id}.ts`,
     startLine: 10,
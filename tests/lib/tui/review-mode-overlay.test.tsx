@@ -3,7 +3,7 @@ import { KeyEvent } from "@opentui/core";
 import { testRender } from "@opentui/react/test-utils";
 import { act, createElement } from "react";
 import { buildReviewRunArgs, ReviewModeOverlay } from "@/lib/tui/dashboard/ReviewModeOverlay";
-import type { DefaultReview } from "@/lib/types";
+import type { DefaultReview, ReviewProfile } from "@/lib/types";
 
 const CUSTOM_INSTRUCTIONS_PLACEHOLDER_FRAME = "Focus on security boundaries";
 
@@ -58,6 +58,7 @@ describe("ReviewModeOverlay", () => {
   async function renderOverlay(
     props: {
       defaultReview?: DefaultReview;
+      profiles?: Record<string, ReviewProfile>;
       onClose?: () => void;
       onSubmit?: (args: string[]) => void;
     } = {},
@@ -525,6 +526,52 @@ describe("ReviewModeOverlay", () => {
     expect(submitted).toEqual([["--uncommitted", "--max", "5", "--force"]]);
   });
 
+  test("submits the selected profile with its iteration limit", async () => {
+    const submitted: string[][] = [];
+    const setup = await renderOverlay(
+      {
+        profiles: { security: { maxIterations: 2 }, tests: {} },
+        onSubmit: (args) => {
+          submitted.push(args);
+        },
+      },
+      { width: 120, height: 40 }
+    );
+
+    await emitKey(setup, "return");
+    for (let index = 0; index < 5; index += 1) {
+      await emitKey(setup, "down");
+    }
+    await act(async () => {
+      await setup.renderOnce();
+    });
+    await emitKey(setup, "right");
+    await act(async () => {
+      await setup.renderOnce();
+    });
+
+    expect(setup.captureCharFrame()).toContain("Profile: security");
+
+    for (let index = 0; index < 3; index += 1) {
+      await emitKey(setup, "up");
+    }
+    await act(async () => {
+      await setup.renderOnce();
+    });
+
+    await emitKey(setup, "return");
+
+    expect(submitted).toEqual([["--uncommitted", "--max", "2", "--profile", "security"]]);
+  });
+
+  test("hides the profile row when no profiles are configured", async () => {
+    const setup = await renderOverlay({}, { width: 120, height: 40 });
+
+    await emitKey(setup, "return");
+
+    expect(setup.captureCharFrame()).not.toContain("Profile");
+  });
+
   test("shows force in the preview only when enabled", async () => {
     const setup = await renderOverlay({}, { width: 120, height: 30 });
 
@@ -21,6 +21,14 @@ function buildSessionStats(overrides: Partial<SessionStats> = {}): SessionStats
     totalFixes: 2,
     totalSkipped: 1,
     priorityCounts: { P0: 0, P1: 1, P2: 1, P3: 0 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 2,
     totalDuration: 154000,
     entries: [],
@@ -735,6 +743,7 @@ describe("SessionOverlay", () => {
                   title: "Guard missing config",
                   body: "Null check is missing",
                   priority: "P0",
+                  category: "correctness",
                   confidenceScore: 0.97,
                   filePath: "src/config.ts",
                   startLine: 10,
@@ -915,6 +924,14 @@ describe("SessionDetailPane", () => {
       totalSkipped: 1,
       iterations: 2,
       priorityCounts: { P0: 0, P1: 1, P2: 2, P3: 0 },
+      categoryCounts: {
+        correctness: 0,
+        security: 0,
+        performance: 0,
+        reliability: 0,
+        maintainability: 0,
+        tests: 0,
+      },
     });
 
     const setup = await renderDetailPane(stats);
@@ -954,6 +971,7 @@ describe("SessionDetailPane", () => {
                 "Null check is missing before reading project settings, so the workflow can crash " +
                 "instead of showing the configured fallback path.",
               priority: "P0",
+              category: "correctness",
               confidenceScore: 0.97,
               filePath: "src/config.ts",
               startLine: 10,
@@ -965,6 +983,7 @@ describe("SessionDetailPane", () => {
               title: "Avoid stale cache",
               body: "Cache can be stale",
               priority: "P2",
+              category: "correctness",
               confidenceScore: 0.92,
               filePath: "src/cache.ts",
               startLine: 20,
@@ -1042,6 +1061,7 @@ describe("SessionDetailPane", () => {
             body: "foo may be null",
             confidence_score: 0.9,
             priority: 1,
+            category: "correctness",
             code_location: {
               absolute_file_path: "src/lib/foo.ts",
               line_range: { start: 42, end: 48 },
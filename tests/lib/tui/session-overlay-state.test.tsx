@@ -28,6 +28,14 @@ function buildSessionStats(overrides: Partial<SessionStats> = {}): SessionStats
     totalFixes: 0,
     totalSkipped: 0,
     priorityCounts: { P0: 0, P1: 0, P2: 0, P3: 0 },
+    categoryCounts: {
+      correctness: 0,
+      security: 0,
+      performance: 0,
+      reliability: 0,
+      maintainability: 0,
+      tests: 0,
+    },
     iterations: 1,
     entries: [],
     reviewer: "claude",
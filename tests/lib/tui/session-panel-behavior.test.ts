@@ -13,6 +13,7 @@ describe("SessionPanel behavior", () => {
     body: "Race condition can hide updates in the panel.",
     confidence_score: 0.8,
     priority: 1,
+    category: "correctness" as const,
     code_location: {
       absolute_file_path: "/tmp/foo.ts",
       line_range: { start: 10, end: 12 },
@@ -16,6 +16,7 @@ import {
   formatRelativeTime,
   formatRetainedWorktreeMergeCommand,
   formatRetainedWorktreeOutcome,
+  formatReviewShardDisplay,
   formatSessionIdentityDisplay,
 } from "@/lib/tui/sessions/session-display";
 import type {
@@ -144,6 +145,7 @@ describe("SessionPanel helpers", () => {
       body: `${title} body`,
       confidence_score: 0.91,
       priority,
+      category: "correctness",
       code_location: {
         absolute_file_path: "/test/project/src/file.ts",
         line_range: { start: 10, end: 12 },
@@ -195,6 +197,7 @@ describe("SessionPanel helpers", () => {
               title: "Old finding",
               body: "old",
               priority: "P2",
+              category: "correctness",
               confidenceScore: 0.8,
               filePath: "src/old.ts",
               startLine: 1,
@@ -216,6 +219,7 @@ describe("SessionPanel helpers", () => {
               title: "Latest finding",
               body: "latest",
               priority: "P0",
+              category: "correctness",
               confidenceScore: 0.94,
               filePath: "src/latest.ts",
               startLine: 3,
@@ -440,6 +444,30 @@ describe("SessionPanel helpers", () => {
     });
   });
 
+  describe("formatReviewShardDisplay", () => {
+    test("summarizes shard statuses with one detail line per shard", () => {
+      expect(
+        formatReviewShardDisplay([
+          { index: 1, fileCount: 4, changedLines: 900, status: "completed", findingCount: 1 },
+          { index: 2, fileCount: 1, changedLines: 700, status: "running" },
+          { index: 3, fileCount: 2, changedLines: 650, status: "failed" },
+        ])
+      ).toEqual({
+        summary: "1/3 done · 1 running · 1 failed",
+        details: [
+          "#1 completed · 4 files · 900 lines · 1 finding",
+          "#2 running · 1 file · 700 lines",
+          "#3 failed · 2 files · 650 lines",
+        ],
+      });
+    });
+
+    test("returns null for unsharded reviews", () => {
+      expect(formatReviewShardDisplay(undefined)).toBeNull();
+      expect(formatReviewShardDisplay([])).toBeNull();
+    });
+  });
+
   describe("retained worktree guidance", () => {
     test("returns merge command only when the retained worktree is merge-ready", () => {
       expect(formatRetainedWorktreeMergeCommand("rr-worktree-session-1", true)).toBe(
@@ -475,6 +503,17 @@ describe("SessionPanel helpers", () => {
       expect(formatHandoffSummary("applied-manual", "commit-sha-1")).toBe(
         "Applied manually · commit-sha-1"
       );
+      expect(formatHandoffSummary("applied-partial", "commit-sha-1")).toBe(
+        "Partially applied · commit-sha-1"
+      );
+      expect(formatHandoffSummary("applied-commit", "commit-sha-1")).toBe(
+        "Committed · commit-sha-1"
+      );
+      expect(formatHandoffSummary("applied-branch", "commit-sha-1")).toBe(
+        "Committed to a branch · commit-sha-1"
+      );
+      expect(formatHandoffSummary("rebased", "commit-sha-1")).toBe("Rebased · commit-sha-1");
+      expect(formatHandoffSummary("reverted", "commit-sha-1")).toBe("Reverted · commit-sha-1");
       expect(formatHandoffSummary("discarded", "commit-sha-1")).toBe("Discarded · commit-sha-1");
     });
 
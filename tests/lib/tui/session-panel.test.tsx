@@ -52,6 +52,7 @@ describe("DetailPane", () => {
       body: "The title contains trailing spaces.",
       confidence_score: 0.92,
       priority: 1,
+      category: "correctness",
       code_location: {
         absolute_file_path: "/test/project/src/file.ts",
         line_range: { start: 10, end: 12 },
@@ -70,6 +71,7 @@ describe("DetailPane", () => {
       title: `Finding ${id}`,
       body: `Body for ${id}`,
       priority: "P1",
+      category: "correctness",
       confidenceScore: 0.9,
       filePath: `src/file-${id}.ts`,
       startLine: 10,
@@ -85,6 +87,14 @@ describe("DetailPane", () => {
       totalFixes: 3,
       totalSkipped: 1,
       priorityCounts: { P0: 0, P1: 1, P2: 1, P3: 1 },
+      categoryCounts: {
+        correctness: 0,
+        security: 0,
+        performance: 0,
+        reliability: 0,
+        maintainability: 0,
+        tests: 0,
+      },
       sessionCount: 2,
       averageIterations: 1.5,
       fixRate: 0.75,
@@ -127,6 +137,14 @@ describe("DetailPane", () => {
       totalFixes: 3,
       totalSkipped: 1,
       priorityCounts: { P0: 1, P1: 1, P2: 1, P3: 1 },
+      categoryCounts: {
+        correctness: 0,
+        security: 0,
+        performance: 0,
+        reliability: 0,
+        maintainability: 0,
+        tests: 0,
+      },
       iterations: 2,
       totalDuration: 258_000,
       entries: [
@@ -531,6 +549,7 @@ describe("DetailPane", () => {
       title: "Guard missing config",
       body: "Null check is missing",
       priority: "P0",
+      category: "correctness",
       confidenceScore: 0.97,
       filePath: "src/config.ts",
     });
@@ -538,6 +557,7 @@ describe("DetailPane", () => {
       title: "Avoid stale cache",
       body: "Cache can be stale",
       priority: "P2",
+      category: "correctness",
       confidenceScore: 0.91,
       filePath: "src/cache.ts",
       startLine: 20,
@@ -567,6 +587,7 @@ describe("DetailPane", () => {
           title: "Regression in cache invalidation",
           body: "Fix introduced a cache regression",
           priority: "P1",
+          category: "correctness",
           confidenceScore: 0.88,
           filePath: "src/cache.ts",
           startLine: 30,
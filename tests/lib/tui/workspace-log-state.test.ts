@@ -48,6 +48,7 @@ describe("deriveWorkspaceLogData", () => {
               body: "First finding body",
               confidence_score: 0.8,
               priority: 1,
+              category: "correctness",
               code_location: {
                 absolute_file_path: "/repo/project/src/a.ts",
                 line_range: { start: 1, end: 2 },
@@ -128,6 +129,7 @@ describe("deriveWorkspaceLogData", () => {
             title: "Guard missing config",
             body: "Missing null guard",
             priority: "P0",
+            category: "correctness",
             confidenceScore: 0.99,
             filePath: "src/config.ts",
             startLine: 10,
@@ -139,6 +141,7 @@ describe("deriveWorkspaceLogData", () => {
             title: "Avoid stale cache",
             body: "Cache can be stale",
             priority: "P2",
+            category: "correctness",
             confidenceScore: 0.88,
             filePath: "src/cache.ts",
             startLine: 20,
@@ -160,6 +163,7 @@ describe("deriveWorkspaceLogData", () => {
             title: "Handle partial write",
             body: "Writes can be partial",
             priority: "P1",
+            category: "correctness",
             confidenceScore: 0.91,
             filePath: "src/write.ts",
             startLine: 30,
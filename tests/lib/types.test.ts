@@ -3,6 +3,8 @@ import {
   CONFIG_SCHEMA_URI,
   CONFIG_VERSION,
   type Config,
+  getPrimaryReviewerSettings,
+  getReviewerSettingsList,
   type IterationResult,
   isAgentRole,
   isAgentType,
@@ -57,7 +59,7 @@ describe("type definitions", () => {
       defaultReview: { type: "uncommitted" },
       notifications: { sound: { enabled: false } },
     };
-    expect(config.reviewer.agent).toBe("codex");
+    expect(getPrimaryReviewerSettings(config.reviewer).agent).toBe("codex");
     expect(config.fixer.agent).toBe("claude");
     expect(config.maxIterations).toBe(10);
   });
@@ -85,3 +87,18 @@ describe("type definitions", () => {
     expect(result.output).toBe("No issues found");
   });
 });
+
+describe("reviewer settings", () => {
+  test("normalizes single reviewers and ensembles", () => {
+    const single = { agent: "codex" } as const;
+    const ensemble: [{ agent: "claude" }, { agent: "codex" }] = [
+      { agent: "claude" },
+      { agent: "codex" },
+    ];
+
+    expect(getReviewerSettingsList(single)).toEqual([single]);
+    expect(getReviewerSettingsList(ensemble)).toEqual(ensemble);
+    expect(getPrimaryReviewerSettings(single)).toBe(single);
+    expect(getPrimaryReviewerSettings(ensemble)).toEqual({ agent: "claude" });
+  });
+});
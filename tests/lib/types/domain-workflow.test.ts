@@ -31,6 +31,7 @@ describe("workflow domain types", () => {
       title: "Guard null",
       body: "Body",
       priority: "P1",
+      category: "correctness",
       confidenceScore: 0.5,
       filePath: "src/file.ts",
       startLine: 1,
@@ -9,6 +9,7 @@ describe("isReviewSummary", () => {
         body: "Body",
         confidence_score: 0.75,
         priority: 1,
+        category: "security",
         code_location: {
           absolute_file_path: "/tmp/file.ts",
           line_range: { start: 10, end: 12 },
@@ -64,6 +65,17 @@ describe("isReviewSummary", () => {
     ).toBe(false);
   });
 
+  test("returns false when category is missing or unknown", () => {
+    const { category: _category, ...uncategorized } = validSummary.findings[0];
+    expect(isReviewSummary({ ...validSummary, findings: [uncategorized] })).toBe(false);
+    expect(
+      isReviewSummary({
+        ...validSummary,
+        findings: [{ ...validSummary.findings[0], category: "style" }],
+      })
+    ).toBe(false);
+  });
+
   test("returns false when code_location is not an object", () => {
     expect(
       isReviewSummary({